@@ -1,3 +1,4 @@
+-- Orders index as originally deployed
 CREATE TABLE IF NOT EXISTS orders (
     id TEXT PRIMARY KEY,
     token_id INTEGER NOT NULL,
@@ -10,4 +11,4 @@ CREATE TABLE IF NOT EXISTS orders (
 
 CREATE INDEX IF NOT EXISTS idx_token_id ON orders(token_id);
 CREATE INDEX IF NOT EXISTS idx_status ON orders(status);
-CREATE INDEX IF NOT EXISTS idx_created_at ON orders(created_at);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_created_at ON orders(created_at);
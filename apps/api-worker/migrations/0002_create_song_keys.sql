@@ -0,0 +1,8 @@
+-- Per-token song keys, wrapped (ECIES) for the creator, the key escrow and the current holder
+CREATE TABLE IF NOT EXISTS song_keys (
+    token_id INTEGER NOT NULL,
+    recipient TEXT NOT NULL,
+    wrapped_key TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (token_id, recipient)
+);
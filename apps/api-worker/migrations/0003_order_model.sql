@@ -0,0 +1,35 @@
+-- Full order model: plaintext indexing fields, indexer state, and token ids that
+-- are NULL until the mint is confirmed but otherwise unique.
+-- SQLite can't relax NOT NULL or add a constraint in place, so the table is rebuilt.
+
+CREATE TABLE orders_new (
+    id TEXT PRIMARY KEY,
+    -- NULL until the upload's mint is confirmed
+    token_id INTEGER UNIQUE,
+    arweave_id TEXT,
+    song_arweave_id TEXT,
+    -- uploaded -> pending -> fulfilled; orphaned if never minted, unconfirmed if the mint was reorged away
+    status TEXT NOT NULL DEFAULT 'pending',
+    created_at TEXT NOT NULL,
+    fulfilled_at TEXT,
+    allow_publication INTEGER NOT NULL DEFAULT 0,
+    order_type TEXT,
+    ordered_by TEXT,
+    -- Maintained by the event indexer (src/indexer.ts)
+    holder TEXT,
+    indexed_block INTEGER
+);
+
+-- Keep the newest row for any token id that was stored twice
+INSERT INTO orders_new (id, token_id, arweave_id, song_arweave_id, status, created_at, fulfilled_at)
+SELECT id, token_id, arweave_id, song_arweave_id, status, created_at, fulfilled_at
+FROM orders
+WHERE rowid IN (SELECT MAX(rowid) FROM orders GROUP BY token_id);
+
+DROP TABLE orders;
+ALTER TABLE orders_new RENAME TO orders;
+
+CREATE INDEX idx_status ON orders(status);
+CREATE INDEX idx_created_at ON orders(created_at);
+CREATE INDEX idx_arweave_id ON orders(arweave_id);
+CREATE INDEX idx_indexed_block ON orders(indexed_block);
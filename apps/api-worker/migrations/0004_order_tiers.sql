@@ -0,0 +1,11 @@
+-- Orders reference the contract's owner-managed tiers by id instead of the old
+-- birthday/natal type. The launch tiers keep their enum values (0 and 1).
+
+ALTER TABLE orders ADD COLUMN tier_id INTEGER;
+
+UPDATE orders SET tier_id = CASE order_type
+    WHEN 'birthday' THEN 0
+    WHEN 'natal' THEN 1
+END;
+
+ALTER TABLE orders DROP COLUMN order_type;
@@ -0,0 +1,4 @@
+-- Public preview clips: an unencrypted excerpt the creator uploads alongside
+-- the full song, served only for orders whose buyer allowed publication.
+
+ALTER TABLE orders ADD COLUMN preview_arweave_id TEXT;
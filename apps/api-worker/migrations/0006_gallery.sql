@@ -0,0 +1,6 @@
+-- Public gallery of published songs. The recipient's first name is the only
+-- part of the encrypted order copied here, and only for consented orders.
+
+ALTER TABLE orders ADD COLUMN recipient_first_name TEXT;
+
+CREATE INDEX idx_gallery ON orders(allow_publication, status, fulfilled_at);
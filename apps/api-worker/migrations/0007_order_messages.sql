@@ -0,0 +1,17 @@
+-- Per-token message threads between the creator and a song's buyer and holder.
+-- Bodies are encrypted in the sender's browser; wrapped_keys is a JSON map of
+-- recipient ('creator' or a checksummed address) to the message key wrapped for them.
+CREATE TABLE IF NOT EXISTS order_messages (
+    id TEXT PRIMARY KEY,
+    token_id INTEGER NOT NULL,
+    sender TEXT NOT NULL,
+    -- creator, buyer or holder at the time of sending
+    sender_role TEXT NOT NULL,
+    -- message or revision (a change request for a delivered song)
+    kind TEXT NOT NULL DEFAULT 'message',
+    ciphertext TEXT NOT NULL,
+    wrapped_keys TEXT NOT NULL,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_messages_token ON order_messages(token_id, created_at);
@@ -0,0 +1,9 @@
+-- Target delivery dates. deliver_by (YYYY-MM-DD) is chosen by the buyer and
+-- kept in plaintext so the dashboard can sort by urgency and the worker can
+-- hold a song's reveal until that day; the cron notifies the holder once.
+
+ALTER TABLE orders ADD COLUMN deliver_by TEXT;
+ALTER TABLE orders ADD COLUMN reveal_on_delivery INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN reveal_notified_at TEXT;
+
+CREATE INDEX idx_deliver_by ON orders(deliver_by);
@@ -0,0 +1,151 @@
+/**
+ * On-chain reads for the Birthday Songs API Worker
+ *
+ * Talks to the BirthdaySongs contract through the RPC configured in
+ * wrangler.toml (RPC_URL), so local development can point at anvil
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  createPublicClient,
+  http,
+  parseAbi,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from 'viem'
+
+export interface ChainEnv {
+  RPC_URL: string
+  CHAIN_ID: string
+  CONTRACT_ADDRESS: string
+}
+
+export const BIRTHDAY_SONGS_ABI = parseAbi([
+  'struct TierStyle { string emoji; string colorFrom; string colorTo; string description; }',
+  'struct Tier { string name; uint256 price; uint256 supplyLimit; uint256 minted; bool active; bool birthChart; TierStyle style; }',
+  'struct Order { uint256 tierId; string orderDataUri; address orderedBy; uint256 orderedAt; uint256 pricePaid; bool fulfilled; uint256 fulfilledAt; string songUri; bool refunded; uint256 refundableAt; }',
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function owner() view returns (address)',
+  'function getOrder(uint256 tokenId) view returns (Order)',
+  'function getTiers() view returns (Tier[])',
+  'function totalOrders() view returns (uint256)',
+  'function voucherRedemptions(bytes32 codeHash) view returns (uint256)',
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+  'event OrderCreated(uint256 indexed tokenId, address indexed orderedBy, uint256 tierId, string orderDataUri, uint256 pricePaid)',
+  'event OrderFulfilled(uint256 indexed tokenId, string songUri)',
+  'event OrderRefunded(uint256 indexed tokenId, address indexed refundedTo, uint256 amount)',
+])
+
+export interface ChainOrder {
+  tierId: bigint
+  orderDataUri: string
+  orderedBy: Address
+  orderedAt: bigint
+  pricePaid: bigint
+  fulfilled: boolean
+  fulfilledAt: bigint
+  songUri: string
+  refunded: boolean
+  refundableAt: bigint
+}
+
+/**
+ * Create a viem client for the configured chain and RPC
+ */
+export function getPublicClient(env: ChainEnv): PublicClient {
+  const chainId = Number(env.CHAIN_ID)
+
+  return createPublicClient({
+    chain: {
+      id: chainId,
+      name: `chain-${chainId}`,
+      nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+      rpcUrls: { default: { http: [env.RPC_URL] } },
+    },
+    transport: http(env.RPC_URL),
+  })
+}
+
+/**
+ * Holder of a token (at blockNumber, default latest), or null if it wasn't minted
+ */
+export async function getTokenOwner(env: ChainEnv, tokenId: bigint, blockNumber?: bigint): Promise<Address | null> {
+  const client = getPublicClient(env)
+
+  try {
+    return await client.readContract({
+      address: env.CONTRACT_ADDRESS as Address,
+      abi: BIRTHDAY_SONGS_ABI,
+      functionName: 'ownerOf',
+      args: [tokenId],
+      blockNumber,
+    })
+  } catch (error) {
+    // ownerOf reverts with ERC721NonexistentToken for unminted ids
+    if (isContractRevert(error)) return null
+    throw error
+  }
+}
+
+/**
+ * On-chain order for a token (at blockNumber, default latest), or null if it wasn't minted
+ */
+export async function getOrder(env: ChainEnv, tokenId: bigint, blockNumber?: bigint): Promise<ChainOrder | null> {
+  const client = getPublicClient(env)
+
+  try {
+    return await client.readContract({
+      address: env.CONTRACT_ADDRESS as Address,
+      abi: BIRTHDAY_SONGS_ABI,
+      functionName: 'getOrder',
+      args: [tokenId],
+      blockNumber,
+    })
+  } catch (error) {
+    // getOrder reverts with ERC721NonexistentToken for unminted ids
+    if (isContractRevert(error)) return null
+    throw error
+  }
+}
+
+/**
+ * Current owner of the BirthdaySongs contract
+ */
+export async function getContractOwner(env: ChainEnv): Promise<Address> {
+  return getPublicClient(env).readContract({
+    address: env.CONTRACT_ADDRESS as Address,
+    abi: BIRTHDAY_SONGS_ABI,
+    functionName: 'owner',
+  })
+}
+
+/**
+ * Number of song tiers on the contract, inactive ones included
+ */
+export async function getTierCount(env: ChainEnv): Promise<number> {
+  const tiers = await getPublicClient(env).readContract({
+    address: env.CONTRACT_ADDRESS as Address,
+    abi: BIRTHDAY_SONGS_ABI,
+    functionName: 'getTiers',
+  })
+  return tiers.length
+}
+
+/**
+ * How many times the voucher with this code hash has been redeemed
+ */
+export async function getVoucherRedemptions(env: ChainEnv, codeHash: Hex): Promise<number> {
+  const redemptions = await getPublicClient(env).readContract({
+    address: env.CONTRACT_ADDRESS as Address,
+    abi: BIRTHDAY_SONGS_ABI,
+    functionName: 'voucherRedemptions',
+    args: [codeHash],
+  })
+  return Number(redemptions)
+}
+
+function isContractRevert(error: unknown): boolean {
+  return error instanceof BaseError && Boolean(error.walk((e) => e instanceof ContractFunctionRevertedError))
+}
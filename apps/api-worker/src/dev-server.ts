@@ -8,39 +8,32 @@
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
 import { serve } from '@hono/node-server'
+import { base64ToBytes, bytesToBase64, deriveKeyPair, unwrapSongKey, wrapSongKey } from '@birthday-songs/encryption'
+import { isRevealDue } from './orders'
 
 // Supply limits
-const SUPPLY_LIMITS = {
-  birthday: 25,  // Birthday Song - Venezuelan or English ($25)
-  natal: 25,     // Natal Chart Song ($250)
-}
+// Mirrors the contract's launch tiers; a tier's id is its index
+const MOCK_TIERS = [
+  { name: 'Birthday Song', supplyLimit: 25 },     // $25
+  { name: 'Natal Chart Song', supplyLimit: 25 },  // $250
+]
 
 // In-memory storage simulation
 const mockStorage = {
   orders: new Map<string, any>(),
   songs: new Map<string, any>(),
+  vouchers: new Map<string, any>(),
+  metadata: new Map<string, any>(),
+  previews: new Map<number, { data: Uint8Array; contentType: string }>(),
+  messages: new Map<number, any[]>(),
   balance: 1000000, // Mock winc balance
+  creatorPublicKey: null as string | null,
+  holderPublicKey: null as string | null,
+  nextTokenId: 0,
 }
 
-// Types
-interface OrderData {
-  type: 'birthday' | 'natal'
-  recipientName: string
-  birthDate?: string
-  birthTime?: string
-  birthLocation?: string
-  relationship?: string
-  interests?: string
-  sunSign?: string
-  risingSign?: string
-  moonSign?: string
-  musicalStyle?: string
-  message?: string
-  orderedBy: string
-  orderedAt: string
-  allowPublication: boolean
-  tokenId?: number
-}
+// Fixed escrow key for local testing only
+const mockEscrowKeyPair = deriveKeyPair(new TextEncoder().encode('birthday-songs-dev-escrow'))
 
 // Initialize Hono app
 const app = new Hono()
@@ -49,7 +42,7 @@ const app = new Hono()
 app.use('*', cors({
   origin: ['http://localhost:3000', 'http://localhost:3001', 'http://localhost:3002', 'http://localhost:3003'],
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE'],
-  allowHeaders: ['Content-Type', 'Authorization']
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Song-Key-Creator', 'X-Song-Key-Escrow', 'X-Song-Length']
 }))
 
 // Health check
@@ -67,40 +60,31 @@ app.get('/', (c) => {
 function getSupplyCount() {
   const orders = Array.from(mockStorage.orders.values())
   
-  const birthdayCount = orders.filter(order => 
-    order.metadata?.type === 'birthday'
-  ).length
+  const tiers = MOCK_TIERS.map((tier, tierId) => {
+    const minted = orders.filter(order => order.metadata?.tierId === tierId).length
+    return {
+      tierId,
+      name: tier.name,
+      minted,
+      remaining: Math.max(0, tier.supplyLimit - minted),
+      limit: tier.supplyLimit,
+      soldOut: minted >= tier.supplyLimit
+    }
+  })
   
-  const natalCount = orders.filter(order => 
-    order.metadata?.type === 'natal'
-  ).length
+  const minted = tiers.reduce((sum, tier) => sum + tier.minted, 0)
+  const limit = tiers.reduce((sum, tier) => sum + tier.limit, 0)
 
   return {
-    birthday: {
-      minted: birthdayCount,
-      remaining: Math.max(0, SUPPLY_LIMITS.birthday - birthdayCount),
-      limit: SUPPLY_LIMITS.birthday,
-      soldOut: birthdayCount >= SUPPLY_LIMITS.birthday
-    },
-    natal: {
-      minted: natalCount,
-      remaining: Math.max(0, SUPPLY_LIMITS.natal - natalCount),
-      limit: SUPPLY_LIMITS.natal,
-      soldOut: natalCount >= SUPPLY_LIMITS.natal
-    },
+    tiers,
     total: {
-      minted: birthdayCount + natalCount,
-      remaining: Math.max(0, (SUPPLY_LIMITS.birthday + SUPPLY_LIMITS.natal) - (birthdayCount + natalCount)),
-      limit: SUPPLY_LIMITS.birthday + SUPPLY_LIMITS.natal
+      minted,
+      remaining: Math.max(0, limit - minted),
+      limit
     }
   }
 }
 
-function checkSupplyAvailable(type: 'birthday' | 'natal'): boolean {
-  const supply = getSupplyCount()
-  return !supply[type].soldOut
-}
-
 // Check mock balance
 app.get('/api/balance', async (c) => {
   return c.json({
@@ -110,6 +94,61 @@ app.get('/api/balance', async (c) => {
   })
 })
 
+// Mock Farcaster lookup: every username resolves to a deterministic fake address
+app.get('/api/farcaster/user', (c) => {
+  const query = c.req.query('q')?.trim().replace(/^@/, '').toLowerCase()
+  if (!query) {
+    return c.json({ error: 'Missing username or FID' }, 400)
+  }
+  
+  const fid = /^\d+$/.test(query) ? Number(query) : query.length * 1000
+  return c.json({
+    success: true,
+    user: {
+      fid,
+      username: /^\d+$/.test(query) ? `fid${query}` : query,
+      displayName: null,
+      pfpUrl: null,
+      address: `0x${fid.toString(16).padStart(40, '0')}`
+    }
+  })
+})
+
+// Mock vouchers: stored as-is, signatures aren't checked and nothing is redeemed
+app.get('/api/vouchers/:code', (c) => {
+  const voucher = mockStorage.vouchers.get(c.req.param('code').trim().toUpperCase())
+  if (!voucher) {
+    return c.json({ error: 'Unknown promo code' }, 404)
+  }
+  if (voucher.expiresAt * 1000 <= Date.now()) {
+    return c.json({ error: 'This promo code has expired' }, 410)
+  }
+  return c.json({ success: true, voucher: { ...voucher, redemptions: 0 } })
+})
+
+app.get('/api/vouchers', (c) => {
+  const vouchers = Array.from(mockStorage.vouchers.values())
+    .map(voucher => ({ ...voucher, redemptions: 0 }))
+    .reverse()
+  return c.json({ success: true, vouchers })
+})
+
+app.put('/api/vouchers', async (c) => {
+  const input = await c.req.json()
+  const code = String(input.code ?? '').trim().toUpperCase()
+  if (!/^[A-Z0-9-]{3,32}$/.test(code)) {
+    return c.json({ error: 'Codes are 3-32 letters, digits or dashes' }, 400)
+  }
+  if (mockStorage.vouchers.has(code)) {
+    return c.json({ error: 'A voucher with this code already exists' }, 400)
+  }
+  
+  const voucher = { ...input, code, createdAt: new Date().toISOString() }
+  mockStorage.vouchers.set(code, voucher)
+  console.log(`🏷️ Voucher ${code} published (${voucher.discountBps / 100}% off)`)
+  return c.json({ success: true, voucher })
+})
+
 // Get supply status
 app.get('/api/supply', async (c) => {
   return c.json({
@@ -138,48 +177,68 @@ app.post('/api/fund', async (c) => {
   }
 })
 
+// Creator encryption public key (mock - no auth in dev)
+app.get('/api/settings/creator-key', (c) => {
+  if (!mockStorage.creatorPublicKey) {
+    return c.json({ error: 'Creator key not published yet' }, 404)
+  }
+  return c.json({ success: true, publicKey: mockStorage.creatorPublicKey })
+})
+
+app.put('/api/settings/creator-key', async (c) => {
+  const { publicKey } = await c.req.json()
+  mockStorage.creatorPublicKey = publicKey
+  return c.json({ success: true, publicKey })
+})
+
+// Key escrow public key (mock)
+app.get('/api/settings/escrow-key', (c) => {
+  return c.json({ success: true, publicKey: mockEscrowKeyPair.publicKey })
+})
+
+// Register holder public key (mock - no auth in dev, so there is a single holder)
+app.put('/api/keys/holder', async (c) => {
+  const { publicKey } = await c.req.json()
+  mockStorage.holderPublicKey = publicKey
+  return c.json({ success: true })
+})
+
 // Upload encrypted order data (mock)
 app.post('/api/orders/upload', async (c) => {
   try {
-    const { encryptedData, driveId, metadata, orderData } = await c.req.json()
+    const { encryptedData, metadata } = await c.req.json()
     
     // Check supply limits
-    if (!checkSupplyAvailable(metadata.type)) {
-      const supply = getSupplyCount()
-      const tierName = metadata.type === 'birthday' ? 'Birthday Songs' : 'Natal Chart Songs'
-      const tierSupply = supply[metadata.type as keyof typeof supply] as { minted: number; limit: number; soldOut: boolean }
+    const tier = getSupplyCount().tiers[metadata?.tierId]
+    if (!tier) {
+      return c.json({ error: 'Unknown tier' }, 400)
+    }
+    if (tier.soldOut) {
       return c.json({ 
-        error: `${tierName} are sold out! (${tierSupply.minted}/${tierSupply.limit})` 
+        error: `${tier.name}s are sold out! (${tier.minted}/${tier.limit})` 
       }, 400)
     }
     
     // Generate mock ArDrive ID
     const arweaveId = `mock-order-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
     
-    // For dev mode, generate a mock tokenId if not provided
-    const tokenId = metadata.tokenId || Date.now()
-    
-    // Store in mock storage
+    // Token id is assigned by /api/orders/confirm, as it would be after a real mint
     mockStorage.orders.set(arweaveId, {
       id: arweaveId,
       encryptedData,
-      driveId,
-      metadata: { ...metadata, tokenId },
-      orderData,
-      tokenId,
-      status: 'pending',
+      metadata,
+      tokenId: null,
+      status: 'uploaded',
       createdAt: new Date().toISOString()
     })
     
-    const supply = getSupplyCount()
-    const tierSupply = supply[metadata.type as keyof typeof supply] as { minted: number; limit: number; soldOut: boolean }
-    console.log(`📝 Mock order uploaded: ${arweaveId} | ${metadata.type} (${tierSupply.minted}/${tierSupply.limit})`)
+    const tierSupply = getSupplyCount().tiers[metadata.tierId]
+    console.log(`📝 Mock order uploaded: ${arweaveId} | ${tierSupply.name} (${tierSupply.minted}/${tierSupply.limit})`)
     
     return c.json({
       success: true,
       arweaveId,
       uri: `ardrive://${arweaveId}`,
-      tokenId,
       cost: '100', // Mock cost
       supply: tierSupply
     })
@@ -190,10 +249,52 @@ app.post('/api/orders/upload', async (c) => {
   }
 })
 
+// Confirm a mint (mock): there is no chain, so bind the newest unminted upload
+app.post('/api/orders/confirm', async (c) => {
+  const { txHash } = await c.req.json()
+  
+  const order = Array.from(mockStorage.orders.values())
+    .filter((o) => o.status === 'uploaded')
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0]
+  if (!order) {
+    return c.json({ error: 'No order was minted in this transaction' }, 400)
+  }
+  
+  order.tokenId = mockStorage.nextTokenId++
+  order.status = 'pending'
+  console.log(`🔗 Mock mint confirmed: ${order.id} -> token ${order.tokenId} (${txHash})`)
+  
+  return c.json({ success: true, orders: [{ tokenId: order.tokenId, arweaveId: order.id }] })
+})
+
+// Remove orphaned uploads (mock)
+app.delete('/api/orders/orphans/:id', (c) => {
+  const order = mockStorage.orders.get(c.req.param('id'))
+  if (order?.status !== 'orphaned') {
+    return c.json({ error: 'Orphaned upload not found' }, 404)
+  }
+  mockStorage.orders.delete(order.id)
+  return c.json({ success: true, deleted: 1 })
+})
+
+app.delete('/api/orders/orphans', (c) => {
+  let deleted = 0
+  for (const [id, order] of mockStorage.orders) {
+    if (order.status === 'orphaned' && mockStorage.orders.delete(id)) deleted++
+  }
+  return c.json({ success: true, deleted })
+})
+
 // Upload encrypted song (mock)
 app.post('/api/songs/upload', async (c) => {
   try {
-    const { encryptedData, tokenId, songKey, metadata } = await c.req.json()
+    // Song body is the encrypted stream; buffering it is fine for local testing
+    const tokenId = Number(c.req.query('tokenId'))
+    const wrappedKeys = {
+      creator: c.req.header('X-Song-Key-Creator'),
+      escrow: c.req.header('X-Song-Key-Escrow'),
+    }
+    const encryptedSong = bytesToBase64(new Uint8Array(await c.req.arrayBuffer()))
     
     // Generate mock ArDrive ID
     const arweaveId = `mock-song-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
@@ -201,10 +302,9 @@ app.post('/api/songs/upload', async (c) => {
     // Store in mock storage
     mockStorage.songs.set(arweaveId, {
       id: arweaveId,
-      encryptedData,
+      encryptedData: encryptedSong,
       tokenId,
-      songKey,
-      metadata,
+      wrappedKeys,
       createdAt: new Date().toISOString()
     })
     
@@ -213,7 +313,6 @@ app.post('/api/songs/upload', async (c) => {
       if (order.tokenId === tokenId) {
         order.status = 'fulfilled'
         order.songArweaveId = arweaveId
-        order.songKey = songKey
         order.fulfilledAt = new Date().toISOString()
         break
       }
@@ -225,7 +324,6 @@ app.post('/api/songs/upload', async (c) => {
       success: true,
       arweaveId,
       uri: `ardrive://${arweaveId}`,
-      songKey,
       cost: '500' // Mock cost
     })
     
@@ -235,6 +333,144 @@ app.post('/api/songs/upload', async (c) => {
   }
 })
 
+// Upload a public preview clip (mock)
+app.post('/api/songs/:tokenId/preview', async (c) => {
+  try {
+    const tokenId = Number(c.req.param('tokenId'))
+    const order = [...mockStorage.orders.values()].find((o) => o.tokenId === tokenId)
+    
+    if (!order) {
+      return c.json({ error: 'Order not found' }, 404)
+    }
+    if (!order.metadata?.allowPublication) {
+      return c.json({ error: 'Buyer did not allow publication' }, 403)
+    }
+    
+    mockStorage.previews.set(tokenId, {
+      data: new Uint8Array(await c.req.arrayBuffer()),
+      contentType: c.req.header('Content-Type') || 'audio/mpeg',
+    })
+    
+    const arweaveId = `mock-preview-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    console.log(`🎧 Mock preview uploaded: ${arweaveId} for token ${tokenId}`)
+    
+    return c.json({
+      success: true,
+      arweaveId,
+      uri: new URL(`/api/previews/${tokenId}`, c.req.url).toString()
+    })
+  } catch (error) {
+    console.error('Mock preview upload failed:', error)
+    return c.json({ error: 'Failed to upload preview' }, 500)
+  }
+})
+
+// Public preview clip (mock)
+app.get('/api/previews/:tokenId', (c) => {
+  const preview = mockStorage.previews.get(Number(c.req.param('tokenId')))
+  if (!preview) {
+    return c.json({ error: 'Preview not available' }, 404)
+  }
+  
+  return new Response(preview.data, { headers: { 'Content-Type': preview.contentType } })
+})
+
+// Upload delivered song metadata (mock)
+app.post('/api/songs/:tokenId/metadata', async (c) => {
+  try {
+    const tokenId = Number(c.req.param('tokenId'))
+    const { image, animation, metadata, recipientFirstName } = await c.req.json()
+    
+    const order = [...mockStorage.orders.values()].find((o) => o.tokenId === tokenId)
+    if (order?.metadata?.allowPublication && recipientFirstName) {
+      order.recipientFirstName = recipientFirstName
+    }
+    
+    const arweaveId = `mock-metadata-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    
+    mockStorage.metadata.set(arweaveId, {
+      ...metadata,
+      image: `data:image/svg+xml;base64,${bytesToBase64(new TextEncoder().encode(image))}`,
+      ...(animation && { animation_url: `data:text/html;base64,${bytesToBase64(new TextEncoder().encode(animation))}` }),
+    })
+    
+    console.log(`🖼️ Mock metadata uploaded: ${arweaveId} for token ${tokenId}`)
+    
+    return c.json({
+      success: true,
+      arweaveId,
+      uri: `ardrive://${arweaveId}`
+    })
+  } catch (error) {
+    console.error('Mock metadata upload failed:', error)
+    return c.json({ error: 'Failed to upload metadata' }, 500)
+  }
+})
+
+// Message thread (mock): no sessions locally, so the caller is always the buyer
+app.get('/api/threads/:tokenId', (c) => {
+  const tokenId = Number(c.req.param('tokenId'))
+  const order = [...mockStorage.orders.values()].find((o) => o.tokenId === tokenId)
+  if (!order) {
+    return c.json({ error: 'Order not found' }, 404)
+  }
+  
+  return c.json({
+    success: true,
+    role: 'buyer',
+    participants: [
+      { role: 'creator', recipient: 'creator', publicKey: mockStorage.creatorPublicKey },
+      { role: 'buyer', recipient: order.metadata?.orderedBy, publicKey: mockStorage.holderPublicKey },
+    ],
+    messages: mockStorage.messages.get(tokenId) ?? []
+  })
+})
+
+app.post('/api/threads/:tokenId', async (c) => {
+  const tokenId = Number(c.req.param('tokenId'))
+  const order = [...mockStorage.orders.values()].find((o) => o.tokenId === tokenId)
+  if (!order) {
+    return c.json({ error: 'Order not found' }, 404)
+  }
+  
+  const { kind, ciphertext, wrappedKeys } = await c.req.json()
+  const message = {
+    id: crypto.randomUUID(),
+    sender: order.metadata?.orderedBy,
+    senderRole: 'buyer',
+    kind,
+    ciphertext,
+    wrappedKeys,
+    createdAt: new Date().toISOString()
+  }
+  mockStorage.messages.set(tokenId, [...(mockStorage.messages.get(tokenId) ?? []), message])
+  
+  console.log(`💬 Mock ${kind} on token ${tokenId}`)
+  return c.json({ success: true, message })
+})
+
+// Public gallery of published songs (mock)
+app.get('/api/gallery', (c) => {
+  const page = Number(c.req.query('page') ?? 0)
+  const limit = Number(c.req.query('limit') ?? 12)
+  
+  const published = [...mockStorage.orders.values()]
+    .filter((order) => order.status === 'fulfilled' && order.metadata?.allowPublication)
+    .sort((a, b) => String(b.fulfilledAt).localeCompare(String(a.fulfilledAt)))
+  
+  const songs = published.slice(page * limit, (page + 1) * limit).map((order) => ({
+    tokenId: order.tokenId,
+    tierId: order.metadata.tierId ?? null,
+    deliveredAt: order.fulfilledAt,
+    recipientFirstName: order.recipientFirstName ?? null,
+    previewUrl: mockStorage.previews.has(order.tokenId)
+      ? new URL(`/api/previews/${order.tokenId}`, c.req.url).toString()
+      : null,
+  }))
+  
+  return c.json({ success: true, songs, page, hasMore: published.length > (page + 1) * limit })
+})
+
 // Get order data (mock)
 app.get('/api/orders/:arweaveId', async (c) => {
   try {
@@ -279,11 +515,78 @@ app.get('/api/songs/:arweaveId', async (c) => {
   }
 })
 
+// Get song key for the holder (mock): no chain or sessions locally, so this
+// skips the ownership check but otherwise follows the real route
+app.get('/api/songs/:tokenId/:userAddress', async (c) => {
+  try {
+    const tokenId = Number(c.req.param('tokenId'))
+    const order = [...mockStorage.orders.values()].find((o) => o.tokenId === tokenId)
+    
+    if (!order) {
+      return c.json({ error: 'Order not found' }, 404)
+    }
+    if (!order.songArweaveId) {
+      return c.json({ error: 'Song not yet uploaded' }, 404)
+    }
+    if (order.status !== 'fulfilled') {
+      return c.json({ error: 'Song not yet ready' }, 404)
+    }
+    
+    // Held for the birthday: no key until the day
+    const reveal = {
+      deliver_by: order.metadata?.deliverBy ?? null,
+      reveal_on_delivery: order.metadata?.revealOnDelivery ? 1 : 0,
+    }
+    if (!isRevealDue(reveal)) {
+      return c.json({
+        success: true,
+        status: 'scheduled',
+        revealAt: reveal.deliver_by,
+        tokenId
+      })
+    }
+    
+    const song = mockStorage.songs.get(order.songArweaveId)
+    if (!song?.wrappedKeys?.escrow) {
+      return c.json({ success: true, songData: song?.encryptedData, wrappedKey: null, arweaveId: order.songArweaveId, tokenId })
+    }
+    if (!mockStorage.holderPublicKey) {
+      return c.json({ error: 'Register your listening key first' }, 409)
+    }
+    
+    const songKey = await unwrapSongKey(song.wrappedKeys.escrow, mockEscrowKeyPair.privateKey)
+    
+    return c.json({
+      success: true,
+      wrappedKey: await wrapSongKey(songKey, mockStorage.holderPublicKey),
+      songUrl: new URL(`/api/arweave/${order.songArweaveId}`, c.req.url).toString(),
+      arweaveId: order.songArweaveId,
+      tokenId
+    })
+  } catch (error) {
+    console.error('Mock song key fetch failed:', error)
+    return c.json({ error: 'Failed to fetch song' }, 500)
+  }
+})
+
+// Encrypted song bytes, standing in for the arweave.net gateway (mock)
+app.get('/api/arweave/:arweaveId', (c) => {
+  const song = mockStorage.songs.get(c.req.param('arweaveId'))
+  if (!song) {
+    return c.json({ error: 'Song not found' }, 404)
+  }
+  
+  return new Response(base64ToBytes(song.encryptedData), { headers: { 'Content-Type': 'application/octet-stream' } })
+})
+
 // List orders for dashboard (mock)
 app.get('/api/orders', async (c) => {
   try {
+    const status = c.req.query('status')
     const orders = Array.from(mockStorage.orders.values())
+      .filter((order) => !status || order.status === status)
       .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .map((order) => ({ ...order, deliverBy: order.metadata?.deliverBy ?? null }))
     
     return c.json({
       success: true,
@@ -0,0 +1,161 @@
+/**
+ * Farcaster user lookups for the Birthday Songs API Worker
+ *
+ * Resolves a Farcaster username or FID to the Ethereum address a gifted song
+ * should be minted to, and sends mini app notifications to the users behind
+ * an address, through the Neynar API. The API key stays server-side.
+ */
+
+import { getAddress, isAddress, type Address } from 'viem'
+
+export interface FarcasterEnv {
+  NEYNAR_API_KEY?: string
+}
+
+export interface FarcasterRecipient {
+  fid: number
+  username: string
+  displayName: string | null
+  pfpUrl: string | null
+  address: Address
+}
+
+interface NeynarUser {
+  fid: number
+  username: string
+  display_name?: string
+  pfp_url?: string
+  custody_address: string
+  verified_addresses?: {
+    eth_addresses?: string[]
+    primary?: { eth_address?: string | null }
+  }
+}
+
+export interface MiniAppNotification {
+  // Farcaster caps these at 32 and 128 characters
+  title: string
+  body: string
+}
+
+const NEYNAR_API_URL = 'https://api.neynar.com/v2/farcaster'
+
+// Where notifications open; the manifest's webhookUrl must point at Neynar
+// so it holds users' notification tokens
+const MINIAPP_URL = 'https://birthdays-with-jose.pages.dev'
+
+// Farcaster usernames: fnames, or ENS-style names like alice.eth
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,15}(\.eth)?$/
+
+/**
+ * A username or FID that can't be resolved to an address
+ */
+export class FarcasterLookupError extends Error {
+  constructor(message: string, readonly status: 400 | 404 | 502 | 503) {
+    super(message)
+    this.name = 'FarcasterLookupError'
+  }
+}
+
+/**
+ * Resolve "@alice", "alice" or a numeric FID to the user's wallet address
+ */
+export async function resolveFarcasterUser(env: FarcasterEnv, query: string): Promise<FarcasterRecipient> {
+  const handle = query.trim().replace(/^@/, '').toLowerCase()
+
+  let user: NeynarUser | undefined
+  if (/^\d+$/.test(handle)) {
+    const { users } = await neynarGet<{ users: NeynarUser[] }>(env, `/user/bulk?fids=${handle}`)
+    user = users[0]
+  } else if (USERNAME_PATTERN.test(handle)) {
+    const result = await neynarGet<{ user: NeynarUser }>(env, `/user/by_username?username=${encodeURIComponent(handle)}`)
+    user = result.user
+  } else {
+    throw new FarcasterLookupError('Enter a Farcaster username or FID', 400)
+  }
+
+  if (!user) {
+    throw new FarcasterLookupError(`No Farcaster user ${query.trim()}`, 404)
+  }
+
+  // Prefer the wallet the user marked primary, then any verified one, then custody
+  const verified = user.verified_addresses
+  const candidate = verified?.primary?.eth_address || verified?.eth_addresses?.[0] || user.custody_address
+  if (!candidate || !isAddress(candidate)) {
+    throw new FarcasterLookupError(`@${user.username} has no Ethereum address`, 404)
+  }
+
+  return {
+    fid: user.fid,
+    username: user.username,
+    displayName: user.display_name || null,
+    pfpUrl: user.pfp_url || null,
+    address: getAddress(candidate),
+  }
+}
+
+/**
+ * Notify the Farcaster users who verified an address. Returns false if nobody
+ * could be notified (no Farcaster account, or notifications not configured).
+ */
+export async function notifyAddress(
+  env: FarcasterEnv,
+  address: Address,
+  notification: MiniAppNotification
+): Promise<boolean> {
+  if (!env.NEYNAR_API_KEY) {
+    console.warn('⚠️ NEYNAR_API_KEY not set, skipping notification')
+    return false
+  }
+
+  let users: Record<string, NeynarUser[]>
+  try {
+    users = await neynarGet<Record<string, NeynarUser[]>>(env, `/user/bulk-by-address?addresses=${address}`)
+  } catch (error) {
+    if (error instanceof FarcasterLookupError && error.status === 404) return false
+    throw error
+  }
+
+  const fids = (users[address.toLowerCase()] ?? []).map((user) => user.fid)
+  if (fids.length === 0) return false
+
+  const response = await fetch(`${NEYNAR_API_URL}/frame/notifications`, {
+    method: 'POST',
+    headers: { 'x-api-key': env.NEYNAR_API_KEY, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      target_fids: fids,
+      notification: {
+        title: notification.title.slice(0, 32),
+        body: notification.body.slice(0, 128),
+        target_url: MINIAPP_URL,
+      },
+    }),
+  })
+
+  if (!response.ok) {
+    console.error('❌ Neynar notification failed:', response.status, await response.text())
+    throw new Error(`Neynar notification failed: ${response.status}`)
+  }
+
+  return true
+}
+
+async function neynarGet<T>(env: FarcasterEnv, path: string): Promise<T> {
+  if (!env.NEYNAR_API_KEY) {
+    throw new FarcasterLookupError('Farcaster lookup is not configured', 503)
+  }
+
+  const response = await fetch(`${NEYNAR_API_URL}${path}`, {
+    headers: { 'x-api-key': env.NEYNAR_API_KEY, accept: 'application/json' },
+  })
+
+  if (response.status === 404) {
+    throw new FarcasterLookupError('Farcaster user not found', 404)
+  }
+  if (!response.ok) {
+    console.error('❌ Neynar lookup failed:', response.status, await response.text())
+    throw new FarcasterLookupError('Farcaster lookup failed', 502)
+  }
+
+  return response.json<T>()
+}
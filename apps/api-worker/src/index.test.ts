@@ -0,0 +1,391 @@
+/// <reference types="node" />
+/**
+ * Song download route: the session (or one-shot SIWE proof) must match the
+ * requested address, and that address must hold the token on chain right now.
+ * The chain is a local stand-in JSON-RPC server answering ownerOf from a map.
+ * Also the routes only the Railway service may call.
+ */
+
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import {
+  decodeFunctionData,
+  encodeErrorResult,
+  encodeFunctionResult,
+  encodeAbiParameters,
+  getAddress,
+  parseAbi,
+  type Address,
+  type Hex
+} from 'viem'
+import { generatePrivateKey, privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts'
+import { createSiweMessage } from 'viem/siwe'
+import { deriveKeyPair, generateSongKey, unwrapSongKey, wrapSongKey } from '@birthday-songs/encryption'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import worker from './index'
+import { BIRTHDAY_SONGS_ABI } from './chain'
+import { upsertChainOrder } from './orders'
+import { createSession } from './session'
+import { issueNonce, type SiweProof } from './siwe'
+import { getEscrowKeyPair, setHolderPublicKey, storeSongKeys } from './song-keys'
+import { createBindings, type TestBindings } from './testing'
+
+const CONTRACT_ADDRESS = getAddress('0x00000000000000000000000000000000000b1a7d')
+const BUYER = getAddress('0x1111111111111111111111111111111111111111')
+const STRANGER = getAddress('0x2222222222222222222222222222222222222222')
+const NEW_HOLDER = getAddress('0x3333333333333333333333333333333333333333')
+
+const ERC721_ERRORS = parseAbi(['error ERC721NonexistentToken(uint256 tokenId)'])
+
+interface JsonRpcRequest {
+  id: number
+  method: string
+  params: unknown[]
+}
+
+/**
+ * JSON-RPC server that answers ownerOf from `owners` and reverts like
+ * OpenZeppelin's ERC721 for tokens that aren't in it
+ */
+async function startStandInRpc(owners: Map<bigint, Address>): Promise<Server> {
+  const respond = ({ id, method, params }: JsonRpcRequest) => {
+    if (method === 'eth_chainId') return { jsonrpc: '2.0', id, result: '0x7a69' }
+    if (method !== 'eth_call') {
+      return { jsonrpc: '2.0', id, error: { code: -32601, message: `Unsupported method ${method}` } }
+    }
+
+    const { to, data } = params[0] as { to?: Address; data: Hex }
+    // viem's deployless ERC-6492 signature check: no contract wallets here, so
+    // it says no and viem falls back to recovering an EOA signature
+    if (!to) return { jsonrpc: '2.0', id, result: encodeAbiParameters([{ type: 'bool' }], [false]) }
+
+    const call = decodeFunctionData({ abi: BIRTHDAY_SONGS_ABI, data })
+    if (call.functionName !== 'ownerOf') {
+      return { jsonrpc: '2.0', id, error: { code: -32601, message: `Unsupported call ${call.functionName}` } }
+    }
+
+    const [tokenId] = call.args
+    const owner = owners.get(tokenId)
+    if (!owner) {
+      const revert = encodeErrorResult({ abi: ERC721_ERRORS, errorName: 'ERC721NonexistentToken', args: [tokenId] })
+      return { jsonrpc: '2.0', id, error: { code: 3, message: 'execution reverted', data: revert } }
+    }
+    return { jsonrpc: '2.0', id, result: encodeFunctionResult({ abi: BIRTHDAY_SONGS_ABI, functionName: 'ownerOf', result: owner }) }
+  }
+
+  const server = createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => { body += chunk })
+    req.on('end', () => {
+      const request = JSON.parse(body) as JsonRpcRequest | JsonRpcRequest[]
+      res.setHeader('Content-Type', 'application/json')
+      res.end(JSON.stringify(Array.isArray(request) ? request.map(respond) : respond(request)))
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  return server
+}
+
+// The worker's Env, which index.ts keeps to itself
+interface TestEnv {
+  DB: D1Database
+  SETTINGS: KVNamespace
+  RPC_URL: string
+  CHAIN_ID: string
+  CONTRACT_ADDRESS: string
+  CREATOR_ADDRESS: string
+  KEY_ESCROW_SECRET: string
+  SERVICE_SECRET: string
+}
+
+let bindings: TestBindings
+let rpc: Server
+let owners: Map<bigint, Address>
+let env: TestEnv
+
+beforeEach(async () => {
+  bindings = await createBindings()
+  owners = new Map()
+  rpc = await startStandInRpc(owners)
+
+  env = {
+    DB: bindings.DB,
+    SETTINGS: bindings.SETTINGS,
+    RPC_URL: `http://127.0.0.1:${(rpc.address() as AddressInfo).port}`,
+    CHAIN_ID: '31337',
+    CONTRACT_ADDRESS,
+    CREATOR_ADDRESS: getAddress('0x4444444444444444444444444444444444444444'),
+    KEY_ESCROW_SECRET: 'test escrow secret',
+    SERVICE_SECRET: 'test service secret',
+  }
+})
+
+afterEach(async () => {
+  await new Promise((resolve) => rpc.close(resolve))
+  await bindings.dispose()
+})
+
+/**
+ * A minted order indexed into D1, with its song key in escrow once fulfilled
+ */
+async function mintOrder(tokenId: number, holder: Address, fulfilled: boolean, songUploaded = fulfilled): Promise<string> {
+  owners.set(BigInt(tokenId), holder)
+  await upsertChainOrder(bindings.DB, {
+    tokenId,
+    arweaveId: `order-${tokenId}`,
+    tierId: 0,
+    orderedBy: holder,
+    orderedAt: new Date().toISOString(),
+    holder,
+    fulfilled,
+    refunded: false,
+    songArweaveId: songUploaded ? `song-${tokenId}` : null,
+    indexedBlock: 1,
+  })
+
+  const songKey = generateSongKey()
+  if (fulfilled) {
+    await storeSongKeys(env, tokenId, {
+      creator: await wrapSongKey(songKey, deriveKeyPair(new TextEncoder().encode('creator')).publicKey),
+      escrow: await wrapSongKey(songKey, getEscrowKeyPair(env).publicKey),
+    })
+  }
+  return songKey
+}
+
+async function download(tokenId: number, userAddress: string, caller: Address): Promise<Response> {
+  const { token } = await createSession(env, caller)
+  return worker.fetch(
+    new Request(`http://worker.test/api/songs/${tokenId}/${userAddress}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    }),
+    env,
+    {} as ExecutionContext
+  )
+}
+
+/**
+ * A SIWE message for the account, signed by `signer` (the account itself
+ * unless testing a mismatch), on a nonce the worker issued
+ */
+async function siweProof(
+  account: PrivateKeyAccount,
+  { domain = 'localhost:3000', chainId = 31337, signer = account }: { domain?: string; chainId?: number; signer?: PrivateKeyAccount } = {}
+): Promise<SiweProof> {
+  const message = createSiweMessage({
+    address: account.address,
+    chainId,
+    domain,
+    nonce: await issueNonce(env),
+    uri: `http://${domain}`,
+    version: '1',
+  })
+  return { message, signature: await signer.signMessage({ message }) }
+}
+
+async function downloadWithProof(tokenId: number, userAddress: string, proof: SiweProof): Promise<Response> {
+  return worker.fetch(
+    new Request(`http://worker.test/api/songs/${tokenId}/${userAddress}`, {
+      headers: { Authorization: `SIWE ${btoa(JSON.stringify(proof))}` },
+    }),
+    env,
+    {} as ExecutionContext
+  )
+}
+
+async function registerListeningKey(holder: Address, seed: string) {
+  const keyPair = deriveKeyPair(new TextEncoder().encode(seed))
+  await setHolderPublicKey(env, holder, keyPair.publicKey)
+  return keyPair
+}
+
+describe('GET /api/songs/:tokenId/:userAddress', () => {
+  it('gives the holder their wrapped song key', async () => {
+    const songKey = await mintOrder(1, BUYER, true)
+    const listeningKey = await registerListeningKey(BUYER, 'buyer')
+
+    const response = await download(1, BUYER, BUYER)
+    expect(response.status).toBe(200)
+
+    const body = await response.json() as { wrappedKey: string; songUrl: string }
+    expect(body.songUrl).toBe('https://arweave.net/song-1')
+    await expect(unwrapSongKey(body.wrappedKey, listeningKey.privateKey)).resolves.toBe(songKey)
+  })
+
+  it('requires a session', async () => {
+    await mintOrder(1, BUYER, true)
+
+    const response = await worker.fetch(new Request(`http://worker.test/api/songs/1/${BUYER}`), env, {} as ExecutionContext)
+    expect(response.status).toBe(401)
+  })
+
+  it("rejects a session asking for someone else's address", async () => {
+    await mintOrder(1, BUYER, true)
+
+    const response = await download(1, BUYER, STRANGER)
+    expect(response.status).toBe(401)
+    expect(await response.json()).toEqual({ error: 'Signature does not match address' })
+  })
+
+  it('rejects a caller who does not hold the token', async () => {
+    await mintOrder(1, BUYER, true)
+
+    const response = await download(1, STRANGER, STRANGER)
+    expect(response.status).toBe(403)
+    expect(await response.json()).toEqual({ error: 'You do not own this NFT' })
+  })
+
+  it('returns 404 for a token that was never minted', async () => {
+    const response = await download(7, BUYER, BUYER)
+    expect(response.status).toBe(404)
+    expect(await response.json()).toEqual({ error: 'Order not found' })
+  })
+
+  it('holds back a song that is not uploaded yet', async () => {
+    await mintOrder(1, BUYER, false)
+
+    const response = await download(1, BUYER, BUYER)
+    expect(response.status).toBe(404)
+    expect(await response.json()).toEqual({ error: 'Song not yet uploaded' })
+  })
+
+  it('holds back an uploaded song until fulfill is confirmed on chain', async () => {
+    await mintOrder(1, BUYER, false, true)
+
+    const response = await download(1, BUYER, BUYER)
+    expect(response.status).toBe(404)
+    expect(await response.json()).toEqual({ error: 'Song not yet ready' })
+  })
+
+  it('follows a transfer on chain before the indexer has seen it', async () => {
+    const songKey = await mintOrder(1, BUYER, true)
+    await registerListeningKey(BUYER, 'buyer')
+    const newHolderKey = await registerListeningKey(NEW_HOLDER, 'new holder')
+
+    // D1 still records the buyer as holder; only the chain knows
+    owners.set(1n, NEW_HOLDER)
+
+    const previous = await download(1, BUYER, BUYER)
+    expect(previous.status).toBe(403)
+
+    const current = await download(1, NEW_HOLDER, NEW_HOLDER)
+    expect(current.status).toBe(200)
+    const body = await current.json() as { wrappedKey: string }
+    await expect(unwrapSongKey(body.wrappedKey, newHolderKey.privateKey)).resolves.toBe(songKey)
+  })
+})
+
+describe('GET /api/songs/:tokenId/:userAddress with a one-shot SIWE proof', () => {
+  let holder: PrivateKeyAccount
+
+  beforeEach(async () => {
+    holder = privateKeyToAccount(generatePrivateKey())
+    await registerListeningKey(holder.address, 'holder')
+  })
+
+  it('accepts a valid proof from the holder', async () => {
+    const songKey = await mintOrder(1, holder.address, true)
+
+    const response = await downloadWithProof(1, holder.address, await siweProof(holder))
+    expect(response.status).toBe(200)
+
+    const body = await response.json() as { wrappedKey: string }
+    const listeningKey = deriveKeyPair(new TextEncoder().encode('holder'))
+    await expect(unwrapSongKey(body.wrappedKey, listeningKey.privateKey)).resolves.toBe(songKey)
+  })
+
+  it('rejects a message signed by someone else', async () => {
+    await mintOrder(1, holder.address, true)
+    const impostor = privateKeyToAccount(generatePrivateKey())
+
+    const response = await downloadWithProof(1, holder.address, await siweProof(holder, { signer: impostor }))
+    expect(response.status).toBe(401)
+    expect(await response.json()).toEqual({ error: 'Invalid SIWE signature' })
+  })
+
+  it('rejects a proof whose nonce was already used', async () => {
+    await mintOrder(1, holder.address, true)
+    const proof = await siweProof(holder)
+
+    expect((await downloadWithProof(1, holder.address, proof)).status).toBe(200)
+
+    const replayed = await downloadWithProof(1, holder.address, proof)
+    expect(replayed.status).toBe(401)
+    expect(await replayed.json()).toEqual({ error: 'Unknown or expired nonce' })
+  })
+
+  it('rejects a proof for another domain or chain', async () => {
+    await mintOrder(1, holder.address, true)
+
+    const phished = await downloadWithProof(1, holder.address, await siweProof(holder, { domain: 'evil.example' }))
+    expect(phished.status).toBe(401)
+    expect(await phished.json()).toEqual({ error: 'Unexpected SIWE domain: evil.example' })
+
+    const otherChain = await downloadWithProof(1, holder.address, await siweProof(holder, { chainId: 1 }))
+    expect(otherChain.status).toBe(401)
+    expect(await otherChain.json()).toEqual({ error: 'Unexpected SIWE chain: 1' })
+  })
+})
+
+async function callAsService(path: string, body: unknown, secret?: string): Promise<Response> {
+  return worker.fetch(
+    new Request(`http://worker.test${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(secret !== undefined && { 'X-Service-Secret': secret }) },
+      body: JSON.stringify(body),
+    }),
+    env,
+    {} as ExecutionContext
+  )
+}
+
+describe('POST /api/orders/fulfill', () => {
+  it('only accepts the Railway service', async () => {
+    await mintOrder(1, BUYER, false)
+
+    for (const secret of [undefined, '', 'wrong secret']) {
+      const response = await callAsService('/api/orders/fulfill', { tokenId: 1, songArweaveId: 'forged' }, secret)
+      expect(response.status).toBe(401)
+    }
+
+    const row = await bindings.DB.prepare('SELECT song_arweave_id, status FROM orders WHERE token_id = 1').first()
+    expect(row).toEqual({ song_arweave_id: null, status: 'pending' })
+  })
+
+  it('records the song without marking the order fulfilled', async () => {
+    await mintOrder(1, BUYER, false)
+
+    const response = await callAsService('/api/orders/fulfill', { tokenId: 1, songArweaveId: 'song-1' }, env.SERVICE_SECRET)
+    expect(response.status).toBe(200)
+
+    const row = await bindings.DB.prepare('SELECT song_arweave_id, status, fulfilled_at FROM orders WHERE token_id = 1').first()
+    expect(row).toEqual({ song_arweave_id: 'song-1', status: 'pending', fulfilled_at: null })
+  })
+
+  it('accepts token 0', async () => {
+    await mintOrder(0, BUYER, false)
+
+    const response = await callAsService('/api/orders/fulfill', { tokenId: 0, songArweaveId: 'song-0' }, env.SERVICE_SECRET)
+    expect(response.status).toBe(200)
+
+    const row = await bindings.DB.prepare('SELECT song_arweave_id FROM orders WHERE token_id = 0').first()
+    expect(row).toEqual({ song_arweave_id: 'song-0' })
+
+    const missing = await callAsService('/api/orders/fulfill', { songArweaveId: 'song-0' }, env.SERVICE_SECRET)
+    expect(missing.status).toBe(400)
+  })
+})
+
+describe('POST /api/orders/metadata', () => {
+  it('only accepts the Railway service', async () => {
+    const forged = await callAsService('/api/orders/metadata', { arweaveId: 'forged', metadata: { tierId: 0 } })
+    expect(forged.status).toBe(401)
+
+    const stored = await callAsService('/api/orders/metadata', { arweaveId: 'order-1', metadata: { tierId: 0 } }, env.SERVICE_SECRET)
+    expect(stored.status).toBe(200)
+
+    const { results } = await bindings.DB.prepare('SELECT arweave_id, status FROM orders').all()
+    expect(results).toEqual([{ arweave_id: 'order-1', status: 'uploaded' }])
+  })
+})
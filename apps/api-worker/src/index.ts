@@ -7,46 +7,83 @@
 
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
+import { getAddress, isAddress, isHash } from 'viem'
+import type { OrderIndexMetadata } from '@birthday-songs/shared'
+import { getTokenOwner } from './chain'
+import { ALLOWED_ORIGINS, SiweError, issueNonce, verifySiwe } from './siwe'
+import {
+  createSession,
+  deleteSession,
+  isCreator,
+  requireCreator,
+  requireService,
+  requireSession,
+  type SessionVariables
+} from './session'
+import {
+  ESCROW_RECIPIENT,
+  getEscrowKeyPair,
+  getWrappedKey,
+  rewrapSongKey,
+  setHolderPublicKey,
+  storeSongKeys,
+  type WrappedSongKeys
+} from './song-keys'
+import { MintConfirmationError, confirmMint, markOrphanedUploads, syncOrders } from './indexer'
+import { FarcasterLookupError, resolveFarcasterUser } from './farcaster'
+import { VoucherError, getVoucher, listVouchers, saveVoucher } from './vouchers'
+import { MessageError, getThreadParticipants, getThreadRole, listMessages, postMessage } from './messages'
+import { announceDueReveals } from './reveals'
+import {
+  deleteOrphanedUploads,
+  getOrderByTokenId,
+  insertUpload,
+  isDeliveryDate,
+  isOrderStatus,
+  isPreviewPublic,
+  isRevealDue,
+  listGallery,
+  listOrders,
+  setPreviewUploaded,
+  setRecipientFirstName,
+  setSongUploaded
+} from './orders'
 
 // Types
 interface Env {
   DB: D1Database
   SETTINGS: KVNamespace
+  RPC_URL: string
+  CHAIN_ID: string
+  CONTRACT_ADDRESS: string
+  CREATOR_ADDRESS: string
+  KEY_ESCROW_SECRET: string
+  SERVICE_SECRET?: string
+  INDEXER_CONFIRMATIONS?: string
+  NEYNAR_API_KEY?: string
 }
 
-interface OrderData {
-  type: 'birthday' | 'natal'
-  recipientName: string
-  birthDate?: string
-  birthTime?: string
-  birthLocation?: string
-  relationship?: string
-  interests?: string
-  sunSign?: string
-  risingSign?: string
-  moonSign?: string
-  musicalStyle?: string
-  message?: string
-  orderedBy: string
-  orderedAt: string
-  allowPublication: boolean
-  tokenId?: number
-}
+// SETTINGS key holding the creator's encryption public key
+const CREATOR_KEY_SETTING = 'creator-public-key'
+
+// Compressed secp256k1 point
+const PUBLIC_KEY_PATTERN = /^0[23][0-9a-f]{64}$/i
+
+// Largest preview clip accepted; 30 seconds of high-bitrate audio fits easily
+const PREVIEW_MAX_BYTES = 5 * 1024 * 1024
+
+// Gallery page sizes
+const GALLERY_PAGE_SIZE = 12
+const GALLERY_MAX_PAGE_SIZE = 48
 
 // Initialize Hono app
-const app = new Hono<{ Bindings: Env }>()
+const app = new Hono<{ Bindings: Env; Variables: SessionVariables }>()
 
 // CORS middleware
 app.use('*', cors({
-  origin: [
-    'https://birthdays-with-jose.pages.dev',
-    'https://birthday-songs.pages.dev', 
-    'https://birthdays-with-jose-dashboard.pages.dev',
-    'http://localhost:3000',
-    'http://localhost:3001'
-  ],
+  origin: ALLOWED_ORIGINS,
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Song-Key-Creator', 'X-Song-Key-Escrow', 'X-Song-Length'],
   credentials: true
 }))
 
@@ -60,49 +97,257 @@ app.get('/', (c) => {
   })
 })
 
+// Issue a single-use SIWE nonce
+app.get('/api/auth/nonce', async (c) => {
+  const nonce = await issueNonce(c.env)
+  return c.json({ success: true, nonce })
+})
+
+// Exchange a signed SIWE message for a session token
+app.post('/api/auth/verify', async (c) => {
+  try {
+    const { message, signature } = await c.req.json()
+    
+    if (typeof message !== 'string' || typeof signature !== 'string') {
+      return c.json({ error: 'Missing message or signature' }, 400)
+    }
+    
+    const address = await verifySiwe(c.env, { message, signature: signature as `0x${string}` })
+    const { token, session } = await createSession(c.env, address)
+    
+    return c.json({
+      success: true,
+      token,
+      address: session.address,
+      expiresAt: session.expiresAt,
+      isCreator: await isCreator(c.env, address)
+    })
+    
+  } catch (error) {
+    if (error instanceof SiweError) {
+      return c.json({ error: error.message }, 401)
+    }
+    console.error('❌ SIWE verification failed:', error)
+    return c.json({ error: 'Failed to verify signature' }, 500)
+  }
+})
+
+// Current session
+app.get('/api/auth/session', requireSession, async (c) => {
+  const session = c.var.session
+  return c.json({
+    success: true,
+    address: session.address,
+    expiresAt: session.expiresAt,
+    isCreator: await isCreator(c.env, session.address)
+  })
+})
+
+// End the current session
+app.post('/api/auth/logout', async (c) => {
+  const header = c.req.header('Authorization')
+  if (header?.startsWith('Bearer ')) {
+    await deleteSession(c.env, header.slice('Bearer '.length))
+  }
+  return c.json({ success: true })
+})
+
+// Creator's published encryption public key (orders are encrypted to it)
+app.get('/api/settings/creator-key', async (c) => {
+  const publicKey = await c.env.SETTINGS.get(CREATOR_KEY_SETTING)
+  if (!publicKey) {
+    return c.json({ error: 'Creator key not published yet' }, 404)
+  }
+  return c.json({ success: true, publicKey })
+})
+
+// Publish the creator's encryption public key (creator only)
+app.put('/api/settings/creator-key', requireSession, requireCreator, async (c) => {
+  const { publicKey } = await c.req.json()
+  
+  if (typeof publicKey !== 'string' || !PUBLIC_KEY_PATTERN.test(publicKey)) {
+    return c.json({ error: 'Invalid public key' }, 400)
+  }
+  
+  await c.env.SETTINGS.put(CREATOR_KEY_SETTING, publicKey.toLowerCase())
+  return c.json({ success: true, publicKey: publicKey.toLowerCase() })
+})
+
+// Key escrow public key (the creator wraps every song key for it too)
+app.get('/api/settings/escrow-key', (c) => {
+  return c.json({ success: true, publicKey: getEscrowKeyPair(c.env).publicKey })
+})
+
+// Register the caller's public key for receiving song keys of NFTs they hold
+app.put('/api/keys/holder', requireSession, async (c) => {
+  const { publicKey } = await c.req.json()
+  
+  if (typeof publicKey !== 'string' || !PUBLIC_KEY_PATTERN.test(publicKey)) {
+    return c.json({ error: 'Invalid public key' }, 400)
+  }
+  
+  await setHolderPublicKey(c.env, c.var.session.address, publicKey)
+  return c.json({ success: true, address: c.var.session.address })
+})
+
+// Resolve a gift recipient's Farcaster username or FID (?q=alice or ?q=1234) to their wallet address
+app.get('/api/farcaster/user', async (c) => {
+  try {
+    const query = c.req.query('q')
+    if (!query) {
+      return c.json({ error: 'Missing username or FID' }, 400)
+    }
+    
+    const user = await resolveFarcasterUser(c.env, query)
+    return c.json({ success: true, user })
+    
+  } catch (error) {
+    if (error instanceof FarcasterLookupError) {
+      return c.json({ error: error.message }, error.status)
+    }
+    console.error('❌ Farcaster lookup failed:', error)
+    return c.json({ 
+      error: 'Failed to look up Farcaster user',
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// Look up a promo code entered on the order form
+app.get('/api/vouchers/:code', async (c) => {
+  try {
+    const voucher = await getVoucher(c.env, c.req.param('code'))
+    return c.json({ success: true, voucher })
+    
+  } catch (error) {
+    if (error instanceof VoucherError) {
+      return c.json({ error: error.message }, error.status)
+    }
+    console.error('❌ Voucher lookup failed:', error)
+    return c.json({ 
+      error: 'Failed to look up promo code',
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// All vouchers with their redemptions (creator only)
+app.get('/api/vouchers', requireSession, requireCreator, async (c) => {
+  try {
+    const vouchers = await listVouchers(c.env)
+    return c.json({ success: true, vouchers })
+    
+  } catch (error) {
+    console.error('❌ Failed to list vouchers:', error)
+    return c.json({ 
+      error: 'Failed to list vouchers',
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// Publish a voucher the creator signed in the dashboard (creator only)
+app.put('/api/vouchers', requireSession, requireCreator, async (c) => {
+  try {
+    const voucher = await saveVoucher(c.env, await c.req.json())
+    console.log(`🏷️ Voucher ${voucher.code} published (${voucher.discountBps / 100}% off)`)
+    return c.json({ success: true, voucher })
+    
+  } catch (error) {
+    if (error instanceof VoucherError) {
+      return c.json({ error: error.message }, error.status)
+    }
+    console.error('❌ Failed to save voucher:', error)
+    return c.json({ 
+      error: 'Failed to save voucher',
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// A token's message thread: who can be written to and the encrypted messages
+// Open to the creator, the buyer and the current holder
+app.get('/api/threads/:tokenId', requireSession, async (c) => {
+  try {
+    const tokenId = Number(c.req.param('tokenId'))
+    if (!Number.isInteger(tokenId) || tokenId < 0) {
+      return c.json({ error: 'Invalid tokenId' }, 400)
+    }
+    
+    const role = await getThreadRole(c.env, tokenId, c.var.session.address)
+    const [participants, messages] = await Promise.all([
+      getThreadParticipants(c.env, tokenId, await c.env.SETTINGS.get(CREATOR_KEY_SETTING)),
+      listMessages(c.env.DB, tokenId)
+    ])
+    
+    return c.json({ success: true, role, participants, messages })
+    
+  } catch (error) {
+    if (error instanceof MessageError) {
+      return c.json({ error: error.message }, error.status)
+    }
+    console.error('❌ Thread fetch failed:', error)
+    return c.json({ 
+      error: 'Failed to fetch messages',
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// Post an encrypted message or revision request to a token's thread
+app.post('/api/threads/:tokenId', requireSession, async (c) => {
+  try {
+    const tokenId = Number(c.req.param('tokenId'))
+    if (!Number.isInteger(tokenId) || tokenId < 0) {
+      return c.json({ error: 'Invalid tokenId' }, 400)
+    }
+    
+    const sender = c.var.session.address
+    const role = await getThreadRole(c.env, tokenId, sender)
+    const message = await postMessage(c.env.DB, tokenId, sender, role, await c.req.json())
+    console.log(`💬 ${message.kind} on token ${tokenId} from ${role}`)
+    
+    return c.json({ success: true, message })
+    
+  } catch (error) {
+    if (error instanceof MessageError) {
+      return c.json({ error: error.message }, error.status)
+    }
+    console.error('❌ Failed to post message:', error)
+    return c.json({ 
+      error: 'Failed to post message',
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
 // Note: ArDrive operations moved to Railway service
 // These endpoints are kept for backwards compatibility but redirect to Railway
 
 // Store order metadata in D1 database (called by Railway ArDrive service)
-app.post('/api/orders/metadata', async (c) => {
+// Uploads happen before the mint, so the row waits for /api/orders/confirm or the indexer to get its token id
+app.post('/api/orders/metadata', requireService, async (c) => {
   try {
-    const { tokenId, arweaveId, status, orderData } = await c.req.json()
+    const { arweaveId, metadata } = await c.req.json<{
+      arweaveId: string
+      metadata?: OrderIndexMetadata
+    }>()
     
-    if (!tokenId || !arweaveId) {
+    if (!arweaveId) {
       return c.json({ error: 'Missing required fields' }, 400)
     }
     
-    console.log('🔍 Storing order metadata:', { tokenId, arweaveId, orderData })
+    console.log('🔍 Storing order metadata:', { arweaveId, metadata })
     
-    // Store full metadata in D1 database
-    await c.env.DB.prepare(`
-      INSERT INTO orders (
-        id, token_id, arweave_id, status, created_at,
-        recipient_name, birth_date, relationship, interests, message,
-        allow_publication, birth_time, birth_location, sun_sign, moon_sign,
-        rising_sign, musical_style, order_type, ordered_by
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `).bind(
-      crypto.randomUUID(),
-      tokenId,
+    // Only indexing fields - order details stay encrypted on Arweave
+    await insertUpload(c.env.DB, {
       arweaveId,
-      status || 'pending',
-      new Date().toISOString(),
-      orderData?.recipientName || null,
-      orderData?.birthDate || null,
-      orderData?.relationship || null,
-      orderData?.interests || null,
-      orderData?.message || null,
-      orderData?.allowPublication ? 1 : 0,
-      orderData?.birthTime || null,
-      orderData?.birthLocation || null,
-      orderData?.sunSign || null,
-      orderData?.moonSign || null,
-      orderData?.risingSign || null,
-      orderData?.musicalStyle || null,
-      orderData?.type || null,
-      orderData?.orderedBy || null
-    ).run()
+      tierId: Number.isInteger(metadata?.tierId) ? metadata?.tierId : undefined,
+      orderedBy: metadata?.orderedBy,
+      allowPublication: metadata?.allowPublication,
+      deliverBy: isDeliveryDate(metadata?.deliverBy) ? metadata?.deliverBy : undefined,
+      revealOnDelivery: metadata?.revealOnDelivery
+    })
     
     return c.json({
       success: true,
@@ -118,18 +363,78 @@ app.post('/api/orders/metadata', async (c) => {
   }
 })
 
+// Bind uploaded order data to the token minted for it (called by frontend after the mint confirms)
+app.post('/api/orders/confirm', async (c) => {
+  try {
+    const { txHash } = await c.req.json()
+    
+    if (typeof txHash !== 'string' || !isHash(txHash)) {
+      return c.json({ error: 'Invalid transaction hash' }, 400)
+    }
+    
+    const orders = await confirmMint(c.env, txHash)
+    console.log('🔗 Mint confirmed:', { txHash, orders })
+    
+    return c.json({ success: true, orders })
+    
+  } catch (error) {
+    if (error instanceof MintConfirmationError) {
+      return c.json({ error: error.message }, error.status)
+    }
+    console.error('❌ Mint confirmation failed:', error)
+    return c.json({ 
+      error: 'Failed to confirm mint',
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// Remove an orphaned upload from the index (its data stays on Arweave)
+app.delete('/api/orders/orphans/:id', requireSession, requireCreator, async (c) => {
+  const deleted = await deleteOrphanedUploads(c.env.DB, c.req.param('id'))
+  
+  if (!deleted) {
+    return c.json({ error: 'Orphaned upload not found' }, 404)
+  }
+  return c.json({ success: true, deleted })
+})
+
+// Remove every orphaned upload from the index
+app.delete('/api/orders/orphans', requireSession, requireCreator, async (c) => {
+  const deleted = await deleteOrphanedUploads(c.env.DB)
+  return c.json({ success: true, deleted })
+})
+
 // Upload order data (called by frontend)
 app.post('/api/orders/upload', async (c) => {
   try {
     console.log('🔍 Upload request received')
-    const orderData = await c.req.json()
-    console.log('🔍 Order data received:', JSON.stringify(orderData, null, 2))
+    const { encryptedData, metadata } = await c.req.json<{
+      encryptedData: string
+      metadata: OrderIndexMetadata
+    }>()
+    
+    // Order details must arrive already encrypted to the creator's key
+    if (typeof encryptedData !== 'string' || !encryptedData || !Number.isInteger(metadata?.tierId)) {
+      return c.json({ error: 'Missing encryptedData or metadata' }, 400)
+    }
+    console.log('🔍 Encrypted order received:', { bytes: encryptedData.length, metadata })
     
     // Upload to Railway ArDrive service
     const ardriveResponse = await fetch('https://birthdays-with-jose-production.up.railway.app/api/orders/upload', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ orderData })
+      body: JSON.stringify({
+        encryptedData,
+        metadata: {
+          tierId: metadata.tierId,
+          orderedBy: metadata.orderedBy,
+          orderedAt: metadata.orderedAt,
+          allowPublication: Boolean(metadata.allowPublication),
+          deliverBy: isDeliveryDate(metadata.deliverBy) ? metadata.deliverBy : undefined,
+          revealOnDelivery: Boolean(metadata.revealOnDelivery)
+        }
+      })
     })
     
     if (!ardriveResponse.ok) {
@@ -152,24 +457,44 @@ app.post('/api/orders/upload', async (c) => {
 })
 
 // Upload song data (called by creator dashboard)
-app.post('/api/songs/upload', async (c) => {
+// Body is the encrypted song stream; it is piped through to Railway, never buffered here
+app.post('/api/songs/upload', requireSession, requireCreator, async (c) => {
   try {
     console.log('🔍 Song upload request received')
-    const { tokenId, songBase64 } = await c.req.json()
-    console.log('🔍 Song data for token:', tokenId)
+    const tokenId = Number(c.req.query('tokenId'))
+    const wrappedKeys: WrappedSongKeys = {
+      creator: c.req.header('X-Song-Key-Creator') ?? '',
+      escrow: c.req.header('X-Song-Key-Escrow') ?? ''
+    }
+    // Streamed uploads arrive without a Content-Length and declare their size instead
+    const contentLength = Number(c.req.header('Content-Length') ?? c.req.header('X-Song-Length'))
+    console.log('🔍 Song data for token:', tokenId, contentLength, 'bytes')
     
-    if (!tokenId || !songBase64) {
-      return c.json({ error: 'Missing tokenId or songBase64' }, 400)
+    if (!Number.isInteger(tokenId) || tokenId < 0 || !wrappedKeys.creator || !wrappedKeys.escrow) {
+      return c.json({ error: 'Missing tokenId or wrapped song keys' }, 400)
     }
     
-    // Upload to Railway ArDrive service
-    const ardriveResponse = await fetch('https://birthdays-with-jose-production.up.railway.app/api/songs/upload', {
+    const body = c.req.raw.body
+    if (!body || !contentLength) {
+      return c.json({ error: 'Missing song body or Content-Length' }, 400)
+    }
+    
+    // Keys first: an uploaded song without them could never be played
+    try {
+      await storeSongKeys(c.env, tokenId, wrappedKeys)
+    } catch (error) {
+      console.error('❌ Invalid song keys:', error)
+      return c.json({ error: 'Song key is not wrapped for the key escrow' }, 400)
+    }
+    
+    // Stream ciphertext to Railway ArDrive service with its length preserved
+    const { readable, writable } = new FixedLengthStream(contentLength)
+    c.executionCtx.waitUntil(body.pipeTo(writable))
+    
+    const ardriveResponse = await fetch(`https://birthdays-with-jose-production.up.railway.app/api/songs/upload?tokenId=${tokenId}`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        tokenId: tokenId,
-        songData: songBase64
-      })
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: readable
     })
     
     if (!ardriveResponse.ok) {
@@ -180,6 +505,12 @@ app.post('/api/songs/upload', async (c) => {
     const result = await ardriveResponse.json()
     console.log('🔍 Railway song upload response:', result)
     
+    // Wrap for the current holder right away if they've registered a key
+    const owner = await getTokenOwner(c.env, BigInt(tokenId))
+    if (owner) {
+      await rewrapSongKey(c.env, tokenId, owner)
+    }
+    
     return c.json(result)
     
   } catch (error) {
@@ -191,29 +522,172 @@ app.post('/api/songs/upload', async (c) => {
   }
 })
 
-// Update order as fulfilled (called by Railway ArDrive service after song upload)
-app.post('/api/orders/fulfill', async (c) => {
+// Upload a public preview clip for a song (creator only, and only if the buyer allowed publication)
+// The clip is stored unencrypted on Arweave and served by GET /api/previews/:tokenId
+app.post('/api/songs/:tokenId/preview', requireSession, requireCreator, async (c) => {
+  try {
+    const tokenId = Number(c.req.param('tokenId'))
+    const contentType = c.req.header('Content-Type') ?? ''
+    const contentLength = Number(c.req.header('Content-Length'))
+    
+    if (!Number.isInteger(tokenId) || tokenId < 0 || !contentType.startsWith('audio/')) {
+      return c.json({ error: 'Missing tokenId or audio Content-Type' }, 400)
+    }
+    
+    const body = c.req.raw.body
+    if (!body || !contentLength) {
+      return c.json({ error: 'Missing preview body or Content-Length' }, 400)
+    }
+    
+    if (contentLength > PREVIEW_MAX_BYTES) {
+      return c.json({ error: 'Preview clip is too large' }, 413)
+    }
+    
+    const order = await getOrderByTokenId(c.env.DB, tokenId)
+    if (!order) {
+      return c.json({ error: 'Order not found' }, 404)
+    }
+    
+    if (!order.allow_publication) {
+      return c.json({ error: 'Buyer did not allow publication' }, 403)
+    }
+    
+    console.log('🔍 Preview clip for token:', tokenId, contentLength, 'bytes')
+    
+    const { readable, writable } = new FixedLengthStream(contentLength)
+    c.executionCtx.waitUntil(body.pipeTo(writable))
+    
+    const ardriveResponse = await fetch(`https://birthdays-with-jose-production.up.railway.app/api/previews/upload?tokenId=${tokenId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': contentType },
+      body: readable
+    })
+    
+    if (!ardriveResponse.ok) {
+      console.error('❌ Railway preview upload error:', ardriveResponse.status, await ardriveResponse.text())
+      throw new Error(`Railway service error: ${ardriveResponse.status}`)
+    }
+    
+    const result = await ardriveResponse.json<{ arweaveId: string; cost?: string }>()
+    console.log('🔍 Railway preview upload response:', result)
+    
+    await setPreviewUploaded(c.env.DB, tokenId, result.arweaveId)
+    
+    return c.json({
+      success: true,
+      arweaveId: result.arweaveId,
+      // The public route, so consent is checked every time the clip is played
+      uri: new URL(`/api/previews/${tokenId}`, c.req.url).toString(),
+      cost: result.cost
+    })
+    
+  } catch (error) {
+    console.error('❌ Preview upload failed:', error)
+    return c.json({ 
+      error: 'Failed to upload preview',
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// Public preview clip for a song whose buyer allowed publication (NFT animation_url, marketing)
+app.get('/api/previews/:tokenId', async (c) => {
+  try {
+    const tokenId = Number(c.req.param('tokenId'))
+    if (!Number.isInteger(tokenId) || tokenId < 0) {
+      return c.json({ error: 'Invalid tokenId' }, 400)
+    }
+    
+    const order = await getOrderByTokenId(c.env.DB, tokenId)
+    if (!order || !isPreviewPublic(order)) {
+      return c.json({ error: 'Preview not available' }, 404)
+    }
+    
+    const response = await fetch(`https://arweave.net/${order.preview_arweave_id}`)
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to fetch from ArDrive: ${response.statusText}`)
+    }
+    
+    return new Response(response.body, {
+      headers: {
+        'Content-Type': response.headers.get('Content-Type') ?? 'audio/mpeg',
+        'Cache-Control': 'public, max-age=3600',
+      }
+    })
+    
+  } catch (error) {
+    console.error('❌ Preview fetch failed:', error)
+    return c.json({ error: 'Failed to fetch preview' }, 500)
+  }
+})
+
+// Upload a delivered song's public metadata (called by creator dashboard before fulfillOrder)
+// Artwork and player page go up first; Railway writes the JSON pointing at both
+app.post('/api/songs/:tokenId/metadata', requireSession, requireCreator, async (c) => {
+  try {
+    const tokenId = Number(c.req.param('tokenId'))
+    const { image, animation, metadata, recipientFirstName } = await c.req.json<{
+      image: string
+      animation?: string
+      metadata: Record<string, unknown>
+      // Shown in the public gallery; only stored if the buyer allowed publication
+      recipientFirstName?: string
+    }>()
+    
+    if (!Number.isInteger(tokenId) || tokenId < 0 || typeof image !== 'string' || !image ||
+        typeof metadata !== 'object' || metadata === null) {
+      return c.json({ error: 'Missing tokenId, image or metadata' }, 400)
+    }
+    
+    const ardriveResponse = await fetch('https://birthdays-with-jose-production.up.railway.app/api/metadata/upload', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        tokenId,
+        image,
+        animation: typeof animation === 'string' ? animation : undefined,
+        metadata
+      })
+    })
+    
+    if (!ardriveResponse.ok) {
+      console.error('❌ Railway metadata upload error:', ardriveResponse.status, await ardriveResponse.text())
+      throw new Error(`Railway service error: ${ardriveResponse.status}`)
+    }
+    
+    const result = await ardriveResponse.json()
+    console.log('🔍 Railway metadata upload response:', result)
+    
+    if (typeof recipientFirstName === 'string' && recipientFirstName.trim()) {
+      await setRecipientFirstName(c.env.DB, tokenId, recipientFirstName.trim().split(/\s+/)[0].slice(0, 40))
+    }
+    
+    return c.json(result)
+    
+  } catch (error) {
+    console.error('❌ Metadata upload failed:', error)
+    return c.json({ 
+      error: 'Failed to upload metadata',
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// Record a token's uploaded song (called by Railway ArDrive service after song upload)
+// Only the Arweave id: the order counts as fulfilled once the indexer sees fulfillOrder on chain
+app.post('/api/orders/fulfill', requireService, async (c) => {
   try {
     const { tokenId, songArweaveId } = await c.req.json()
     
-    if (!tokenId || !songArweaveId) {
+    if (!Number.isInteger(tokenId) || tokenId < 0 || !songArweaveId) {
       return c.json({ error: 'Missing required fields' }, 400)
     }
     
-    // Update order status in database
-    await c.env.DB.prepare(`
-      UPDATE orders 
-      SET song_arweave_id = ?, status = 'fulfilled', fulfilled_at = ?
-      WHERE token_id = ?
-    `).bind(
-      songArweaveId,
-      new Date().toISOString(),
-      tokenId
-    ).run()
+    await setSongUploaded(c.env.DB, tokenId, songArweaveId)
     
     return c.json({
       success: true,
-      message: 'Order marked as fulfilled'
+      message: 'Song upload recorded'
     })
     
   } catch (error) {
@@ -225,28 +699,30 @@ app.post('/api/orders/fulfill', async (c) => {
   }
 })
 
-// Get order data from Railway service
-app.get('/api/orders/:arweaveId', async (c) => {
+// Get encrypted order data from Arweave (decrypted client-side by the creator)
+app.get('/api/orders/:arweaveId', requireSession, requireCreator, async (c) => {
   try {
     const arweaveId = c.req.param('arweaveId')
-    console.log('🔍 Fetching order from Railway:', arweaveId)
+    console.log('🔍 Fetching order from Arweave:', arweaveId)
     
-    const railwayResponse = await fetch(`https://birthdays-with-jose-production.up.railway.app/api/orders/${arweaveId}`)
+    const response = await fetch(`https://arweave.net/${arweaveId}`)
     
-    if (!railwayResponse.ok) {
-      const errorText = await railwayResponse.text().catch(() => 'No response text')
-      console.error('❌ Railway service failed:', railwayResponse.status, errorText)
-      throw new Error(`Railway service error: ${railwayResponse.status} - ${errorText}`)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch from ArDrive: ${response.status}`)
     }
     
-    const railwayData = await railwayResponse.json()
-    console.log('📦 Railway response success:', railwayData)
-    return c.json(railwayData)
+    const encryptedData = await response.text()
+    
+    return c.json({
+      success: true,
+      encryptedData,
+      arweaveId
+    })
     
   } catch (error) {
     console.error('❌ Order fetch failed:', error)
     return c.json({ 
-      error: 'Failed to fetch order from Railway service', 
+      error: 'Failed to fetch order', 
       details: error instanceof Error ? error.message : 'Unknown error',
       arweaveId: c.req.param('arweaveId')
     }, 500)
@@ -254,26 +730,40 @@ app.get('/api/orders/:arweaveId', async (c) => {
 })
 
 // Get song data from ArDrive with NFT ownership verification
-app.get('/api/songs/:tokenId/:userAddress', async (c) => {
+// Caller authenticates with a session token or a one-shot SIWE proof for userAddress
+app.get('/api/songs/:tokenId/:userAddress', requireSession, async (c) => {
   try {
     const tokenId = c.req.param('tokenId')
     const userAddress = c.req.param('userAddress')
     
     console.log('🔍 Song download request:', { tokenId, userAddress })
     
-    // TODO: Verify NFT ownership by calling the contract
-    // For now, we'll trust the frontend verification
+    if (!/^\d+$/.test(tokenId) || !isAddress(userAddress)) {
+      return c.json({ error: 'Invalid tokenId or address' }, 400)
+    }
+    
+    // Caller must have proven control of userAddress
+    const signer = c.var.session.address
+    if (signer !== getAddress(userAddress)) {
+      return c.json({ error: 'Signature does not match address' }, 401)
+    }
+    
+    // And that address must currently hold the NFT
+    const owner = await getTokenOwner(c.env, BigInt(tokenId))
+    if (!owner) {
+      return c.json({ error: 'Order not found' }, 404)
+    }
+    if (owner !== signer) {
+      return c.json({ error: 'You do not own this NFT' }, 403)
+    }
     
     // Get order from database to find song ArDrive ID
-    const { results } = await c.env.DB.prepare(`
-      SELECT song_arweave_id, status FROM orders WHERE token_id = ?
-    `).bind(parseInt(tokenId)).all()
+    const order = await getOrderByTokenId(c.env.DB, parseInt(tokenId))
     
-    if (!results.length) {
+    if (!order) {
       return c.json({ error: 'Order not found' }, 404)
     }
     
-    const order = results[0] as any
     if (!order.song_arweave_id) {
       return c.json({ error: 'Song not yet uploaded' }, 404)
     }
@@ -282,7 +772,39 @@ app.get('/api/songs/:tokenId/:userAddress', async (c) => {
       return c.json({ error: 'Song not yet ready' }, 404)
     }
     
-    // Fetch song from ArDrive
+    // Held for the birthday: no key until the day, when the holder is also notified
+    if (!isRevealDue(order)) {
+      return c.json({
+        success: true,
+        status: 'scheduled',
+        revealAt: order.deliver_by,
+        tokenId: parseInt(tokenId)
+      })
+    }
+    
+    // Song key wrapped for the holder; songs uploaded before per-token keys have none
+    let wrappedKey: string | null = null
+    if (await getWrappedKey(c.env, parseInt(tokenId), ESCROW_RECIPIENT)) {
+      wrappedKey = await getWrappedKey(c.env, parseInt(tokenId), owner)
+        ?? await rewrapSongKey(c.env, parseInt(tokenId), owner)
+      
+      if (!wrappedKey) {
+        return c.json({ error: 'Register your listening key first' }, 409)
+      }
+    }
+    
+    // Encrypted songs are streamed and decrypted by the client straight from Arweave
+    if (wrappedKey) {
+      return c.json({
+        success: true,
+        wrappedKey,
+        songUrl: `https://arweave.net/${order.song_arweave_id}`,
+        arweaveId: order.song_arweave_id,
+        tokenId: parseInt(tokenId)
+      })
+    }
+    
+    // Legacy unencrypted song: fetch from ArDrive and return inline
     const response = await fetch(`https://arweave.net/${order.song_arweave_id}`)
     if (!response.ok) {
       throw new Error(`Failed to fetch from ArDrive: ${response.statusText}`)
@@ -293,6 +815,7 @@ app.get('/api/songs/:tokenId/:userAddress', async (c) => {
     return c.json({
       success: true,
       songData: songData,
+      wrappedKey: null,
       arweaveId: order.song_arweave_id,
       tokenId: parseInt(tokenId)
     })
@@ -328,12 +851,47 @@ app.get('/api/songs/:arweaveId', async (c) => {
   }
 })
 
-// List orders for dashboard
-app.get('/api/orders', async (c) => {
+// Public gallery of delivered songs whose buyer allowed publication (?page=0&limit=12)
+// Only consented orders are selected, and only tier, date, first name and preview leave D1
+app.get('/api/gallery', async (c) => {
   try {
-    const { results } = await c.env.DB.prepare(`
-      SELECT * FROM orders ORDER BY created_at DESC
-    `).all()
+    const page = Math.max(0, Math.floor(Number(c.req.query('page') ?? 0)) || 0)
+    const limit = Math.min(GALLERY_MAX_PAGE_SIZE, Math.max(1, Math.floor(Number(c.req.query('limit') ?? GALLERY_PAGE_SIZE)) || GALLERY_PAGE_SIZE))
+    
+    // One extra row tells us whether there's another page
+    const rows = await listGallery(c.env.DB, limit + 1, page * limit)
+    
+    const songs = rows.slice(0, limit).map((row) => ({
+      tokenId: row.token_id,
+      tierId: row.tier_id,
+      deliveredAt: row.fulfilled_at,
+      recipientFirstName: row.recipient_first_name,
+      previewUrl: row.has_preview ? new URL(`/api/previews/${row.token_id}`, c.req.url).toString() : null
+    }))
+    
+    return c.json({
+      success: true,
+      songs,
+      page,
+      hasMore: rows.length > limit
+    })
+    
+  } catch (error) {
+    console.error('❌ Gallery fetch failed:', error)
+    return c.json({ error: 'Failed to fetch gallery' }, 500)
+  }
+})
+
+// List orders for dashboard, optionally filtered by status (e.g. ?status=orphaned)
+app.get('/api/orders', requireSession, requireCreator, async (c) => {
+  try {
+    const statusParam = c.req.query('status')
+    const status = statusParam && isOrderStatus(statusParam) ? statusParam : undefined
+    if (statusParam && !status) {
+      return c.json({ error: 'Invalid status' }, 400)
+    }
+    
+    const results = await listOrders(c.env.DB, status)
     
     // Map database fields to dashboard expected format
     const mappedOrders = results.map(order => ({
@@ -341,17 +899,11 @@ app.get('/api/orders', async (c) => {
       orderDataUri: `ardrive://${order.arweave_id}`,
       tokenId: order.token_id,
       // Map snake_case to camelCase for frontend compatibility
-      recipientName: order.recipient_name,
-      birthDate: order.birth_date,
       allowPublication: Boolean(order.allow_publication),
-      birthTime: order.birth_time,
-      birthLocation: order.birth_location,
-      sunSign: order.sun_sign,
-      moonSign: order.moon_sign,
-      risingSign: order.rising_sign,
-      musicalStyle: order.musical_style,
-      orderType: order.order_type,
-      orderedBy: order.ordered_by
+      tierId: order.tier_id,
+      orderedBy: order.ordered_by,
+      deliverBy: order.deliver_by,
+      revealOnDelivery: Boolean(order.reveal_on_delivery)
     }))
     
     return c.json({
@@ -376,4 +928,25 @@ app.onError((err, c) => {
   return c.json({ error: 'Internal server error' }, 500)
 })
 
-export default app
\ No newline at end of file
+export default {
+  fetch: app.fetch,
+  
+  // Cron trigger: index contract events into D1 (and rewrap song keys for new holders),
+  // then announce songs whose reveal date has come
+  async scheduled(_event: ScheduledEvent, env: Env, ctx: ExecutionContext) {
+    ctx.waitUntil(
+      syncOrders(env)
+        .then((result) => console.log('🔁 Indexed orders:', result))
+        .then(() => markOrphanedUploads(env))
+        .then((count) => {
+          if (count) console.log(`🧹 Marked ${count} uploads as orphaned`)
+        })
+        .catch((error) => console.error('❌ Order indexing failed:', error))
+        .then(() => announceDueReveals(env))
+        .then((count) => {
+          if (count) console.log(`🎂 Announced ${count} song reveals`)
+        })
+        .catch((error) => console.error('❌ Reveal announcements failed:', error))
+    )
+  }
+}
\ No newline at end of file
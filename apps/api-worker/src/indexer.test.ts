@@ -0,0 +1,194 @@
+/// <reference types="node" />
+/**
+ * Contract indexer against anvil running the real contract: the first-run
+ * backfill, the cursor between runs, the per-run token cap and reorgs
+ */
+
+import { getAddress, type Address, type Hex } from 'viem'
+import { foundry } from 'viem/chains'
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { syncOrders, type IndexerEnv } from './indexer'
+import {
+  compileContracts,
+  createBindings,
+  deployBirthdaySongs,
+  startAnvil,
+  type DeployedContracts,
+  type TestBindings,
+  type TestChain
+} from './testing'
+
+let bindings: TestBindings
+let chain: TestChain
+let contracts: DeployedContracts
+let env: IndexerEnv
+let buyer: Address
+let friend: Address
+
+beforeAll(() => {
+  compileContracts()
+}, 120_000)
+
+beforeEach(async () => {
+  bindings = await createBindings()
+  chain = await startAnvil()
+  contracts = await deployBirthdaySongs(chain.client)
+  ;[, buyer, friend] = await chain.client.getAddresses()
+
+  env = {
+    DB: bindings.DB,
+    SETTINGS: bindings.SETTINGS,
+    RPC_URL: chain.rpcUrl,
+    CHAIN_ID: String(foundry.id),
+    CONTRACT_ADDRESS: contracts.songs.address,
+    KEY_ESCROW_SECRET: 'test escrow secret',
+    INDEXER_CONFIRMATIONS: '0',
+  }
+
+  await send(contracts.usdc, 'mint', [buyer, 100_000n * 10n ** 6n])
+  await send(contracts.usdc, 'approve', [contracts.songs.address, 2n ** 256n - 1n], buyer)
+})
+
+afterEach(async () => {
+  await chain.stop()
+  await bindings.dispose()
+})
+
+async function submit(
+  contract: DeployedContracts['songs'],
+  functionName: string,
+  args: unknown[],
+  account: Address = contracts.owner
+): Promise<Hex> {
+  return chain.client.writeContract({ ...contract, functionName, args, account, chain: foundry })
+}
+
+async function send(...call: Parameters<typeof submit>): Promise<void> {
+  await chain.client.waitForTransactionReceipt({ hash: await submit(...call) })
+}
+
+/**
+ * Order songs from the buyer, one block each, alternating the launch tiers
+ * so neither sells out
+ */
+async function mintOrders(count: number, recipient: Address = buyer): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    const tokenId = await totalOrders()
+    await send(contracts.songs, 'mint', [tokenId % 2n, recipient, `ardrive://order-${tokenId}`], buyer)
+  }
+}
+
+async function totalOrders(): Promise<bigint> {
+  return await chain.client.readContract({ ...contracts.songs, functionName: 'totalOrders' }) as bigint
+}
+
+async function indexedOrders() {
+  const { results } = await bindings.DB.prepare(
+    'SELECT token_id, arweave_id, holder, status FROM orders ORDER BY token_id'
+  ).all<{ token_id: number; arweave_id: string; holder: string | null; status: string }>()
+  return results
+}
+
+describe('syncOrders', () => {
+  it('backfills tokens minted before its first run, a batch per run', async () => {
+    await mintOrders(45)
+
+    const first = await syncOrders(env)
+    expect(first.reconciled).toBe(40)
+    expect(await indexedOrders()).toHaveLength(40)
+
+    const second = await syncOrders(env)
+    expect(second.reconciled).toBe(5)
+
+    const orders = await indexedOrders()
+    expect(orders).toHaveLength(45)
+    expect(orders[44]).toEqual({ token_id: 44, arweave_id: 'order-44', holder: getAddress(buyer), status: 'pending' })
+
+    expect((await syncOrders(env)).reconciled).toBe(0)
+  })
+
+  it('picks up where the cursor left off', async () => {
+    await syncOrders(env)
+    const head = await chain.client.getBlockNumber({ cacheTime: 0 })
+
+    await mintOrders(2)
+    const minted = await syncOrders(env)
+    expect(minted).toMatchObject({ fromBlock: String(head + 1n), toBlock: String(head + 2n), reconciled: 2 })
+
+    await send(contracts.songs, 'transferFrom', [buyer, friend, 0n], buyer)
+    await send(contracts.songs, 'fulfillOrder', [1n, 'ardrive://song-1', ''])
+    const updated = await syncOrders(env)
+    expect(updated).toMatchObject({ fromBlock: String(head + 3n), toBlock: String(head + 4n), reconciled: 2 })
+
+    expect(await indexedOrders()).toEqual([
+      { token_id: 0, arweave_id: 'order-0', holder: getAddress(friend), status: 'pending' },
+      { token_id: 1, arweave_id: 'order-1', holder: getAddress(buyer), status: 'fulfilled' },
+    ])
+
+    expect(await syncOrders(env)).toMatchObject({ fromBlock: null, reconciled: 0 })
+  })
+
+  it('stops at the token cap between blocks, never inside one', async () => {
+    await syncOrders(env)
+
+    await mintOrders(39)
+
+    // Two orders in the block that crosses the cap of 40
+    await chain.client.setAutomine(false)
+    await submit(contracts.songs, 'mint', [0n, buyer, 'ardrive://order-39'], buyer)
+    const hash = await submit(contracts.songs, 'mint', [1n, buyer, 'ardrive://order-40'], buyer)
+    await chain.client.mine({ blocks: 1 })
+    const { blockNumber: crossing } = await chain.client.waitForTransactionReceipt({ hash })
+    await chain.client.setAutomine(true)
+
+    await mintOrders(1)
+
+    const first = await syncOrders(env)
+    expect(first).toMatchObject({ toBlock: String(crossing), reconciled: 41 })
+    expect(await indexedOrders()).toHaveLength(41)
+
+    const second = await syncOrders(env)
+    expect(second).toMatchObject({ fromBlock: String(crossing + 1n), toBlock: String(crossing + 1n), reconciled: 1 })
+    expect(await indexedOrders()).toHaveLength(42)
+  })
+
+  it('marks a mint that was reorged away as unconfirmed', async () => {
+    await syncOrders(env)
+    const head = await chain.client.getBlockNumber({ cacheTime: 0 })
+    const snapshot = await chain.client.snapshot()
+
+    await mintOrders(1)
+    await syncOrders(env)
+    expect((await indexedOrders())[0]).toMatchObject({ token_id: 0, status: 'pending' })
+
+    // The replacing chain never saw the mint
+    await chain.client.revert({ id: snapshot })
+    await chain.client.mine({ blocks: 2 })
+
+    const result = await syncOrders(env)
+    expect(result).toMatchObject({ reorgedTo: String(head), toBlock: String(head + 2n) })
+    expect(await indexedOrders()).toEqual([
+      { token_id: 0, arweave_id: 'order-0', holder: null, status: 'unconfirmed' },
+    ])
+  })
+
+  it('re-reads a token whose mint moved in a reorg', async () => {
+    await syncOrders(env)
+    const head = await chain.client.getBlockNumber({ cacheTime: 0 })
+    const snapshot = await chain.client.snapshot()
+
+    await mintOrders(1)
+    await syncOrders(env)
+
+    // The same order lands a block later, sent to a friend instead
+    await chain.client.revert({ id: snapshot })
+    await chain.client.mine({ blocks: 1 })
+    await mintOrders(1, friend)
+
+    const result = await syncOrders(env)
+    expect(result).toMatchObject({ reorgedTo: String(head), toBlock: String(head + 2n) })
+    expect(await indexedOrders()).toEqual([
+      { token_id: 0, arweave_id: 'order-0', holder: getAddress(friend), status: 'pending' },
+    ])
+  })
+})
@@ -0,0 +1,311 @@
+/**
+ * Contract event indexer for the Birthday Songs API Worker
+ *
+ * Runs on the cron trigger. Reads OrderCreated, OrderFulfilled, OrderRefunded
+ * and Transfer logs since the last indexed block and reconciles the D1 orders
+ * table with the contract: real token id, order data URI, current holder,
+ * fulfilment and refunds.
+ * The chain is the source of truth; rows Railway wrote at upload time (with a
+ * placeholder token id) are matched by their Arweave id and corrected.
+ *
+ * The cursor in KV keeps the hashes of recently indexed blocks. If one no
+ * longer matches the chain, the indexer rewinds to the newest block that still
+ * does and re-reads every token it touched after it.
+ */
+
+import {
+  BlockNotFoundError,
+  TransactionReceiptNotFoundError,
+  isAddressEqual,
+  parseEventLogs,
+  type Address,
+  type Hex,
+  type PublicClient
+} from 'viem'
+import { BIRTHDAY_SONGS_ABI, getOrder, getPublicClient, getTokenOwner } from './chain'
+import {
+  getTokensIndexedAfter,
+  markUploadsOrphanedBefore,
+  markUnconfirmed,
+  upsertChainOrder
+} from './orders'
+import { rewrapSongKey, type SongKeyEnv } from './song-keys'
+
+export interface IndexerEnv extends SongKeyEnv {
+  // Blocks to stay behind the head (0 for anvil)
+  INDEXER_CONFIRMATIONS?: string
+}
+
+export interface IndexerResult {
+  fromBlock: string | null
+  toBlock: string | null
+  reconciled: number
+  // Block the indexer rewound to after a reorg
+  reorgedTo: string | null
+}
+
+interface Checkpoint {
+  block: string
+  hash: Hex
+}
+
+interface IndexerCursor {
+  // Recently indexed blocks, oldest first
+  checkpoints: Checkpoint[]
+  // First-run backfill of tokens that existed before the indexer did
+  backfill?: { next: number; end: number }
+}
+
+const CURSOR_SETTING = 'indexer-cursor'
+// Keep getLogs ranges small enough for public RPCs
+const MAX_BLOCK_RANGE = 2000n
+// How far back a reorg can be followed before starting over
+const MAX_CHECKPOINTS = 24
+// Tokens reconciled per run, to stay inside the worker's subrequest limit
+const MAX_TOKENS_PER_RUN = 40
+
+// How long an upload may wait for its mint before it counts as orphaned
+const ORPHAN_AFTER_MS = 24 * 60 * 60 * 1000
+
+/**
+ * A mint transaction that can't be confirmed (yet)
+ */
+export class MintConfirmationError extends Error {
+  constructor(message: string, readonly status: 400 | 404) {
+    super(message)
+    this.name = 'MintConfirmationError'
+  }
+}
+
+export interface ConfirmedOrder {
+  tokenId: number
+  arweaveId: string
+}
+
+/**
+ * Index contract events since the stored cursor into D1
+ */
+export async function syncOrders(env: IndexerEnv): Promise<IndexerResult> {
+  const client = getPublicClient(env)
+  const confirmations = BigInt(env.INDEXER_CONFIRMATIONS || '0')
+  const latestBlock = await client.getBlockNumber()
+  const safeBlock = latestBlock > confirmations ? latestBlock - confirmations : 0n
+  const result: IndexerResult = { fromBlock: null, toBlock: null, reconciled: 0, reorgedTo: null }
+
+  let cursor = await loadCursor(env)
+
+  if (!cursor) {
+    // First run: reconcile every existing token as of safeBlock, then follow logs from there
+    const totalOrders = await client.readContract({
+      address: env.CONTRACT_ADDRESS as Address,
+      abi: BIRTHDAY_SONGS_ABI,
+      functionName: 'totalOrders',
+      blockNumber: safeBlock,
+    })
+    cursor = {
+      checkpoints: [await checkpointAt(client, safeBlock)],
+      backfill: { next: 0, end: Number(totalOrders) },
+    }
+  }
+
+  const ancestor = await findCommonAncestor(client, cursor.checkpoints)
+  if (!ancestor) {
+    // Reorged deeper than our checkpoints: start over with a fresh backfill
+    console.warn('⚠️ Indexer cursor is not on the canonical chain, resetting')
+    await env.SETTINGS.delete(CURSOR_SETTING)
+    return result
+  }
+
+  const ancestorBlock = BigInt(ancestor.block)
+  const head = cursor.checkpoints[cursor.checkpoints.length - 1]
+  if (ancestor !== head) {
+    console.warn(`⚠️ Reorg detected, rewinding indexer from block ${head.block} to ${ancestor.block}`)
+    cursor.checkpoints = cursor.checkpoints.slice(0, cursor.checkpoints.indexOf(ancestor) + 1)
+    result.reorgedTo = ancestor.block
+
+    for (const tokenId of await getTokensIndexedAfter(env.DB, Number(ancestorBlock))) {
+      await reconcileToken(env, BigInt(tokenId), ancestorBlock)
+      result.reconciled++
+    }
+    await saveCursor(env, cursor)
+  }
+
+  // Backfill runs at its own block, so logs after it can't be applied until it's done
+  if (cursor.backfill) {
+    const { next, end } = cursor.backfill
+    const stop = Math.min(end, next + MAX_TOKENS_PER_RUN)
+
+    for (let tokenId = next; tokenId < stop; tokenId++) {
+      await reconcileToken(env, BigInt(tokenId), ancestorBlock)
+      result.reconciled++
+    }
+
+    cursor.backfill = stop < end ? { next: stop, end } : undefined
+    await saveCursor(env, cursor)
+    if (cursor.backfill) return result
+  }
+
+  let lastBlock = ancestorBlock
+  while (lastBlock < safeBlock && result.reconciled < MAX_TOKENS_PER_RUN) {
+    const fromBlock = lastBlock + 1n
+    const toBlock = fromBlock + MAX_BLOCK_RANGE - 1n < safeBlock ? fromBlock + MAX_BLOCK_RANGE - 1n : safeBlock
+
+    // Hash first: if toBlock is reorged while we read, the next run notices
+    let checkpoint = await checkpointAt(client, toBlock)
+
+    const logs = await client.getContractEvents({
+      address: env.CONTRACT_ADDRESS as Address,
+      abi: BIRTHDAY_SONGS_ABI,
+      fromBlock,
+      toBlock,
+    })
+
+    // State is read at the checkpoint, so each token is reconciled once per range.
+    // A range with more tokens than the run has left stops after the last whole
+    // block that fits, checkpointed with the hash its logs came from.
+    const tokenIds = new Set<bigint>()
+    let lastLog: (typeof logs)[number] | undefined
+    for (const log of logs) {
+      if (log.args.tokenId === undefined) continue
+
+      const full = result.reconciled + tokenIds.size >= MAX_TOKENS_PER_RUN
+      if (full && lastLog && log.blockNumber !== lastLog.blockNumber) {
+        checkpoint = { block: lastLog.blockNumber.toString(), hash: lastLog.blockHash }
+        break
+      }
+
+      tokenIds.add(log.args.tokenId)
+      lastLog = log
+    }
+
+    for (const tokenId of tokenIds) {
+      await reconcileToken(env, tokenId, BigInt(checkpoint.block))
+      result.reconciled++
+    }
+
+    cursor.checkpoints = [...cursor.checkpoints, checkpoint].slice(-MAX_CHECKPOINTS)
+    await saveCursor(env, cursor)
+
+    result.fromBlock ??= fromBlock.toString()
+    result.toBlock = checkpoint.block
+    lastBlock = BigInt(checkpoint.block)
+  }
+
+  return result
+}
+
+/**
+ * Bind the uploads minted in a transaction to their token ids, straight from
+ * the receipt's OrderCreated logs rather than waiting for the next cron run
+ */
+export async function confirmMint(env: IndexerEnv, txHash: Hex): Promise<ConfirmedOrder[]> {
+  const client = getPublicClient(env)
+
+  let receipt
+  try {
+    receipt = await client.getTransactionReceipt({ hash: txHash })
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) {
+      throw new MintConfirmationError('Transaction not mined yet', 404)
+    }
+    throw error
+  }
+
+  if (receipt.status !== 'success') {
+    throw new MintConfirmationError('Transaction reverted', 400)
+  }
+
+  const logs = parseEventLogs({
+    abi: BIRTHDAY_SONGS_ABI,
+    eventName: 'OrderCreated',
+    logs: receipt.logs,
+  }).filter((log) => isAddressEqual(log.address, env.CONTRACT_ADDRESS as Address))
+
+  if (!logs.length) {
+    throw new MintConfirmationError('No order was minted in this transaction', 400)
+  }
+
+  const confirmed: ConfirmedOrder[] = []
+  for (const log of logs) {
+    await reconcileToken(env, log.args.tokenId, receipt.blockNumber)
+    confirmed.push({ tokenId: Number(log.args.tokenId), arweaveId: stripUriScheme(log.args.orderDataUri) })
+  }
+  return confirmed
+}
+
+/**
+ * Mark uploads that have waited too long for a mint as orphaned. A late mint
+ * still binds them (the indexer matches by Arweave id), so this is only a label.
+ */
+export async function markOrphanedUploads(env: IndexerEnv): Promise<number> {
+  return markUploadsOrphanedBefore(env.DB, new Date(Date.now() - ORPHAN_AFTER_MS))
+}
+
+/**
+ * Bring one token's orders row in line with the contract as of blockNumber
+ */
+async function reconcileToken(env: IndexerEnv, tokenId: bigint, blockNumber: bigint): Promise<void> {
+  const [order, holder] = await Promise.all([
+    getOrder(env, tokenId, blockNumber),
+    getTokenOwner(env, tokenId, blockNumber),
+  ])
+
+  if (!order || !holder) {
+    // Minted only on a fork that was reorged away
+    await markUnconfirmed(env.DB, Number(tokenId), Number(blockNumber))
+    return
+  }
+
+  // Matched to the upload's row by Arweave id, so uploads get their real token id
+  const previousHolder = await upsertChainOrder(env.DB, {
+    tokenId: Number(tokenId),
+    arweaveId: stripUriScheme(order.orderDataUri),
+    tierId: Number(order.tierId),
+    orderedBy: order.orderedBy,
+    orderedAt: new Date(Number(order.orderedAt) * 1000).toISOString(),
+    holder,
+    fulfilled: order.fulfilled,
+    refunded: order.refunded,
+    songArweaveId: order.fulfilled ? stripUriScheme(order.songUri) : null,
+    indexedBlock: Number(blockNumber),
+  })
+
+  // Access follows the token: revoke the old holder's wrap and wrap for the new one
+  if (previousHolder !== holder) {
+    await rewrapSongKey(env, Number(tokenId), holder)
+  }
+}
+
+/**
+ * Newest checkpoint whose block hash still matches the chain, or null
+ */
+async function findCommonAncestor(client: PublicClient, checkpoints: Checkpoint[]): Promise<Checkpoint | null> {
+  for (let i = checkpoints.length - 1; i >= 0; i--) {
+    try {
+      const { hash } = await checkpointAt(client, BigInt(checkpoints[i].block))
+      if (hash === checkpoints[i].hash) return checkpoints[i]
+    } catch (error) {
+      // The replacing chain can be shorter than the one we indexed
+      if (!(error instanceof BlockNotFoundError)) throw error
+    }
+  }
+  return null
+}
+
+async function checkpointAt(client: PublicClient, blockNumber: bigint): Promise<Checkpoint> {
+  const block = await client.getBlock({ blockNumber })
+  return { block: blockNumber.toString(), hash: block.hash }
+}
+
+async function loadCursor(env: IndexerEnv): Promise<IndexerCursor | null> {
+  return env.SETTINGS.get<IndexerCursor>(CURSOR_SETTING, 'json')
+}
+
+async function saveCursor(env: IndexerEnv, cursor: IndexerCursor): Promise<void> {
+  await env.SETTINGS.put(CURSOR_SETTING, JSON.stringify(cursor))
+}
+
+// Contract URIs are ardrive://<id> (mock://<id> in local testing)
+function stripUriScheme(uri: string): string {
+  return uri.replace(/^(ardrive|mock):\/\//, '')
+}
@@ -0,0 +1,206 @@
+/// <reference types="node" />
+/**
+ * Message threads against anvil running the real contract: who gets which
+ * role in a token's thread, and what postMessage accepts
+ */
+
+import { getAddress, type Address } from 'viem'
+import { foundry } from 'viem/chains'
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import worker from './index'
+import { MessageError, getThreadRole, listMessages, postMessage, type MessageEnv, type NewMessage } from './messages'
+import { createSession } from './session'
+import { CREATOR_RECIPIENT } from './song-keys'
+import {
+  compileContracts,
+  createBindings,
+  deployBirthdaySongs,
+  startAnvil,
+  type DeployedContracts,
+  type TestBindings,
+  type TestChain
+} from './testing'
+
+let bindings: TestBindings
+let chain: TestChain
+let contracts: DeployedContracts
+let env: MessageEnv
+let owner: Address
+let buyer: Address
+let friend: Address
+let stranger: Address
+let creator: Address
+
+beforeAll(() => {
+  compileContracts()
+}, 120_000)
+
+beforeEach(async () => {
+  bindings = await createBindings()
+  chain = await startAnvil()
+  contracts = await deployBirthdaySongs(chain.client)
+  ;[owner, buyer, friend, stranger, creator] = (await chain.client.getAddresses()).map((address) => getAddress(address))
+
+  env = {
+    DB: bindings.DB,
+    SETTINGS: bindings.SETTINGS,
+    RPC_URL: chain.rpcUrl,
+    CHAIN_ID: String(foundry.id),
+    CONTRACT_ADDRESS: contracts.songs.address,
+    CREATOR_ADDRESS: creator,
+    KEY_ESCROW_SECRET: 'test escrow secret',
+  }
+
+  for (const account of [owner, buyer]) {
+    await send(contracts.usdc, 'mint', [account, 1_000n * 10n ** 6n])
+    await send(contracts.usdc, 'approve', [contracts.songs.address, 2n ** 256n - 1n], account)
+  }
+})
+
+afterEach(async () => {
+  await chain.stop()
+  await bindings.dispose()
+})
+
+async function send(
+  contract: DeployedContracts['songs'],
+  functionName: string,
+  args: unknown[],
+  account: Address = owner
+): Promise<void> {
+  const hash = await chain.client.writeContract({ ...contract, functionName, args, account, chain: foundry })
+  await chain.client.waitForTransactionReceipt({ hash })
+}
+
+/**
+ * Order a song from `from` for `recipient`; token ids count up from 0
+ */
+async function order(from: Address, recipient: Address): Promise<void> {
+  await send(contracts.songs, 'mint', [0n, recipient, 'ardrive://order'], from)
+}
+
+function message(sender: string, overrides: Partial<NewMessage> = {}): NewMessage {
+  return {
+    kind: 'message',
+    ciphertext: 'c2VhbGVk',
+    wrappedKeys: { [CREATOR_RECIPIENT]: 'wrapped-for-creator', [sender]: 'wrapped-for-sender' },
+    ...overrides,
+  }
+}
+
+describe('getThreadRole', () => {
+  it('resolves the creator, the buyer and the holder of a gift', async () => {
+    await order(buyer, friend)
+
+    expect(await getThreadRole(env, 0, creator)).toBe('creator')
+    expect(await getThreadRole(env, 0, owner)).toBe('creator')
+    expect(await getThreadRole(env, 0, buyer)).toBe('buyer')
+    expect(await getThreadRole(env, 0, friend)).toBe('holder')
+  })
+
+  it('prefers creator over buyer, and buyer over holder', async () => {
+    await order(owner, owner)
+    await order(buyer, buyer)
+
+    expect(await getThreadRole(env, 0, owner)).toBe('creator')
+    expect(await getThreadRole(env, 1, buyer)).toBe('buyer')
+  })
+
+  it('follows the token to its new holder', async () => {
+    await order(buyer, friend)
+    await send(contracts.songs, 'transferFrom', [friend, stranger, 0n], friend)
+
+    expect(await getThreadRole(env, 0, stranger)).toBe('holder')
+    await expect(getThreadRole(env, 0, friend)).rejects.toMatchObject({ status: 403 })
+  })
+
+  it('refuses anyone else', async () => {
+    await order(buyer, friend)
+
+    const error = await getThreadRole(env, 0, stranger).catch((error: unknown) => error)
+    expect(error).toBeInstanceOf(MessageError)
+    expect(error).toMatchObject({ status: 403 })
+  })
+
+  it('returns 404 for a token that was never minted', async () => {
+    await expect(getThreadRole(env, 7, buyer)).rejects.toMatchObject({ status: 404, message: 'Order not found' })
+  })
+})
+
+describe('postMessage', () => {
+  it('stores a message encrypted to the creator and the sender', async () => {
+    const stored = await postMessage(env.DB, 0, buyer, 'buyer', message(buyer, { kind: 'revision' }))
+    expect(stored).toMatchObject({ sender: buyer, senderRole: 'buyer', kind: 'revision', ciphertext: 'c2VhbGVk' })
+
+    const fromCreator = await postMessage(env.DB, 0, creator, 'creator', message(CREATOR_RECIPIENT))
+    expect(await listMessages(env.DB, 0)).toEqual([stored, fromCreator])
+  })
+
+  it('rejects an unknown kind', async () => {
+    const input = message(buyer, { kind: 'announcement' as NewMessage['kind'] })
+    await expect(postMessage(env.DB, 0, buyer, 'buyer', input)).rejects.toMatchObject({
+      status: 400,
+      message: 'Unknown message kind',
+    })
+  })
+
+  it('rejects a revision request from the creator', async () => {
+    await expect(postMessage(env.DB, 0, creator, 'creator', message(CREATOR_RECIPIENT, { kind: 'revision' })))
+      .rejects.toMatchObject({ status: 403 })
+  })
+
+  it('rejects an empty or oversized body', async () => {
+    for (const ciphertext of ['', 'a'.repeat(16 * 1024 + 1)]) {
+      await expect(postMessage(env.DB, 0, buyer, 'buyer', message(buyer, { ciphertext }))).rejects.toMatchObject({
+        status: 400,
+        message: 'Message is missing or too long',
+      })
+    }
+  })
+
+  it('rejects a message the creator or the sender could not read', async () => {
+    const missingCreator = message(buyer, { wrappedKeys: { [buyer]: 'wrapped-for-sender' } })
+    const missingSender = message(buyer, { wrappedKeys: { [CREATOR_RECIPIENT]: 'wrapped-for-creator' } })
+
+    for (const input of [missingCreator, missingSender]) {
+      await expect(postMessage(env.DB, 0, buyer, 'buyer', input)).rejects.toMatchObject({
+        status: 400,
+        message: 'Message must be encrypted to the creator and the sender',
+      })
+    }
+    expect(await listMessages(env.DB, 0)).toEqual([])
+  })
+})
+
+describe('/api/threads/:tokenId', () => {
+  async function callThread(caller: Address, init: RequestInit = {}): Promise<Response> {
+    const { token } = await createSession(env, caller)
+    return worker.fetch(
+      new Request('http://worker.test/api/threads/0', {
+        ...init,
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      }),
+      env,
+      {} as ExecutionContext
+    )
+  }
+
+  it('lets participants read the thread', async () => {
+    await order(buyer, friend)
+
+    const response = await callThread(friend)
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ role: 'holder', messages: [] })
+  })
+
+  it('refuses non-participants', async () => {
+    await order(buyer, friend)
+
+    const read = await callThread(stranger)
+    expect(read.status).toBe(403)
+
+    const post = await callThread(stranger, { method: 'POST', body: JSON.stringify(message(stranger)) })
+    expect(post.status).toBe(403)
+    expect(await listMessages(env.DB, 0)).toEqual([])
+  })
+})
@@ -0,0 +1,201 @@
+/**
+ * Per-token message threads for the Birthday Songs API Worker
+ *
+ * The creator, the buyer who paid for a song and whoever holds its NFT can
+ * talk about the order: pronunciations, language, revision requests. Messages
+ * are encrypted in the sender's browser with a fresh key wrapped for each
+ * party's public key, so the worker only checks who may read or post and
+ * stores ciphertext in D1 `order_messages`.
+ */
+
+import { getAddress, type Address } from 'viem'
+import { getOrder, getTokenOwner } from './chain'
+import { isCreator, type SessionEnv } from './session'
+import { CREATOR_RECIPIENT, getHolderPublicKey, type SongKeyEnv } from './song-keys'
+
+export type MessageEnv = SongKeyEnv & SessionEnv
+
+export type ThreadRole = 'creator' | 'buyer' | 'holder'
+
+// A revision asks for changes to a delivered song; only buyer or holder send them
+export type MessageKind = 'message' | 'revision'
+
+// Someone a message can be encrypted to; recipient labels the wrapped key
+export interface ThreadParticipant {
+  role: ThreadRole
+  recipient: string
+  publicKey: string | null
+}
+
+export interface ThreadMessage {
+  id: string
+  sender: Address
+  senderRole: ThreadRole
+  kind: MessageKind
+  ciphertext: string
+  wrappedKeys: Record<string, string>
+  createdAt: string
+}
+
+export interface NewMessage {
+  kind: MessageKind
+  ciphertext: string
+  wrappedKeys: Record<string, string>
+}
+
+interface MessageRow {
+  id: string
+  token_id: number
+  sender: string
+  sender_role: ThreadRole
+  kind: MessageKind
+  ciphertext: string
+  wrapped_keys: string
+  created_at: string
+}
+
+// Base64 of a few thousand characters of text plus the stream header
+const MAX_CIPHERTEXT_LENGTH = 16 * 1024
+
+/**
+ * A thread that doesn't exist, or a caller who isn't part of it
+ */
+export class MessageError extends Error {
+  constructor(message: string, readonly status: 400 | 403 | 404) {
+    super(message)
+    this.name = 'MessageError'
+  }
+}
+
+/**
+ * Buyer and current holder of a token, from the contract
+ */
+async function getTokenParties(env: MessageEnv, tokenId: number): Promise<{ buyer: Address; holder: Address }> {
+  const [order, holder] = await Promise.all([
+    getOrder(env, BigInt(tokenId)),
+    getTokenOwner(env, BigInt(tokenId)),
+  ])
+  if (!order || !holder) {
+    throw new MessageError('Order not found', 404)
+  }
+  return { buyer: getAddress(order.orderedBy), holder }
+}
+
+/**
+ * The caller's role in a token's thread. The creator takes precedence, then
+ * the buyer; anyone else is refused.
+ */
+export async function getThreadRole(env: MessageEnv, tokenId: number, address: Address): Promise<ThreadRole> {
+  if (await isCreator(env, address)) return 'creator'
+
+  const { buyer, holder } = await getTokenParties(env, tokenId)
+  if (address === buyer) return 'buyer'
+  if (address === holder) return 'holder'
+
+  throw new MessageError('Only the buyer or holder of this song can use its thread', 403)
+}
+
+/**
+ * Everyone a new message should be encrypted to, with the public keys they've
+ * registered. A gift held by the contract awaiting its claim has no holder yet.
+ */
+export async function getThreadParticipants(
+  env: MessageEnv,
+  tokenId: number,
+  creatorPublicKey: string | null
+): Promise<ThreadParticipant[]> {
+  const { buyer, holder } = await getTokenParties(env, tokenId)
+
+  const participants: ThreadParticipant[] = [
+    { role: 'creator', recipient: CREATOR_RECIPIENT, publicKey: creatorPublicKey },
+    { role: 'buyer', recipient: buyer, publicKey: await getHolderPublicKey(env, buyer) },
+  ]
+
+  if (holder !== buyer && holder !== getAddress(env.CONTRACT_ADDRESS)) {
+    participants.push({ role: 'holder', recipient: holder, publicKey: await getHolderPublicKey(env, holder) })
+  }
+
+  return participants
+}
+
+/**
+ * A token's messages, oldest first
+ */
+export async function listMessages(db: D1Database, tokenId: number): Promise<ThreadMessage[]> {
+  const { results } = await db.prepare(`
+    SELECT * FROM order_messages WHERE token_id = ? ORDER BY created_at ASC
+  `).bind(tokenId).all<MessageRow>()
+
+  return results.map(toThreadMessage)
+}
+
+/**
+ * Validate and store a message from a thread participant
+ */
+export async function postMessage(
+  db: D1Database,
+  tokenId: number,
+  sender: Address,
+  senderRole: ThreadRole,
+  input: NewMessage
+): Promise<ThreadMessage> {
+  if (input.kind !== 'message' && input.kind !== 'revision') {
+    throw new MessageError('Unknown message kind', 400)
+  }
+  if (input.kind === 'revision' && senderRole === 'creator') {
+    throw new MessageError('Only the buyer or holder can request a revision', 403)
+  }
+  if (typeof input.ciphertext !== 'string' || !input.ciphertext || input.ciphertext.length > MAX_CIPHERTEXT_LENGTH) {
+    throw new MessageError('Message is missing or too long', 400)
+  }
+
+  const wrappedKeys = input.wrappedKeys
+  if (typeof wrappedKeys !== 'object' || wrappedKeys === null ||
+      Object.values(wrappedKeys).some((key) => typeof key !== 'string')) {
+    throw new MessageError('Invalid wrapped keys', 400)
+  }
+  // The creator must always be able to read the thread, and so must the sender
+  const ownRecipient = senderRole === 'creator' ? CREATOR_RECIPIENT : sender
+  if (!wrappedKeys[CREATOR_RECIPIENT] || !wrappedKeys[ownRecipient]) {
+    throw new MessageError('Message must be encrypted to the creator and the sender', 400)
+  }
+
+  const row: MessageRow = {
+    id: crypto.randomUUID(),
+    token_id: tokenId,
+    sender,
+    sender_role: senderRole,
+    kind: input.kind,
+    ciphertext: input.ciphertext,
+    wrapped_keys: JSON.stringify(wrappedKeys),
+    created_at: new Date().toISOString(),
+  }
+
+  await db.prepare(`
+    INSERT INTO order_messages (id, token_id, sender, sender_role, kind, ciphertext, wrapped_keys, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    row.id,
+    row.token_id,
+    row.sender,
+    row.sender_role,
+    row.kind,
+    row.ciphertext,
+    row.wrapped_keys,
+    row.created_at
+  ).run()
+
+  return toThreadMessage(row)
+}
+
+function toThreadMessage(row: MessageRow): ThreadMessage {
+  return {
+    id: row.id,
+    sender: row.sender as Address,
+    senderRole: row.sender_role,
+    kind: row.kind,
+    ciphertext: row.ciphertext,
+    wrappedKeys: JSON.parse(row.wrapped_keys),
+    createdAt: row.created_at,
+  }
+}
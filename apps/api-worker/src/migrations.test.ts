@@ -0,0 +1,87 @@
+/**
+ * Applies migrations/ in order to a local D1 (SQLite) database, including
+ * over rows the old schema allowed
+ */
+
+import { afterEach, describe, expect, it } from 'vitest'
+import { MIGRATIONS, createBindings, migrateAfter, type TestBindings } from './testing'
+
+let bindings: TestBindings | undefined
+
+async function createDatabase(lastMigration: string): Promise<D1Database> {
+  bindings = await createBindings(lastMigration)
+  return bindings.DB
+}
+
+afterEach(async () => {
+  await bindings?.dispose()
+  bindings = undefined
+})
+
+describe('D1 migrations', () => {
+  it('are numbered 0001 through 0008 without gaps', () => {
+    expect(MIGRATIONS.map((name) => name.slice(0, 4))).toEqual(
+      ['0001', '0002', '0003', '0004', '0005', '0006', '0007', '0008']
+    )
+  })
+
+  it('apply to an empty database', async () => {
+    const db = await createDatabase(MIGRATIONS[MIGRATIONS.length - 1])
+
+    const { results } = await db.prepare('PRAGMA table_info(orders)').all<{ name: string }>()
+    expect(results.map((column) => column.name)).toEqual(expect.arrayContaining([
+      'token_id', 'holder', 'indexed_block', 'tier_id', 'preview_arweave_id',
+      'recipient_first_name', 'deliver_by', 'reveal_on_delivery', 'reveal_notified_at',
+    ]))
+    expect(results.map((column) => column.name)).not.toContain('order_type')
+
+    const tables = await db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all<{ name: string }>()
+    expect(tables.results.map((table) => table.name)).toEqual(expect.arrayContaining(['orders', 'song_keys', 'order_messages']))
+  })
+
+  it('keep the newest row for a token id stored twice', async () => {
+    const db = await createDatabase('0002_create_song_keys.sql')
+
+    const insert = db.prepare(
+      'INSERT INTO orders (id, token_id, arweave_id, status, created_at) VALUES (?, ?, ?, ?, ?)'
+    )
+    await db.batch([
+      insert.bind('upload-1a', 1, 'ar-1a', 'pending', '2024-01-01T00:00:00Z'),
+      insert.bind('upload-2', 2, 'ar-2', 'fulfilled', '2024-01-02T00:00:00Z'),
+      insert.bind('upload-1b', 1, 'ar-1b', 'fulfilled', '2024-01-03T00:00:00Z'),
+      insert.bind('upload-3a', 3, 'ar-3a', 'pending', '2024-01-04T00:00:00Z'),
+      insert.bind('upload-3b', 3, 'ar-3b', 'pending', '2024-01-05T00:00:00Z'),
+      insert.bind('upload-3c', 3, 'ar-3c', 'pending', '2024-01-06T00:00:00Z'),
+    ])
+
+    await migrateAfter(db, '0002_create_song_keys.sql')
+
+    const { results } = await db.prepare('SELECT id, token_id, arweave_id, status FROM orders ORDER BY token_id').all()
+    expect(results).toEqual([
+      { id: 'upload-1b', token_id: 1, arweave_id: 'ar-1b', status: 'fulfilled' },
+      { id: 'upload-2', token_id: 2, arweave_id: 'ar-2', status: 'fulfilled' },
+      { id: 'upload-3c', token_id: 3, arweave_id: 'ar-3c', status: 'pending' },
+    ])
+  })
+
+  it('make token ids unique once set, and nullable until the mint is confirmed', async () => {
+    const db = await createDatabase('0002_create_song_keys.sql')
+
+    const legacy = db.prepare('INSERT INTO orders (id, token_id, status, created_at) VALUES (?, ?, ?, ?)')
+    await db.batch([
+      legacy.bind('upload-1a', 1, 'pending', '2024-01-01T00:00:00Z'),
+      legacy.bind('upload-1b', 1, 'pending', '2024-01-02T00:00:00Z'),
+    ])
+
+    await migrateAfter(db, '0002_create_song_keys.sql')
+
+    const insert = db.prepare('INSERT INTO orders (id, token_id, status, created_at) VALUES (?, ?, ?, ?)')
+    await expect(insert.bind('upload-1c', 1, 'pending', '2024-01-03T00:00:00Z').run()).rejects.toThrow(/UNIQUE/)
+
+    await insert.bind('upload-x', null, 'uploaded', '2024-01-04T00:00:00Z').run()
+    await insert.bind('upload-y', null, 'uploaded', '2024-01-05T00:00:00Z').run()
+
+    const row = await db.prepare("SELECT allow_publication, reveal_on_delivery FROM orders WHERE id = 'upload-x'").first()
+    expect(row).toEqual({ allow_publication: 0, reveal_on_delivery: 0 })
+  })
+})
@@ -0,0 +1,332 @@
+/**
+ * Orders table access for the Birthday Songs API Worker
+ *
+ * Every query against D1 `orders` lives here so routes and the indexer work
+ * with typed rows. The table itself is defined by the numbered files in
+ * migrations/ (applied with `wrangler d1 migrations apply`).
+ */
+
+// uploaded -> pending -> fulfilled (or refunded); orphaned if the mint never
+// happened, unconfirmed if the mint was reorged away
+export type OrderStatus = 'uploaded' | 'pending' | 'fulfilled' | 'refunded' | 'orphaned' | 'unconfirmed'
+
+export interface OrderRow {
+  id: string
+  token_id: number | null
+  arweave_id: string | null
+  song_arweave_id: string | null
+  // Unencrypted excerpt, only ever set when allow_publication is
+  preview_arweave_id: string | null
+  status: OrderStatus
+  created_at: string
+  fulfilled_at: string | null
+  allow_publication: number
+  // Set by the creator at delivery, only when allow_publication is
+  recipient_first_name: string | null
+  // On-chain tier the order was placed in
+  tier_id: number | null
+  ordered_by: string | null
+  holder: string | null
+  indexed_block: number | null
+  // Buyer's target delivery date (YYYY-MM-DD)
+  deliver_by: string | null
+  // Hold the song until deliver_by, then notify the holder
+  reveal_on_delivery: number
+  reveal_notified_at: string | null
+}
+
+// Plaintext fields kept for an order upload; the rest is encrypted on Arweave
+export interface OrderUpload {
+  arweaveId: string
+  tierId?: number
+  orderedBy?: string
+  allowPublication?: boolean
+  deliverBy?: string
+  revealOnDelivery?: boolean
+}
+
+// What the public gallery shows of a published song; nothing else is selected
+export interface GalleryRow {
+  token_id: number
+  tier_id: number | null
+  fulfilled_at: string
+  recipient_first_name: string | null
+  has_preview: number
+}
+
+// A held song whose reveal date has come, for the cron to announce
+export interface DueReveal {
+  token_id: number
+  holder: string | null
+  deliver_by: string
+}
+
+// Contract state for a minted token, as read by the indexer
+export interface ChainOrderState {
+  tokenId: number
+  arweaveId: string
+  tierId: number
+  orderedBy: string
+  orderedAt: string
+  holder: string
+  fulfilled: boolean
+  refunded: boolean
+  songArweaveId: string | null
+  indexedBlock: number
+}
+
+const ORDER_STATUSES: OrderStatus[] = ['uploaded', 'pending', 'fulfilled', 'refunded', 'orphaned', 'unconfirmed']
+
+export function isOrderStatus(value: string): value is OrderStatus {
+  return (ORDER_STATUSES as string[]).includes(value)
+}
+
+/**
+ * A real calendar date in YYYY-MM-DD form
+ */
+export function isDeliveryDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  // Rejects days that don't exist, e.g. 2025-02-30
+  const time = Date.parse(`${value}T00:00:00Z`)
+  return !Number.isNaN(time) && new Date(time).toISOString().startsWith(value)
+}
+
+// Today as YYYY-MM-DD; reveal dates turn over at midnight UTC
+function today(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10)
+}
+
+/**
+ * Whether an order's song may be revealed: it isn't held, or its date has come
+ */
+export function isRevealDue(order: Pick<OrderRow, 'deliver_by' | 'reveal_on_delivery'>, now?: Date): boolean {
+  return !order.reveal_on_delivery || !order.deliver_by || order.deliver_by <= today(now)
+}
+
+/**
+ * Record an order upload; it has no token id until its mint is confirmed
+ */
+export async function insertUpload(db: D1Database, upload: OrderUpload): Promise<void> {
+  await db.prepare(`
+    INSERT INTO orders (
+      id, token_id, arweave_id, status, created_at,
+      allow_publication, tier_id, ordered_by, deliver_by, reveal_on_delivery
+    ) VALUES (?, NULL, ?, 'uploaded', ?, ?, ?, ?, ?, ?)
+  `).bind(
+    crypto.randomUUID(),
+    upload.arweaveId,
+    new Date().toISOString(),
+    upload.allowPublication ? 1 : 0,
+    upload.tierId ?? null,
+    upload.orderedBy ?? null,
+    upload.deliverBy ?? null,
+    // Nothing to hold until without a date
+    upload.deliverBy && upload.revealOnDelivery ? 1 : 0
+  ).run()
+}
+
+export async function getOrderByTokenId(db: D1Database, tokenId: number): Promise<OrderRow | null> {
+  return db.prepare('SELECT * FROM orders WHERE token_id = ?').bind(tokenId).first<OrderRow>()
+}
+
+/**
+ * Orders newest first, optionally only those with one status
+ */
+export async function listOrders(db: D1Database, status?: OrderStatus): Promise<OrderRow[]> {
+  const statement = status
+    ? db.prepare('SELECT * FROM orders WHERE status = ? ORDER BY created_at DESC').bind(status)
+    : db.prepare('SELECT * FROM orders ORDER BY created_at DESC')
+
+  const { results } = await statement.all<OrderRow>()
+  return results
+}
+
+/**
+ * Record the uploaded song for a token (Railway calls this after the upload).
+ * Status is left to the indexer, which follows fulfillOrder on chain.
+ */
+export async function setSongUploaded(db: D1Database, tokenId: number, songArweaveId: string): Promise<void> {
+  await db.prepare(`
+    UPDATE orders SET song_arweave_id = ? WHERE token_id = ?
+  `).bind(songArweaveId, tokenId).run()
+}
+
+/**
+ * Record the public preview clip uploaded for a token
+ */
+export async function setPreviewUploaded(db: D1Database, tokenId: number, previewArweaveId: string): Promise<void> {
+  await db.prepare(`
+    UPDATE orders SET preview_arweave_id = ? WHERE token_id = ?
+  `).bind(previewArweaveId, tokenId).run()
+}
+
+/**
+ * Record the recipient's first name for the gallery; ignored unless the buyer
+ * allowed publication
+ */
+export async function setRecipientFirstName(db: D1Database, tokenId: number, firstName: string): Promise<void> {
+  await db.prepare(`
+    UPDATE orders SET recipient_first_name = ? WHERE token_id = ? AND allow_publication = 1
+  `).bind(firstName, tokenId).run()
+}
+
+/**
+ * Delivered songs whose buyer allowed publication, most recently delivered first
+ */
+export async function listGallery(db: D1Database, limit: number, offset: number): Promise<GalleryRow[]> {
+  const { results } = await db.prepare(`
+    SELECT token_id, tier_id, fulfilled_at, recipient_first_name,
+      preview_arweave_id IS NOT NULL AS has_preview
+    FROM orders
+    WHERE allow_publication = 1 AND status = 'fulfilled' AND token_id IS NOT NULL
+      AND (reveal_on_delivery = 0 OR deliver_by IS NULL OR deliver_by <= ?)
+    ORDER BY fulfilled_at DESC, token_id DESC
+    LIMIT ? OFFSET ?
+  `).bind(today(), limit, offset).all<GalleryRow>()
+
+  return results
+}
+
+/**
+ * Whether a token's preview clip may be shown publicly: the buyer allowed
+ * publication, the order wasn't refunded and any reveal date has passed
+ */
+export function isPreviewPublic(order: OrderRow): boolean {
+  return Boolean(order.allow_publication) && !!order.preview_arweave_id && order.status !== 'refunded' &&
+    isRevealDue(order)
+}
+
+/**
+ * Delivered songs held for a reveal date that has now come, not yet announced
+ */
+export async function listDueReveals(db: D1Database, now?: Date): Promise<DueReveal[]> {
+  const { results } = await db.prepare(`
+    SELECT token_id, holder, deliver_by FROM orders
+    WHERE reveal_on_delivery = 1 AND status = 'fulfilled' AND reveal_notified_at IS NULL
+      AND token_id IS NOT NULL AND deliver_by <= ?
+  `).bind(today(now)).all<DueReveal>()
+
+  return results
+}
+
+/**
+ * Record that a held song's holder has been told it's ready
+ */
+export async function markRevealNotified(db: D1Database, tokenId: number): Promise<void> {
+  await db.prepare(`
+    UPDATE orders SET reveal_notified_at = ? WHERE token_id = ?
+  `).bind(new Date().toISOString(), tokenId).run()
+}
+
+/**
+ * Label uploads created before cutoff that still have no token as orphaned
+ */
+export async function markUploadsOrphanedBefore(db: D1Database, cutoff: Date): Promise<number> {
+  const { meta } = await db.prepare(`
+    UPDATE orders SET status = 'orphaned' WHERE status = 'uploaded' AND token_id IS NULL AND created_at < ?
+  `).bind(cutoff.toISOString()).run()
+
+  return meta.changes
+}
+
+/**
+ * Delete one orphaned upload, or all of them. Returns how many were removed.
+ */
+export async function deleteOrphanedUploads(db: D1Database, id?: string): Promise<number> {
+  const statement = id
+    ? db.prepare(`DELETE FROM orders WHERE id = ? AND status = 'orphaned'`).bind(id)
+    : db.prepare(`DELETE FROM orders WHERE status = 'orphaned'`)
+
+  const { meta } = await statement.run()
+  return meta.changes
+}
+
+/**
+ * Token ids the indexer last reconciled after a block (to redo after a reorg)
+ */
+export async function getTokensIndexedAfter(db: D1Database, block: number): Promise<number[]> {
+  const { results } = await db.prepare(`
+    SELECT token_id FROM orders WHERE indexed_block > ? AND token_id IS NOT NULL
+  `).bind(block).all<{ token_id: number }>()
+
+  return results.map((row) => row.token_id)
+}
+
+/**
+ * Mark a token whose mint no longer exists on chain
+ */
+export async function markUnconfirmed(db: D1Database, tokenId: number, indexedBlock: number): Promise<void> {
+  await db.prepare(`
+    UPDATE orders SET status = 'unconfirmed', holder = NULL, indexed_block = ? WHERE token_id = ?
+  `).bind(indexedBlock, tokenId).run()
+}
+
+/**
+ * Write a token's on-chain state, preferring the row of the upload it was
+ * minted for. Returns the holder previously recorded, if any.
+ */
+export async function upsertChainOrder(db: D1Database, state: ChainOrderState): Promise<string | null> {
+  const existing = await db.prepare(`
+    SELECT id, holder FROM orders
+    WHERE arweave_id = ? OR token_id = ?
+    ORDER BY arweave_id = ? DESC
+    LIMIT 1
+  `).bind(state.arweaveId, state.tokenId, state.arweaveId).first<Pick<OrderRow, 'id' | 'holder'>>()
+
+  const now = new Date().toISOString()
+  const status: OrderStatus = state.refunded ? 'refunded' : state.fulfilled ? 'fulfilled' : 'pending'
+
+  // A row left holding this token id by a reorg gives it up and waits for its own mint
+  const release = db.prepare(`
+    UPDATE orders SET token_id = NULL, status = 'uploaded', holder = NULL WHERE token_id = ? AND id != ?
+  `)
+
+  if (existing) {
+    await db.batch([
+      release.bind(state.tokenId, existing.id),
+      db.prepare(`
+        UPDATE orders SET
+          token_id = ?, arweave_id = ?, tier_id = ?, ordered_by = ?, holder = ?,
+          status = ?,
+          song_arweave_id = COALESCE(?, song_arweave_id),
+          fulfilled_at = CASE WHEN ? THEN COALESCE(fulfilled_at, ?) ELSE NULL END,
+          indexed_block = ?
+        WHERE id = ?
+      `).bind(
+        state.tokenId,
+        state.arweaveId,
+        state.tierId,
+        state.orderedBy,
+        state.holder,
+        status,
+        state.songArweaveId,
+        state.fulfilled ? 1 : 0,
+        now,
+        state.indexedBlock,
+        existing.id
+      ),
+    ])
+    return existing.holder
+  }
+
+  // No row has this token or upload yet (e.g. Railway's metadata call failed)
+  await db.prepare(`
+    INSERT INTO orders (
+      id, token_id, arweave_id, song_arweave_id, status, created_at, fulfilled_at,
+      allow_publication, tier_id, ordered_by, holder, indexed_block
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?, ?)
+  `).bind(
+    crypto.randomUUID(),
+    state.tokenId,
+    state.arweaveId,
+    state.songArweaveId,
+    status,
+    state.orderedAt,
+    state.fulfilled ? now : null,
+    state.tierId,
+    state.orderedBy,
+    state.holder,
+    state.indexedBlock
+  ).run()
+  return null
+}
@@ -0,0 +1,41 @@
+/**
+ * Scheduled reveals for the Birthday Songs API Worker
+ *
+ * A buyer can ask for a delivered song to stay hidden until its delivery date
+ * (usually the birthday). The download route refuses it until then (see
+ * isRevealDue); on the day the cron tells the holder it's ready, once.
+ */
+
+import { getAddress } from 'viem'
+import { notifyAddress, type FarcasterEnv } from './farcaster'
+import { listDueReveals, markRevealNotified } from './orders'
+
+export interface RevealEnv extends FarcasterEnv {
+  DB: D1Database
+}
+
+/**
+ * Notify the holders of songs whose reveal date has come. Failed sends are
+ * retried on the next run; holders without Farcaster are just marked done.
+ */
+export async function announceDueReveals(env: RevealEnv): Promise<number> {
+  const due = await listDueReveals(env.DB)
+  let announced = 0
+
+  for (const reveal of due) {
+    try {
+      if (reveal.holder) {
+        await notifyAddress(env, getAddress(reveal.holder), {
+          title: '🎂 Your song is here!',
+          body: `Birthday song #${reveal.token_id} is ready to play. Open My Songs to listen.`,
+        })
+      }
+      await markRevealNotified(env.DB, reveal.token_id)
+      announced++
+    } catch (error) {
+      console.error(`❌ Reveal notification for token ${reveal.token_id} failed:`, error)
+    }
+  }
+
+  return announced
+}
@@ -0,0 +1,155 @@
+/**
+ * Short-lived API sessions
+ *
+ * A session is issued after a successful SIWE verification and stored in the
+ * SETTINGS KV namespace. Callers send it back as `Authorization: Bearer <token>`.
+ * The Railway ArDrive service authenticates with a shared secret instead.
+ */
+
+import { createMiddleware } from 'hono/factory'
+import { getAddress, type Address } from 'viem'
+import { getContractOwner } from './chain'
+import { SiweError, verifySiwe, type SiweEnv, type SiweProof } from './siwe'
+
+export interface SessionEnv extends SiweEnv {
+  CREATOR_ADDRESS: string
+}
+
+export interface Session {
+  address: Address
+  expiresAt: string
+}
+
+export interface ServiceEnv {
+  SERVICE_SECRET?: string
+}
+
+export type SessionVariables = {
+  session: Session
+}
+
+// Sessions last an hour; clients sign in again afterwards
+const SESSION_TTL_SECONDS = 60 * 60
+const SESSION_PREFIX = 'session:'
+
+/**
+ * Create a session for an address that has already proven control via SIWE
+ */
+export async function createSession(env: SessionEnv, address: Address): Promise<{ token: string; session: Session }> {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  const token = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+
+  const session: Session = {
+    address,
+    expiresAt: new Date(Date.now() + SESSION_TTL_SECONDS * 1000).toISOString(),
+  }
+
+  await env.SETTINGS.put(`${SESSION_PREFIX}${token}`, JSON.stringify(session), {
+    expirationTtl: SESSION_TTL_SECONDS,
+  })
+
+  return { token, session }
+}
+
+export async function getSession(env: SessionEnv, token: string): Promise<Session | null> {
+  const session = await env.SETTINGS.get<Session>(`${SESSION_PREFIX}${token}`, 'json')
+  if (!session || new Date(session.expiresAt).getTime() <= Date.now()) return null
+  return session
+}
+
+export async function deleteSession(env: SessionEnv, token: string): Promise<void> {
+  await env.SETTINGS.delete(`${SESSION_PREFIX}${token}`)
+}
+
+/**
+ * Whether an address may use creator-only routes: the configured creator
+ * wallet or the current contract owner
+ */
+export async function isCreator(env: SessionEnv, address: Address): Promise<boolean> {
+  if (env.CREATOR_ADDRESS && getAddress(env.CREATOR_ADDRESS) === address) return true
+  return (await getContractOwner(env)) === address
+}
+
+/**
+ * Resolve the caller from either a session (`Bearer <token>`) or a one-shot
+ * SIWE proof (`SIWE <base64 JSON {message, signature}>`)
+ */
+async function resolveSession(env: SessionEnv, header: string | undefined): Promise<Session | null> {
+  if (header?.startsWith('Bearer ')) {
+    return getSession(env, header.slice('Bearer '.length))
+  }
+
+  if (header?.startsWith('SIWE ')) {
+    let proof: SiweProof
+    try {
+      proof = JSON.parse(atob(header.slice('SIWE '.length)))
+    } catch {
+      return null
+    }
+    if (typeof proof?.message !== 'string' || typeof proof?.signature !== 'string') return null
+
+    const address = await verifySiwe(env, proof)
+    return { address, expiresAt: new Date().toISOString() }
+  }
+
+  return null
+}
+
+/**
+ * Reject requests without a valid session; exposes it as c.var.session
+ */
+export const requireSession = createMiddleware<{ Bindings: SessionEnv; Variables: SessionVariables }>(async (c, next) => {
+  let session: Session | null
+  try {
+    session = await resolveSession(c.env, c.req.header('Authorization'))
+  } catch (error) {
+    if (error instanceof SiweError) return c.json({ error: error.message }, 401)
+    throw error
+  }
+
+  if (!session) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+
+  c.set('session', session)
+  await next()
+})
+
+/**
+ * Reject anyone who is not the creator; must run after requireSession
+ */
+export const requireCreator = createMiddleware<{ Bindings: SessionEnv; Variables: SessionVariables }>(async (c, next) => {
+  if (!(await isCreator(c.env, c.var.session.address))) {
+    return c.json({ error: 'Only the creator can access this' }, 403)
+  }
+  await next()
+})
+
+/**
+ * Reject calls without the Railway service's shared secret (`X-Service-Secret`).
+ * Closed when SERVICE_SECRET isn't configured.
+ */
+export const requireService = createMiddleware<{ Bindings: ServiceEnv }>(async (c, next) => {
+  const secret = c.req.header('X-Service-Secret')
+  if (!c.env.SERVICE_SECRET || !secret || !(await secretsMatch(secret, c.env.SERVICE_SECRET))) {
+    return c.json({ error: 'Service authentication required' }, 401)
+  }
+  await next()
+})
+
+// Compare digests so the time taken doesn't depend on where the secrets differ
+async function secretsMatch(a: string, b: string): Promise<boolean> {
+  const encoder = new TextEncoder()
+  const [digestA, digestB] = await Promise.all([
+    crypto.subtle.digest('SHA-256', encoder.encode(a)),
+    crypto.subtle.digest('SHA-256', encoder.encode(b)),
+  ])
+
+  const bytesA = new Uint8Array(digestA)
+  const bytesB = new Uint8Array(digestB)
+  let difference = 0
+  for (let i = 0; i < bytesA.length; i++) {
+    difference |= bytesA[i] ^ bytesB[i]
+  }
+  return difference === 0
+}
@@ -0,0 +1,92 @@
+/**
+ * Sign-In-With-Ethereum (EIP-4361) challenges
+ *
+ * Nonces are issued into the SETTINGS KV namespace and consumed on first
+ * use, so a signed message can't be replayed against the worker
+ */
+
+import { generateSiweNonce, parseSiweMessage } from 'viem/siwe'
+import { getAddress, type Address, type Hex } from 'viem'
+import { getPublicClient, type ChainEnv } from './chain'
+
+export interface SiweEnv extends ChainEnv {
+  SETTINGS: KVNamespace
+}
+
+export interface SiweProof {
+  message: string
+  signature: Hex
+}
+
+// Nonces are only valid for a few minutes
+const NONCE_TTL_SECONDS = 300
+const NONCE_PREFIX = 'siwe-nonce:'
+
+// Hosts we accept in the SIWE `domain` field
+export const ALLOWED_ORIGINS = [
+  'https://birthdays-with-jose.pages.dev',
+  'https://birthday-songs.pages.dev',
+  'https://birthdays-with-jose-dashboard.pages.dev',
+  'http://localhost:3000',
+  'http://localhost:3001'
+]
+
+const ALLOWED_DOMAINS = ALLOWED_ORIGINS.map(origin => new URL(origin).host)
+
+export class SiweError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SiweError'
+  }
+}
+
+/**
+ * Issue a fresh single-use nonce
+ */
+export async function issueNonce(env: SiweEnv): Promise<string> {
+  const nonce = generateSiweNonce()
+  await env.SETTINGS.put(`${NONCE_PREFIX}${nonce}`, '1', { expirationTtl: NONCE_TTL_SECONDS })
+  return nonce
+}
+
+/**
+ * Verify a signed SIWE message and return the address that signed it.
+ * Throws SiweError if the message is malformed, stale, replayed or not signed
+ * by the address it names.
+ */
+export async function verifySiwe(env: SiweEnv, proof: SiweProof): Promise<Address> {
+  const parsed = parseSiweMessage(proof.message)
+
+  if (!parsed.address || !parsed.nonce || !parsed.domain) {
+    throw new SiweError('Malformed SIWE message')
+  }
+
+  if (!ALLOWED_DOMAINS.includes(parsed.domain)) {
+    throw new SiweError(`Unexpected SIWE domain: ${parsed.domain}`)
+  }
+
+  if (parsed.chainId !== Number(env.CHAIN_ID)) {
+    throw new SiweError(`Unexpected SIWE chain: ${parsed.chainId}`)
+  }
+
+  // Consume the nonce before checking the signature so it can't be retried
+  const nonceKey = `${NONCE_PREFIX}${parsed.nonce}`
+  if (!(await env.SETTINGS.get(nonceKey))) {
+    throw new SiweError('Unknown or expired nonce')
+  }
+  await env.SETTINGS.delete(nonceKey)
+
+  // Goes through the RPC so smart contract wallets (ERC-1271/6492) verify too
+  const valid = await getPublicClient(env).verifySiweMessage({
+    message: proof.message,
+    signature: proof.signature,
+    domain: parsed.domain,
+    nonce: parsed.nonce,
+  })
+
+  if (!valid) {
+    throw new SiweError('Invalid SIWE signature')
+  }
+
+  return getAddress(parsed.address)
+}
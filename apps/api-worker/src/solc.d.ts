@@ -0,0 +1,9 @@
+// solc-js ships without types; tests only use its standard JSON entry point
+declare module 'solc' {
+  type ImportResult = { contents: string } | { error: string }
+
+  const solc: {
+    compile(input: string, callbacks?: { import(path: string): ImportResult }): string
+  }
+  export default solc
+}
@@ -0,0 +1,108 @@
+/**
+ * Song key custody for the Birthday Songs API Worker
+ *
+ * Each song's content key is wrapped in the creator's browser for the creator
+ * and for this worker's key escrow. The escrow copy is only ever used here to
+ * rewrap the key for whoever holds the NFT, so access follows the token.
+ */
+
+import { getAddress, type Address } from 'viem'
+import { deriveKeyPair, unwrapSongKey, wrapSongKey, type KeyPair } from '@birthday-songs/encryption'
+import { type ChainEnv } from './chain'
+
+export interface SongKeyEnv extends ChainEnv {
+  DB: D1Database
+  SETTINGS: KVNamespace
+  KEY_ESCROW_SECRET: string
+}
+
+export interface WrappedSongKeys {
+  creator: string
+  escrow: string
+}
+
+// song_keys.recipient values besides holder addresses
+export const CREATOR_RECIPIENT = 'creator'
+export const ESCROW_RECIPIENT = 'escrow'
+
+const HOLDER_KEY_PREFIX = 'holder-key:'
+
+/**
+ * Escrow keypair, derived from the KEY_ESCROW_SECRET worker secret
+ */
+export function getEscrowKeyPair(env: SongKeyEnv): KeyPair {
+  if (!env.KEY_ESCROW_SECRET) {
+    throw new Error('KEY_ESCROW_SECRET is not configured')
+  }
+  return deriveKeyPair(new TextEncoder().encode(env.KEY_ESCROW_SECRET))
+}
+
+/**
+ * Public key a holder registered for receiving song keys, if any
+ */
+export async function getHolderPublicKey(env: SongKeyEnv, holder: Address): Promise<string | null> {
+  return env.SETTINGS.get(`${HOLDER_KEY_PREFIX}${getAddress(holder)}`)
+}
+
+export async function setHolderPublicKey(env: SongKeyEnv, holder: Address, publicKey: string): Promise<void> {
+  await env.SETTINGS.put(`${HOLDER_KEY_PREFIX}${getAddress(holder)}`, publicKey.toLowerCase())
+}
+
+/**
+ * Store the creator and escrow wraps for a newly uploaded song.
+ * Replaces any earlier key for the token and drops stale holder wraps.
+ */
+export async function storeSongKeys(env: SongKeyEnv, tokenId: number, wrappedKeys: WrappedSongKeys): Promise<void> {
+  // Refuse wraps the escrow can't open - we'd never be able to rewrap them
+  await unwrapSongKey(wrappedKeys.escrow, getEscrowKeyPair(env).privateKey)
+
+  const now = new Date().toISOString()
+  const insert = env.DB.prepare(`
+    INSERT OR REPLACE INTO song_keys (token_id, recipient, wrapped_key, created_at)
+    VALUES (?, ?, ?, ?)
+  `)
+
+  await env.DB.batch([
+    env.DB.prepare('DELETE FROM song_keys WHERE token_id = ?').bind(tokenId),
+    insert.bind(tokenId, CREATOR_RECIPIENT, wrappedKeys.creator, now),
+    insert.bind(tokenId, ESCROW_RECIPIENT, wrappedKeys.escrow, now),
+  ])
+}
+
+/**
+ * Wrapped song key stored for a recipient (creator, escrow or holder address)
+ */
+export async function getWrappedKey(env: SongKeyEnv, tokenId: number, recipient: string): Promise<string | null> {
+  const row = await env.DB.prepare(`
+    SELECT wrapped_key FROM song_keys WHERE token_id = ? AND recipient = ?
+  `).bind(tokenId, recipient).first<{ wrapped_key: string }>()
+
+  return row?.wrapped_key ?? null
+}
+
+/**
+ * Rewrap a token's song key for its new holder, revoking the previous holder's
+ * wrap. Returns null if there is no song key yet or the holder hasn't
+ * registered a public key (they get one lazily on their next download).
+ */
+export async function rewrapSongKey(env: SongKeyEnv, tokenId: number, holder: Address): Promise<string | null> {
+  const escrowWrap = await getWrappedKey(env, tokenId, ESCROW_RECIPIENT)
+  if (!escrowWrap) return null
+
+  await env.DB.prepare(`
+    DELETE FROM song_keys WHERE token_id = ? AND recipient NOT IN (?, ?)
+  `).bind(tokenId, CREATOR_RECIPIENT, ESCROW_RECIPIENT).run()
+
+  const holderPublicKey = await getHolderPublicKey(env, holder)
+  if (!holderPublicKey) return null
+
+  const songKey = await unwrapSongKey(escrowWrap, getEscrowKeyPair(env).privateKey)
+  const wrappedKey = await wrapSongKey(songKey, holderPublicKey)
+
+  await env.DB.prepare(`
+    INSERT OR REPLACE INTO song_keys (token_id, recipient, wrapped_key, created_at)
+    VALUES (?, ?, ?, ?)
+  `).bind(tokenId, getAddress(holder), wrappedKey, new Date().toISOString()).run()
+
+  return wrappedKey
+}
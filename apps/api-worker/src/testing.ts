@@ -0,0 +1,263 @@
+/// <reference types="node" />
+/**
+ * Local bindings for tests: Miniflare's D1 and KV, with migrations/ applied
+ * the way `wrangler d1 migrations apply` does, and an anvil chain running the
+ * contracts from the dashboard's Foundry project
+ */
+
+import { spawn } from 'node:child_process'
+import { readFileSync, readdirSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { Miniflare } from 'miniflare'
+import solc from 'solc'
+import {
+  createTestClient,
+  http,
+  publicActions,
+  walletActions,
+  type Abi,
+  type Address,
+  type Hex
+} from 'viem'
+import { foundry } from 'viem/chains'
+
+const MIGRATIONS_DIR = join(dirname(fileURLToPath(import.meta.url)), '../migrations')
+const FOUNDRY_DIR = join(dirname(fileURLToPath(import.meta.url)), '../../jose-dashboard')
+
+export const MIGRATIONS = readdirSync(MIGRATIONS_DIR).filter((name) => name.endsWith('.sql')).sort()
+
+export interface TestBindings {
+  DB: D1Database
+  SETTINGS: KVNamespace
+  dispose(): Promise<void>
+}
+
+/**
+ * Fresh D1 database and KV namespace; migrated through the last migration
+ * unless told to stop earlier
+ */
+export async function createBindings(lastMigration: string | null = MIGRATIONS[MIGRATIONS.length - 1]): Promise<TestBindings> {
+  const mf = new Miniflare({
+    modules: true,
+    script: 'export default {}',
+    d1Databases: ['DB'],
+    kvNamespaces: ['SETTINGS'],
+  })
+
+  // Miniflare ships its own copy of the workers types
+  const DB = await mf.getD1Database('DB') as unknown as D1Database
+  const SETTINGS = await mf.getKVNamespace('SETTINGS') as unknown as KVNamespace
+
+  if (lastMigration) {
+    await migrateThrough(DB, lastMigration)
+  }
+
+  return { DB, SETTINGS, dispose: () => mf.dispose() }
+}
+
+/**
+ * Run one migration file as a single batch (one transaction), like wrangler
+ */
+export async function migrate(db: D1Database, name: string): Promise<void> {
+  const sql = readFileSync(join(MIGRATIONS_DIR, name), 'utf8').replace(/--.*$/gm, '')
+  const statements = sql.split(';').map((statement) => statement.trim()).filter(Boolean)
+  await db.batch(statements.map((statement) => db.prepare(statement)))
+}
+
+export async function migrateThrough(db: D1Database, last: string): Promise<void> {
+  for (const name of MIGRATIONS.slice(0, MIGRATIONS.indexOf(last) + 1)) {
+    await migrate(db, name)
+  }
+}
+
+export async function migrateAfter(db: D1Database, previous: string): Promise<void> {
+  for (const name of MIGRATIONS.slice(MIGRATIONS.indexOf(previous) + 1)) {
+    await migrate(db, name)
+  }
+}
+
+// Freely mintable stand-in for USDC, as in the Foundry tests
+const MOCK_USDC_SOURCE = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+contract MockUSDC is ERC20 {
+    constructor() ERC20("USD Coin", "USDC") {}
+
+    function decimals() public pure override returns (uint8) {
+        return 6;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
+`
+
+type LinkReferences = Record<string, Record<string, { start: number; length: number }[]>>
+
+interface CompiledContract {
+  abi: Abi
+  bytecode: string
+  linkReferences: LinkReferences
+}
+
+interface SolcOutput {
+  errors?: { severity: string; formattedMessage: string }[]
+  contracts: Record<string, Record<string, {
+    abi: Abi
+    evm: { bytecode: { object: string; linkReferences: LinkReferences } }
+  }>>
+}
+
+let compiled: Record<string, CompiledContract> | undefined
+
+/**
+ * Compile BirthdaySongs, its libraries and MockUSDC with solc-js, with
+ * Foundry's defaults for 0.8.24. Cached: a compile takes a few seconds.
+ */
+export function compileContracts(): Record<string, CompiledContract> {
+  if (compiled) return compiled
+
+  const input = {
+    language: 'Solidity',
+    sources: {
+      'contracts/BirthdaySongs.sol': { content: readFileSync(join(FOUNDRY_DIR, 'contracts/BirthdaySongs.sol'), 'utf8') },
+      'test/MockUSDC.sol': { content: MOCK_USDC_SOURCE },
+    },
+    settings: {
+      evmVersion: 'cancun',
+      outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object', 'evm.bytecode.linkReferences'] } },
+    },
+  }
+
+  const output = JSON.parse(solc.compile(JSON.stringify(input), { import: readSolidity })) as SolcOutput
+  const errors = (output.errors ?? []).filter((error) => error.severity === 'error')
+  if (errors.length) {
+    throw new Error(errors.map((error) => error.formattedMessage).join('\n'))
+  }
+
+  compiled = {}
+  for (const contracts of Object.values(output.contracts)) {
+    for (const [name, contract] of Object.entries(contracts)) {
+      compiled[name] = {
+        abi: contract.abi,
+        bytecode: contract.evm.bytecode.object,
+        linkReferences: contract.evm.bytecode.linkReferences,
+      }
+    }
+  }
+  return compiled
+}
+
+// Foundry's remapping for the vendored OpenZeppelin
+function readSolidity(path: string): { contents: string } | { error: string } {
+  const file = path.startsWith('@openzeppelin/contracts/')
+    ? join(FOUNDRY_DIR, 'lib/openzeppelin-contracts/contracts', path.slice('@openzeppelin/contracts/'.length))
+    : join(FOUNDRY_DIR, path)
+
+  try {
+    return { contents: readFileSync(file, 'utf8') }
+  } catch {
+    return { error: `File not found: ${path}` }
+  }
+}
+
+function createAnvilClient(rpcUrl: string) {
+  return createTestClient({ mode: 'anvil', chain: foundry, transport: http(rpcUrl), pollingInterval: 50 })
+    .extend(publicActions)
+    .extend(walletActions)
+}
+
+export type AnvilClient = ReturnType<typeof createAnvilClient>
+
+export interface TestChain {
+  rpcUrl: string
+  client: AnvilClient
+  stop(): Promise<void>
+}
+
+/**
+ * Fresh anvil on a free port, mining a block per transaction
+ */
+export async function startAnvil(): Promise<TestChain> {
+  const bin = createRequire(import.meta.url).resolve('@foundry-rs/anvil/bin.mjs')
+  const anvil = spawn(process.execPath, [bin, '--port', '0'], { stdio: ['ignore', 'pipe', 'inherit'] })
+
+  // Keep draining stdout once listening, or anvil blocks on a full pipe
+  const rpcUrl = await new Promise<string>((resolve, reject) => {
+    let output = ''
+    let listening = false
+    anvil.stdout.on('data', (chunk: Buffer) => {
+      if (listening) return
+      output += chunk.toString()
+      const address = output.match(/Listening on (\S+)/)?.[1]
+      if (address) {
+        listening = true
+        resolve(`http://${address}`)
+      }
+    })
+    anvil.once('exit', (code) => reject(new Error(`anvil exited with code ${code}`)))
+  })
+
+  return {
+    rpcUrl,
+    client: createAnvilClient(rpcUrl),
+    stop: () => new Promise<void>((resolve) => {
+      anvil.once('exit', () => resolve())
+      anvil.kill()
+    }),
+  }
+}
+
+export interface DeployedContracts {
+  owner: Address
+  songs: { address: Address; abi: Abi }
+  usdc: { address: Address; abi: Abi }
+}
+
+/**
+ * Deploy MockUSDC and BirthdaySongs, linking each library it needs, from
+ * anvil's first account (which becomes the contract owner)
+ */
+export async function deployBirthdaySongs(client: AnvilClient): Promise<DeployedContracts> {
+  const contracts = compileContracts()
+  const [owner] = await client.getAddresses()
+  const libraries = new Map<string, Address>()
+
+  const deploy = async (name: string, args: unknown[] = []): Promise<Address> => {
+    let bytecode = contracts[name].bytecode
+    for (const references of Object.values(contracts[name].linkReferences)) {
+      for (const [library, offsets] of Object.entries(references)) {
+        if (!libraries.has(library)) libraries.set(library, await deploy(library))
+        const address = libraries.get(library)!.slice(2).toLowerCase()
+        for (const { start, length } of offsets) {
+          bytecode = bytecode.slice(0, start * 2) + address + bytecode.slice((start + length) * 2)
+        }
+      }
+    }
+
+    const hash = await client.deployContract({
+      abi: contracts[name].abi,
+      bytecode: `0x${bytecode}` as Hex,
+      args,
+      account: owner,
+      chain: foundry,
+    })
+    const { contractAddress } = await client.waitForTransactionReceipt({ hash })
+    return contractAddress!
+  }
+
+  const usdc = await deploy('MockUSDC')
+  const songs = await deploy('BirthdaySongs', [usdc, owner])
+
+  return {
+    owner,
+    songs: { address: songs, abi: contracts.BirthdaySongs.abi },
+    usdc: { address: usdc, abi: contracts.MockUSDC.abi },
+  }
+}
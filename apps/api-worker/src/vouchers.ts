@@ -0,0 +1,187 @@
+/**
+ * Promo vouchers for the Birthday Songs API Worker
+ *
+ * The creator signs each voucher as EIP-712 typed data in the dashboard and
+ * the contract checks that signature at mint. The worker only stores signed
+ * vouchers in SETTINGS so buyers can redeem them by code, and reads redemption
+ * counts from the contract.
+ */
+
+import { getAddress, isHex, keccak256, recoverTypedDataAddress, toBytes, type Address, type Hex } from 'viem'
+import { getContractOwner, getTierCount, getVoucherRedemptions, type ChainEnv } from './chain'
+
+export interface VoucherEnv extends ChainEnv {
+  SETTINGS: KVNamespace
+}
+
+export interface SignedVoucher {
+  code: string
+  discountBps: number
+  // Unix seconds
+  expiresAt: number
+  // 0 = unlimited
+  maxUses: number
+  // 0 = any tier, otherwise tier id + 1
+  tier: number
+  signature: Hex
+  createdAt: string
+}
+
+export interface VoucherStatus extends SignedVoucher {
+  redemptions: number
+}
+
+const VOUCHER_PREFIX = 'voucher:'
+
+// Codes are stored and signed upper-cased, so buyers can type them in any case
+const CODE_PATTERN = /^[A-Z0-9-]{3,32}$/
+
+export const VOUCHER_TYPES = {
+  Voucher: [
+    { name: 'code', type: 'string' },
+    { name: 'discountBps', type: 'uint16' },
+    { name: 'expiresAt', type: 'uint64' },
+    { name: 'maxUses', type: 'uint32' },
+    { name: 'tier', type: 'uint8' },
+  ],
+} as const
+
+/**
+ * A voucher that is malformed, unknown or no longer redeemable
+ */
+export class VoucherError extends Error {
+  constructor(message: string, readonly status: 400 | 404 | 410) {
+    super(message)
+    this.name = 'VoucherError'
+  }
+}
+
+export function normalizeVoucherCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+/**
+ * Validate a voucher signed by the creator and store it under its code
+ */
+export async function saveVoucher(env: VoucherEnv, input: Omit<SignedVoucher, 'createdAt'>): Promise<SignedVoucher> {
+  const voucher: SignedVoucher = {
+    code: typeof input.code === 'string' ? normalizeVoucherCode(input.code) : '',
+    discountBps: Number(input.discountBps),
+    expiresAt: Number(input.expiresAt),
+    maxUses: Number(input.maxUses),
+    tier: Number(input.tier),
+    signature: input.signature,
+    createdAt: new Date().toISOString(),
+  }
+
+  if (!CODE_PATTERN.test(voucher.code)) {
+    throw new VoucherError('Codes are 3-32 letters, digits or dashes', 400)
+  }
+  if (!Number.isInteger(voucher.discountBps) || voucher.discountBps < 1 || voucher.discountBps > 10_000) {
+    throw new VoucherError('Discount must be between 0.01% and 100%', 400)
+  }
+  if (!Number.isInteger(voucher.expiresAt) || voucher.expiresAt * 1000 <= Date.now()) {
+    throw new VoucherError('Expiry must be in the future', 400)
+  }
+  if (!Number.isInteger(voucher.maxUses) || voucher.maxUses < 0 || voucher.maxUses > 0xffffffff) {
+    throw new VoucherError('Invalid max uses', 400)
+  }
+  if (!Number.isInteger(voucher.tier) || voucher.tier < 0 || voucher.tier > 0xff) {
+    throw new VoucherError('Invalid tier', 400)
+  }
+  if (typeof voucher.signature !== 'string' || !isHex(voucher.signature)) {
+    throw new VoucherError('Invalid signature', 400)
+  }
+
+  // Same check the contract makes at mint, so unredeemable vouchers never get stored
+  const signer = await recoverVoucherSigner(env, voucher)
+  if (signer !== (await getContractOwner(env))) {
+    throw new VoucherError('Voucher must be signed by the contract owner', 400)
+  }
+
+  if (voucher.tier > (await getTierCount(env))) {
+    throw new VoucherError('Unknown tier', 400)
+  }
+
+  if (await env.SETTINGS.get(`${VOUCHER_PREFIX}${voucher.code}`)) {
+    throw new VoucherError('A voucher with this code already exists', 400)
+  }
+
+  await env.SETTINGS.put(`${VOUCHER_PREFIX}${voucher.code}`, JSON.stringify(voucher), {
+    // Drop it from KV once it can no longer be redeemed (KV's minimum TTL is 60s)
+    expirationTtl: Math.max(60, voucher.expiresAt - Math.floor(Date.now() / 1000)),
+  })
+
+  return voucher
+}
+
+/**
+ * Look up a redeemable voucher by the code a buyer entered
+ */
+export async function getVoucher(env: VoucherEnv, code: string): Promise<VoucherStatus> {
+  const voucher = await env.SETTINGS.get<SignedVoucher>(`${VOUCHER_PREFIX}${normalizeVoucherCode(code)}`, 'json')
+  if (!voucher) {
+    throw new VoucherError('Unknown promo code', 404)
+  }
+  if (voucher.expiresAt * 1000 <= Date.now()) {
+    throw new VoucherError('This promo code has expired', 410)
+  }
+
+  const redemptions = await getVoucherRedemptions(env, voucherCodeHash(voucher.code))
+  if (voucher.maxUses > 0 && redemptions >= voucher.maxUses) {
+    throw new VoucherError('This promo code has been fully redeemed', 410)
+  }
+
+  return { ...voucher, redemptions }
+}
+
+/**
+ * All stored vouchers with their redemption counts, newest first
+ */
+export async function listVouchers(env: VoucherEnv): Promise<VoucherStatus[]> {
+  const { keys } = await env.SETTINGS.list({ prefix: VOUCHER_PREFIX })
+
+  const vouchers = await Promise.all(keys.map(async ({ name }) => {
+    const voucher = await env.SETTINGS.get<SignedVoucher>(name, 'json')
+    if (!voucher) return null
+    const redemptions = await getVoucherRedemptions(env, voucherCodeHash(voucher.code))
+    return { ...voucher, redemptions }
+  }))
+
+  return vouchers
+    .filter((voucher): voucher is VoucherStatus => voucher !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/**
+ * Key of a voucher's redemption counter in the contract
+ */
+function voucherCodeHash(code: string): Hex {
+  return keccak256(toBytes(code))
+}
+
+async function recoverVoucherSigner(env: VoucherEnv, voucher: SignedVoucher): Promise<Address> {
+  try {
+    const signer = await recoverTypedDataAddress({
+      domain: {
+        name: 'BirthdaySongs',
+        version: '1',
+        chainId: Number(env.CHAIN_ID),
+        verifyingContract: env.CONTRACT_ADDRESS as Address,
+      },
+      types: VOUCHER_TYPES,
+      primaryType: 'Voucher',
+      message: {
+        code: voucher.code,
+        discountBps: voucher.discountBps,
+        expiresAt: BigInt(voucher.expiresAt),
+        maxUses: voucher.maxUses,
+        tier: voucher.tier,
+      },
+      signature: voucher.signature,
+    })
+    return getAddress(signer)
+  } catch {
+    throw new VoucherError('Invalid signature', 400)
+  }
+}
@@ -3,6 +3,11 @@
  * Handles ArDrive/Turbo SDK operations that don't work in Cloudflare Workers
  */
 
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+const { pipeline } = require('stream/promises');
 const express = require('express');
 const cors = require('cors');
 const { TurboFactory } = require('@ardrive/turbo-sdk');
@@ -74,23 +79,23 @@ app.get('/api/balance', async (req, res) => {
   }
 });
 
-// Upload order data to ArDrive
+// Upload encrypted order data to ArDrive
 app.post('/api/orders/upload', async (req, res) => {
   try {
-    const { orderData, metadata } = req.body;
+    const { encryptedData, metadata } = req.body;
     
     console.log('Order upload request received');
     
-    if (!orderData) {
-      return res.status(400).json({ error: 'Missing orderData in request body' });
+    // Order details are encrypted in the browser to the creator's public key;
+    // this service never sees them in plaintext
+    if (typeof encryptedData !== 'string' || !encryptedData) {
+      return res.status(400).json({ error: 'Missing encryptedData in request body' });
     }
     
-    const tokenId = metadata?.tokenId || Date.now();
+    // The token id doesn't exist until the mint; the worker binds it via /api/orders/confirm
     const turbo = getTurboClient();
     
-    // Convert order data to buffer
-    const orderDataStr = JSON.stringify(orderData);
-    const dataBuffer = Buffer.from(orderDataStr);
+    const dataBuffer = Buffer.from(encryptedData);
     
     console.log('Uploading to ArDrive...');
     const orderUploadResult = await turbo.uploadFile({
@@ -98,29 +103,36 @@ app.post('/api/orders/upload', async (req, res) => {
       fileSizeFactory: () => dataBuffer.length,
       dataItemOpts: {
         tags: [
-          { name: 'Content-Type', value: 'application/json' },
+          { name: 'Content-Type', value: 'text/plain' },
           { name: 'App-Name', value: 'BirthdaySongs' },
           { name: 'App-Version', value: '1.0.0' },
           { name: 'Content-Kind', value: 'order-data' },
-          { name: 'Token-Id', value: tokenId.toString() },
-          { name: 'Access-Level', value: 'private' },
+          { name: 'Cipher', value: 'ECIES-secp256k1-AES256-GCM' },
         ],
       },
     });
     
     console.log('Upload successful:', orderUploadResult.id);
     
-    // Call Cloudflare Worker to store metadata in D1
+    // Call Cloudflare Worker to store indexing metadata in D1
     if (process.env.CLOUDFLARE_WORKER_URL) {
       try {
         await fetch(`${process.env.CLOUDFLARE_WORKER_URL}/api/orders/metadata`, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Service-Secret': process.env.SERVICE_SECRET || '',
+          },
           body: JSON.stringify({
-            tokenId,
             arweaveId: orderUploadResult.id,
-            status: 'pending',
-            orderData: orderData
+            metadata: {
+              tierId: metadata?.tierId,
+              orderedBy: metadata?.orderedBy,
+              orderedAt: metadata?.orderedAt,
+              allowPublication: Boolean(metadata?.allowPublication),
+              deliverBy: metadata?.deliverBy,
+              revealOnDelivery: Boolean(metadata?.revealOnDelivery)
+            }
           })
         });
       } catch (dbError) {
@@ -132,7 +144,6 @@ app.post('/api/orders/upload', async (req, res) => {
       success: true,
       arweaveId: orderUploadResult.id,
       uri: `ardrive://${orderUploadResult.id}`,
-      tokenId: tokenId,
       cost: orderUploadResult.winc || '0'
     });
     
@@ -146,37 +157,39 @@ app.post('/api/orders/upload', async (req, res) => {
 });
 
 // Upload song to ArDrive
+// Body is the encrypted song stream; it is spooled to disk so large files never sit in memory
 app.post('/api/songs/upload', async (req, res) => {
+  const tokenId = req.query.tokenId;
+  const tmpPath = path.join(os.tmpdir(), `song-${crypto.randomUUID()}.bin`);
+  
   try {
-    const { songData, tokenId } = req.body;
-    
     console.log('Song upload request received for token:', tokenId);
     
-    if (!songData) {
-      return res.status(400).json({ error: 'Missing songData in request body' });
+    if (!tokenId) {
+      return res.status(400).json({ error: 'Missing tokenId query parameter' });
     }
     
-    if (!tokenId) {
-      return res.status(400).json({ error: 'Missing tokenId in request body' });
+    await pipeline(req, fs.createWriteStream(tmpPath));
+    const { size } = await fs.promises.stat(tmpPath);
+    
+    if (size === 0) {
+      return res.status(400).json({ error: 'Missing song data in request body' });
     }
     
     const turbo = getTurboClient();
     
-    // Convert song data to buffer
-    const songDataBuffer = Buffer.from(songData);
-    
-    console.log('Uploading song to ArDrive...');
+    console.log(`Uploading ${size} byte song to ArDrive...`);
     const uploadResult = await turbo.uploadFile({
-      fileStreamFactory: () => songDataBuffer,
-      fileSizeFactory: () => songDataBuffer.length,
+      fileStreamFactory: () => fs.createReadStream(tmpPath),
+      fileSizeFactory: () => size,
       dataItemOpts: {
         tags: [
-          { name: 'Content-Type', value: 'audio/mpeg' },
+          { name: 'Content-Type', value: 'application/octet-stream' },
           { name: 'App-Name', value: 'BirthdaySongs' },
           { name: 'App-Version', value: '1.0.0' },
           { name: 'Content-Kind', value: 'song-file' },
           { name: 'Token-Id', value: tokenId.toString() },
-          { name: 'Access-Level', value: 'private' },
+          { name: 'Cipher', value: 'AES256-GCM-chunked' },
         ],
       },
     });
@@ -188,9 +201,12 @@ app.post('/api/songs/upload', async (req, res) => {
       try {
         await fetch(`${process.env.CLOUDFLARE_WORKER_URL}/api/orders/fulfill`, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Service-Secret': process.env.SERVICE_SECRET || '',
+          },
           body: JSON.stringify({
-            tokenId,
+            tokenId: Number(tokenId),
             songArweaveId: uploadResult.id
           })
         });
@@ -212,6 +228,127 @@ app.post('/api/songs/upload', async (req, res) => {
       error: 'Failed to upload song',
       details: error.message
     });
+  } finally {
+    fs.promises.unlink(tmpPath).catch(() => {});
+  }
+});
+
+// Upload a public preview clip. Unlike the song it is stored unencrypted with
+// its own audio Content-Type, so it plays straight from Arweave.
+app.post('/api/previews/upload', async (req, res) => {
+  const tokenId = req.query.tokenId;
+  const contentType = req.headers['content-type'] || '';
+  const tmpPath = path.join(os.tmpdir(), `preview-${crypto.randomUUID()}.bin`);
+  
+  try {
+    console.log('Preview upload request received for token:', tokenId);
+    
+    if (!tokenId || !contentType.startsWith('audio/')) {
+      return res.status(400).json({ error: 'Missing tokenId query parameter or audio Content-Type' });
+    }
+    
+    await pipeline(req, fs.createWriteStream(tmpPath));
+    const { size } = await fs.promises.stat(tmpPath);
+    
+    if (size === 0) {
+      return res.status(400).json({ error: 'Missing preview data in request body' });
+    }
+    
+    const turbo = getTurboClient();
+    
+    console.log(`Uploading ${size} byte preview to ArDrive...`);
+    const uploadResult = await turbo.uploadFile({
+      fileStreamFactory: () => fs.createReadStream(tmpPath),
+      fileSizeFactory: () => size,
+      dataItemOpts: {
+        tags: [
+          { name: 'Content-Type', value: contentType },
+          { name: 'App-Name', value: 'BirthdaySongs' },
+          { name: 'App-Version', value: '1.0.0' },
+          { name: 'Content-Kind', value: 'song-preview' },
+          { name: 'Token-Id', value: tokenId.toString() },
+        ],
+      },
+    });
+    
+    console.log('Preview upload successful:', uploadResult.id);
+    
+    res.json({
+      success: true,
+      arweaveId: uploadResult.id,
+      uri: `https://arweave.net/${uploadResult.id}`,
+      cost: uploadResult.winc || '0'
+    });
+    
+  } catch (error) {
+    console.error('Preview upload failed:', error);
+    res.status(500).json({ 
+      error: 'Failed to upload preview',
+      details: error.message
+    });
+  } finally {
+    fs.promises.unlink(tmpPath).catch(() => {});
+  }
+});
+
+// Upload a delivered song's public metadata: artwork and player page first,
+// then the metadata JSON pointing at both. Its URI becomes the token's tokenURI.
+app.post('/api/metadata/upload', async (req, res) => {
+  try {
+    const { tokenId, image, animation, metadata } = req.body;
+    
+    console.log('Metadata upload request received for token:', tokenId);
+    
+    if (tokenId == null || typeof image !== 'string' || !metadata || typeof metadata !== 'object') {
+      return res.status(400).json({ error: 'Missing tokenId, image or metadata in request body' });
+    }
+    
+    const turbo = getTurboClient();
+    
+    const upload = async (data, contentType, kind) => {
+      const dataBuffer = Buffer.from(data);
+      const result = await turbo.uploadFile({
+        fileStreamFactory: () => dataBuffer,
+        fileSizeFactory: () => dataBuffer.length,
+        dataItemOpts: {
+          tags: [
+            { name: 'Content-Type', value: contentType },
+            { name: 'App-Name', value: 'BirthdaySongs' },
+            { name: 'App-Version', value: '1.0.0' },
+            { name: 'Content-Kind', value: kind },
+            { name: 'Token-Id', value: tokenId.toString() },
+          ],
+        },
+      });
+      return result.id;
+    };
+    
+    const imageId = await upload(image, 'image/svg+xml', 'token-artwork');
+    const animationId = typeof animation === 'string' && animation
+      ? await upload(animation, 'text/html', 'token-player')
+      : null;
+    
+    const metadataJson = {
+      ...metadata,
+      image: `https://arweave.net/${imageId}`,
+      ...(animationId && { animation_url: `https://arweave.net/${animationId}` }),
+    };
+    const metadataId = await upload(JSON.stringify(metadataJson), 'application/json', 'token-metadata');
+    
+    console.log('Metadata upload successful:', metadataId);
+    
+    res.json({
+      success: true,
+      arweaveId: metadataId,
+      uri: `https://arweave.net/${metadataId}`
+    });
+    
+  } catch (error) {
+    console.error('Metadata upload failed:', error);
+    res.status(500).json({ 
+      error: 'Failed to upload metadata',
+      details: error.message
+    });
   }
 });
 
@@ -1,72 +1,182 @@
 // SPDX-License-Identifier: MIT
-pragma solidity ^0.8.20;
+pragma solidity ^0.8.24;
 
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/utils/Strings.sol";
-import "@openzeppelin/contracts/utils/Base64.sol";
+import "./SongMetadata.sol";
+import "./SongTiers.sol";
+import "./SongVouchers.sol";
+import "./SongFees.sol";
+import "./SongGifts.sol";
+import "./SongOrders.sol";
 
 /**
  * @title BirthdaySongs
- * @dev NFT contract for custom song orders with Lit Protocol encryption
- * 
- * Architecture:
- * - Order data: encrypted on Arweave, only creator can decrypt
- * - Song files: encrypted on Arweave, creator OR NFT holder can decrypt
- * - Payments: USDC to contract (creator withdraws)
- * - Platform fee: small ETH fee on fulfillment (covers Lit + Arweave costs)
- * 
- * Tiers:
- * - BIRTHDAY: $25 - Fun birthday song
- * - NATAL: $250 - Studio quality natal chart-inspired song
+ * @dev NFT contract for custom song orders. Order, tier, voucher, gift, fee
+ * and metadata logic live in linked libraries (SongOrders, SongTiers, ...)
+ * to keep it under the code size limit.
  */
 contract BirthdaySongs is ERC721, Ownable {
-    using Strings for uint256;
-    using SafeERC20 for IERC20;
-
     IERC20 public immutable USDC;
     
     uint256 private _nextTokenId;
     
-    enum SongType { BIRTHDAY, NATAL }
+    // How a tier's NFTs look in tokenURI
+    struct TierStyle {
+        string emoji;
+        string colorFrom;    // artwork gradient, CSS colors
+        string colorTo;
+        string description;  // e.g. "A custom birthday song."
+    }
     
-    // Prices in USDC (6 decimals)
-    uint256 public birthdayPrice = 25 * 1e6;  // $25
-    uint256 public natalPrice = 250 * 1e6;    // $250
+    // Song tiers, managed by the owner. Tier ids are indexes into _tiers;
+    // 0 (Birthday Song) and 1 (Natal Chart Song) are the launch tiers.
+    struct Tier {
+        string name;
+        uint256 price;        // USDC (6 decimals)
+        uint256 supplyLimit;  // limited edition cap
+        uint256 minted;
+        bool active;          // inactive tiers can't be ordered
+        bool birthChart;      // the order form asks for birth time and place
+        TierStyle style;
+    }
     
-    // Platform fee in ETH (paid by creator on fulfill)
-    uint256 public platformFee = 0.000001 ether;
+    Tier[] private _tiers;
+    
+    // Platform's share of each sale in basis points, fixed per order at mint
+    uint256 public constant MAX_PLATFORM_FEE_BPS = 1_000;  // 10%
+    uint256 public platformFeeBps = 200;                   // 2% ($0.50 of a $25 song)
+    // Optional ETH fee the creator pays on fulfill (0 = none)
+    uint256 public platformFee;
     address public platformWallet;
     
+    // Escrow and released revenue; see getBalance and getRevenue
+    SongFees.Ledger private _revenue;
+    
+    // Periphery contracts (e.g. SongCheckout) that collect payment some other
+    // way and mint on the buyer's behalf
+    mapping(address => bool) public isCheckout;
+    
+    // How long the buyer waits for a song before they can refund themselves,
+    // fixed per order at mint (see Order.refundableAt)
+    uint256 public fulfillmentDeadline = 30 days;
+    
+    // Claimable gifts: the NFT waits in this contract until someone proves they
+    // hold the gift's one-time claim key, or goes back to the buyer when it expires
+    struct GiftClaim {
+        address claimKey;
+        uint64 expiresAt;
+    }
+    
+    mapping(uint256 => GiftClaim) public giftClaims;
+    uint256 public giftClaimPeriod = 90 days;
+    
+    // EIP-2612 USDC permit for the order price, for one-transaction checkout
+    struct PermitSignature {
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+    
+    // Promo voucher the creator signs off-chain (EIP-712) and buyers redeem at mint
+    struct Voucher {
+        string code;
+        uint16 discountBps;  // off the tier price, 10000 = free
+        uint64 expiresAt;
+        uint32 maxUses;      // 0 = unlimited
+        uint8 tier;          // 0 = any tier, otherwise tier id + 1
+    }
+    
+    // Redemptions per voucher, keyed by keccak256 of its code
+    mapping(bytes32 => uint256) public voucherRedemptions;
+    
     struct Order {
-        SongType songType;
-        string orderDataUri;    // Lit-encrypted order details on Arweave
+        uint256 tierId;
+        string orderDataUri;
         address orderedBy;
         uint256 orderedAt;
         uint256 pricePaid;
         bool fulfilled;
-        string songUri;         // Lit-encrypted song on Arweave
+        uint256 fulfilledAt;
+        string songUri;
+        bool refunded;
+        uint256 refundableAt;  // when the buyer can refund it themselves
     }
     
-    mapping(uint256 => Order) public orders;
+    mapping(uint256 => Order) private orders;
+    
+    // Off-chain metadata (waveform artwork, player page) a fulfilled token
+    // points to instead of the on-chain placeholder; empty = on-chain
+    mapping(uint256 => string) public metadataUris;
     
     event OrderCreated(
         uint256 indexed tokenId,
         address indexed orderedBy,
-        SongType songType,
+        uint256 tierId,
         string orderDataUri,
         uint256 pricePaid
     );
     
+    event OrderGifted(
+        uint256 indexed tokenId,
+        address indexed from,
+        address indexed to
+    );
+    
+    event GiftEscrowed(
+        uint256 indexed tokenId,
+        address indexed from,
+        address claimKey,
+        uint256 expiresAt
+    );
+    
+    event GiftClaimed(uint256 indexed tokenId, address indexed to);
+    event GiftReturned(uint256 indexed tokenId, address indexed to);
+    
+    event VoucherRedeemed(
+        uint256 indexed tokenId,
+        bytes32 indexed codeHash,
+        string code,
+        uint256 discount
+    );
+    
     event OrderFulfilled(
         uint256 indexed tokenId,
         string songUri
     );
     
+    // ERC-4906: marketplaces refresh the token's metadata
+    event MetadataUpdate(uint256 _tokenId);
+    
+    event OrderRefunded(
+        uint256 indexed tokenId,
+        address indexed refundedTo,
+        uint256 amount
+    );
+    
+    event RevenueReleased(
+        uint256 indexed tokenId,
+        uint256 creatorAmount,
+        uint256 platformAmount
+    );
+    
     event PlatformFeeUpdated(uint256 newFee);
-    event PricesUpdated(uint256 birthdayPrice, uint256 natalPrice);
+    event PlatformFeeBpsUpdated(uint256 bps);
+    event PlatformFeesClaimed(address indexed to, uint256 amount);
+    event TierAdded(uint256 indexed tierId, string name, uint256 price, uint256 supplyLimit);
+    event TierUpdated(uint256 indexed tierId, string name, uint256 price, uint256 supplyLimit, bool active);
+    event FulfillmentDeadlineUpdated(uint256 deadline);
+    event GiftClaimPeriodUpdated(uint256 period);
+    event CheckoutUpdated(address indexed checkout, bool allowed);
+    event PlatformWalletUpdated(address indexed oldWallet, address indexed newWallet);
+    event Withdrawal(address indexed to, uint256 amount);
+    
+    modifier onlyPlatform() {
+        _checkPlatform();
+        _;
+    }
     
     constructor(
         address _usdc,
@@ -74,103 +184,336 @@ contract BirthdaySongs is ERC721, Ownable {
     ) ERC721("Birthday Songs", "BDAY") Ownable(msg.sender) {
         USDC = IERC20(_usdc);
         platformWallet = _platformWallet;
+        
+        // Launch editions: 25 of each tier
+        SongTiers.add(_tiers, "Birthday Song", 25 * 1e6, 25, false, TierStyle({
+            emoji: unicode"🎂",
+            colorFrom: "#60a5fa",
+            colorTo: "#3b82f6",
+            description: "A custom birthday song."
+        }));
+        SongTiers.add(_tiers, "Natal Chart Song", 250 * 1e6, 25, true, TierStyle({
+            emoji: unicode"✨",
+            colorFrom: "#8b5cf6",
+            colorTo: "#6d28d9",
+            description: "A custom natal chart-inspired song."
+        }));
+    }
+    
+    /**
+     * @dev Order a song of a tier, paid in USDC from a prior approve. The
+     * recipient is the caller for their own song, or the wallet a gift goes to;
+     * the caller pays either way and gets any refund.
+     */
+    function mint(uint256 tierId, address recipient, string calldata orderDataUri) external returns (uint256) {
+        _checkRecipient(recipient);
+        return _mintOrder(tierId, orderDataUri, priceOf(tierId), recipient, msg.sender);
+    }
+    
+    /**
+     * @dev Gift a song to someone without a wallet yet. The NFT is held here
+     * until claimed with the claim key (the buyer shares its secret).
+     */
+    function mintClaimable(uint256 tierId, address claimKey, string calldata orderDataUri) external returns (uint256) {
+        return _mintClaimable(tierId, orderDataUri, priceOf(tierId), claimKey);
+    }
+    
+    /**
+     * @dev Order with a USDC permit instead of a prior approve, in one transaction
+     */
+    function mintWithPermit(
+        uint256 tierId,
+        address recipient,
+        string calldata orderDataUri,
+        PermitSignature calldata permit
+    ) external returns (uint256) {
+        _checkRecipient(recipient);
+        uint256 price = priceOf(tierId);
+        SongFees.permit(USDC, msg.sender, price, permit);
+        return _mintOrder(tierId, orderDataUri, price, recipient, msg.sender);
     }
     
     /**
-     * @dev Mint a birthday song order ($25)
-     * @param orderDataUri Arweave URI containing Lit-encrypted order details
+     * @dev Claim-link gift paid with a USDC permit
      */
-    function mintBirthdaySong(string calldata orderDataUri) external returns (uint256) {
-        return _mintOrder(SongType.BIRTHDAY, orderDataUri, birthdayPrice);
+    function mintClaimableWithPermit(
+        uint256 tierId,
+        address claimKey,
+        string calldata orderDataUri,
+        PermitSignature calldata permit
+    ) external returns (uint256) {
+        uint256 price = priceOf(tierId);
+        SongFees.permit(USDC, msg.sender, price, permit);
+        return _mintClaimable(tierId, orderDataUri, price, claimKey);
+    }
+    
+    /**
+     * @dev Order at a discount with a voucher signed by the owner. Pass a permit
+     * to pay in the same transaction, or a zero deadline to use an approval.
+     */
+    function mintWithVoucher(
+        uint256 tierId,
+        address recipient,
+        string calldata orderDataUri,
+        Voucher calldata voucher,
+        bytes calldata signature,
+        PermitSignature calldata permit
+    ) external returns (uint256 tokenId) {
+        _checkRecipient(recipient);
+        uint256 price = _redeemVoucher(tierId, voucher, signature);
+        if (permit.deadline != 0) {
+            SongFees.permit(USDC, msg.sender, price, permit);
+        }
+        tokenId = _mintOrder(tierId, orderDataUri, price, recipient, msg.sender);
     }
     
     /**
-     * @dev Mint a natal chart song order ($250)
-     * @param orderDataUri Arweave URI containing Lit-encrypted order details
+     * @dev Mint for a buyer who paid through an approved checkout. The checkout
+     * pays the USDC price; the buyer is recorded as orderedBy and gets any refund.
      */
-    function mintNatalSong(string calldata orderDataUri) external returns (uint256) {
-        return _mintOrder(SongType.NATAL, orderDataUri, natalPrice);
+    function mintFromCheckout(
+        address buyer,
+        uint256 tierId,
+        address recipient,
+        string calldata orderDataUri
+    ) external returns (uint256) {
+        require(isCheckout[msg.sender], "Not an approved checkout");
+        _checkRecipient(recipient);
+        return _mintOrder(tierId, orderDataUri, priceOf(tierId), recipient, buyer);
+    }
+    
+    /**
+     * @dev Claim an escrowed gift. The signature is the claim key's EIP-191
+     * signature over (chain id, this contract, token id, caller), so a claim
+     * seen in the mempool can't be replayed for another wallet.
+     */
+    function claimGift(uint256 tokenId, bytes calldata signature) external {
+        SongGifts.claim(giftClaims, orders, tokenId, signature);
+        _transfer(address(this), msg.sender, tokenId);
+    }
+    
+    /**
+     * @dev Send an unclaimed gift back to the buyer once its claim period is over
+     */
+    function returnUnclaimedGift(uint256 tokenId) external {
+        address buyer = orders[tokenId].orderedBy;
+        SongGifts.expire(giftClaims, tokenId, buyer);
+        _transfer(address(this), buyer, tokenId);
+    }
+    
+    /**
+     * @dev Redeem an owner-signed voucher for the token about to be minted and
+     * return the discounted price
+     */
+    function _redeemVoucher(
+        uint256 tierId,
+        Voucher calldata voucher,
+        bytes calldata signature
+    ) internal returns (uint256) {
+        return SongVouchers.redeem(
+            voucherRedemptions, owner(), _nextTokenId, tierId, priceOf(tierId), voucher, signature
+        );
+    }
+    
+    /**
+     * @dev Current USDC price of a tier
+     */
+    function priceOf(uint256 tierId) public view returns (uint256) {
+        require(tierId < _tiers.length, "Unknown tier");
+        return _tiers[tierId].price;
+    }
+    
+    /**
+     * @dev Wallet recipients only; claimable gifts are the one case this
+     * contract holds a token
+     */
+    function _checkRecipient(address recipient) internal view {
+        require(recipient != address(0) && recipient != address(this), "Invalid recipient");
+    }
+    
+    function _checkPlatform() internal view {
+        require(msg.sender == platformWallet, "Only platform wallet");
     }
     
+    function _mintClaimable(
+        uint256 tierId,
+        string calldata orderDataUri,
+        uint256 price,
+        address claimKey
+    ) internal returns (uint256 tokenId) {
+        require(claimKey != address(0), "Invalid claim key");
+        tokenId = _mintOrder(tierId, orderDataUri, price, address(this), msg.sender);
+        SongGifts.escrow(giftClaims, tokenId, claimKey, giftClaimPeriod);
+    }
+    
+    /**
+     * @dev The buyer is recorded as orderedBy (and gets any refund); the
+     * recipient receives the NFT and with it access to the song. Payment is
+     * pulled from the caller: the buyer, or the checkout they paid through.
+     */
     function _mintOrder(
-        SongType songType,
+        uint256 tierId,
         string calldata orderDataUri,
-        uint256 price
+        uint256 price,
+        address recipient,
+        address buyer
     ) internal returns (uint256) {
-        require(bytes(orderDataUri).length > 0, "Order data URI required");
-        
-        // Collect USDC payment
-        USDC.safeTransferFrom(msg.sender, address(this), price);
-        
         uint256 tokenId = _nextTokenId++;
-        _safeMint(msg.sender, tokenId);
+        SongOrders.create(orders, _tiers, tokenId, tierId, orderDataUri, buyer, price, fulfillmentDeadline);
         
-        orders[tokenId] = Order({
-            songType: songType,
-            orderDataUri: orderDataUri,
-            orderedBy: msg.sender,
-            orderedAt: block.timestamp,
-            pricePaid: price,
-            fulfilled: false,
-            songUri: ""
-        });
+        // Collect USDC payment into escrow (from the checkout, if the buyer used one)
+        SongFees.escrow(_revenue, USDC, msg.sender, tokenId, price, platformFeeBps);
+        
+        // Claimable gifts are held by this contract, which has no onERC721Received
+        if (recipient == address(this)) {
+            _mint(recipient, tokenId);
+        } else {
+            _safeMint(recipient, tokenId);
+        }
         
-        emit OrderCreated(tokenId, msg.sender, songType, orderDataUri, price);
+        if (recipient != buyer && recipient != address(this)) {
+            emit OrderGifted(tokenId, buyer, recipient);
+        }
         
         return tokenId;
     }
     
     /**
-     * @dev Owner fulfills order with Lit-encrypted song URI
-     * @notice Requires platform fee in ETH to cover infrastructure costs
+     * @dev Creator marks an order as fulfilled, releasing its payment from escrow.
+     * A non-empty metadataUri replaces the on-chain placeholder metadata.
+     * @notice Send at least platformFee in ETH if one is set; any excess is returned
      */
-    function fulfillOrder(uint256 tokenId, string calldata songUri) external payable onlyOwner {
-        require(_ownerOf(tokenId) != address(0), "Token does not exist");
-        require(!orders[tokenId].fulfilled, "Already fulfilled");
-        require(bytes(songUri).length > 0, "Song URI required");
-        require(msg.value >= platformFee, "Insufficient platform fee");
-        
-        // Pay platform fee
-        if (platformFee > 0) {
-            (bool sent, ) = platformWallet.call{value: msg.value}("");
-            require(sent, "Platform fee transfer failed");
-        }
+    function fulfillOrder(
+        uint256 tokenId,
+        string calldata songUri,
+        string calldata metadataUri
+    ) external payable onlyOwner {
+        _requireOwned(tokenId);
+        uint256 pricePaid = SongOrders.fulfill(orders, metadataUris, tokenId, songUri, metadataUri);
         
-        orders[tokenId].fulfilled = true;
-        orders[tokenId].songUri = songUri;
-        
-        emit OrderFulfilled(tokenId, songUri);
+        // Release the payment from escrow, split between creator and platform
+        SongFees.release(_revenue, tokenId, pricePaid, platformWallet, platformFee, msg.value);
+    }
+    
+    /**
+     * @dev Refund an unfulfilled order to the wallet that paid for it.
+     * The owner can refund at any time; the buyer once the order's fulfillment
+     * deadline has passed. The NFT stays as a receipt, marked refunded, and its supply
+     * slot is freed.
+     */
+    function refundOrder(uint256 tokenId) external {
+        _requireOwned(tokenId);
+        SongOrders.refund(orders, _tiers, _revenue, USDC, tokenId, owner());
     }
     
     /**
-     * @dev Update platform fee (only owner for now, could be platformWallet in future)
+     * @dev When the buyer can refund an unfulfilled order themselves
      */
-    function setPlatformFee(uint256 _platformFee) external {
-        require(msg.sender == platformWallet, "Only platform can update fee");
+    function refundableAt(uint256 tokenId) public view returns (uint256) {
+        _requireOwned(tokenId);
+        return orders[tokenId].refundableAt;
+    }
+    
+    /**
+     * @dev Update how long buyers of new orders wait before they can self-refund.
+     * Existing orders keep the deadline they were minted with.
+     */
+    function setFulfillmentDeadline(uint256 _fulfillmentDeadline) external onlyOwner {
+        fulfillmentDeadline = _fulfillmentDeadline;
+        emit FulfillmentDeadlineUpdated(_fulfillmentDeadline);
+    }
+    
+    /**
+     * @dev Update how long new claimable gifts wait before returning to the buyer
+     */
+    function setGiftClaimPeriod(uint256 _giftClaimPeriod) external onlyOwner {
+        giftClaimPeriod = _giftClaimPeriod;
+        emit GiftClaimPeriodUpdated(_giftClaimPeriod);
+    }
+    
+    /**
+     * @dev Launch a new tier, open for orders right away
+     */
+    function addTier(
+        string calldata name,
+        uint256 price,
+        uint256 supplyLimit,
+        bool birthChart,
+        TierStyle calldata style
+    ) external onlyOwner returns (uint256) {
+        return SongTiers.add(_tiers, name, price, supplyLimit, birthChart, style);
+    }
+    
+    /**
+     * @dev Update a tier. The supply cap can't go below what's already minted;
+     * deactivating it stops new orders without touching existing ones.
+     */
+    function updateTier(
+        uint256 tierId,
+        string calldata name,
+        uint256 price,
+        uint256 supplyLimit,
+        bool active,
+        bool birthChart,
+        TierStyle calldata style
+    ) external onlyOwner {
+        SongTiers.update(_tiers, tierId, name, price, supplyLimit, active, birthChart, style);
+    }
+    
+    /**
+     * @dev Update the ETH fee on fulfill (platform wallet only)
+     */
+    function setPlatformFee(uint256 _platformFee) external onlyPlatform {
         platformFee = _platformFee;
         emit PlatformFeeUpdated(_platformFee);
     }
     
     /**
-     * @dev Update prices (in USDC with 6 decimals)
+     * @dev Update the platform's share of new sales (platform wallet only).
+     * Orders already minted keep the split they were sold under.
+     */
+    function setPlatformFeeBps(uint256 bps) external onlyPlatform {
+        require(bps <= MAX_PLATFORM_FEE_BPS, "Fee above maximum");
+        platformFeeBps = bps;
+        emit PlatformFeeBpsUpdated(bps);
+    }
+    
+    /**
+     * @dev Approve or revoke a checkout contract
+     */
+    function setCheckout(address checkout, bool allowed) external onlyOwner {
+        isCheckout[checkout] = allowed;
+        emit CheckoutUpdated(checkout, allowed);
+    }
+    
+    /**
+     * @dev Move the platform's role to a new wallet (platform wallet only).
+     * Fees already accrued go with it, so the owner can't redirect them.
      */
-    function setPrices(uint256 _birthdayPrice, uint256 _natalPrice) external onlyOwner {
-        birthdayPrice = _birthdayPrice;
-        natalPrice = _natalPrice;
-        emit PricesUpdated(_birthdayPrice, _natalPrice);
+    function setPlatformWallet(address _platformWallet) external onlyPlatform {
+        require(_platformWallet != address(0), "Invalid platform wallet");
+        address oldWallet = platformWallet;
+        platformWallet = _platformWallet;
+        emit PlatformWalletUpdated(oldWallet, _platformWallet);
     }
     
     /**
-     * @dev Withdraw all USDC to owner
+     * @dev Pay out the creator's share of fulfilled orders. Payments for
+     * pending orders stay in escrow; the platform claims its share itself.
      */
     function withdraw() external onlyOwner {
-        uint256 balance = USDC.balanceOf(address(this));
-        require(balance > 0, "No funds to withdraw");
-        USDC.safeTransfer(owner(), balance);
+        SongFees.withdrawCreator(_revenue, USDC, owner());
+    }
+    
+    /**
+     * @dev Platform wallet pulls its accrued share of fulfilled orders
+     */
+    function claimPlatformFees() external onlyPlatform {
+        SongFees.claimPlatform(_revenue, USDC, platformWallet);
     }
     
     function getOrder(uint256 tokenId) external view returns (Order memory) {
-        require(_ownerOf(tokenId) != address(0), "Token does not exist");
+        _requireOwned(tokenId);
         return orders[tokenId];
     }
     
@@ -178,67 +521,55 @@ contract BirthdaySongs is ERC721, Ownable {
         return _nextTokenId;
     }
     
-    function getBalance() external view returns (uint256) {
-        return USDC.balanceOf(address(this));
+    /**
+     * @dev USDC the owner can withdraw now, and USDC held for pending orders
+     */
+    function getBalance() external view returns (uint256 withdrawable, uint256 escrowed) {
+        return (_revenue.creatorAccrued, _revenue.escrowed);
+    }
+    
+    /**
+     * @dev Released revenue per side: unpaid now, and all time
+     */
+    function getRevenue() external view returns (
+        uint256 creatorAccrued,
+        uint256 platformAccrued,
+        uint256 creatorTotal,
+        uint256 platformTotal
+    ) {
+        return (_revenue.creatorAccrued, _revenue.platformAccrued, _revenue.creatorTotal, _revenue.platformTotal);
     }
     
     /**
-     * @dev Returns token URI with on-chain SVG
+     * @dev One tier, read through getTiers so both share their encoding code
      */
+    function getTier(uint256 tierId) external view returns (Tier memory) {
+        require(tierId < _tiers.length, "Unknown tier");
+        return getTiers()[tierId];
+    }
+    
+    /**
+     * @dev Every tier, inactive ones included; a tier's id is its index
+     */
+    function getTiers() public view returns (Tier[] memory) {
+        return _tiers;
+    }
+    
+    /**
+     * @dev Replace or clear a fulfilled token's metadata URI (empty = on-chain)
+     */
+    function setMetadataUri(uint256 tokenId, string calldata metadataUri) external onlyOwner {
+        SongOrders.setMetadataUri(orders, metadataUris, tokenId, metadataUri);
+    }
+    
     function tokenURI(uint256 tokenId) public view override returns (string memory) {
-        require(_ownerOf(tokenId) != address(0), "Token does not exist");
-        
-        Order memory order = orders[tokenId];
-        
-        string memory songTypeName = order.songType == SongType.BIRTHDAY ? "Birthday Song" : "Natal Chart Song";
-        string memory emoji = order.songType == SongType.BIRTHDAY ? unicode"🎂" : unicode"✨";
-        string memory status = order.fulfilled ? "Ready" : "Creating";
-        string memory statusColor = order.fulfilled ? "#22c55e" : "#f59e0b";
-        string memory priceStr = order.songType == SongType.BIRTHDAY ? "$25" : "$250";
-        
-        // Different gradient for each type
-        string memory gradientStart = order.songType == SongType.BIRTHDAY ? "#60a5fa" : "#8b5cf6";
-        string memory gradientEnd = order.songType == SongType.BIRTHDAY ? "#3b82f6" : "#6d28d9";
-        
-        string memory svg = string(abi.encodePacked(
-            '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 400">',
-            '<defs><linearGradient id="bg" x1="0%" y1="0%" x2="100%" y2="100%">',
-            '<stop offset="0%" style="stop-color:', gradientStart, '"/>',
-            '<stop offset="100%" style="stop-color:', gradientEnd, '"/>',
-            '</linearGradient></defs>',
-            '<rect width="400" height="400" fill="url(#bg)"/>',
-            '<text x="200" y="50" font-family="Arial" font-size="20" font-weight="bold" fill="white" text-anchor="middle">', songTypeName, '</text>',
-            '<text x="200" y="80" font-family="Arial" font-size="14" fill="white" opacity="0.8" text-anchor="middle">#', tokenId.toString(), ' ', unicode"•", ' ', priceStr, '</text>',
-            '<circle cx="200" cy="200" r="70" fill="white" opacity="0.15"/>',
-            '<text x="200" y="220" font-size="80" text-anchor="middle">', emoji, '</text>',
-            '<rect x="100" y="320" width="200" height="40" rx="20" fill="', statusColor, '"/>',
-            '<text x="200" y="347" font-family="Arial" font-size="16" font-weight="bold" fill="white" text-anchor="middle">', status, '</text>',
-            '</svg>'
-        ));
-        
-        string memory json = string(abi.encodePacked(
-            '{"name":"', songTypeName, ' #', tokenId.toString(), '",',
-            '"description":"A custom ', order.songType == SongType.BIRTHDAY ? 'birthday' : 'natal chart-inspired', ' song. ', 
-            order.fulfilled ? 'Download available for NFT holder.' : 'Currently being created.', '",',
-            '"image":"data:image/svg+xml;base64,', Base64.encode(bytes(svg)), '",',
-            '"attributes":[',
-            '{"trait_type":"Type","value":"', songTypeName, '"},',
-            '{"trait_type":"Price","value":"', priceStr, '"},',
-            '{"trait_type":"Status","value":"', status, '"}'
-        ));
-        
-        if (order.fulfilled && bytes(order.songUri).length > 0) {
-            json = string(abi.encodePacked(
-                json,
-                ',{"trait_type":"Song","value":"Encrypted on Arweave"}'
-            ));
-        }
-        
-        json = string(abi.encodePacked(json, ']}'));
-        
-        return string(abi.encodePacked(
-            'data:application/json;base64,',
-            Base64.encode(bytes(json))
-        ));
+        _requireOwned(tokenId);
+        Order storage order = orders[tokenId];
+        return SongMetadata.tokenURI(tokenId, order, _tiers[order.tierId], metadataUris[tokenId]);
+    }
+    
+    function supportsInterface(bytes4 interfaceId) public view override returns (bool) {
+        // ERC-4906 metadata update events
+        return interfaceId == bytes4(0x49064906) || super.supportsInterface(interfaceId);
     }
 }
@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "./BirthdaySongs.sol";
+
+/**
+ * @title SongGifts
+ * @dev Claim-link gift bookkeeping for BirthdaySongs, as a linked library.
+ * BirthdaySongs holds the NFT and moves it once a claim or return checks out.
+ */
+library SongGifts {
+    function escrow(
+        mapping(uint256 => BirthdaySongs.GiftClaim) storage claims,
+        uint256 tokenId,
+        address claimKey,
+        uint256 claimPeriod
+    ) external {
+        require(claimKey != address(0), "Invalid claim key");
+        uint256 expiresAt = block.timestamp + claimPeriod;
+        claims[tokenId] = BirthdaySongs.GiftClaim({ claimKey: claimKey, expiresAt: uint64(expiresAt) });
+        
+        emit BirthdaySongs.GiftEscrowed(tokenId, msg.sender, claimKey, expiresAt);
+    }
+    
+    /**
+     * @dev Check the caller's claim. The signature is the claim key's EIP-191
+     * signature over (chain id, this contract, token id, caller). A refunded
+     * gift can only go back to the buyer.
+     */
+    function claim(
+        mapping(uint256 => BirthdaySongs.GiftClaim) storage claims,
+        mapping(uint256 => BirthdaySongs.Order) storage orders,
+        uint256 tokenId,
+        bytes calldata signature
+    ) external {
+        BirthdaySongs.GiftClaim memory gift = claims[tokenId];
+        require(gift.claimKey != address(0), "No gift to claim");
+        require(!orders[tokenId].refunded, "Order refunded");
+        require(block.timestamp < gift.expiresAt, "Gift claim expired");
+        
+        bytes32 digest = keccak256(abi.encode(block.chainid, address(this), tokenId, msg.sender));
+        require(
+            ECDSA.recover(MessageHashUtils.toEthSignedMessageHash(digest), signature) == gift.claimKey,
+            "Invalid claim signature"
+        );
+        
+        delete claims[tokenId];
+        emit BirthdaySongs.GiftClaimed(tokenId, msg.sender);
+    }
+    
+    /**
+     * @dev Close a gift whose claim period is over so it can go back to the buyer
+     */
+    function expire(
+        mapping(uint256 => BirthdaySongs.GiftClaim) storage claims,
+        uint256 tokenId,
+        address buyer
+    ) external {
+        BirthdaySongs.GiftClaim memory gift = claims[tokenId];
+        require(gift.claimKey != address(0), "No gift to return");
+        require(block.timestamp >= gift.expiresAt, "Gift can still be claimed");
+        
+        delete claims[tokenId];
+        emit BirthdaySongs.GiftReturned(tokenId, buyer);
+    }
+}
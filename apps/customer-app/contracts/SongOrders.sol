@@ -0,0 +1,125 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./BirthdaySongs.sol";
+import "./SongFees.sol";
+
+/**
+ * @title SongOrders
+ * @dev Order records for BirthdaySongs, as a linked library: what was bought
+ * at mint, and the song and metadata URIs at fulfillment. BirthdaySongs does
+ * the minting; payments go through SongFees.
+ */
+library SongOrders {
+    /**
+     * @dev Take a supply slot of the tier and record the order, refundable by
+     * the buyer once fulfillmentDeadline has passed
+     */
+    function create(
+        mapping(uint256 => BirthdaySongs.Order) storage orders,
+        BirthdaySongs.Tier[] storage tiers,
+        uint256 tokenId,
+        uint256 tierId,
+        string calldata orderDataUri,
+        address buyer,
+        uint256 price,
+        uint256 fulfillmentDeadline
+    ) external {
+        require(bytes(orderDataUri).length > 0, "Order data URI required");
+        require(tierId < tiers.length, "Unknown tier");
+        BirthdaySongs.Tier storage tier = tiers[tierId];
+        require(tier.active, "Tier not available");
+        require(tier.minted < tier.supplyLimit, "Tier sold out");
+        tier.minted++;
+        
+        orders[tokenId] = BirthdaySongs.Order({
+            tierId: tierId,
+            orderDataUri: orderDataUri,
+            orderedBy: buyer,
+            orderedAt: block.timestamp,
+            pricePaid: price,
+            fulfilled: false,
+            fulfilledAt: 0,
+            songUri: "",
+            refunded: false,
+            refundableAt: block.timestamp + fulfillmentDeadline
+        });
+        
+        emit BirthdaySongs.OrderCreated(tokenId, buyer, tierId, orderDataUri, price);
+    }
+    
+    /**
+     * @dev Record delivery of an open order and return what was paid for it.
+     * A non-empty metadataUri replaces the on-chain placeholder metadata.
+     */
+    function fulfill(
+        mapping(uint256 => BirthdaySongs.Order) storage orders,
+        mapping(uint256 => string) storage metadataUris,
+        uint256 tokenId,
+        string calldata songUri,
+        string calldata metadataUri
+    ) external returns (uint256) {
+        BirthdaySongs.Order storage order = orders[tokenId];
+        require(!order.fulfilled, "Already fulfilled");
+        require(!order.refunded, "Order refunded");
+        require(bytes(songUri).length > 0, "Song URI required");
+        
+        order.fulfilled = true;
+        order.fulfilledAt = block.timestamp;
+        order.songUri = songUri;
+        if (bytes(metadataUri).length > 0) {
+            metadataUris[tokenId] = metadataUri;
+        }
+        
+        emit BirthdaySongs.OrderFulfilled(tokenId, songUri);
+        emit BirthdaySongs.MetadataUpdate(tokenId);
+        
+        return order.pricePaid;
+    }
+    
+    /**
+     * @dev Mark an open order refunded, free its supply slot and pay the buyer
+     * back from escrow. The creator can refund at any time, the buyer once the
+     * order is refundable.
+     */
+    function refund(
+        mapping(uint256 => BirthdaySongs.Order) storage orders,
+        BirthdaySongs.Tier[] storage tiers,
+        SongFees.Ledger storage ledger,
+        IERC20 usdc,
+        uint256 tokenId,
+        address creator
+    ) external {
+        BirthdaySongs.Order storage order = orders[tokenId];
+        require(!order.fulfilled, "Already fulfilled");
+        require(!order.refunded, "Already refunded");
+        
+        address buyer = order.orderedBy;
+        uint256 amount = order.pricePaid;
+        if (msg.sender != creator) {
+            require(msg.sender == buyer, "Only the buyer or owner can refund");
+            require(block.timestamp >= order.refundableAt, "Fulfillment deadline not reached");
+        }
+        
+        order.refunded = true;
+        tiers[order.tierId].minted--;
+        SongFees.refund(ledger, usdc, buyer, amount);
+        
+        emit BirthdaySongs.OrderRefunded(tokenId, buyer, amount);
+        emit BirthdaySongs.MetadataUpdate(tokenId);
+    }
+    
+    /**
+     * @dev Replace or clear a fulfilled token's metadata URI (empty = on-chain)
+     */
+    function setMetadataUri(
+        mapping(uint256 => BirthdaySongs.Order) storage orders,
+        mapping(uint256 => string) storage metadataUris,
+        uint256 tokenId,
+        string calldata metadataUri
+    ) external {
+        require(orders[tokenId].fulfilled, "Order not fulfilled");
+        metadataUris[tokenId] = metadataUri;
+        emit BirthdaySongs.MetadataUpdate(tokenId);
+    }
+}
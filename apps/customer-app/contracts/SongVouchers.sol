@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "./BirthdaySongs.sol";
+
+/**
+ * @title SongVouchers
+ * @dev Promo voucher checks for BirthdaySongs, as a linked library. Vouchers
+ * are EIP-712 messages signed by the contract owner under the domain
+ * ("BirthdaySongs", "1", chain id, the BirthdaySongs contract); redemptions
+ * are counted in BirthdaySongs' storage.
+ */
+library SongVouchers {
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+    
+    bytes32 private constant VOUCHER_TYPEHASH = keccak256(
+        "Voucher(string code,uint16 discountBps,uint64 expiresAt,uint32 maxUses,uint8 tier)"
+    );
+    
+    /**
+     * @dev Check a voucher against the signer and its limits, count its
+     * redemption for tokenId and return the discounted price
+     */
+    function redeem(
+        mapping(bytes32 => uint256) storage redemptions,
+        address signer,
+        uint256 tokenId,
+        uint256 tierId,
+        uint256 price,
+        BirthdaySongs.Voucher calldata voucher,
+        bytes calldata signature
+    ) external returns (uint256) {
+        require(block.timestamp < voucher.expiresAt, "Voucher expired");
+        require(voucher.tier == 0 || voucher.tier == tierId + 1, "Voucher not valid for this song");
+        require(voucher.discountBps <= 10_000, "Invalid discount");
+        
+        // Called by delegatecall, so address(this) is BirthdaySongs
+        bytes32 domainSeparator = keccak256(abi.encode(
+            DOMAIN_TYPEHASH,
+            keccak256("BirthdaySongs"),
+            keccak256("1"),
+            block.chainid,
+            address(this)
+        ));
+        bytes32 codeHash = keccak256(bytes(voucher.code));
+        bytes32 digest = MessageHashUtils.toTypedDataHash(domainSeparator, keccak256(abi.encode(
+            VOUCHER_TYPEHASH,
+            codeHash,
+            voucher.discountBps,
+            voucher.expiresAt,
+            voucher.maxUses,
+            voucher.tier
+        )));
+        require(ECDSA.recover(digest, signature) == signer, "Invalid voucher signature");
+        
+        uint256 redeemed = redemptions[codeHash]++;
+        require(voucher.maxUses == 0 || redeemed < voucher.maxUses, "Voucher fully redeemed");
+        
+        uint256 discount = price * voucher.discountBps / 10_000;
+        emit BirthdaySongs.VoucherRedeemed(tokenId, codeHash, voucher.code, discount);
+        
+        return price - discount;
+    }
+}
@@ -0,0 +1,170 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useAccount, useConnect, useReadContracts, useWaitForTransactionReceipt, useWriteContract } from 'wagmi'
+import { base } from 'wagmi/chains'
+import { privateKeyToAccount } from 'viem/accounts'
+import { BIRTHDAY_SONGS_ABI, CHAIN_ID, CONTRACT_CONFIG } from '@/lib/contract'
+import { parseClaimLink, signGiftClaim, type ClaimLink } from '@/lib/gift-claim'
+import { useTiers } from '@/lib/tiers'
+
+export default function ClaimGift() {
+  const [link, setLink] = useState<ClaimLink | null>(null)
+  const [isLinkParsed, setIsLinkParsed] = useState(false)
+  const [isSigning, setIsSigning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const { address, isConnected } = useAccount()
+  const { connect, connectors, isPending: isConnecting } = useConnect()
+  const { tiers } = useTiers()
+
+  // The secret only lives in the URL fragment, so read it client-side
+  useEffect(() => {
+    setLink(parseClaimLink(window.location.href))
+    setIsLinkParsed(true)
+
+    // Opened inside a Farcaster client: signal ready and use its wallet
+    import('@farcaster/miniapp-sdk')
+      .then(({ sdk }) => sdk.actions.ready())
+      .catch((err) => console.error('Farcaster SDK error:', err))
+  }, [])
+
+  const { data: giftData, isLoading, refetch } = useReadContracts({
+    contracts: link ? [
+      {
+        address: CONTRACT_CONFIG.address,
+        abi: BIRTHDAY_SONGS_ABI,
+        functionName: 'giftClaims',
+        args: [BigInt(link.tokenId)],
+      },
+      {
+        address: CONTRACT_CONFIG.address,
+        abi: BIRTHDAY_SONGS_ABI,
+        functionName: 'getOrder',
+        args: [BigInt(link.tokenId)],
+      },
+    ] : [],
+    query: { enabled: !!link },
+  })
+
+  const { writeContract: claimGift, data: claimTxHash, isPending: isClaiming, error: claimError } = useWriteContract()
+  const { isSuccess: isClaimed, isLoading: isConfirmingClaim } = useWaitForTransactionReceipt({ hash: claimTxHash })
+
+  useEffect(() => {
+    if (isClaimed) refetch()
+  }, [isClaimed, refetch])
+
+  const giftClaim = giftData?.[0]?.result as readonly [string, bigint] | undefined
+  const order = giftData?.[1]?.result as { tierId: bigint; orderedBy: string } | undefined
+  const claimKey = giftClaim?.[0]
+  const expiresAt = giftClaim ? new Date(Number(giftClaim[1]) * 1000) : null
+
+  const handleClaim = async () => {
+    if (!link || !address) return
+    setError(null)
+    setIsSigning(true)
+    try {
+      // Signed with the link's key, so the claim only works for this wallet
+      const signature = await signGiftClaim(link.secret, link.tokenId, address, CHAIN_ID, CONTRACT_CONFIG.address)
+      claimGift({
+        address: CONTRACT_CONFIG.address,
+        abi: BIRTHDAY_SONGS_ABI,
+        functionName: 'claimGift',
+        args: [BigInt(link.tokenId), signature],
+      })
+    } catch (err) {
+      console.error('Claim signing failed:', err)
+      setError('Could not sign the claim')
+    } finally {
+      setIsSigning(false)
+    }
+  }
+
+  const renderBody = () => {
+    if (!isLinkParsed || (link && isLoading)) {
+      return <p className="text-gray-500 animate-pulse">Loading your gift...</p>
+    }
+    if (!link) {
+      return <Notice emoji="🔗" title="Broken link" text="This claim link is incomplete. Ask the sender to copy it again." />
+    }
+    if (isClaimed) {
+      return (
+        <>
+          <Notice emoji="🎉" title="It's yours!" text="The song NFT is in your wallet. Open My Songs to play it once Jose has finished it." />
+          <a href="/" className="mt-4 block w-full bg-blue-600 active:bg-blue-700 text-white font-semibold py-4 rounded-xl">
+            Go to My Songs
+          </a>
+        </>
+      )
+    }
+    if (!claimKey || /^0x0+$/.test(claimKey)) {
+      return <Notice emoji="📭" title="Already claimed" text="This gift has already been claimed or returned to the sender." />
+    }
+    if (privateKeyToAccount(link.secret).address.toLowerCase() !== claimKey.toLowerCase()) {
+      return <Notice emoji="🔗" title="Wrong link" text="This link doesn't unlock that gift. Ask the sender to copy it again." />
+    }
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      return <Notice emoji="⌛" title="Gift expired" text="The claim period is over, so the song goes back to the sender." />
+    }
+
+    const tier = order ? tiers[Number(order.tierId)] : undefined
+    const songName = tier ? `a ${tier.name.toLowerCase()}` : 'a song'
+    const displayError = error || claimError?.message?.slice(0, 40)
+
+    return (
+      <>
+        <Notice
+          emoji="🎁"
+          title="You've been gifted a song!"
+          text={`Someone ordered ${songName} from Jose for you. Claim it to a wallet to listen once it's ready.`}
+        />
+        {expiresAt && (
+          <p className="text-xs text-gray-400 mt-2">Claim by {expiresAt.toLocaleDateString()}</p>
+        )}
+
+        {displayError && <p className="text-red-500 text-xs mt-3">{displayError}</p>}
+
+        {isConnected && address ? (
+          <button
+            onClick={handleClaim}
+            disabled={isSigning || isClaiming || isConfirmingClaim}
+            className="mt-4 w-full bg-gradient-to-r from-orange-500 to-pink-500 text-white font-bold py-4 rounded-xl shadow-lg active:scale-98 disabled:opacity-50"
+          >
+            {isSigning || isClaiming ? 'Confirm in wallet...' : isConfirmingClaim ? 'Claiming...' : '🎁 Claim my song'}
+          </button>
+        ) : (
+          <div className="mt-4 space-y-2">
+            {connectors.map((connector) => (
+              <button
+                key={connector.uid}
+                onClick={() => connect({ connector, chainId: base.id })}
+                disabled={isConnecting}
+                className="w-full bg-blue-600 active:bg-blue-700 text-white font-semibold py-4 rounded-xl disabled:opacity-50"
+              >
+                {connector.id === 'farcaster' ? 'Use my Farcaster wallet' : 'Create or connect a wallet'}
+              </button>
+            ))}
+          </div>
+        )}
+      </>
+    )
+  }
+
+  return (
+    <main className="min-h-[100dvh] flex items-center justify-center px-4">
+      <div className="w-full max-w-sm bg-white/95 rounded-2xl p-6 text-center">
+        {renderBody()}
+      </div>
+    </main>
+  )
+}
+
+function Notice({ emoji, title, text }: { emoji: string; title: string; text: string }) {
+  return (
+    <>
+      <div className="text-6xl mb-4">{emoji}</div>
+      <h2 className="text-xl font-bold text-gray-800 mb-2">{title}</h2>
+      <p className="text-gray-600 text-sm">{text}</p>
+    </>
+  )
+}
@@ -7,9 +7,10 @@ import Image from 'next/image'
 import { BIRTHDAY_SONGS_ABI, CONTRACT_CONFIG, CREATOR_ADDRESS } from '@/lib/contract'
 import { OrderForm } from '@/components/OrderForm'
 import { MyOrders } from '@/components/MyOrders'
+import { Gallery } from '@/components/Gallery'
 import { CreatorDashboard } from '@/components/CreatorDashboard'
 
-type Tab = 'order' | 'my-songs' | 'creator'
+type Tab = 'order' | 'my-songs' | 'gallery' | 'creator'
 
 export default function Home() {
   const [isSDKLoaded, setIsSDKLoaded] = useState(false)
@@ -135,6 +136,9 @@ export default function Home() {
         <TabButton active={activeTab === 'my-songs'} onClick={() => setActiveTab('my-songs')}>
           🎵 My Songs
         </TabButton>
+        <TabButton active={activeTab === 'gallery'} onClick={() => setActiveTab('gallery')}>
+          🌟 Gallery
+        </TabButton>
         {isCreator && (
           <TabButton active={activeTab === 'creator'} onClick={() => setActiveTab('creator')}>
             ✨ Jose's Studio
@@ -146,6 +150,7 @@ export default function Home() {
       <div className="flex-1 overflow-y-auto px-4 pb-8 safe-bottom">
         {activeTab === 'order' && <OrderForm isConnected={!!farcasterUser} farcasterUser={farcasterUser} />}
         {activeTab === 'my-songs' && <MyOrders address={address} />}
+        {activeTab === 'gallery' && <Gallery />}
         {activeTab === 'creator' && isCreator && <CreatorDashboard />}
       </div>
     </main>
@@ -1,27 +1,45 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
-import { useReadContract, useWriteContract, useWaitForTransactionReceipt, useWalletClient } from 'wagmi'
+import { useReadContract, useSignTypedData, useWriteContract, useWaitForTransactionReceipt, useWalletClient } from 'wagmi'
 import { parseEther } from 'viem'
-import { BIRTHDAY_SONGS_ABI, ERC20_ABI, CONTRACT_CONFIG, USDC_CONFIG, PLATFORM_FEE } from '@/lib/contract'
+import { BIRTHDAY_SONGS_ABI, CONTRACT_CONFIG, PLATFORM_FEE } from '@/lib/contract'
 import { 
   api,
-  fileToBase64,
-  type OrderData
+  type OrderData,
+  type Voucher
 } from '@/lib/api-dev'
+import { getSessionToken } from '@/lib/siwe'
+import { getCreatorKeyPair } from '@/lib/creator-key'
+import { buildVoucherTypedData, formatDiscount, normalizeVoucherCode, voucherTierLabel } from '@/lib/vouchers'
+import { FALLBACK_TIER_STYLE, formatUsdc, useTiers, type SongTier } from '@/lib/tiers'
+import {
+  PREVIEW_MAX_SECONDS,
+  audioDuration,
+  buildSongMetadata,
+  extractWaveform,
+  publishableFirstName
+} from '@/lib/token-metadata'
+import { MessageThread } from '@/components/MessageThread'
 
 interface Order {
-  songType: number
+  tierId: bigint
   orderDataUri: string
   orderedBy: string
   orderedAt: bigint
   pricePaid: bigint
   fulfilled: boolean
+  fulfilledAt: bigint
   songUri: string
+  refunded: boolean
+  refundableAt: bigint
 }
 
 interface DecryptedOrderData {
-  type: 'birthday' | 'natal'
+  tierId?: number
+  tierName?: string
+  // Orders placed before tiers carry their song type instead
+  type?: 'birthday' | 'natal'
   recipientName: string
   birthDate?: string
   birthTime?: string
@@ -33,8 +51,13 @@ interface DecryptedOrderData {
   moonSign?: string
   musicalStyle?: string
   message?: string
+  recipientAddress?: string
+  recipientFarcaster?: string
+  deliveryDate?: string
+  revealOnDelivery?: boolean
   orderedAt: string
   orderedBy: string
+  allowPublication: boolean
 }
 
 export function CreatorDashboard() {
@@ -42,18 +65,24 @@ export function CreatorDashboard() {
   const [decryptedData, setDecryptedData] = useState<DecryptedOrderData | null>(null)
   const [isDecrypting, setIsDecrypting] = useState(false)
   const [songFile, setSongFile] = useState<File | null>(null)
-  const [uploadStep, setUploadStep] = useState<'idle' | 'uploading' | 'fulfilling'>('idle')
+  const [previewFile, setPreviewFile] = useState<File | null>(null)
+  const [customMetadataUri, setCustomMetadataUri] = useState('')
+  const [uploadStep, setUploadStep] = useState<'idle' | 'uploading' | 'publishing' | 'fulfilling'>('idle')
   const [error, setError] = useState<string | null>(null)
+  // Delivery dates by token id, from the worker's order index
+  const [deliveryDates, setDeliveryDates] = useState<Record<number, string>>({})
   
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const previewInputRef = useRef<HTMLInputElement>(null)
   const { data: walletClient } = useWalletClient()
+  const { tiers } = useTiers()
 
   // Contract data
+  // Fulfilled orders' payments are withdrawable; pending orders' stay in escrow
   const { data: contractBalance, refetch: refetchBalance } = useReadContract({
-    address: USDC_CONFIG.address,
-    abi: ERC20_ABI,
-    functionName: 'balanceOf',
-    args: [CONTRACT_CONFIG.address],
+    address: CONTRACT_CONFIG.address,
+    abi: BIRTHDAY_SONGS_ABI,
+    functionName: 'getBalance',
   })
 
   const { data: totalOrders, refetch: refetchTotal } = useReadContract({
@@ -68,27 +97,102 @@ export function CreatorDashboard() {
     functionName: 'platformFee',
   })
 
+  // Each sale is split between creator and platform when it leaves escrow
+  const { data: revenue, refetch: refetchRevenue } = useReadContract({
+    address: CONTRACT_CONFIG.address,
+    abi: BIRTHDAY_SONGS_ABI,
+    functionName: 'getRevenue',
+  })
+
+  const { data: platformFeeBps } = useReadContract({
+    address: CONTRACT_CONFIG.address,
+    abi: BIRTHDAY_SONGS_ABI,
+    functionName: 'platformFeeBps',
+  })
+
+  const { data: platformWallet } = useReadContract({
+    address: CONTRACT_CONFIG.address,
+    abi: BIRTHDAY_SONGS_ABI,
+    functionName: 'platformWallet',
+  })
+
+  // Tier and price of the order being delivered, for its metadata
+  const { data: selectedOrderData } = useReadContract({
+    address: CONTRACT_CONFIG.address,
+    abi: BIRTHDAY_SONGS_ABI,
+    functionName: 'getOrder',
+    args: selectedOrder !== null ? [BigInt(selectedOrder)] : undefined,
+    query: { enabled: selectedOrder !== null },
+  })
+
   // Withdraw
   const { writeContract: withdraw, data: withdrawTxHash, isPending: isWithdrawing, error: withdrawError } = useWriteContract()
   const { isSuccess: withdrawSuccess } = useWaitForTransactionReceipt({ hash: withdrawTxHash })
 
+  // Claim platform fees (platform wallet only)
+  const { writeContract: claimPlatformFees, data: claimTxHash, isPending: isClaiming, error: claimError } = useWriteContract()
+  const { isSuccess: claimSuccess } = useWaitForTransactionReceipt({ hash: claimTxHash })
+
   // Fulfill
   const { writeContract: fulfillOrder, data: fulfillTxHash, isPending: isFulfilling, error: fulfillError } = useWriteContract()
   const { isSuccess: fulfillSuccess } = useWaitForTransactionReceipt({ hash: fulfillTxHash })
 
+  // Refund (owner can refund any unfulfilled order)
+  const { writeContract: refundOrder, data: refundTxHash, isPending: isRefunding, error: refundError } = useWriteContract()
+  const { isSuccess: refundSuccess } = useWaitForTransactionReceipt({ hash: refundTxHash })
+
+  useEffect(() => {
+    if (withdrawSuccess) {
+      refetchBalance()
+      refetchRevenue()
+    }
+  }, [withdrawSuccess, refetchBalance, refetchRevenue])
+
   useEffect(() => {
-    if (withdrawSuccess) refetchBalance()
-  }, [withdrawSuccess, refetchBalance])
+    if (claimSuccess) refetchRevenue()
+  }, [claimSuccess, refetchRevenue])
 
   useEffect(() => {
     if (fulfillSuccess) {
       setSongFile(null)
+      setPreviewFile(null)
+      setCustomMetadataUri('')
       setSelectedOrder(null)
       setDecryptedData(null)
       setUploadStep('idle')
       refetchTotal()
+      refetchBalance()
+      refetchRevenue()
     }
-  }, [fulfillSuccess, refetchTotal])
+  }, [fulfillSuccess, refetchTotal, refetchBalance, refetchRevenue])
+
+  useEffect(() => {
+    if (refundSuccess) {
+      setSongFile(null)
+      setSelectedOrder(null)
+      setDecryptedData(null)
+      refetchBalance()
+    }
+  }, [refundSuccess, refetchBalance])
+
+  // Delivery dates are plaintext in the index, so pending orders can be sorted by urgency
+  useEffect(() => {
+    const loadDeliveryDates = async () => {
+      if (!walletClient) return
+
+      try {
+        api.setSessionToken(await getSessionToken(walletClient))
+        const orders = await api.listOrders()
+        setDeliveryDates(Object.fromEntries(orders
+          .filter((order) => typeof order.tokenId === 'number' && order.deliverBy)
+          .map((order) => [order.tokenId, order.deliverBy])))
+      } catch (err) {
+        console.error('Delivery dates error:', err)
+      }
+    }
+
+    loadDeliveryDates()
+  }, [walletClient, fulfillSuccess])
 
   // Decrypt order when selected
   useEffect(() => {
@@ -121,6 +225,26 @@ export function CreatorDashboard() {
     })
   }
 
+  const handleRefund = () => {
+    if (selectedOrder === null) return
+    if (!confirm(`Refund order #${selectedOrder}? The buyer gets their USDC back and the order can no longer be fulfilled.`)) return
+
+    refundOrder({
+      address: CONTRACT_CONFIG.address,
+      abi: BIRTHDAY_SONGS_ABI,
+      functionName: 'refundOrder',
+      args: [BigInt(selectedOrder)],
+    })
+  }
+
+  const handleClaimPlatformFees = () => {
+    claimPlatformFees({
+      address: CONTRACT_CONFIG.address,
+      abi: BIRTHDAY_SONGS_ABI,
+      functionName: 'claimPlatformFees',
+    })
+  }
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file && file.type.startsWith('audio/')) {
@@ -130,35 +254,103 @@ export function CreatorDashboard() {
     }
   }
 
+  const handlePreviewSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file || !file.type.startsWith('audio/')) {
+      setError('Please select an audio file')
+      return
+    }
+
+    try {
+      if (await audioDuration(file) > PREVIEW_MAX_SECONDS + 0.5) {
+        setError(`Preview clips can be at most ${PREVIEW_MAX_SECONDS} seconds`)
+        return
+      }
+    } catch {
+      setError('Could not read the preview clip')
+      return
+    }
+
+    setError(null)
+    setPreviewFile(file)
+  }
+
+  // Artwork drawn from the song's waveform, a player page and the metadata JSON,
+  // uploaded to Arweave. Returns the JSON's URI, or '' to keep the on-chain placeholder.
+  const publishSongMetadata = async (tokenId: number, song: File, previewUrl?: string): Promise<string> => {
+    const typedOrder = selectedOrderData as Order | undefined
+    const tier = typedOrder ? tiers[Number(typedOrder.tierId)] : undefined
+    if (!typedOrder || !tier) return ''
+
+    try {
+      const peaks = await extractWaveform(song)
+      const files = buildSongMetadata({
+        tokenId,
+        tier,
+        pricePaid: typedOrder.pricePaid,
+        orderedAt: Number(typedOrder.orderedAt),
+        deliveredAt: Math.floor(Date.now() / 1000),
+        recipientFirstName: publishableFirstName(decryptedData?.recipientName, decryptedData?.allowPublication ?? false),
+        previewUrl,
+        revealAt: decryptedData?.revealOnDelivery && decryptedData.deliveryDate && daysUntil(decryptedData.deliveryDate) > 0
+          ? decryptedData.deliveryDate
+          : undefined,
+      }, peaks)
+
+      const result = await api.uploadSongMetadata(tokenId, files)
+      return result.uri ?? ''
+    } catch (err) {
+      console.error('Metadata upload error:', err)
+      return ''
+    }
+  }
+
   const handleUploadAndFulfill = async () => {
     if (selectedOrder === null || !songFile || !walletClient) return
 
     setError(null)
 
     try {
-      // Convert file to base64
       setUploadStep('uploading')
-      const base64 = await fileToBase64(songFile)
 
-      // Upload song via API worker (handles ArDrive and encryption)
-      const result = await api.uploadSong(selectedOrder, base64)
+      // Make sure the creator key the song key gets wrapped for is this wallet's
+      await getCreatorKeyPair(walletClient)
+
+      // Song uploads are creator-only on the worker
+      api.setSessionToken(await getSessionToken(walletClient))
+
+      // Stream-encrypt with a fresh song key and upload via API worker (Railway stores it on ArDrive);
+      // the worker wraps the key for whoever holds the NFT
+      const result = await api.uploadSong(selectedOrder, songFile)
       const fileId = result.arweaveId
 
       // Create ArDrive URI for the song
       const songUri = `ardrive://${fileId}`
-      
-      // Note: In production, we'd store the songKey in NFT metadata
-      // so the NFT holder can access their song
 
-      // Fulfill order on-chain (with platform fee)
+      setUploadStep('publishing')
+
+      // Public preview clip, only when the buyer allowed publication (the worker checks too)
+      let previewUrl: string | undefined
+      if (previewFile && decryptedData?.allowPublication) {
+        try {
+          previewUrl = (await api.uploadPreview(selectedOrder, previewFile)).uri
+        } catch (err) {
+          console.error('Preview upload error:', err)
+        }
+      }
+
+      // The delivered token's metadata: a custom URI if one was given, otherwise generated
+      const metadataUri = customMetadataUri.trim() || await publishSongMetadata(selectedOrder, songFile, previewUrl)
+
+      // Fulfill order on-chain (with the optional ETH platform fee)
       setUploadStep('fulfilling')
-      const fee = platformFee ? platformFee : parseEther(PLATFORM_FEE)
+      const fee = platformFee !== undefined ? platformFee : parseEther(PLATFORM_FEE)
 
       fulfillOrder({
         address: CONTRACT_CONFIG.address,
         abi: BIRTHDAY_SONGS_ABI,
         functionName: 'fulfillOrder',
-        args: [BigInt(selectedOrder), songUri],
+        args: [BigInt(selectedOrder), songUri, metadataUri],
         value: fee as bigint,
       })
     } catch (err) {
@@ -168,24 +360,38 @@ export function CreatorDashboard() {
     }
   }
 
-  const balanceUSD = contractBalance ? Number(contractBalance) / 1e6 : 0
+  const balance = contractBalance as readonly [bigint, bigint] | undefined
+  const balanceUSD = balance ? Number(balance[0]) / 1e6 : 0
+  const escrowedUSD = balance ? Number(balance[1]) / 1e6 : 0
   const total = totalOrders ? Number(totalOrders) : 0
-  const feeEth = platformFee ? Number(platformFee) / 1e18 : Number(PLATFORM_FEE)
+  const feeEth = platformFee !== undefined ? Number(platformFee) / 1e18 : Number(PLATFORM_FEE)
+  const [creatorAccrued, platformAccrued, creatorTotal, platformTotal] =
+    ((revenue as readonly bigint[] | undefined) ?? []).map((amount) => Number(amount) / 1e6)
+  const platformSharePercent = platformFeeBps !== undefined ? Number(platformFeeBps) / 100 : null
+  const isPlatformWallet = !!walletClient && !!platformWallet &&
+    walletClient.account.address.toLowerCase() === (platformWallet as string).toLowerCase()
 
   return (
     <div className="space-y-4">
       {/* Stats */}
       <div className="bg-white/95 rounded-2xl p-4">
-        <div className="grid grid-cols-2 gap-3">
+        <div className="grid grid-cols-3 gap-3">
           <div className="bg-gray-50 rounded-xl p-3 text-center">
             <p className="text-2xl font-bold text-gray-800">{total}</p>
             <p className="text-xs text-gray-500">Orders</p>
           </div>
           <div className="bg-green-50 rounded-xl p-3 text-center">
             <p className="text-2xl font-bold text-green-600">${balanceUSD.toFixed(0)}</p>
-            <p className="text-xs text-gray-500">USDC</p>
+            <p className="text-xs text-gray-500">Withdrawable</p>
+          </div>
+          <div className="bg-amber-50 rounded-xl p-3 text-center">
+            <p className="text-2xl font-bold text-amber-600">${escrowedUSD.toFixed(0)}</p>
+            <p className="text-xs text-gray-500">In escrow</p>
           </div>
         </div>
+        <p className="text-xs text-gray-400 mt-2 text-center">
+          Payments are released from escrow when you deliver the song
+        </p>
         
         <button
           onClick={handleWithdraw}
@@ -204,6 +410,40 @@ export function CreatorDashboard() {
         {withdrawSuccess && <p className="text-green-600 text-xs mt-2 text-center">✓ Withdrawn!</p>}
       </div>
 
+      {/* Revenue Split */}
+      <div className="bg-white/95 rounded-2xl p-4">
+        <h2 className="font-bold text-gray-800 mb-1">📊 Revenue</h2>
+        {platformSharePercent !== null && (
+          <p className="text-xs text-gray-500 mb-3">
+            Platform share: {platformSharePercent}% of each sale, paid out as songs are delivered
+          </p>
+        )}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="bg-green-50 rounded-xl p-3 text-center">
+            <p className="text-xl font-bold text-green-600">${(creatorTotal ?? 0).toFixed(2)}</p>
+            <p className="text-xs text-gray-500">Creator</p>
+            <p className="text-xs text-gray-400">${(creatorAccrued ?? 0).toFixed(2)} unwithdrawn</p>
+          </div>
+          <div className="bg-blue-50 rounded-xl p-3 text-center">
+            <p className="text-xl font-bold text-blue-600">${(platformTotal ?? 0).toFixed(2)}</p>
+            <p className="text-xs text-gray-500">Platform</p>
+            <p className="text-xs text-gray-400">${(platformAccrued ?? 0).toFixed(2)} unclaimed</p>
+          </div>
+        </div>
+
+        {isPlatformWallet && (
+          <button
+            onClick={handleClaimPlatformFees}
+            disabled={isClaiming || !platformAccrued}
+            className="w-full mt-3 py-3 bg-blue-500 text-white rounded-xl font-semibold active:scale-98 transition-all disabled:opacity-50"
+          >
+            {isClaiming ? 'Claiming...' : `Claim $${(platformAccrued ?? 0).toFixed(2)} platform fees`}
+          </button>
+        )}
+        {claimError && <p className="text-red-500 text-xs mt-2 text-center">{claimError.message?.slice(0, 40)}</p>}
+        {claimSuccess && <p className="text-green-600 text-xs mt-2 text-center">✓ Claimed!</p>}
+      </div>
+
       {/* Fulfill Section */}
       <div className="bg-white/95 rounded-2xl p-4">
         <h2 className="font-bold text-gray-800 mb-3">🎵 Fulfill Order</h2>
@@ -213,15 +453,18 @@ export function CreatorDashboard() {
           <div className="mb-3">
             <p className="text-xs text-gray-500 mb-2">Select pending order:</p>
             <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
-              {Array.from({ length: Math.min(total, 30) }, (_, i) => total - 1 - i).map((tokenId) => (
+              {sortByDeliveryDate(Array.from({ length: Math.min(total, 30) }, (_, i) => total - 1 - i), deliveryDates).map((tokenId) => (
                 <OrderPill
                   key={tokenId}
                   tokenId={tokenId}
+                  deliverBy={deliveryDates[tokenId]}
                   selected={selectedOrder === tokenId}
                   onSelect={() => {
                     setSelectedOrder(tokenId)
                     setDecryptedData(null)
                     setSongFile(null)
+                    setPreviewFile(null)
+                    setCustomMetadataUri('')
                     setError(null)
                   }}
                 />
@@ -261,6 +504,34 @@ export function CreatorDashboard() {
             >
               {songFile ? `📁 ${songFile.name}` : '📂 Select audio file...'}
             </button>
+            {decryptedData?.allowPublication ? (
+              <>
+                <input
+                  ref={previewInputRef}
+                  type="file"
+                  accept="audio/*"
+                  onChange={handlePreviewSelect}
+                  className="hidden"
+                />
+                <button
+                  onClick={() => previewInputRef.current?.click()}
+                  className="w-full mt-2 py-2 border-2 border-dashed border-green-300 rounded-xl text-sm text-green-700 hover:border-green-400"
+                >
+                  {previewFile ? `🎧 ${previewFile.name}` : `🎧 Public preview clip (optional, ≤${PREVIEW_MAX_SECONDS}s)...`}
+                </button>
+              </>
+            ) : decryptedData && (
+              <p className="text-xs text-gray-400 mt-2">Buyer kept this song private, so it gets no public preview</p>
+            )}
+            <input
+              value={customMetadataUri}
+              onChange={(e) => setCustomMetadataUri(e.target.value)}
+              placeholder="Custom metadata URI (optional)"
+              className="mt-2 w-full px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-800"
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              Leave empty to publish waveform artwork and a player page for this song
+            </p>
           </div>
         )}
 
@@ -270,7 +541,7 @@ export function CreatorDashboard() {
         )}
 
         {/* Platform Fee Notice */}
-        {selectedOrder !== null && (
+        {selectedOrder !== null && feeEth > 0 && (
           <p className="text-xs text-gray-400 mt-2 text-center">
             Platform fee: {feeEth} ETH (covers encryption + storage)
           </p>
@@ -284,6 +555,7 @@ export function CreatorDashboard() {
             className="w-full mt-3 py-4 bg-purple-500 text-white rounded-xl font-semibold active:scale-98 transition-all disabled:opacity-50"
           >
             {uploadStep === 'uploading' ? '📤 Uploading song...' :
+             uploadStep === 'publishing' ? '🖼️ Publishing artwork...' :
              uploadStep === 'fulfilling' || isFulfilling ? '⛓️ Confirming on-chain...' :
              '✓ Upload & Deliver'}
           </button>
@@ -291,12 +563,490 @@ export function CreatorDashboard() {
 
         {fulfillError && <p className="text-red-500 text-xs mt-2 text-center">{fulfillError.message?.slice(0, 40)}</p>}
         {fulfillSuccess && <p className="text-green-600 text-xs mt-2 text-center">✓ Order fulfilled!</p>}
+
+        {/* Refund Button */}
+        {selectedOrder !== null && (
+          <button
+            onClick={handleRefund}
+            disabled={isRefunding || uploadStep !== 'idle'}
+            className="w-full mt-3 py-3 border-2 border-gray-300 text-gray-600 rounded-xl font-semibold active:scale-98 transition-all disabled:opacity-50"
+          >
+            {isRefunding ? 'Refunding...' : '↩️ Refund buyer'}
+          </button>
+        )}
+        {refundError && <p className="text-red-500 text-xs mt-2 text-center">{refundError.message?.slice(0, 40)}</p>}
+        {refundSuccess && <p className="text-green-600 text-xs mt-2 text-center">✓ Order refunded</p>}
+      </div>
+
+      <SongTiers />
+
+      <PromoVouchers walletClient={walletClient} />
+
+      <OrphanedUploads walletClient={walletClient} />
+    </div>
+  )
+}
+
+// Order uploads whose mint never happened (abandoned checkouts). Their data
+// stays on Arweave; cleaning up only removes them from the order index.
+function OrphanedUploads({ walletClient }: { walletClient: any }) {
+  const { tiers } = useTiers()
+  const [orphans, setOrphans] = useState<any[] | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const withSession = async (task: () => Promise<void>) => {
+    if (!walletClient) return
+    setIsWorking(true)
+    setError(null)
+    try {
+      api.setSessionToken(await getSessionToken(walletClient))
+      await task()
+    } catch (err) {
+      console.error('Orphaned uploads error:', err)
+      setError(err instanceof Error ? err.message : 'Request failed')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const loadOrphans = () => withSession(async () => {
+    setOrphans(await api.listOrphanedUploads())
+  })
+
+  const cleanUp = (id?: string) => withSession(async () => {
+    await api.deleteOrphanedUploads(id)
+    setOrphans(await api.listOrphanedUploads())
+  })
+
+  return (
+    <div className="bg-white/95 rounded-2xl p-4">
+      <h2 className="font-bold text-gray-800 mb-3">🧹 Orphaned Uploads</h2>
+
+      {orphans === null ? (
+        <button
+          onClick={loadOrphans}
+          disabled={isWorking || !walletClient}
+          className="w-full py-3 bg-gray-100 text-gray-700 rounded-xl font-medium active:scale-98 transition-all disabled:opacity-50"
+        >
+          {isWorking ? 'Loading...' : 'Check for orphaned uploads'}
+        </button>
+      ) : orphans.length === 0 ? (
+        <p className="text-gray-400 text-sm text-center py-2">No orphaned uploads</p>
+      ) : (
+        <div className="space-y-2">
+          {orphans.map((orphan) => (
+            <div key={orphan.id} className="flex items-center justify-between bg-gray-50 rounded-xl p-3 text-xs">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-700 truncate">
+                  {(tiers[orphan.tier_id]?.style ?? FALLBACK_TIER_STYLE).emoji} {orphan.arweave_id}
+                </p>
+                <p className="text-gray-500">
+                  {new Date(orphan.created_at).toLocaleString()}
+                  {orphan.ordered_by && ` · ${orphan.ordered_by.slice(0, 6)}...${orphan.ordered_by.slice(-4)}`}
+                </p>
+              </div>
+              <button
+                onClick={() => cleanUp(orphan.id)}
+                disabled={isWorking}
+                className="ml-2 px-3 py-1.5 bg-red-100 text-red-700 rounded-lg font-medium disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => cleanUp()}
+            disabled={isWorking}
+            className="w-full py-3 bg-red-500 text-white rounded-xl font-semibold active:scale-98 transition-all disabled:opacity-50"
+          >
+            {isWorking ? 'Cleaning up...' : `Remove all ${orphans.length}`}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-red-600 text-xs mt-2 text-center">{error}</p>}
+    </div>
+  )
+}
+
+interface TierForm {
+  name: string
+  // Dollars
+  price: string
+  supplyLimit: string
+  active: boolean
+  birthChart: boolean
+  emoji: string
+  colorFrom: string
+  colorTo: string
+  description: string
+}
+
+const NEW_TIER_FORM: TierForm = {
+  name: '',
+  price: '',
+  supplyLimit: '25',
+  active: true,
+  birthChart: false,
+  ...FALLBACK_TIER_STYLE,
+}
+
+// Song tiers are on-chain records the owner adds, reprices, resizes and
+// retires; the order form offers every active tier
+function SongTiers() {
+  const { tiers, refetch } = useTiers()
+  // Tier id being edited, or 'new'
+  const [editing, setEditing] = useState<number | 'new' | null>(null)
+  const [form, setForm] = useState<TierForm>(NEW_TIER_FORM)
+  const [error, setError] = useState<string | null>(null)
+
+  const { writeContract: saveTier, data: saveTxHash, isPending: isSaving, error: saveError } = useWriteContract()
+  const { isSuccess: saveSuccess, isLoading: isConfirming } = useWaitForTransactionReceipt({ hash: saveTxHash })
+
+  useEffect(() => {
+    if (saveSuccess) {
+      refetch()
+      setEditing(null)
+    }
+  }, [saveSuccess, refetch])
+
+  const startEditing = (tier: SongTier | null) => {
+    setError(null)
+    setEditing(tier ? tier.id : 'new')
+    setForm(tier ? {
+      name: tier.name,
+      price: String(Number(tier.price) / 1e6),
+      supplyLimit: String(tier.supplyLimit),
+      active: tier.active,
+      birthChart: tier.birthChart,
+      ...tier.style,
+    } : NEW_TIER_FORM)
+  }
+
+  const update = (fields: Partial<TierForm>) => setForm((current) => ({ ...current, ...fields }))
+
+  const handleSave = () => {
+    if (editing === null) return
+    const dollars = parseFloat(form.price)
+    const supplyLimit = parseInt(form.supplyLimit, 10)
+    const minted = editing === 'new' ? 0 : tiers[editing]?.minted ?? 0
+    if (!form.name.trim() || !(dollars > 0) || !(supplyLimit >= minted)) {
+      setError(`Enter a name, a price and a supply of at least ${minted}`)
+      return
+    }
+
+    setError(null)
+    const price = BigInt(Math.round(dollars * 1e6))
+    const style = { emoji: form.emoji, colorFrom: form.colorFrom, colorTo: form.colorTo, description: form.description }
+    const contract = { address: CONTRACT_CONFIG.address, abi: BIRTHDAY_SONGS_ABI }
+    saveTier(editing === 'new'
+      ? { ...contract, functionName: 'addTier', args: [form.name.trim(), price, BigInt(supplyLimit), form.birthChart, style] }
+      : { ...contract, functionName: 'updateTier', args: [BigInt(editing), form.name.trim(), price, BigInt(supplyLimit), form.active, form.birthChart, style] })
+  }
+
+  return (
+    <div className="bg-white/95 rounded-2xl p-4">
+      <h2 className="font-bold text-gray-800 mb-3">🎚️ Song Tiers</h2>
+
+      <div className="space-y-2">
+        {tiers.map((tier) => (
+          <button
+            key={tier.id}
+            onClick={() => startEditing(tier)}
+            className={`w-full flex items-center justify-between rounded-xl p-3 text-xs text-left ${editing === tier.id ? 'bg-blue-50' : 'bg-gray-50'} ${tier.active ? '' : 'opacity-60'}`}
+          >
+            <span className="font-medium text-gray-700">
+              {tier.style.emoji} {tier.name} · {formatUsdc(tier.price)}
+            </span>
+            <span className="ml-2 text-gray-500 whitespace-nowrap">
+              {tier.active ? `${tier.minted}/${tier.supplyLimit} sold` : 'Retired'}
+            </span>
+          </button>
+        ))}
       </div>
+
+      {editing === null ? (
+        <button
+          onClick={() => startEditing(null)}
+          className="w-full mt-3 py-3 bg-gray-100 text-gray-700 rounded-xl font-medium active:scale-98 transition-all"
+        >
+          + Add tier
+        </button>
+      ) : (
+        <div className="mt-3 grid grid-cols-2 gap-2">
+          <input
+            value={form.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="Tier name"
+            className="col-span-2 px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-800"
+          />
+          <label className="text-xs text-gray-500">
+            Price (USDC)
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.price}
+              onChange={(e) => update({ price: e.target.value })}
+              className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-800"
+            />
+          </label>
+          <label className="text-xs text-gray-500">
+            Supply
+            <input
+              type="number"
+              min="1"
+              value={form.supplyLimit}
+              onChange={(e) => update({ supplyLimit: e.target.value })}
+              className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-800"
+            />
+          </label>
+          <label className="text-xs text-gray-500">
+            Emoji
+            <input
+              value={form.emoji}
+              onChange={(e) => update({ emoji: e.target.value })}
+              className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-800"
+            />
+          </label>
+          <label className="text-xs text-gray-500">
+            Colors
+            <div className="mt-1 flex gap-2">
+              <input
+                type="color"
+                value={form.colorFrom}
+                onChange={(e) => update({ colorFrom: e.target.value })}
+                className="h-9 flex-1 rounded-lg border border-gray-200"
+              />
+              <input
+                type="color"
+                value={form.colorTo}
+                onChange={(e) => update({ colorTo: e.target.value })}
+                className="h-9 flex-1 rounded-lg border border-gray-200"
+              />
+            </div>
+          </label>
+          <textarea
+            value={form.description}
+            onChange={(e) => update({ description: e.target.value })}
+            placeholder="NFT description"
+            rows={2}
+            className="col-span-2 px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-800"
+          />
+          <div className="col-span-2 flex gap-4">
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <input type="checkbox" checked={form.birthChart} onChange={(e) => update({ birthChart: e.target.checked })} />
+              Asks for birth chart
+            </label>
+            {editing !== 'new' && (
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                <input type="checkbox" checked={form.active} onChange={(e) => update({ active: e.target.checked })} />
+                On sale
+              </label>
+            )}
+          </div>
+          <button
+            onClick={() => setEditing(null)}
+            className="py-3 bg-gray-100 text-gray-700 rounded-xl font-medium active:scale-98 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || isConfirming}
+            className="py-3 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-xl font-semibold active:scale-98 transition-all disabled:opacity-50"
+          >
+            {isSaving || isConfirming ? 'Saving...' : editing === 'new' ? 'Add tier' : 'Save tier'}
+          </button>
+        </div>
+      )}
+
+      {(error || saveError) && (
+        <p className="text-red-600 text-xs mt-2 text-center">{error || saveError?.message?.slice(0, 60)}</p>
+      )}
+    </div>
+  )
+}
+
+// Promo codes: each is a voucher signed with the owner wallet, which the
+// contract checks at mint, and published to the API so buyers can enter it
+function PromoVouchers({ walletClient }: { walletClient: any }) {
+  const { tiers } = useTiers()
+  const [code, setCode] = useState('')
+  const [discountPercent, setDiscountPercent] = useState('10')
+  const [expiresOn, setExpiresOn] = useState('')
+  const [maxUses, setMaxUses] = useState('')
+  const [tier, setTier] = useState(0)
+  const [vouchers, setVouchers] = useState<Voucher[] | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [published, setPublished] = useState<string | null>(null)
+
+  const { signTypedDataAsync } = useSignTypedData()
+
+  const withSession = async (task: () => Promise<void>) => {
+    if (!walletClient) return
+    setIsWorking(true)
+    setError(null)
+    try {
+      api.setSessionToken(await getSessionToken(walletClient))
+      await task()
+    } catch (err) {
+      console.error('Voucher error:', err)
+      setError(err instanceof Error ? err.message : 'Request failed')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const loadVouchers = () => withSession(async () => {
+    setVouchers(await api.listVouchers())
+  })
+
+  const createVoucher = () => {
+    const terms = {
+      code: normalizeVoucherCode(code),
+      discountBps: Math.round(parseFloat(discountPercent) * 100),
+      // Valid through the end of the chosen day
+      expiresAt: Math.floor(new Date(`${expiresOn}T23:59:59`).getTime() / 1000),
+      maxUses: maxUses ? parseInt(maxUses, 10) : 0,
+      tier,
+    }
+    if (!terms.code || !(terms.discountBps > 0 && terms.discountBps <= 10_000) || !expiresOn) {
+      setError('Enter a code, a discount up to 100% and an expiry date')
+      return
+    }
+
+    setPublished(null)
+    withSession(async () => {
+      const signature = await signTypedDataAsync(buildVoucherTypedData(terms))
+      const voucher = await api.publishVoucher({ ...terms, signature })
+      setPublished(voucher.code)
+      setCode('')
+      setVouchers(await api.listVouchers())
+    })
+  }
+
+  return (
+    <div className="bg-white/95 rounded-2xl p-4">
+      <h2 className="font-bold text-gray-800 mb-3">🏷️ Promo Codes</h2>
+
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="CODE"
+          className="col-span-2 px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-800 uppercase"
+        />
+        <label className="text-xs text-gray-500">
+          Discount %
+          <input
+            type="number"
+            min="1"
+            max="100"
+            step="1"
+            value={discountPercent}
+            onChange={(e) => setDiscountPercent(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-800"
+          />
+        </label>
+        <label className="text-xs text-gray-500">
+          Max uses
+          <input
+            type="number"
+            min="1"
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+            placeholder="Unlimited"
+            className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-800"
+          />
+        </label>
+        <label className="text-xs text-gray-500">
+          Expires
+          <input
+            type="date"
+            value={expiresOn}
+            onChange={(e) => setExpiresOn(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-800"
+          />
+        </label>
+        <label className="text-xs text-gray-500">
+          Valid for
+          <select
+            value={tier}
+            onChange={(e) => setTier(Number(e.target.value))}
+            className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-800 bg-white"
+          >
+            {[0, ...tiers.map((t) => t.id + 1)].map((value) => (
+              <option key={value} value={value}>{voucherTierLabel(value, tiers)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <button
+        onClick={createVoucher}
+        disabled={isWorking || !walletClient}
+        className="w-full mt-3 py-3 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-xl font-semibold active:scale-98 transition-all disabled:opacity-50"
+      >
+        {isWorking ? 'Working...' : '✍️ Sign & publish code'}
+      </button>
+      {published && <p className="text-green-600 text-xs mt-2 text-center">✓ {published} is live</p>}
+
+      {vouchers === null ? (
+        <button
+          onClick={loadVouchers}
+          disabled={isWorking || !walletClient}
+          className="w-full mt-3 py-3 bg-gray-100 text-gray-700 rounded-xl font-medium active:scale-98 transition-all disabled:opacity-50"
+        >
+          Show published codes
+        </button>
+      ) : vouchers.length === 0 ? (
+        <p className="text-gray-400 text-sm text-center py-2 mt-2">No promo codes yet</p>
+      ) : (
+        <div className="space-y-2 mt-3">
+          {vouchers.map((voucher) => (
+            <div key={voucher.code} className="flex items-center justify-between bg-gray-50 rounded-xl p-3 text-xs">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-700">{voucher.code} · {formatDiscount(voucher.discountBps)}</p>
+                <p className="text-gray-500">
+                  {voucherTierLabel(voucher.tier, tiers)} · until {new Date(voucher.expiresAt * 1000).toLocaleDateString()}
+                </p>
+              </div>
+              <span className="ml-2 text-gray-600 whitespace-nowrap">
+                {voucher.redemptions}{voucher.maxUses > 0 ? `/${voucher.maxUses}` : ''} used
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-red-600 text-xs mt-2 text-center">{error}</p>}
     </div>
   )
 }
 
-function OrderPill({ tokenId, selected, onSelect }: { tokenId: number; selected: boolean; onSelect: () => void }) {
+// Soonest delivery date first; orders without one keep their newest-first order after them
+function sortByDeliveryDate(tokenIds: number[], deliveryDates: Record<number, string>): number[] {
+  const dated = tokenIds.filter((id) => deliveryDates[id]).sort((a, b) => deliveryDates[a].localeCompare(deliveryDates[b]))
+  return [...dated, ...tokenIds.filter((id) => !deliveryDates[id])]
+}
+
+// Whole days from today until a YYYY-MM-DD date; negative once it has passed
+function daysUntil(date: string): number {
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  return Math.round((new Date(`${date}T00:00:00`).getTime() - today.getTime()) / 86400000)
+}
+
+function OrderPill({ tokenId, deliverBy, selected, onSelect }: {
+  tokenId: number
+  deliverBy?: string
+  selected: boolean
+  onSelect: () => void
+}) {
+  const { tiers } = useTiers()
   const { data: order } = useReadContract({
     address: CONTRACT_CONFIG.address,
     abi: BIRTHDAY_SONGS_ABI,
@@ -305,11 +1055,13 @@ function OrderPill({ tokenId, selected, onSelect }: { tokenId: number; selected:
   })
 
   const typedOrder = order as Order | undefined
-  const emoji = typedOrder?.songType === 0 ? '🎂' : '✨'
+  const emoji = ((typedOrder && tiers[Number(typedOrder.tierId)])?.style ?? FALLBACK_TIER_STYLE).emoji
   const isFulfilled = typedOrder?.fulfilled
 
-  // Skip fulfilled orders in selection
-  if (isFulfilled) return null
+  // Skip fulfilled and refunded orders in selection
+  if (isFulfilled || typedOrder?.refunded) return null
+
+  const daysLeft = deliverBy ? daysUntil(deliverBy) : null
 
   return (
     <button
@@ -324,6 +1076,13 @@ function OrderPill({ tokenId, selected, onSelect }: { tokenId: number; selected:
     >
       <span>{emoji}</span>
       <span>#{tokenId}</span>
+      {daysLeft !== null && daysLeft <= 7 && (
+        <span className={`text-[10px] font-semibold px-1.5 rounded-full ${
+          daysLeft < 0 ? 'bg-red-500 text-white' : daysLeft <= 3 ? 'bg-orange-500 text-white' : 'bg-yellow-200 text-yellow-800'
+        }`}>
+          {daysLeft < 0 ? 'overdue' : daysLeft === 0 ? 'today' : `${daysLeft}d`}
+        </span>
+      )}
     </button>
   )
 }
@@ -336,6 +1095,7 @@ function OrderDetails({ tokenId, decryptedData, setDecryptedData, isDecrypting,
   setIsDecrypting: (v: boolean) => void
   walletClient: any
 }) {
+  const { tiers } = useTiers()
   const { data: order, isLoading } = useReadContract({
     address: CONTRACT_CONFIG.address,
     abi: BIRTHDAY_SONGS_ABI,
@@ -345,7 +1105,7 @@ function OrderDetails({ tokenId, decryptedData, setDecryptedData, isDecrypting,
 
   useEffect(() => {
     const fetchOrderData = async () => {
-      if (!order || decryptedData || isDecrypting) return
+      if (!order || decryptedData || isDecrypting || !walletClient) return
 
       const typedOrder = order as Order
       if (!typedOrder.orderDataUri) return
@@ -353,32 +1113,15 @@ function OrderDetails({ tokenId, decryptedData, setDecryptedData, isDecrypting,
       setIsDecrypting(true)
 
       try {
-        // Fetch all orders from database
-        const orders = await api.listOrders()
-        
-        // Find the order with matching token ID
-        const orderFromDB = orders.find(o => o.tokenId === tokenId || o.token_id === tokenId)
-        
-        if (orderFromDB) {
-          // Map database fields to expected format
-          const data: DecryptedOrderData = {
-            type: orderFromDB.orderType || orderFromDB.order_type || 'birthday',
-            recipientName: orderFromDB.recipientName || orderFromDB.recipient_name || '',
-            birthDate: orderFromDB.birthDate || orderFromDB.birth_date,
-            birthTime: orderFromDB.birthTime || orderFromDB.birth_time,
-            birthLocation: orderFromDB.birthLocation || orderFromDB.birth_location,
-            relationship: orderFromDB.relationship,
-            interests: orderFromDB.interests,
-            sunSign: orderFromDB.sunSign || orderFromDB.sun_sign,
-            moonSign: orderFromDB.moonSign || orderFromDB.moon_sign,
-            risingSign: orderFromDB.risingSign || orderFromDB.rising_sign,
-            musicalStyle: orderFromDB.musicalStyle || orderFromDB.musical_style,
-            message: orderFromDB.message,
-            orderedAt: orderFromDB.orderedAt || orderFromDB.created_at || '',
-            orderedBy: orderFromDB.orderedBy || orderFromDB.ordered_by || ''
-          }
-          setDecryptedData(data)
-        }
+        // Order details are encrypted to the creator's key; derive it from the wallet
+        const { privateKey } = await getCreatorKeyPair(walletClient)
+
+        // Fetching order data is creator-only, so sign in first
+        api.setSessionToken(await getSessionToken(walletClient))
+
+        const fileId = typedOrder.orderDataUri.replace('ardrive://', '')
+        const data = await api.fetchOrder(fileId, privateKey)
+        setDecryptedData(data)
       } catch (err) {
         console.error('Fetch order error:', err)
       } finally {
@@ -387,21 +1130,23 @@ function OrderDetails({ tokenId, decryptedData, setDecryptedData, isDecrypting,
     }
 
     fetchOrderData()
-  }, [order, decryptedData, isDecrypting, tokenId, setDecryptedData, setIsDecrypting])
+  }, [order, decryptedData, isDecrypting, tokenId, walletClient, setDecryptedData, setIsDecrypting])
 
   if (isLoading) return <div className="bg-blue-50 rounded-xl p-3 animate-pulse h-20"></div>
 
   const typedOrder = order as Order
-  const isBirthday = typedOrder?.songType === 0
+  const tier = typedOrder ? tiers[Number(typedOrder.tierId)] as SongTier | undefined : undefined
+  // Birth chart details, falling back to the song type of pre-tier orders
+  const isBirthChart = tier ? tier.birthChart : decryptedData?.type === 'natal'
 
   return (
     <div className="bg-blue-50 rounded-xl p-3 text-sm space-y-1.5">
       <div className="flex justify-between items-center">
         <span className="font-semibold text-gray-800">
-          {isBirthday ? '🎂 Birthday' : '✨ Natal'} #{tokenId}
+          {(tier?.style ?? FALLBACK_TIER_STYLE).emoji} {tier?.name ?? decryptedData?.tierName ?? 'Song'} #{tokenId}
         </span>
         <span className="text-xs text-gray-500">
-          ${Number(typedOrder?.pricePaid || 0) / 1e6}
+          {formatUsdc(typedOrder?.pricePaid ?? BigInt(0))}
         </span>
       </div>
 
@@ -410,16 +1155,31 @@ function OrderDetails({ tokenId, decryptedData, setDecryptedData, isDecrypting,
       {decryptedData && (
         <div className="border-t border-blue-200 pt-2 mt-2 space-y-1 text-gray-700">
           <p><span className="font-medium">For:</span> {decryptedData.recipientName}</p>
+          {decryptedData.recipientAddress && (
+            <p>
+              <span className="font-medium">🎁 Gift to:</span>{' '}
+              {decryptedData.recipientFarcaster ? `@${decryptedData.recipientFarcaster}` : decryptedData.recipientAddress}
+            </p>
+          )}
           {decryptedData.birthDate && <p><span className="font-medium">Birth:</span> {decryptedData.birthDate}</p>}
+          {decryptedData.deliveryDate && (
+            <p>
+              <span className="font-medium">Deliver by:</span> {decryptedData.deliveryDate} ({
+                daysUntil(decryptedData.deliveryDate) < 0
+                  ? `${-daysUntil(decryptedData.deliveryDate)} days overdue`
+                  : `${daysUntil(decryptedData.deliveryDate)} days`
+              }){decryptedData.revealOnDelivery && ' • 🎁 hidden until then'}
+            </p>
+          )}
           
-          {decryptedData.type === 'birthday' && (
+          {!isBirthChart && (
             <>
               {decryptedData.relationship && <p><span className="font-medium">Relationship:</span> {decryptedData.relationship}</p>}
               {decryptedData.interests && <p><span className="font-medium">Interests:</span> {decryptedData.interests}</p>}
             </>
           )}
           
-          {decryptedData.type === 'natal' && (
+          {isBirthChart && (
             <>
               {decryptedData.birthTime && <p><span className="font-medium">Time:</span> {decryptedData.birthTime}</p>}
               {decryptedData.birthLocation && <p><span className="font-medium">Location:</span> {decryptedData.birthLocation}</p>}
@@ -437,6 +1197,8 @@ function OrderDetails({ tokenId, decryptedData, setDecryptedData, isDecrypting,
           {decryptedData.message && <p><span className="font-medium">Notes:</span> <span className="italic">{decryptedData.message}</span></p>}
         </div>
       )}
+
+      <MessageThread tokenId={tokenId} walletClient={walletClient} asCreator allowRevision={false} />
     </div>
   )
 }
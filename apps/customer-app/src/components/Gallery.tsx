@@ -0,0 +1,117 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { api, type GallerySong } from '@/lib/api-dev'
+import { FALLBACK_TIER_STYLE, useTiers, type SongTier } from '@/lib/tiers'
+
+// Songs Jose has delivered whose buyers allowed publication. The worker only
+// returns consented orders, so everything here is safe to show publicly.
+export function Gallery() {
+  const { tiers } = useTiers()
+  const [songs, setSongs] = useState<GallerySong[]>([])
+  const [page, setPage] = useState(0)
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadPage = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const response = await api.getGallery(page)
+        setSongs((current) => page === 0 ? response.songs : [...current, ...response.songs])
+        setHasMore(response.hasMore)
+      } catch (err) {
+        console.error('Gallery error:', err)
+        setError('Failed to load the gallery')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadPage()
+  }, [page])
+
+  if (isLoading && songs.length === 0) {
+    return (
+      <div className="bg-white/95 rounded-2xl p-4 animate-pulse">
+        <div className="h-5 bg-gray-200 rounded w-1/2 mb-2"></div>
+        <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+      </div>
+    )
+  }
+
+  if (songs.length === 0) {
+    return (
+      <div className="bg-white/95 rounded-2xl p-6 text-center">
+        <div className="text-4xl mb-3">🌟</div>
+        <h2 className="text-lg font-bold text-gray-800 mb-2">No published songs yet</h2>
+        <p className="text-gray-500 text-sm">{error ?? 'Songs appear here once their buyers allow publication.'}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-center mb-2">
+        <span className="bg-white/30 rounded-full px-4 py-1.5 text-white text-sm font-medium">
+          Songs by Jose
+        </span>
+      </div>
+
+      {songs.map((song) => (
+        <GalleryCard
+          key={song.tokenId}
+          song={song}
+          tier={song.tierId !== null ? tiers[song.tierId] : undefined}
+        />
+      ))}
+
+      {error && <p className="text-white text-sm text-center">{error}</p>}
+
+      {hasMore && (
+        <button
+          onClick={() => setPage(page + 1)}
+          disabled={isLoading}
+          className="w-full py-3 bg-white/20 text-white rounded-xl font-semibold active:bg-white/30 disabled:opacity-50"
+        >
+          {isLoading ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  )
+}
+
+function GalleryCard({ song, tier }: { song: GallerySong; tier: SongTier | undefined }) {
+  const style = tier?.style ?? FALLBACK_TIER_STYLE
+  const title = song.recipientFirstName
+    ? `${tier?.name ?? 'Song'} for ${song.recipientFirstName}`
+    : tier?.name ?? 'Song'
+
+  return (
+    <div className="bg-white/95 rounded-2xl overflow-hidden">
+      <div
+        className="flex items-center gap-3 p-4"
+        style={{ background: `linear-gradient(135deg, ${style.colorFrom}, ${style.colorTo})` }}
+      >
+        <span className="text-3xl">{style.emoji}</span>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-bold text-white truncate">{title}</h3>
+          <p className="text-xs text-white/80">
+            #{song.tokenId} • {new Date(song.deliveredAt).toLocaleDateString()}
+          </p>
+        </div>
+      </div>
+
+      <div className="p-3">
+        {song.previewUrl ? (
+          <audio controls preload="none" src={song.previewUrl} className="w-full" />
+        ) : (
+          <p className="text-xs text-gray-400 text-center">No preview for this song</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+'use client'
+
+import { useState } from 'react'
+import { api } from '@/lib/api-dev'
+import { getSessionToken } from '@/lib/siwe'
+import { getCreatorKeyPair } from '@/lib/creator-key'
+import { getHolderKeyPair } from '@/lib/holder-key'
+import {
+  CREATOR_RECIPIENT,
+  MAX_MESSAGE_LENGTH,
+  decryptMessages,
+  encryptMessage,
+  type DecryptedMessage,
+  type ThreadParticipant
+} from '@/lib/messages'
+
+const ROLE_LABELS = {
+  creator: 'Jose',
+  buyer: 'Buyer',
+  holder: 'Holder',
+} as const
+
+// Encrypted conversation about one order between Jose, its buyer and its holder.
+// Opening it signs in and derives the wallet's key, so it stays collapsed until asked.
+export function MessageThread({ tokenId, walletClient, asCreator, allowRevision }: {
+  tokenId: number
+  walletClient: any
+  // The creator reads with the creator key, everyone else with their holder key
+  asCreator: boolean
+  // Delivered songs can get a revision request from the buyer or holder
+  allowRevision: boolean
+}) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSending, setIsSending] = useState(false)
+  const [messages, setMessages] = useState<DecryptedMessage[]>([])
+  const [participants, setParticipants] = useState<ThreadParticipant[]>([])
+  const [text, setText] = useState('')
+  const [isRevision, setIsRevision] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const ownRecipient = asCreator ? CREATOR_RECIPIENT : walletClient?.account?.address ?? ''
+
+  const loadThread = async () => {
+    if (!walletClient) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      // Deriving the holder key also registers it, so later messages reach us
+      const { privateKey } = asCreator ? await getCreatorKeyPair(walletClient) : await getHolderKeyPair(walletClient)
+      api.setSessionToken(await getSessionToken(walletClient))
+
+      const thread = await api.getThread(tokenId)
+      setParticipants(thread.participants)
+      setMessages(await decryptMessages(thread.messages, ownRecipient, privateKey))
+    } catch (err) {
+      console.error('Thread error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load messages')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleOpen = () => {
+    setIsOpen(!isOpen)
+    if (!isOpen) loadThread()
+  }
+
+  const handleSend = async () => {
+    const body = text.trim()
+    if (!body || !walletClient) return
+
+    setIsSending(true)
+    setError(null)
+
+    try {
+      const kind = allowRevision && isRevision ? 'revision' : 'message'
+      const message = await api.postMessage(tokenId, await encryptMessage(body, kind, participants))
+      setMessages([...messages, { ...message, text: body }])
+      setText('')
+      setIsRevision(false)
+    } catch (err) {
+      console.error('Send message error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to send message')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const isMine = (message: DecryptedMessage) => asCreator
+    ? message.senderRole === 'creator'
+    : message.sender.toLowerCase() === ownRecipient.toLowerCase()
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={handleOpen}
+        className="w-full py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-xl active:scale-98 transition-all"
+      >
+        {isOpen ? 'Hide messages' : asCreator ? '💬 Messages with buyer' : '💬 Message Jose'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          {isLoading && <p className="text-gray-500 italic text-xs text-center">🔐 Decrypting messages...</p>}
+
+          {!isLoading && messages.length === 0 && !error && (
+            <p className="text-gray-400 text-xs text-center">
+              {asCreator ? 'No messages yet' : 'Questions about your song? Ask Jose here.'}
+            </p>
+          )}
+
+          <div className="max-h-64 overflow-y-auto space-y-2">
+            {messages.map((message) => (
+              <div key={message.id} className={`flex ${isMine(message) ? 'justify-end' : 'justify-start'}`}>
+                <div className={`
+                  max-w-[85%] rounded-xl px-3 py-2 text-sm
+                  ${isMine(message) ? 'bg-purple-500 text-white' : 'bg-gray-100 text-gray-800'}
+                `}>
+                  {message.kind === 'revision' && (
+                    <p className="text-xs font-semibold mb-0.5">✏️ Revision request</p>
+                  )}
+                  <p className="whitespace-pre-wrap break-words">
+                    {message.text ?? <span className="italic opacity-70">🔒 Sent before you could read this thread</span>}
+                  </p>
+                  <p className="text-[10px] opacity-70 mt-0.5">
+                    {ROLE_LABELS[message.senderRole]} • {new Date(message.createdAt).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {!isLoading && (
+            <>
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value.slice(0, MAX_MESSAGE_LENGTH))}
+                placeholder={asCreator ? 'Reply to the buyer...' : 'How to pronounce a name, lyrics in Spanish...'}
+                rows={2}
+                disabled={isSending}
+                className="w-full px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-800"
+              />
+              {allowRevision && !asCreator && (
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={isRevision}
+                    onChange={(e) => setIsRevision(e.target.checked)}
+                    disabled={isSending}
+                  />
+                  This is a revision request for the delivered song
+                </label>
+              )}
+              <button
+                onClick={handleSend}
+                disabled={isSending || !text.trim()}
+                className="w-full py-2 bg-purple-500 text-white rounded-xl text-sm font-semibold active:scale-98 transition-all disabled:opacity-50"
+              >
+                {isSending ? 'Sending...' : 'Send'}
+              </button>
+            </>
+          )}
+
+          {error && <p className="text-red-500 text-xs text-center">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,39 +1,74 @@
 'use client'
 
-import { useState } from 'react'
-import { useReadContract } from 'wagmi'
+import { useEffect, useRef, useState } from 'react'
+import { useReadContract, useReadContracts, useWaitForTransactionReceipt, useWriteContract } from 'wagmi'
 import { useWalletClient } from 'wagmi'
 import { BIRTHDAY_SONGS_ABI, CONTRACT_CONFIG } from '@/lib/contract'
-import { downloadSong } from '@/lib/api-dev'
+import { api, downloadSong, SongScheduledError } from '@/lib/api-dev'
+import { getSessionToken } from '@/lib/siwe'
+import { getHolderKeyPair } from '@/lib/holder-key'
+import { audioExtension, playSongStream, sniffAudioType } from '@/lib/song-player'
+import { FALLBACK_TIER_STYLE, formatUsdc, useTiers, type SongTier } from '@/lib/tiers'
+import { MessageThread } from '@/components/MessageThread'
 
 interface MyOrdersProps {
   address: `0x${string}` | undefined
 }
 
 interface Order {
-  songType: number
+  tierId: bigint
   orderDataUri: string
   orderedBy: string
   orderedAt: bigint
   pricePaid: bigint
   fulfilled: boolean
+  fulfilledAt: bigint
   songUri: string
+  refunded: boolean
+  refundableAt: bigint
 }
 
-export function MyOrders({ address }: MyOrdersProps) {
-  const { data: balance } = useReadContract({
-    address: CONTRACT_CONFIG.address,
-    abi: BIRTHDAY_SONGS_ABI,
-    functionName: 'balanceOf',
-    args: address ? [address] : undefined,
-  })
+// How an order relates to the connected wallet
+type OrderRole = 'mine' | 'giftedToMe' | 'giftedByMe'
+
+interface RoleOrder {
+  tokenId: number
+  owner: string
+  order: Order
+}
 
+export function MyOrders({ address }: MyOrdersProps) {
+  const { tiers } = useTiers()
   const { data: totalOrders } = useReadContract({
     address: CONTRACT_CONFIG.address,
     abi: BIRTHDAY_SONGS_ABI,
     functionName: 'totalOrders',
   })
 
+  const total = totalOrders ? Number(totalOrders) : 0
+  const tokensToCheck = Math.min(total, 100)
+  const tokenIds = Array.from({ length: tokensToCheck }, (_, i) => tokensToCheck - 1 - i)
+
+  // Holder and order for each recent token in one multicall, so gifts can be
+  // sorted by who paid (orderedBy) and who holds the NFT (ownerOf)
+  const { data: tokenData, isLoading, refetch } = useReadContracts({
+    contracts: tokenIds.flatMap((tokenId) => [
+      {
+        address: CONTRACT_CONFIG.address,
+        abi: BIRTHDAY_SONGS_ABI,
+        functionName: 'ownerOf',
+        args: [BigInt(tokenId)],
+      },
+      {
+        address: CONTRACT_CONFIG.address,
+        abi: BIRTHDAY_SONGS_ABI,
+        functionName: 'getOrder',
+        args: [BigInt(tokenId)],
+      },
+    ]),
+    query: { enabled: !!address && tokensToCheck > 0 },
+  })
+
   if (!address) {
     return (
       <div className="bg-white/95 rounded-2xl p-6 text-center">
@@ -43,7 +78,31 @@ export function MyOrders({ address }: MyOrdersProps) {
     )
   }
 
-  const orderCount = balance ? Number(balance) : 0
+  if (isLoading) {
+    return (
+      <div className="bg-white/95 rounded-2xl p-4 animate-pulse">
+        <div className="h-5 bg-gray-200 rounded w-1/2 mb-2"></div>
+        <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+      </div>
+    )
+  }
+
+  const byRole: Record<OrderRole, RoleOrder[]> = { mine: [], giftedToMe: [], giftedByMe: [] }
+  const me = address.toLowerCase()
+
+  tokenIds.forEach((tokenId, i) => {
+    const owner = tokenData?.[i * 2]?.result as string | undefined
+    const order = tokenData?.[i * 2 + 1]?.result as Order | undefined
+    if (!owner || !order) return
+
+    const holds = owner.toLowerCase() === me
+    const paid = order.orderedBy.toLowerCase() === me
+    if (holds && paid) byRole.mine.push({ tokenId, owner, order })
+    else if (holds) byRole.giftedToMe.push({ tokenId, owner, order })
+    else if (paid) byRole.giftedByMe.push({ tokenId, owner, order })
+  })
+
+  const orderCount = byRole.mine.length + byRole.giftedToMe.length + byRole.giftedByMe.length
 
   if (orderCount === 0) {
     return (
@@ -55,8 +114,11 @@ export function MyOrders({ address }: MyOrdersProps) {
     )
   }
 
-  const total = totalOrders ? Number(totalOrders) : 0
-  const tokensToCheck = Math.min(total, 100)
+  const sections: { role: OrderRole; title: string }[] = [
+    { role: 'mine', title: 'My songs' },
+    { role: 'giftedToMe', title: '🎁 Songs gifted to me' },
+    { role: 'giftedByMe', title: '💌 Songs I gifted' },
+  ]
 
   return (
     <div className="space-y-3">
@@ -66,55 +128,150 @@ export function MyOrders({ address }: MyOrdersProps) {
         </span>
       </div>
       
-      {Array.from({ length: tokensToCheck }, (_, i) => tokensToCheck - 1 - i).map((tokenId) => (
-        <OrderCard key={tokenId} tokenId={tokenId} userAddress={address} />
+      {sections.filter(({ role }) => byRole[role].length > 0).map(({ role, title }) => (
+        <div key={role} className="space-y-3">
+          {(byRole.giftedToMe.length > 0 || byRole.giftedByMe.length > 0) && (
+            <h2 className="text-white font-semibold text-sm px-1">{title}</h2>
+          )}
+          {byRole[role].map(({ tokenId, owner, order }) => (
+            <OrderCard
+              key={tokenId}
+              tokenId={tokenId}
+              userAddress={address}
+              owner={owner}
+              order={order}
+              tier={tiers[Number(order.tierId)]}
+              role={role}
+              onChanged={refetch}
+            />
+          ))}
+        </div>
       ))}
     </div>
   )
 }
 
-function OrderCard({ tokenId, userAddress }: { tokenId: number; userAddress: string }) {
+function OrderCard({ tokenId, userAddress, owner, order, tier, role, onChanged }: {
+  tokenId: number
+  userAddress: string
+  owner: string
+  order: Order
+  tier: SongTier | undefined
+  role: OrderRole
+  onChanged: () => void
+}) {
   const [isDecrypting, setIsDecrypting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const stopPlaybackRef = useRef<(() => void) | null>(null)
   
   const { data: walletClient } = useWalletClient()
 
-  const { data: owner } = useReadContract({
-    address: CONTRACT_CONFIG.address,
-    abi: BIRTHDAY_SONGS_ABI,
-    functionName: 'ownerOf',
-    args: [BigInt(tokenId)],
-  })
+  // Stop streaming and release the object URL when the card goes away
+  useEffect(() => () => stopPlaybackRef.current?.(), [])
 
-  const { data: order, isLoading } = useReadContract({
+  const { writeContract: refundOrder, data: refundTxHash, isPending: isRefunding, error: refundError } = useWriteContract()
+  const { isSuccess: refundSuccess, isLoading: isConfirmingRefund } = useWaitForTransactionReceipt({ hash: refundTxHash })
+
+  useEffect(() => {
+    if (refundSuccess) onChanged()
+  }, [refundSuccess, onChanged])
+
+  // A claim-link gift sits with the contract until it is claimed or returned
+  const awaitingClaim = owner.toLowerCase() === CONTRACT_CONFIG.address.toLowerCase()
+
+  const { data: giftClaim } = useReadContract({
     address: CONTRACT_CONFIG.address,
     abi: BIRTHDAY_SONGS_ABI,
-    functionName: 'getOrder',
+    functionName: 'giftClaims',
     args: [BigInt(tokenId)],
+    query: { enabled: awaitingClaim },
   })
 
-  // Only show if user owns this token
-  if (!owner || owner.toString().toLowerCase() !== userAddress.toLowerCase()) {
-    return null
+  const { writeContract: returnGift, data: returnTxHash, isPending: isReturning, error: returnError } = useWriteContract()
+  const { isSuccess: returnSuccess, isLoading: isConfirmingReturn } = useWaitForTransactionReceipt({ hash: returnTxHash })
+
+  useEffect(() => {
+    if (returnSuccess) onChanged()
+  }, [returnSuccess, onChanged])
+
+  const typedOrder = order
+  // Only the holder can unlock the song; a gifter just follows the order
+  const isHolder = role !== 'giftedByMe'
+  const orderDate = new Date(Number(typedOrder.orderedAt) * 1000)
+  const deliveredDate = typedOrder.fulfilledAt > BigInt(0) ? new Date(Number(typedOrder.fulfilledAt) * 1000) : null
+  const emoji = (tier?.style ?? FALLBACK_TIER_STYLE).emoji
+  const typeName = tier?.name ?? 'Song'
+  const price = formatUsdc(typedOrder.pricePaid)
+
+  // The buyer can take their money back if the song isn't delivered by the deadline
+  const canRefund = !typedOrder.fulfilled && !typedOrder.refunded &&
+    typedOrder.orderedBy.toLowerCase() === userAddress.toLowerCase()
+  const refundDate = new Date(Number(typedOrder.refundableAt) * 1000)
+  const refundOpen = refundDate.getTime() <= Date.now()
+
+  const claimExpiresAt = giftClaim ? new Date(Number((giftClaim as readonly [string, bigint])[1]) * 1000) : null
+  const claimExpired = claimExpiresAt !== null && claimExpiresAt.getTime() <= Date.now()
+
+  const handleReturnGift = () => {
+    returnGift({
+      address: CONTRACT_CONFIG.address,
+      abi: BIRTHDAY_SONGS_ABI,
+      functionName: 'returnUnclaimedGift',
+      args: [BigInt(tokenId)],
+    })
   }
 
-  if (isLoading) {
-    return (
-      <div className="bg-white/95 rounded-2xl p-4 animate-pulse">
-        <div className="h-5 bg-gray-200 rounded w-1/2 mb-2"></div>
-        <div className="h-4 bg-gray-200 rounded w-1/3"></div>
-      </div>
-    )
+  const handleRefund = () => {
+    refundOrder({
+      address: CONTRACT_CONFIG.address,
+      abi: BIRTHDAY_SONGS_ABI,
+      functionName: 'refundOrder',
+      args: [BigInt(tokenId)],
+    })
   }
 
-  if (!order) return null
+  // Decrypted song stream for this token, straight from Arweave
+  const openSong = async () => {
+    if (!walletClient) throw new Error('Wallet not connected')
+    
+    // Song keys are wrapped for the holder's listening key; this also registers it
+    const { privateKey } = await getHolderKeyPair(walletClient)
+    
+    // Sign in so the worker knows we control this address; it then checks ownerOf on-chain
+    api.setSessionToken(await getSessionToken(walletClient))
+    
+    return api.fetchOwnedSong(tokenId, userAddress, privateKey)
+  }
 
-  const typedOrder = order as Order
-  const orderDate = new Date(Number(typedOrder.orderedAt) * 1000)
-  const isBirthday = typedOrder.songType === 0
-  const emoji = isBirthday ? '🎂' : '✨'
-  const typeName = isBirthday ? 'Birthday Song' : 'Natal Chart Song'
-  const price = isBirthday ? '$25' : '$250'
+  const handleSongError = (err: unknown) => {
+    console.error('Song error:', err)
+    if (err instanceof SongScheduledError) {
+      // Dates are calendar days; read them as local midnight so they don't shift
+      setError(`🎁 This song unlocks on ${new Date(`${err.revealAt}T00:00:00`).toLocaleDateString()}`)
+      return
+    }
+    const message = err instanceof Error ? err.message : 'Download failed'
+    setError(message.includes('not found') ? 'Song not yet ready' : 'Failed to load song. Make sure you own this NFT.')
+  }
+
+  const handlePlay = async () => {
+    if (!walletClient || !typedOrder.songUri || !audioRef.current) return
+    
+    setIsDecrypting(true)
+    setError(null)
+
+    try {
+      stopPlaybackRef.current?.()
+      stopPlaybackRef.current = await playSongStream(audioRef.current, await openSong())
+      setIsPlaying(true)
+    } catch (err) {
+      handleSongError(err)
+    } finally {
+      setIsDecrypting(false)
+    }
+  }
 
   const handleDownload = async () => {
     if (!walletClient || !typedOrder.songUri) return
@@ -123,22 +280,14 @@ function OrderCard({ tokenId, userAddress }: { tokenId: number; userAddress: str
     setError(null)
 
     try {
-      // Download song with NFT ownership verification
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/songs/${tokenId}/${userAddress}`)
-      
-      if (!response.ok) {
-        const error = await response.json()
-        throw new Error(error.error || 'Download failed')
-      }
-      
-      const { songData } = await response.json()
+      // Decrypted chunks collect in a Blob rather than one giant string
+      const song = await new Response(await openSong()).blob()
+      const mimeType = sniffAudioType(new Uint8Array(await song.slice(0, 12).arrayBuffer()))
       
       // Download the song
-      downloadSong(songData, `birthday-song-${tokenId}.mp3`)
+      downloadSong(new Blob([song], { type: mimeType }), `birthday-song-${tokenId}.${audioExtension(mimeType)}`)
     } catch (err) {
-      console.error('Download error:', err)
-      const message = err instanceof Error ? err.message : 'Download failed'
-      setError(message.includes('not found') ? 'Song not yet ready' : 'Failed to download. Make sure you own this NFT.')
+      handleSongError(err)
     } finally {
       setIsDecrypting(false)
     }
@@ -155,15 +304,28 @@ function OrderCard({ tokenId, userAddress }: { tokenId: number; userAddress: str
           <p className="text-gray-500 text-xs mt-0.5">
             #{tokenId} • {orderDate.toLocaleDateString()} • {price}
           </p>
+          {deliveredDate && (
+            <p className="text-green-700 text-xs mt-0.5">Delivered {deliveredDate.toLocaleDateString()}</p>
+          )}
+          {role === 'giftedToMe' && (
+            <p className="text-pink-600 text-xs mt-0.5">🎁 From {shortAddress(typedOrder.orderedBy)}</p>
+          )}
+          {role === 'giftedByMe' && (
+            <p className="text-pink-600 text-xs mt-0.5">
+              {awaitingClaim ? '🔗 Waiting to be claimed' : `💌 To ${shortAddress(owner)}`}
+            </p>
+          )}
         </div>
         <span className={`
           px-3 py-1.5 rounded-full text-xs font-semibold
-          ${typedOrder.fulfilled 
-            ? 'bg-green-100 text-green-700' 
-            : 'bg-amber-100 text-amber-700'
+          ${typedOrder.refunded
+            ? 'bg-gray-100 text-gray-600'
+            : typedOrder.fulfilled 
+              ? 'bg-green-100 text-green-700' 
+              : 'bg-amber-100 text-amber-700'
           }
         `}>
-          {typedOrder.fulfilled ? '✓ Ready' : '⏳ Creating'}
+          {typedOrder.refunded ? '↩️ Refunded' : typedOrder.fulfilled ? '✓ Ready' : '⏳ Creating'}
         </span>
       </div>
 
@@ -171,19 +333,90 @@ function OrderCard({ tokenId, userAddress }: { tokenId: number; userAddress: str
         <p className="text-red-600 text-sm mb-2">{error}</p>
       )}
 
-      {typedOrder.fulfilled && typedOrder.songUri ? (
-        <button
-          onClick={handleDownload}
-          disabled={isDecrypting}
-          className="block w-full bg-gradient-to-r from-purple-500 to-pink-500 text-white text-center py-4 rounded-xl font-semibold active:scale-98 transition-transform disabled:opacity-50"
-        >
-          {isDecrypting ? '🔐 Decrypting...' : '⬇️ Download Your Song'}
-        </button>
+      <audio ref={audioRef} controls className={isPlaying ? 'w-full mb-2' : 'hidden'} />
+
+      {typedOrder.fulfilled && typedOrder.songUri && !isHolder ? (
+        <div className="text-center py-3 text-gray-400 text-sm">
+          {awaitingClaim ? 'Ready and waiting to be claimed 🎁' : `Delivered to ${shortAddress(owner)} 🎉`}
+        </div>
+      ) : typedOrder.fulfilled && typedOrder.songUri ? (
+        <div className="flex gap-2">
+          {!isPlaying && (
+            <button
+              onClick={handlePlay}
+              disabled={isDecrypting}
+              className="flex-1 bg-white border-2 border-purple-500 text-purple-600 text-center py-4 rounded-xl font-semibold active:scale-98 transition-transform disabled:opacity-50"
+            >
+              ▶️ Play
+            </button>
+          )}
+          <button
+            onClick={handleDownload}
+            disabled={isDecrypting}
+            className="flex-1 bg-gradient-to-r from-purple-500 to-pink-500 text-white text-center py-4 rounded-xl font-semibold active:scale-98 transition-transform disabled:opacity-50"
+          >
+            {isDecrypting ? '🔐 Decrypting...' : '⬇️ Download'}
+          </button>
+        </div>
+      ) : typedOrder.refunded ? (
+        <div className="text-center py-3 text-gray-400 text-sm">
+          This order was refunded
+        </div>
       ) : (
         <div className="text-center py-3 text-gray-400 text-sm">
           Your song is being crafted 🎸
+          {canRefund && !refundOpen && (
+            <p className="text-xs mt-1">
+              Not ready by {refundDate.toLocaleDateString()}? You can refund it then.
+            </p>
+          )}
         </div>
       )}
+
+      {awaitingClaim && claimExpiresAt && (
+        claimExpired ? (
+          <>
+            {returnError && <p className="text-red-500 text-xs mb-2 text-center">{returnError.message?.slice(0, 40)}</p>}
+            <button
+              onClick={handleReturnGift}
+              disabled={isReturning || isConfirmingReturn}
+              className="w-full mb-2 bg-white border-2 border-pink-300 text-pink-600 text-center py-3 rounded-xl font-semibold active:scale-98 transition-transform disabled:opacity-50"
+            >
+              {isReturning ? 'Confirm in wallet...' : isConfirmingReturn ? 'Returning...' : '🎁 Unclaimed: return it to me'}
+            </button>
+          </>
+        ) : (
+          <p className="text-center text-pink-600 text-xs mb-2">
+            The claim link works until {claimExpiresAt.toLocaleDateString()}
+          </p>
+        )
+      )}
+
+      {canRefund && refundOpen && (
+        <>
+          {refundError && <p className="text-red-500 text-xs mb-2 text-center">{refundError.message?.slice(0, 40)}</p>}
+          <button
+            onClick={handleRefund}
+            disabled={isRefunding || isConfirmingRefund}
+            className="w-full bg-white border-2 border-gray-300 text-gray-700 text-center py-3 rounded-xl font-semibold active:scale-98 transition-transform disabled:opacity-50"
+          >
+            {isRefunding ? 'Confirm in wallet...' : isConfirmingRefund ? 'Refunding...' : '↩️ Refund my order'}
+          </button>
+        </>
+      )}
+
+      {!typedOrder.refunded && (
+        <MessageThread
+          tokenId={tokenId}
+          walletClient={walletClient}
+          asCreator={false}
+          allowRevision={typedOrder.fulfilled}
+        />
+      )}
     </div>
   )
 }
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`
+}
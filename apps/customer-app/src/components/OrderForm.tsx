@@ -1,40 +1,39 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useWriteContract, useWaitForTransactionReceipt, useReadContracts, useAccount } from 'wagmi'
-import { BIRTHDAY_SONGS_ABI, ERC20_ABI, CONTRACT_CONFIG, USDC_CONFIG, SongType, PRICES, CHAIN_ID } from '@/lib/contract'
-import { api, type OrderData as ApiOrderData } from '@/lib/api-dev'
+import { getAddress, isAddress, parseEventLogs, zeroAddress, zeroHash } from 'viem'
+import { useWriteContract, useWaitForTransactionReceipt, useReadContracts, useAccount, useSignTypedData } from 'wagmi'
+import { BIRTHDAY_SONGS_ABI, ERC20_ABI, SONG_CHECKOUT_ABI, CONTRACT_CONFIG, CHECKOUT_CONFIG, USDC_CONFIG, CHAIN_ID } from '@/lib/contract'
+import { api, type OrderData, type Voucher } from '@/lib/api-dev'
+import { buildClaimLink, createClaimKey, type ClaimKey } from '@/lib/gift-claim'
+import { buildUsdcPermit, isUserRejection, toPermitSignature, type PermitSignature } from '@/lib/usdc-permit'
+import { formatAssetAmount, useAcceptedPaymentAssets, useSwapPayment, type AcceptedAsset } from '@/lib/swap-payment'
+import { discountedPrice, formatDiscount, toVoucherArgs, voucherAppliesTo, voucherTierLabel } from '@/lib/vouchers'
+import { formatUsdc, isTierSoldOut, tierRemaining, useTiers, type SongTier } from '@/lib/tiers'
+
+// mintWithVoucher skips the permit when its deadline is 0 (paying with an approval)
+const NO_PERMIT: PermitSignature = { deadline: BigInt(0), v: 0, r: zeroHash, s: zeroHash }
 
 interface OrderFormProps {
   isConnected: boolean
   farcasterUser?: { fid: number; username?: string } | null
 }
 
-interface OrderData {
-  type: 'birthday' | 'natal'
-  recipientName: string
-  birthDate?: string
-  birthTime?: string
-  birthLocation?: string
-  relationship?: string
-  interests?: string
-  sunSign?: string
-  risingSign?: string
-  moonSign?: string
-  musicalStyle?: string
-  message?: string
-  orderedBy: string
-  orderedAt: string
-  allowPublication: boolean
-}
-
 export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
   const { address, isConnected: wagmiConnected } = useAccount()
-  const [selectedTier, setSelectedTier] = useState<SongType>(SongType.BIRTHDAY)
+  // Tiers come from the contract; the selection is a tier id
+  const { tiers, refetch: refetchTiers } = useTiers()
+  const activeTiers = tiers.filter((t) => t.active)
+  const [selectedTier, setSelectedTier] = useState(0)
+  const tier = tiers[selectedTier] as SongTier | undefined
+  const tierSoldOut = tier ? isTierSoldOut(tier) : false
   
   // Form fields
   const [recipientName, setRecipientName] = useState('')
   const [birthDate, setBirthDate] = useState('')
+  // When the song should arrive; defaults to the next birthday once a birth date is entered
+  const [deliveryDate, setDeliveryDate] = useState('')
+  const [revealOnDelivery, setRevealOnDelivery] = useState(false)
   const [message, setMessage] = useState('')
   const [relationship, setRelationship] = useState('')
   const [interests, setInterests] = useState('')
@@ -45,29 +44,37 @@ export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
   const [risingSign, setRisingSign] = useState('')
   const [moonSign, setMoonSign] = useState('')
   const [musicalStyle, setMusicalStyle] = useState('')
+
+  // Gifting: the NFT (and with it the song) goes to the recipient's wallet
+  const [isGift, setIsGift] = useState(false)
+  const [giftQuery, setGiftQuery] = useState('')
+  const [giftRecipient, setGiftRecipient] = useState<{ address: `0x${string}`; farcaster?: string } | null>(null)
+  const [isResolvingRecipient, setIsResolvingRecipient] = useState(false)
+  // Or it waits in the contract until someone claims it with the link's secret
+  const [giftByLink, setGiftByLink] = useState(false)
+  const [claimKey, setClaimKey] = useState<ClaimKey | null>(null)
+  const [giftClaimLink, setGiftClaimLink] = useState('')
+
+  // Paying in ETH or another token, swapped to USDC at mint (null = USDC)
+  const [payWith, setPayWith] = useState<AcceptedAsset | null>(null)
+  // Most the swap may spend, fixed at checkout so the approval and mint agree
+  const [swapAmountInMax, setSwapAmountInMax] = useState<bigint | null>(null)
   const [allowPublication, setAllowPublication] = useState(false)
+
+  // Promo code, looked up by code and redeemed on-chain at mint
+  const [promoCode, setPromoCode] = useState('')
+  const [voucher, setVoucher] = useState<Voucher | null>(null)
+  const [isCheckingVoucher, setIsCheckingVoucher] = useState(false)
   const [approvalAmount, setApprovalAmount] = useState('')
   
   const [error, setError] = useState<string | null>(null)
   const [step, setStep] = useState<'form' | 'uploading' | 'approve' | 'mint' | 'success'>('form')
   const [orderDataUri, setOrderDataUri] = useState<string>('')
 
-  // Batch all contract reads including prices into a single multicall
+  // Batch the buyer's USDC reads into a single multicall
   // Skip user-specific calls if no address is available
   const { data: contractData, refetch: refetchContractData, error: contractError, isLoading: contractLoading } = useReadContracts({
     contracts: [
-      {
-        address: CONTRACT_CONFIG.address,
-        abi: BIRTHDAY_SONGS_ABI,
-        functionName: 'birthdayPrice',
-        chainId: CHAIN_ID,
-      },
-      {
-        address: CONTRACT_CONFIG.address,
-        abi: BIRTHDAY_SONGS_ABI,
-        functionName: 'natalPrice',
-        chainId: CHAIN_ID,
-      },
       ...(address ? [{
         address: USDC_CONFIG.address,
         abi: ERC20_ABI,
@@ -82,83 +89,62 @@ export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
         args: [address],
         chainId: CHAIN_ID,
       }] : []),
-      {
-        address: CONTRACT_CONFIG.address,
-        abi: BIRTHDAY_SONGS_ABI,
-        functionName: 'getSupplyInfo',
-        chainId: CHAIN_ID,
-      },
     ],
   } as any)
 
-  const birthdayPrice = contractData?.[0]?.result as bigint
-  const natalPrice = contractData?.[1]?.result as bigint
-  // Dynamic array indices based on whether address exists
-  const allowanceIndex = address ? 2 : -1
-  const balanceIndex = address ? 3 : -1
-  const supplyIndex = address ? 4 : 2
-  
-  const allowance = allowanceIndex >= 0 ? contractData?.[allowanceIndex]?.result : undefined
-  const usdcBalance = balanceIndex >= 0 ? contractData?.[balanceIndex]?.result : undefined
-  const supplyInfo = contractData?.[supplyIndex]?.result
-
-  // Use contract price or fallback to hardcoded
-  const priceInUSDC = selectedTier === SongType.BIRTHDAY 
-    ? birthdayPrice || BigInt(PRICES[selectedTier] * 1e6)
-    : natalPrice || BigInt(PRICES[selectedTier] * 1e6)
+  const allowance = address ? contractData?.[0]?.result : undefined
+  const usdcBalance = address ? contractData?.[1]?.result : undefined
+
+  // Nothing is payable until the tier has loaded
+  const listPriceInUSDC = tier?.price ?? BigInt(0)
+
+  // Start on an orderable tier if the default was retired
+  useEffect(() => {
+    if (tiers.length > 0 && !tier?.active && activeTiers.length > 0) {
+      setSelectedTier(activeTiers[0].id)
+    }
+  }, [tiers.length, tier?.active])
+
+  // Vouchers apply to orders minted to a wallet, not claim-link gifts
+  const appliedVoucher = voucher && voucherAppliesTo(voucher, selectedTier) && !(isGift && giftByLink) ? voucher : null
+  const priceInUSDC = appliedVoucher ? discountedPrice(listPriceInUSDC, appliedVoucher) : listPriceInUSDC
   
   const priceInDollars = Number(priceInUSDC) / 1e6
 
 
-  const hasEnoughBalance = usdcBalance ? (usdcBalance as bigint) >= priceInUSDC : false
-  const hasEnoughAllowance = allowance ? (allowance as bigint) >= priceInUSDC : false
+  // Claim-link gifts and voucher orders are always paid in USDC
+  const acceptedAssets = useAcceptedPaymentAssets()
+  const payAsset = (isGift && giftByLink) || appliedVoucher ? null : payWith
+  const swapPayment = useSwapPayment(payAsset, priceInUSDC, address)
 
-  // Format supply data from contract
-  const formatSupplyInfo = () => {
-    if (!supplyInfo) return null
-    
-    const [
-      birthdaysMinted,
-      birthdaysRemaining,
-      birthdayLimit,
-      birthdaysSoldOut,
-      natalsMinted,
-      natalsRemaining,
-      natalLimit,
-      natalsSoldOut,
-      totalMinted,
-      totalRemaining,
-      totalLimit
-    ] = supplyInfo as readonly [bigint, bigint, bigint, boolean, bigint, bigint, bigint, boolean, bigint, bigint, bigint]
-
-    return {
-      birthday: {
-        minted: Number(birthdaysMinted),
-        remaining: Number(birthdaysRemaining),
-        limit: Number(birthdayLimit),
-        soldOut: birthdaysSoldOut
-      },
-      natal: {
-        minted: Number(natalsMinted),
-        remaining: Number(natalsRemaining),
-        limit: Number(natalLimit),
-        soldOut: natalsSoldOut
-      },
-      total: {
-        minted: Number(totalMinted),
-        remaining: Number(totalRemaining),
-        limit: Number(totalLimit)
-      }
-    }
-  }
+  const hasEnoughBalance = payAsset
+    ? swapPayment.hasEnoughBalance
+    : usdcBalance !== undefined ? (usdcBalance as bigint) >= priceInUSDC : false
+  const hasEnoughAllowance = allowance !== undefined ? (allowance as bigint) >= priceInUSDC : false
+
+  // Totals across the tiers on sale, for the limited edition banner
+  const supplyTotal = activeTiers.length > 0 ? {
+    limit: activeTiers.reduce((sum, t) => sum + t.supplyLimit, 0),
+    remaining: activeTiers.reduce((sum, t) => sum + tierRemaining(t), 0),
+  } : null
+
+  // USDC's permit domain and the buyer's nonce, for checkout without an approve
+  const { data: permitData, refetch: refetchPermitData } = useReadContracts({
+    contracts: [
+      { address: USDC_CONFIG.address, abi: ERC20_ABI, functionName: 'name' },
+      { address: USDC_CONFIG.address, abi: ERC20_ABI, functionName: 'version' },
+      { address: USDC_CONFIG.address, abi: ERC20_ABI, functionName: 'nonces', args: address ? [address] : undefined },
+    ],
+    query: { enabled: !!address },
+  })
 
-  const supplyData = formatSupplyInfo()
+  const { signTypedDataAsync } = useSignTypedData()
 
-  const { writeContract: approveUSDC, data: approveTxHash, isPending: isApproving, error: approveError } = useWriteContract()
+  const { writeContract: approveToken, data: approveTxHash, isPending: isApproving, error: approveError } = useWriteContract()
   const { isSuccess: isApproveConfirmed } = useWaitForTransactionReceipt({ hash: approveTxHash })
 
   const { writeContract: mintNFT, data: mintTxHash, isPending: isMinting, error: mintError } = useWriteContract()
-  const { isSuccess: isMintConfirmed } = useWaitForTransactionReceipt({ hash: mintTxHash })
+  const { isSuccess: isMintConfirmed, data: mintReceipt } = useWaitForTransactionReceipt({ hash: mintTxHash })
 
   useEffect(() => {
     if (isApproveConfirmed) {
@@ -168,11 +154,25 @@ export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
   }, [isApproveConfirmed])
 
   useEffect(() => {
-    if (isMintConfirmed) {
+    if (isMintConfirmed && mintTxHash) {
       setStep('success')
+      refetchPermitData()
       refetchContractData()
+      refetchTiers()
+      // Link the uploaded order to its token id; the indexer catches up if this fails
+      api.confirmMint(mintTxHash).catch((err) => console.error('Mint confirmation failed:', err))
     }
-  }, [isMintConfirmed, refetchContractData])
+  }, [isMintConfirmed, mintTxHash, refetchContractData, refetchPermitData, refetchTiers])
+
+  // The claim link needs the token id, which only the mint receipt knows
+  useEffect(() => {
+    if (!mintReceipt || !claimKey) return
+    const [created] = parseEventLogs({ abi: BIRTHDAY_SONGS_ABI, eventName: 'OrderCreated', logs: mintReceipt.logs })
+    if (created) {
+      const { tokenId } = created.args as { tokenId: bigint }
+      setGiftClaimLink(buildClaimLink(Number(tokenId), claimKey.secret))
+    }
+  }, [mintReceipt, claimKey])
 
   const encryptAndUpload = async (): Promise<string> => {
     // Debug: Log allowPublication state right before assembly
@@ -180,7 +180,8 @@ export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
     
     // Build order data
     const orderData: OrderData = {
-      type: selectedTier === SongType.BIRTHDAY ? 'birthday' : 'natal',
+      tierId: selectedTier,
+      tierName: tier?.name ?? '',
       recipientName,
       orderedBy: address || '',
       orderedAt: new Date().toISOString(),
@@ -188,9 +189,17 @@ export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
     }
 
     if (birthDate) orderData.birthDate = birthDate
+    if (deliveryDate) {
+      orderData.deliveryDate = deliveryDate
+      orderData.revealOnDelivery = revealOnDelivery
+    }
+    if (isGift && !giftByLink && giftRecipient) {
+      orderData.recipientAddress = giftRecipient.address
+      if (giftRecipient.farcaster) orderData.recipientFarcaster = giftRecipient.farcaster
+    }
     if (message) orderData.message = message
 
-    if (selectedTier === SongType.BIRTHDAY) {
+    if (!tier?.birthChart) {
       if (relationship) orderData.relationship = relationship
       if (interests) orderData.interests = interests
     } else {
@@ -216,28 +225,120 @@ export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
     // Upload order data via API worker
     setStep('uploading')
     
+    // Encrypted to Jose's public key in the browser, then uploaded via the API worker.
+    // No fallback: minting without the order data would leave Jose nothing to work from.
+    const result = await api.uploadOrder(orderData)
+    
+    // Return ArDrive URI that points to the encrypted file
+    return `ardrive://${result.arweaveId}`
+  }
+
+  // Gifts mint straight to the recipient, or into claim escrow behind a link;
+  // the buyer still pays and gets any refund. With a permit, payment needs no approve.
+  const writeMint = (uri: string, permit?: PermitSignature) => {
+    const tierId = BigInt(selectedTier)
+    const contract = { address: CONTRACT_CONFIG.address, abi: BIRTHDAY_SONGS_ABI }
+
+    if (isGift && giftByLink) {
+      const key = claimKey ?? createClaimKey()
+      setClaimKey(key)
+      mintNFT(permit
+        ? { ...contract, functionName: 'mintClaimableWithPermit', args: [tierId, key.address, uri, permit] }
+        : { ...contract, functionName: 'mintClaimable', args: [tierId, key.address, uri] })
+      return
+    }
+
+    const gift = isGift ? giftRecipient : null
+    if (appliedVoucher) {
+      mintNFT({
+        ...contract,
+        functionName: 'mintWithVoucher',
+        args: [tierId, gift?.address ?? address, uri, ...toVoucherArgs(appliedVoucher, appliedVoucher.signature), permit ?? NO_PERMIT],
+      })
+      return
+    }
+    if (permit) {
+      mintNFT({ ...contract, functionName: 'mintWithPermit', args: [tierId, gift?.address ?? address, uri, permit] })
+      return
+    }
+    mintNFT({ ...contract, functionName: 'mint', args: [tierId, gift?.address ?? address, uri] })
+  }
+
+  // Pay through SongCheckout, which swaps the asset to the USDC price
+  const writeSwapMint = (uri: string, amountInMax: bigint) => {
+    if (!payAsset) return
+    mintNFT({
+      address: CHECKOUT_CONFIG.address,
+      abi: SONG_CHECKOUT_ABI,
+      functionName: 'mintWithSwap',
+      args: [BigInt(selectedTier), (isGift && giftRecipient?.address) || address, uri, payAsset.asset.address ?? zeroAddress, amountInMax],
+      value: payAsset.asset.address ? undefined : amountInMax,
+    })
+  }
+
+  // Permit for the order price; null when the token or wallet can't do permits
+  const signPermit = async (): Promise<PermitSignature | null> => {
+    const [name, version, nonce] = permitData?.map((read) => read.result) ?? []
+    if (!address || typeof name !== 'string' || typeof version !== 'string' || typeof nonce !== 'bigint') {
+      return null
+    }
+
+    const typedData = buildUsdcPermit(address, priceInUSDC, nonce, { name, version })
     try {
-      // Upload via API worker (which handles encryption and ArDrive)
-      const result = await api.uploadOrder(orderData as ApiOrderData)
-      
-      // Return ArDrive URI that points to the encrypted file
-      return `ardrive://${result.arweaveId}`
-    } catch (error) {
-      console.error('API upload failed:', error)
-      // For testing, return a mock URI
-      return `mock://order-${Date.now()}`
+      return toPermitSignature(await signTypedDataAsync(typedData), typedData.message.deadline)
+    } catch (err) {
+      if (isUserRejection(err)) throw err
+      console.warn('Permit signing unavailable, falling back to approve:', err)
+      return null
     }
   }
 
   const doMint = () => {
     if (!orderDataUri) return
     setStep('mint')
-    mintNFT({
-      address: CONTRACT_CONFIG.address,
-      abi: BIRTHDAY_SONGS_ABI,
-      functionName: selectedTier === SongType.BIRTHDAY ? 'mintBirthdaySong' : 'mintNatalSong',
-      args: [orderDataUri],
-    })
+    if (payAsset && swapAmountInMax) {
+      writeSwapMint(orderDataUri, swapAmountInMax)
+    } else {
+      writeMint(orderDataUri)
+    }
+  }
+
+  const handleApplyVoucher = async () => {
+    if (!promoCode.trim()) return
+
+    setError(null)
+    setIsCheckingVoucher(true)
+    try {
+      setVoucher(await api.getVoucher(promoCode))
+    } catch (err) {
+      setVoucher(null)
+      setError(err instanceof Error ? err.message : 'Could not check that promo code')
+    } finally {
+      setIsCheckingVoucher(false)
+    }
+  }
+
+  // Accepts a 0x address as is, otherwise looks up a Farcaster username or FID
+  const handleResolveRecipient = async () => {
+    const query = giftQuery.trim()
+    if (!query) return
+
+    setError(null)
+    if (isAddress(query)) {
+      setGiftRecipient({ address: getAddress(query) })
+      return
+    }
+
+    setIsResolvingRecipient(true)
+    try {
+      const user = await api.resolveFarcasterUser(query)
+      setGiftRecipient({ address: user.address, farcaster: user.username })
+    } catch (err) {
+      setGiftRecipient(null)
+      setError(err instanceof Error ? err.message : 'Could not find that Farcaster user')
+    } finally {
+      setIsResolvingRecipient(false)
+    }
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -253,38 +354,80 @@ export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
       setError('Enter recipient\'s name')
       return
     }
-    if (selectedTier === SongType.NATAL && !birthDate) {
+    if (!tier?.active) {
+      setError('Choose a song')
+      return
+    }
+    if (isGift && !giftByLink && !giftRecipient) {
+      setError('Find the gift recipient\'s wallet first')
+      return
+    }
+    if (tier.birthChart && !birthDate) {
       setError('Birth date required for natal chart')
       return
     }
-    if (selectedTier === SongType.NATAL && !birthLocation.trim()) {
+    if (deliveryDate && deliveryDate < todayDate()) {
+      setError('Delivery date can\'t be in the past')
+      return
+    }
+    if (tier.birthChart && !birthLocation.trim()) {
       setError('Birth location required for natal chart')
       return
     }
     // Skip balance check in Farcaster context - Privy will handle insufficient funds
     if (!farcasterUser && !hasEnoughBalance) {
-      setError(`Need $${priceInDollars.toFixed(2)} USDC`)
+      setError(payAsset && swapPayment.amountInMax
+        ? `Need ${formatAssetAmount(swapPayment.amountInMax, payAsset.asset)}`
+        : `Need $${priceInDollars.toFixed(2)} USDC`)
+      return
+    }
+    if (payAsset && !swapPayment.amountInMax) {
+      setError(`No ${payAsset.asset.symbol} quote yet, try again in a moment`)
       return
     }
 
     // Check if tier is sold out
-    if (supplyData) {
-      const tierSupply = selectedTier === SongType.BIRTHDAY ? supplyData.birthday : supplyData.natal
-      if (tierSupply.soldOut) {
-        setError(`${selectedTier === SongType.BIRTHDAY ? 'Birthday Songs' : 'Natal Chart Songs'} are sold out!`)
-        return
-      }
+    if (tierSoldOut) {
+      setError(`${tier.name} is sold out!`)
+      return
     }
 
     try {
       const uri = await encryptAndUpload()
       setOrderDataUri(uri)
+
+      if (payAsset && swapPayment.amountInMax) {
+        // Tokens are approved to the checkout first; ETH goes along with the mint
+        const amountInMax = swapPayment.amountInMax
+        setSwapAmountInMax(amountInMax)
+        if (payAsset.asset.address && swapPayment.needsApproval) {
+          setStep('approve')
+          approveToken({
+            address: payAsset.asset.address,
+            abi: ERC20_ABI,
+            functionName: 'approve',
+            args: [CHECKOUT_CONFIG.address, amountInMax],
+          })
+        } else {
+          setStep('mint')
+          writeSwapMint(uri, amountInMax)
+        }
+        return
+      }
       
       if (!hasEnoughAllowance) {
+        // One transaction if the wallet signs a permit, otherwise approve then mint
+        const permit = await signPermit()
+        if (permit) {
+          setStep('mint')
+          writeMint(uri, permit)
+          return
+        }
+
         setStep('approve')
         // Use the user-specified approval amount or default to the purchase price
         const userApprovalAmount = approvalAmount ? parseFloat(approvalAmount) * 1e6 : Number(priceInUSDC)
-        approveUSDC({
+        approveToken({
           address: USDC_CONFIG.address,
           abi: ERC20_ABI,
           functionName: 'approve',
@@ -292,26 +435,34 @@ export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
         })
       } else {
         setStep('mint')
-        mintNFT({
-          address: CONTRACT_CONFIG.address,
-          abi: BIRTHDAY_SONGS_ABI,
-          functionName: selectedTier === SongType.BIRTHDAY ? 'mintBirthdaySong' : 'mintNatalSong',
-          args: [uri],
-        })
+        writeMint(uri)
       }
     } catch (err) {
       console.error('Order error:', err)
-      setError('Failed to prepare order')
+      setError(isUserRejection(err) ? 'Signature rejected' : 'Failed to prepare order')
       setStep('form')
     }
   }
 
+  // Follow the birth date with the delivery date until the buyer picks one themselves
+  const handleBirthDateChange = (value: string) => {
+    if (!deliveryDate || deliveryDate === nextBirthday(birthDate)) {
+      setDeliveryDate(nextBirthday(value))
+    }
+    setBirthDate(value)
+  }
+
   const resetForm = () => {
     setRecipientName(''); setBirthDate(''); setMessage('')
+    setDeliveryDate(''); setRevealOnDelivery(false)
     setRelationship(''); setInterests('')
     setBirthTime(''); setBirthTimeUnknown(false); setBirthLocation('')
     setSunSign(''); setRisingSign(''); setMoonSign(''); setMusicalStyle('')
     setAllowPublication(false)
+    setIsGift(false); setGiftQuery(''); setGiftRecipient(null)
+    setGiftByLink(false); setClaimKey(null); setGiftClaimLink('')
+    setSwapAmountInMax(null)
+    setPromoCode(''); setVoucher(null)
     setOrderDataUri(''); setStep('form'); setError(null)
   }
 
@@ -325,11 +476,38 @@ export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
         <div className="text-6xl mb-4">🎉</div>
         <h2 className="text-xl font-bold text-gray-800 mb-2">Order Placed!</h2>
         <p className="text-gray-600 mb-4">
-          Jose is creating your {selectedTier === SongType.BIRTHDAY ? 'birthday song' : 'natal chart song'}!
-        </p>
-        <p className="text-sm text-gray-500 mb-4">
-          Check "My Songs" tab to download once Jose fulfills your order.
+          Jose is creating your {tier?.name.toLowerCase() ?? 'song'}!
         </p>
+        {isGift && giftByLink ? (
+          <div className="mb-4 p-3 bg-pink-50 rounded-xl border border-pink-200 text-left">
+            <p className="text-sm text-gray-700 mb-2">
+              Send this link to {recipientName}. Whoever opens it can claim the song, and it can't be shown again, so copy it now.
+            </p>
+            {giftClaimLink ? (
+              <>
+                <p className="text-xs text-gray-800 font-mono break-all bg-white rounded-lg p-2 mb-2">{giftClaimLink}</p>
+                <button
+                  type="button"
+                  onClick={() => navigator.clipboard.writeText(giftClaimLink)}
+                  className="w-full py-2 rounded-lg bg-pink-500 text-white text-sm font-semibold active:scale-95"
+                >
+                  Copy link
+                </button>
+              </>
+            ) : (
+              <p className="text-xs text-gray-500">Preparing link...</p>
+            )}
+            <p className="text-xs text-gray-500 mt-2">
+              If it isn't claimed in time, you can take the song back from "My Songs".
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 mb-4">
+            {isGift && giftRecipient
+              ? `The song NFT went to ${giftRecipient.farcaster ? `@${giftRecipient.farcaster}` : shortAddress(giftRecipient.address)}. They can play and download it once Jose fulfills your order.`
+              : 'Check "My Songs" tab to download once Jose fulfills your order.'}
+          </p>
+        )}
         <a
           href={`https://basescan.org/tx/${mintTxHash}`}
           target="_blank"
@@ -362,25 +540,25 @@ export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
       </div>
 
       {/* Limited Edition Banner */}
-      {supplyData && (
+      {supplyTotal && (
         <div className="bg-gradient-to-r from-orange-100 to-red-100 rounded-2xl p-4 border border-orange-200">
           <div className="flex items-center justify-between">
             <div>
               <h4 className="font-bold text-orange-800 mb-1">🔥 Limited Edition Collection</h4>
               <p className="text-sm text-orange-700">
-                Only {supplyData.total.limit} total songs available!
+                Only {supplyTotal.limit} total songs available!
               </p>
             </div>
             <div className="text-right">
               <div className="text-lg font-bold text-orange-800">
-                {supplyData.total.remaining}/{supplyData.total.limit}
+                {supplyTotal.remaining}/{supplyTotal.limit}
               </div>
               <div className="text-xs text-orange-600">remaining</div>
             </div>
           </div>
-          {supplyData.total.remaining <= 10 && supplyData.total.remaining > 0 && (
+          {supplyTotal.remaining <= 10 && supplyTotal.remaining > 0 && (
             <div className="mt-2 text-xs text-orange-700 font-medium">
-              ⚡ Hurry! Only {supplyData.total.remaining} songs left
+              ⚡ Hurry! Only {supplyTotal.remaining} songs left
             </div>
           )}
         </div>
@@ -389,26 +567,15 @@ export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
       <div className="bg-white/95 rounded-2xl p-4">
       {/* Tier Selection */}
       <div className="grid grid-cols-2 gap-3 mb-4">
-        <TierCard
-          selected={selectedTier === SongType.BIRTHDAY}
-          onClick={() => !isProcessing && setSelectedTier(SongType.BIRTHDAY)}
-          emoji="🎂"
-          title="Birthday Song"
-          price={birthdayPrice ? Number(birthdayPrice) / 1e6 : 25}
-          color="blue"
-          disabled={isProcessing}
-          supplyInfo={supplyData?.birthday}
-        />
-        <TierCard
-          selected={selectedTier === SongType.NATAL}
-          onClick={() => !isProcessing && setSelectedTier(SongType.NATAL)}
-          emoji="🌟"
-          title="Natal Chart Song"
-          price={natalPrice ? Number(natalPrice) / 1e6 : 250}
-          color="purple"
-          disabled={isProcessing}
-          supplyInfo={supplyData?.natal}
-        />
+        {activeTiers.map((t) => (
+          <TierCard
+            key={t.id}
+            tier={t}
+            selected={selectedTier === t.id}
+            onClick={() => !isProcessing && setSelectedTier(t.id)}
+            disabled={isProcessing}
+          />
+        ))}
       </div>
 
       {/* Form Fields */}
@@ -422,16 +589,106 @@ export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
           disabled={isProcessing}
         />
 
+        {/* Gift Recipient */}
+        <div className="p-4 bg-pink-50 rounded-xl border border-pink-200">
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={isGift}
+              onChange={(e) => setIsGift(e.target.checked)}
+              disabled={isProcessing}
+              className="w-5 h-5 rounded"
+            />
+            <span className="font-medium text-gray-800">🎁 Send it as a gift</span>
+          </label>
+          {isGift && (
+            <div className="mt-3">
+              <div className="grid grid-cols-2 gap-2 mb-3">
+                {[false, true].map((byLink) => (
+                  <button
+                    key={String(byLink)}
+                    type="button"
+                    onClick={() => setGiftByLink(byLink)}
+                    disabled={isProcessing}
+                    className={`py-2 rounded-lg text-sm font-medium border ${giftByLink === byLink ? 'bg-pink-500 text-white border-pink-500' : 'bg-white text-gray-700 border-pink-200'}`}
+                  >
+                    {byLink ? '🔗 Claim link' : '👛 Their wallet'}
+                  </button>
+                ))}
+              </div>
+              {giftByLink ? (
+                <p className="text-sm text-gray-600">
+                  For someone without a wallet yet. The song waits for them, and you get a one-time link to send. They open it, connect or create a wallet, and claim it.
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600 mb-2">
+                    The song NFT goes straight to their wallet so they can play and download it. You pay, and any refund comes back to you.
+                  </p>
+                  <div className="flex gap-2">
+                    <input
+                      value={giftQuery}
+                      onChange={(e) => {
+                        setGiftQuery(e.target.value)
+                        setGiftRecipient(null)
+                      }}
+                      placeholder="@username, FID or 0x address"
+                      disabled={isProcessing}
+                      className="flex-1 min-w-0 px-4 py-3 rounded-xl border border-gray-200 text-gray-800 placeholder-gray-400 disabled:opacity-50"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleResolveRecipient}
+                      disabled={isProcessing || isResolvingRecipient || !giftQuery.trim()}
+                      className="px-4 rounded-xl bg-pink-500 text-white font-semibold active:scale-95 disabled:opacity-50"
+                    >
+                      {isResolvingRecipient ? '...' : 'Find'}
+                    </button>
+                  </div>
+                  {giftRecipient && (
+                    <p className="text-xs text-green-700 mt-2">
+                      ✓ {giftRecipient.farcaster && `@${giftRecipient.farcaster} · `}{shortAddress(giftRecipient.address)}
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
         <Input
           type="date"
-          label={selectedTier === SongType.NATAL ? "Birth Date *" : "Birth Date"}
+          label={tier?.birthChart ? "Birth Date *" : "Birth Date"}
           value={birthDate}
-          onChange={setBirthDate}
-          required={selectedTier === SongType.NATAL}
+          onChange={handleBirthDateChange}
+          required={tier?.birthChart}
           disabled={isProcessing}
         />
 
-        {selectedTier === SongType.BIRTHDAY ? (
+        <div>
+          <Input
+            type="date"
+            label="Deliver By"
+            value={deliveryDate}
+            onChange={setDeliveryDate}
+            min={todayDate()}
+            disabled={isProcessing}
+          />
+          {deliveryDate && (
+            <label className="flex items-center gap-2 text-sm text-gray-600 mt-2">
+              <input
+                type="checkbox"
+                checked={revealOnDelivery}
+                onChange={(e) => setRevealOnDelivery(e.target.checked)}
+                disabled={isProcessing}
+                className="w-5 h-5 rounded"
+              />
+              Keep the song hidden until this date
+            </label>
+          )}
+        </div>
+
+        {!tier?.birthChart ? (
           <>
             <Select
               label="Your Relationship"
@@ -538,6 +795,7 @@ export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
               <div className="text-sm text-gray-600 leading-relaxed">
                 I give Jose permission to publish this song independently on or after the recipient's special day. 
                 This helps support Jose's artistry while keeping your song exclusive until then.
+                A short preview clip and the recipient's first name may also appear with the NFT.
               </div>
             </div>
           </label>
@@ -594,9 +852,74 @@ export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
         <div>contractError: {contractError ? String(contractError) : 'ok'}</div>
         <div>contractLoading: {String(contractLoading)}</div>
         <div>priceInUSDC: {priceInUSDC.toString()}</div>
-        <div>supplyInfo: {supplyInfo ? 'loaded' : 'loading'}</div>
+        <div>tiers: {tiers.length > 0 ? `${tiers.length} loaded` : 'loading'}</div>
       </div>
 
+      {/* Promo Code */}
+      <div className="mt-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Promo code</label>
+        <div className="flex gap-2">
+          <input
+            value={promoCode}
+            onChange={(e) => {
+              setPromoCode(e.target.value)
+              setVoucher(null)
+            }}
+            placeholder="Optional"
+            disabled={isProcessing}
+            className="flex-1 min-w-0 px-4 py-3 rounded-xl border border-gray-200 text-gray-800 placeholder-gray-400 uppercase disabled:opacity-50"
+          />
+          <button
+            type="button"
+            onClick={handleApplyVoucher}
+            disabled={isProcessing || isCheckingVoucher || !promoCode.trim()}
+            className="px-4 rounded-xl bg-blue-600 text-white font-semibold active:scale-95 disabled:opacity-50"
+          >
+            {isCheckingVoucher ? '...' : 'Apply'}
+          </button>
+        </div>
+        {voucher && (
+          appliedVoucher ? (
+            <p className="text-xs text-green-700 mt-2">
+              ✓ {voucher.code} · {formatDiscount(voucher.discountBps)} · ${(Number(listPriceInUSDC) / 1e6).toFixed(2)} → ${priceInDollars.toFixed(2)} USDC
+            </p>
+          ) : (
+            <p className="text-xs text-orange-600 mt-2">
+              {isGift && giftByLink
+                ? 'Promo codes can\'t be used for claim-link gifts'
+                : `${voucher.code} is only valid for ${voucherTierLabel(voucher.tier, tiers).toLowerCase()}`}
+            </p>
+          )
+        )}
+      </div>
+
+      {/* Payment Asset */}
+      {acceptedAssets.length > 0 && !(isGift && giftByLink) && !appliedVoucher && (
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Pay with</label>
+          <div className="flex gap-2">
+            {[null, ...acceptedAssets].map((option) => (
+              <button
+                key={option?.asset.symbol ?? 'USDC'}
+                type="button"
+                onClick={() => setPayWith(option)}
+                disabled={isProcessing}
+                className={`flex-1 py-2 rounded-lg text-sm font-medium border ${payWith?.asset.symbol === option?.asset.symbol ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-200'}`}
+              >
+                {option?.asset.symbol ?? 'USDC'}
+              </button>
+            ))}
+          </div>
+          {payAsset && (
+            <p className="text-xs text-gray-500 mt-2">
+              {swapPayment.amountIn !== undefined && swapPayment.amountInMax !== undefined
+                ? `≈ ${formatAssetAmount(swapPayment.amountIn, payAsset.asset)}, swapped to $${priceInDollars.toFixed(2)} USDC. Up to ${formatAssetAmount(swapPayment.amountInMax, payAsset.asset)} is sent for slippage and the rest comes back.`
+                : swapPayment.isQuoting ? 'Getting a quote...' : 'No quote available right now'}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Error */}
       {displayError && (
         <div className="mt-3 p-3 bg-red-50 rounded-xl">
@@ -607,21 +930,22 @@ export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
       {/* Submit */}
       <button
         type="submit"
-        disabled={!isConnected || isProcessing || (!farcasterUser && !hasEnoughBalance) || !!(supplyData && (selectedTier === SongType.BIRTHDAY ? supplyData.birthday.soldOut : supplyData.natal.soldOut))}
+        disabled={!isConnected || isProcessing || !tier || (!farcasterUser && !hasEnoughBalance) || tierSoldOut}
         className={`
           mt-4 w-full py-4 rounded-xl font-bold text-base transition-all active:scale-98
-          ${isConnected && (farcasterUser || hasEnoughBalance) && !isProcessing && (!supplyData || !(selectedTier === SongType.BIRTHDAY ? supplyData.birthday.soldOut : supplyData.natal.soldOut))
-            ? selectedTier === SongType.NATAL
+          ${isConnected && tier && (farcasterUser || hasEnoughBalance) && !isProcessing && !tierSoldOut
+            ? tier.birthChart
               ? 'bg-gradient-to-r from-purple-500 to-indigo-500 text-white shadow-lg active:shadow-md'
               : 'bg-gradient-to-r from-orange-500 to-pink-500 text-white shadow-lg active:shadow-md'
             : 'bg-gray-200 text-gray-400'
           }
         `}
       >
-        {supplyData && (selectedTier === SongType.BIRTHDAY ? supplyData.birthday.soldOut : supplyData.natal.soldOut) ? 'SOLD OUT' :
+        {tierSoldOut ? 'SOLD OUT' :
          step === 'uploading' ? '📤 Uploading order...' :
-         step === 'approve' || isApproving ? 'Approve USDC...' :
+         step === 'approve' || isApproving ? `Approve ${payAsset?.asset.symbol ?? 'USDC'}...` :
          step === 'mint' || isMinting ? 'Confirming...' :
+         payAsset && swapPayment.amountIn !== undefined ? `Pay ≈ ${formatAssetAmount(swapPayment.amountIn, payAsset.asset)}` :
          `Pay $${priceInDollars.toFixed(2)} USDC`}
       </button>
 
@@ -632,55 +956,75 @@ export function OrderForm({ isConnected, farcasterUser }: OrderFormProps) {
 
 // Reusable Components
 
-function TierCard({ selected, onClick, emoji, title, price, color, disabled, supplyInfo }: {
-  selected: boolean; onClick: () => void; emoji: string; title: string; price: number; color: 'blue' | 'purple'; disabled?: boolean; supplyInfo?: any
+function TierCard({ tier, selected, onClick, disabled }: {
+  tier: SongTier; selected: boolean; onClick: () => void; disabled?: boolean
 }) {
-  const borderColor = selected ? (color === 'purple' ? 'border-purple-500' : 'border-blue-500') : 'border-gray-200'
-  const bgColor = selected ? (color === 'purple' ? 'bg-purple-50' : 'bg-blue-50') : 'bg-white'
-  const priceColor = color === 'purple' ? 'text-purple-600' : 'text-blue-600'
-  
-  const isSoldOut = supplyInfo?.soldOut
-  const remaining = supplyInfo?.remaining || 0
-  const limit = supplyInfo?.limit || 25
+  const isSoldOut = isTierSoldOut(tier)
+  const remaining = tierRemaining(tier)
+  const limit = tier.supplyLimit
   
   return (
     <button
       type="button"
       onClick={onClick}
       disabled={disabled || isSoldOut}
+      style={selected && !isSoldOut ? { borderColor: tier.style.colorTo } : undefined}
       className={`p-4 rounded-xl border-2 text-left active:scale-95 transition-all relative ${
         isSoldOut 
           ? 'border-red-200 bg-red-50 opacity-75' 
-          : `${borderColor} ${bgColor}`
+          : selected ? 'bg-gray-50' : 'border-gray-200 bg-white'
       } ${(disabled || isSoldOut) ? 'opacity-60' : ''}`}
     >
-      <div className="text-2xl mb-1">{emoji}</div>
-      <div className="font-bold text-gray-800 text-sm">{title}</div>
-      <div className={`font-bold ${isSoldOut ? 'text-red-500' : priceColor}`}>
-        {isSoldOut ? 'SOLD OUT' : `$${price.toFixed(2)}`}
+      <div className="text-2xl mb-1">{tier.style.emoji}</div>
+      <div className="font-bold text-gray-800 text-sm">{tier.name}</div>
+      <div
+        className={`font-bold ${isSoldOut ? 'text-red-500' : ''}`}
+        style={isSoldOut ? undefined : { color: tier.style.colorTo }}
+      >
+        {isSoldOut ? 'SOLD OUT' : formatUsdc(tier.price)}
+      </div>
+      <div className={`text-xs mt-1 ${
+        isSoldOut 
+          ? 'text-red-600' 
+          : remaining <= 5 
+            ? 'text-orange-600' 
+            : 'text-gray-500'
+      }`}>
+        {isSoldOut 
+          ? `${limit}/${limit} minted` 
+          : remaining <= 10
+            ? `${remaining}/${limit} left`
+            : `Limited: ${limit} only`
+        }
       </div>
-      {supplyInfo && (
-        <div className={`text-xs mt-1 ${
-          isSoldOut 
-            ? 'text-red-600' 
-            : remaining <= 5 
-              ? 'text-orange-600' 
-              : 'text-gray-500'
-        }`}>
-          {isSoldOut 
-            ? `${limit}/${limit} minted` 
-            : remaining <= 10
-              ? `${remaining}/${limit} left`
-              : `Limited: ${limit} only`
-          }
-        </div>
-      )}
     </button>
   )
 }
 
-function Input({ label, value, onChange, placeholder, type = 'text', required, disabled }: {
-  label: string; value: string; onChange: (v: string) => void; placeholder?: string; type?: string; required?: boolean; disabled?: boolean
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`
+}
+
+// Today as YYYY-MM-DD in the buyer's timezone
+function todayDate(): string {
+  const now = new Date()
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 10)
+}
+
+// Next occurrence (today included) of a YYYY-MM-DD birth date, or '' if there isn't one.
+// Feb 29 birthdays fall on Mar 1 in other years.
+function nextBirthday(birthDate: string): string {
+  const [, month, day] = birthDate.split('-').map(Number)
+  if (!month || !day) return ''
+
+  const today = todayDate()
+  const year = Number(today.slice(0, 4))
+  const onYear = (y: number) => new Date(Date.UTC(y, month - 1, day)).toISOString().slice(0, 10)
+  return onYear(year) >= today ? onYear(year) : onYear(year + 1)
+}
+
+function Input({ label, value, onChange, placeholder, type = 'text', min, required, disabled }: {
+  label: string; value: string; onChange: (v: string) => void; placeholder?: string; type?: string; min?: string; required?: boolean; disabled?: boolean
 }) {
   return (
     <div>
@@ -690,6 +1034,7 @@ function Input({ label, value, onChange, placeholder, type = 'text', required, d
         value={value}
         onChange={(e) => onChange(e.target.value)}
         placeholder={placeholder}
+        min={min}
         required={required}
         disabled={disabled}
         className="w-full px-4 py-3 rounded-xl border border-gray-200 text-gray-800 placeholder-gray-400 disabled:opacity-50"
@@ -10,12 +10,21 @@ export const CONTRACT_ADDRESS = '0xf1BBDBaDc2373BFF02a0f2De8a4E449204cb2052' as
 // Creator wallet (will be Jose after ownership transfer)
 export const CREATOR_ADDRESS = '0xD31C0C3BdDAcc482Aa5fE64d27cDDBaB72864733' as `0x${string}`
 
-// Platform wallet (receives $0.50 USDC per order)
+// Platform wallet (claims its basis-point share of each sale in USDC)
 export const PLATFORM_ADDRESS = '0x9db1afA33E74111F80fc2A7cc458006F55AC76f4' as `0x${string}`
 
 // Base mainnet USDC
 export const USDC_ADDRESS = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as `0x${string}`
 
+// SongCheckout, for paying in ETH and other tokens (zero address = USDC only)
+export const CHECKOUT_ADDRESS = '0x0000000000000000000000000000000000000000' as `0x${string}`
+
+// Uniswap V3 QuoterV2 on Base, for live swap quotes
+export const SWAP_QUOTER_ADDRESS = '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a' as `0x${string}`
+
+// WETH (OP Stack predeploy); ETH payments are quoted and swapped as WETH
+export const WETH_ADDRESS = '0x4200000000000000000000000000000000000006' as `0x${string}`
+
 // Chain config - Base mainnet
 export const CHAIN_ID = 8453 // Base mainnet
 
@@ -32,25 +41,26 @@ export const USDC_CONFIG = {
   decimals: 6,
 }
 
-export enum SongType {
-  BIRTHDAY = 0,
-  NATAL = 1,
-}
-
-export const PRICES = {
-  [SongType.BIRTHDAY]: 25,
-  [SongType.NATAL]: 250,
+export const CHECKOUT_CONFIG = {
+  address: CHECKOUT_ADDRESS,
+  chainId: CHAIN_ID,
 }
 
-// Limited Edition Supply Caps
-export const SUPPLY_LIMITS = {
-  [SongType.BIRTHDAY]: 25,  // Birthday Song - Venezuelan or English
-  [SongType.NATAL]: 25,     // Natal Chart Song
+// What buyers can pay with besides USDC, if SongCheckout accepts it (address null = ETH)
+export interface PaymentAsset {
+  symbol: string
+  address: `0x${string}` | null
+  decimals: number
 }
 
-export const TOTAL_SUPPLY = SUPPLY_LIMITS[SongType.BIRTHDAY] + SUPPLY_LIMITS[SongType.NATAL] // 50 total
+export const PAYMENT_ASSETS: PaymentAsset[] = [
+  { symbol: 'ETH', address: null, decimals: 18 },
+  { symbol: 'DAI', address: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb', decimals: 18 },
+  { symbol: 'DEGEN', address: '0x4ed4E862860beD51a9570b96d89aF5E1B0Efefed', decimals: 18 },
+]
 
-// Platform fee in ETH
+// Most we send as the optional ETH fee on fulfill when the live platformFee
+// can't be read; the contract returns anything above the actual fee
 export const PLATFORM_FEE = '0.000001'
 
 // Contract ABI
@@ -68,7 +78,7 @@ export const BIRTHDAY_SONGS_ABI: Abi = [
     inputs: [
       { indexed: true, name: 'tokenId', type: 'uint256' },
       { indexed: true, name: 'orderedBy', type: 'address' },
-      { indexed: false, name: 'songType', type: 'uint8' },
+      { indexed: false, name: 'tierId', type: 'uint256' },
       { indexed: false, name: 'orderDataUri', type: 'string' },
       { indexed: false, name: 'pricePaid', type: 'uint256' },
     ],
@@ -85,23 +95,203 @@ export const BIRTHDAY_SONGS_ABI: Abi = [
     type: 'event',
   },
   {
-    inputs: [{ name: 'orderDataUri', type: 'string' }],
-    name: 'mintBirthdaySong',
+    anonymous: false,
+    inputs: [{ indexed: false, name: '_tokenId', type: 'uint256' }],
+    name: 'MetadataUpdate',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'tokenId', type: 'uint256' },
+      { indexed: true, name: 'refundedTo', type: 'address' },
+      { indexed: false, name: 'amount', type: 'uint256' },
+    ],
+    name: 'OrderRefunded',
+    type: 'event',
+  },
+  {
+    inputs: [
+      { name: 'tierId', type: 'uint256' },
+      { name: 'recipient', type: 'address' },
+      { name: 'orderDataUri', type: 'string' },
+    ],
+    name: 'mint',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'tokenId', type: 'uint256' },
+      { indexed: true, name: 'from', type: 'address' },
+      { indexed: true, name: 'to', type: 'address' },
+    ],
+    name: 'OrderGifted',
+    type: 'event',
+  },
+  {
+    inputs: [
+      { name: 'tierId', type: 'uint256' },
+      { name: 'claimKey', type: 'address' },
+      { name: 'orderDataUri', type: 'string' },
+    ],
+    name: 'mintClaimable',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'tierId', type: 'uint256' },
+      { name: 'recipient', type: 'address' },
+      { name: 'orderDataUri', type: 'string' },
+      {
+        name: 'permit',
+        type: 'tuple',
+        components: [
+          { name: 'deadline', type: 'uint256' },
+          { name: 'v', type: 'uint8' },
+          { name: 'r', type: 'bytes32' },
+          { name: 's', type: 'bytes32' },
+        ],
+      },
+    ],
+    name: 'mintWithPermit',
     outputs: [{ name: '', type: 'uint256' }],
     stateMutability: 'nonpayable',
     type: 'function',
   },
   {
-    inputs: [{ name: 'orderDataUri', type: 'string' }],
-    name: 'mintNatalSong',
+    inputs: [
+      { name: 'tierId', type: 'uint256' },
+      { name: 'claimKey', type: 'address' },
+      { name: 'orderDataUri', type: 'string' },
+      {
+        name: 'permit',
+        type: 'tuple',
+        components: [
+          { name: 'deadline', type: 'uint256' },
+          { name: 'v', type: 'uint8' },
+          { name: 'r', type: 'bytes32' },
+          { name: 's', type: 'bytes32' },
+        ],
+      },
+    ],
+    name: 'mintClaimableWithPermit',
     outputs: [{ name: '', type: 'uint256' }],
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [
+      { name: 'tierId', type: 'uint256' },
+      { name: 'recipient', type: 'address' },
+      { name: 'orderDataUri', type: 'string' },
+      {
+        name: 'voucher',
+        type: 'tuple',
+        components: [
+          { name: 'code', type: 'string' },
+          { name: 'discountBps', type: 'uint16' },
+          { name: 'expiresAt', type: 'uint64' },
+          { name: 'maxUses', type: 'uint32' },
+          { name: 'tier', type: 'uint8' },
+        ],
+      },
+      { name: 'signature', type: 'bytes' },
+      {
+        name: 'permit',
+        type: 'tuple',
+        components: [
+          { name: 'deadline', type: 'uint256' },
+          { name: 'v', type: 'uint8' },
+          { name: 'r', type: 'bytes32' },
+          { name: 's', type: 'bytes32' },
+        ],
+      },
+    ],
+    name: 'mintWithVoucher',
+    outputs: [{ name: 'tokenId', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'codeHash', type: 'bytes32' }],
+    name: 'voucherRedemptions',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'tokenId', type: 'uint256' },
+      { name: 'signature', type: 'bytes' },
+    ],
+    name: 'claimGift',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    name: 'returnUnclaimedGift',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    name: 'giftClaims',
+    outputs: [
+      { name: 'claimKey', type: 'address' },
+      { name: 'expiresAt', type: 'uint64' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'giftClaimPeriod',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'tokenId', type: 'uint256' },
+      { indexed: true, name: 'from', type: 'address' },
+      { indexed: false, name: 'claimKey', type: 'address' },
+      { indexed: false, name: 'expiresAt', type: 'uint256' },
+    ],
+    name: 'GiftEscrowed',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'tokenId', type: 'uint256' },
+      { indexed: true, name: 'to', type: 'address' },
+    ],
+    name: 'GiftClaimed',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'tokenId', type: 'uint256' },
+      { indexed: true, name: 'to', type: 'address' },
+    ],
+    name: 'GiftReturned',
+    type: 'event',
+  },
   {
     inputs: [
       { name: 'tokenId', type: 'uint256' },
       { name: 'songUri', type: 'string' },
+      { name: 'metadataUri', type: 'string' },
     ],
     name: 'fulfillOrder',
     outputs: [],
@@ -114,13 +304,16 @@ export const BIRTHDAY_SONGS_ABI: Abi = [
     outputs: [
       {
         components: [
-          { name: 'songType', type: 'uint8' },
+          { name: 'tierId', type: 'uint256' },
           { name: 'orderDataUri', type: 'string' },
           { name: 'orderedBy', type: 'address' },
           { name: 'orderedAt', type: 'uint256' },
           { name: 'pricePaid', type: 'uint256' },
           { name: 'fulfilled', type: 'bool' },
+          { name: 'fulfilledAt', type: 'uint256' },
           { name: 'songUri', type: 'string' },
+          { name: 'refunded', type: 'bool' },
+          { name: 'refundableAt', type: 'uint256' },
         ],
         name: '',
         type: 'tuple',
@@ -130,19 +323,39 @@ export const BIRTHDAY_SONGS_ABI: Abi = [
     type: 'function',
   },
   {
-    inputs: [],
-    name: 'birthdayPrice',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    name: 'refundOrder',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    name: 'refundableAt',
     outputs: [{ name: '', type: 'uint256' }],
     stateMutability: 'view',
     type: 'function',
   },
   {
     inputs: [],
-    name: 'natalPrice',
+    name: 'fulfillmentDeadline',
     outputs: [{ name: '', type: 'uint256' }],
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [{ name: '_fulfillmentDeadline', type: 'uint256' }],
+    name: 'setFulfillmentDeadline',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: false, name: 'deadline', type: 'uint256' }],
+    name: 'FulfillmentDeadlineUpdated',
+    type: 'event',
+  },
   {
     inputs: [],
     name: 'platformFee',
@@ -150,6 +363,13 @@ export const BIRTHDAY_SONGS_ABI: Abi = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [],
+    name: 'platformFeeBps',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [],
     name: 'platformWallet',
@@ -167,7 +387,22 @@ export const BIRTHDAY_SONGS_ABI: Abi = [
   {
     inputs: [],
     name: 'getBalance',
-    outputs: [{ name: '', type: 'uint256' }],
+    outputs: [
+      { name: 'withdrawable', type: 'uint256' },
+      { name: 'escrowed', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getRevenue',
+    outputs: [
+      { name: 'creatorAccrued', type: 'uint256' },
+      { name: 'platformAccrued', type: 'uint256' },
+      { name: 'creatorTotal', type: 'uint256' },
+      { name: 'platformTotal', type: 'uint256' },
+    ],
     stateMutability: 'view',
     type: 'function',
   },
@@ -178,6 +413,23 @@ export const BIRTHDAY_SONGS_ABI: Abi = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [{ name: '', type: 'uint256' }],
+    name: 'metadataUris',
+    outputs: [{ name: '', type: 'string' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'tokenId', type: 'uint256' },
+      { name: 'metadataUri', type: 'string' },
+    ],
+    name: 'setMetadataUri',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
   {
     inputs: [{ name: 'tokenId', type: 'uint256' }],
     name: 'ownerOf',
@@ -199,6 +451,41 @@ export const BIRTHDAY_SONGS_ABI: Abi = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [],
+    name: 'claimPlatformFees',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'to', type: 'address' },
+      { indexed: false, name: 'amount', type: 'uint256' },
+    ],
+    name: 'Withdrawal',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'to', type: 'address' },
+      { indexed: false, name: 'amount', type: 'uint256' },
+    ],
+    name: 'PlatformFeesClaimed',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'tokenId', type: 'uint256' },
+      { indexed: false, name: 'creatorAmount', type: 'uint256' },
+      { indexed: false, name: 'platformAmount', type: 'uint256' },
+    ],
+    name: 'RevenueReleased',
+    type: 'event',
+  },
   {
     inputs: [],
     name: 'owner',
@@ -207,22 +494,25 @@ export const BIRTHDAY_SONGS_ABI: Abi = [
     type: 'function',
   },
   {
-    inputs: [
-      { name: '_birthdayPrice', type: 'uint256' },
-      { name: '_natalPrice', type: 'uint256' },
-    ],
-    name: 'setPrices',
+    inputs: [{ name: '_platformFee', type: 'uint256' }],
+    name: 'setPlatformFee',
     outputs: [],
     stateMutability: 'nonpayable',
     type: 'function',
   },
   {
-    inputs: [{ name: '_platformFee', type: 'uint256' }],
-    name: 'setPlatformFee',
+    inputs: [{ name: 'bps', type: 'uint256' }],
+    name: 'setPlatformFeeBps',
     outputs: [],
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    anonymous: false,
+    inputs: [{ indexed: false, name: 'bps', type: 'uint256' }],
+    name: 'PlatformFeeBpsUpdated',
+    type: 'event',
+  },
   {
     inputs: [],
     name: 'USDC',
@@ -232,61 +522,143 @@ export const BIRTHDAY_SONGS_ABI: Abi = [
   },
   {
     inputs: [],
-    name: 'birthdaysMinted',
-    outputs: [{ name: '', type: 'uint256' }],
+    name: 'getTiers',
+    outputs: [
+      {
+        components: [
+          { name: 'name', type: 'string' },
+          { name: 'price', type: 'uint256' },
+          { name: 'supplyLimit', type: 'uint256' },
+          { name: 'minted', type: 'uint256' },
+          { name: 'active', type: 'bool' },
+          { name: 'birthChart', type: 'bool' },
+          {
+            components: [
+              { name: 'emoji', type: 'string' },
+              { name: 'colorFrom', type: 'string' },
+              { name: 'colorTo', type: 'string' },
+              { name: 'description', type: 'string' },
+            ],
+            name: 'style',
+            type: 'tuple',
+          },
+        ],
+        name: '',
+        type: 'tuple[]',
+      },
+    ],
     stateMutability: 'view',
     type: 'function',
   },
   {
-    inputs: [],
-    name: 'natalsMinted',
-    outputs: [{ name: '', type: 'uint256' }],
+    inputs: [{ name: 'tierId', type: 'uint256' }],
+    name: 'getTier',
+    outputs: [
+      {
+        components: [
+          { name: 'name', type: 'string' },
+          { name: 'price', type: 'uint256' },
+          { name: 'supplyLimit', type: 'uint256' },
+          { name: 'minted', type: 'uint256' },
+          { name: 'active', type: 'bool' },
+          { name: 'birthChart', type: 'bool' },
+          {
+            components: [
+              { name: 'emoji', type: 'string' },
+              { name: 'colorFrom', type: 'string' },
+              { name: 'colorTo', type: 'string' },
+              { name: 'description', type: 'string' },
+            ],
+            name: 'style',
+            type: 'tuple',
+          },
+        ],
+        name: '',
+        type: 'tuple',
+      },
+    ],
     stateMutability: 'view',
     type: 'function',
   },
   {
-    inputs: [],
-    name: 'BIRTHDAY_SUPPLY_LIMIT',
+    inputs: [{ name: 'tierId', type: 'uint256' }],
+    name: 'priceOf',
     outputs: [{ name: '', type: 'uint256' }],
     stateMutability: 'view',
     type: 'function',
   },
   {
-    inputs: [],
-    name: 'NATAL_SUPPLY_LIMIT',
-    outputs: [{ name: '', type: 'uint256' }],
-    stateMutability: 'view',
+    inputs: [
+      { name: 'name', type: 'string' },
+      { name: 'price', type: 'uint256' },
+      { name: 'supplyLimit', type: 'uint256' },
+      { name: 'birthChart', type: 'bool' },
+      {
+        components: [
+          { name: 'emoji', type: 'string' },
+          { name: 'colorFrom', type: 'string' },
+          { name: 'colorTo', type: 'string' },
+          { name: 'description', type: 'string' },
+        ],
+        name: 'style',
+        type: 'tuple',
+      },
+    ],
+    name: 'addTier',
+    outputs: [{ name: 'tierId', type: 'uint256' }],
+    stateMutability: 'nonpayable',
     type: 'function',
   },
   {
-    inputs: [],
-    name: 'TOTAL_SUPPLY_LIMIT',
-    outputs: [{ name: '', type: 'uint256' }],
-    stateMutability: 'view',
+    inputs: [
+      { name: 'tierId', type: 'uint256' },
+      { name: 'name', type: 'string' },
+      { name: 'price', type: 'uint256' },
+      { name: 'supplyLimit', type: 'uint256' },
+      { name: 'active', type: 'bool' },
+      { name: 'birthChart', type: 'bool' },
+      {
+        components: [
+          { name: 'emoji', type: 'string' },
+          { name: 'colorFrom', type: 'string' },
+          { name: 'colorTo', type: 'string' },
+          { name: 'description', type: 'string' },
+        ],
+        name: 'style',
+        type: 'tuple',
+      },
+    ],
+    name: 'updateTier',
+    outputs: [],
+    stateMutability: 'nonpayable',
     type: 'function',
   },
   {
-    inputs: [],
-    name: 'getSupplyInfo',
-    outputs: [
-      { name: 'birthdaysMinted_', type: 'uint256' },
-      { name: 'birthdaysRemaining', type: 'uint256' },
-      { name: 'birthdayLimit', type: 'uint256' },
-      { name: 'birthdaysSoldOut', type: 'bool' },
-      { name: 'natalsMinted_', type: 'uint256' },
-      { name: 'natalsRemaining', type: 'uint256' },
-      { name: 'natalLimit', type: 'uint256' },
-      { name: 'natalsSoldOut', type: 'bool' },
-      { name: 'totalMinted', type: 'uint256' },
-      { name: 'totalRemaining', type: 'uint256' },
-      { name: 'totalLimit', type: 'uint256' },
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'tierId', type: 'uint256' },
+      { indexed: false, name: 'name', type: 'string' },
+      { indexed: false, name: 'price', type: 'uint256' },
+      { indexed: false, name: 'supplyLimit', type: 'uint256' },
     ],
-    stateMutability: 'view',
-    type: 'function',
+    name: 'TierAdded',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'tierId', type: 'uint256' },
+      { indexed: false, name: 'name', type: 'string' },
+      { indexed: false, name: 'price', type: 'uint256' },
+      { indexed: false, name: 'supplyLimit', type: 'uint256' },
+      { indexed: false, name: 'active', type: 'bool' },
+    ],
+    name: 'TierUpdated',
+    type: 'event',
   },
 ] as const
 
-// ERC20 ABI for USDC approve/allowance
+// ERC20 ABI for USDC approve/allowance, plus the EIP-2612 permit domain and nonce
 export const ERC20_ABI: Abi = [
   {
     inputs: [
@@ -315,4 +687,87 @@ export const ERC20_ABI: Abi = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [],
+    name: 'name',
+    outputs: [{ name: '', type: 'string' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'version',
+    outputs: [{ name: '', type: 'string' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'owner', type: 'address' }],
+    name: 'nonces',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+// SongCheckout ABI: pay in ETH or an accepted token, swapped to USDC at mint
+export const SONG_CHECKOUT_ABI: Abi = [
+  {
+    inputs: [
+      { name: 'tierId', type: 'uint256' },
+      { name: 'recipient', type: 'address' },
+      { name: 'orderDataUri', type: 'string' },
+      { name: 'tokenIn', type: 'address' },
+      { name: 'amountInMax', type: 'uint256' },
+    ],
+    name: 'mintWithSwap',
+    outputs: [{ name: 'tokenId', type: 'uint256' }],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'token', type: 'address' }],
+    name: 'swapPoolFee',
+    outputs: [{ name: '', type: 'uint24' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'tokenId', type: 'uint256' },
+      { indexed: true, name: 'tokenIn', type: 'address' },
+      { indexed: false, name: 'amountIn', type: 'uint256' },
+    ],
+    name: 'PaidWithSwap',
+    type: 'event',
+  },
+] as const
+
+// Uniswap V3 QuoterV2: how much of a token buys an exact USDC amount
+export const SWAP_QUOTER_ABI: Abi = [
+  {
+    inputs: [
+      {
+        name: 'params',
+        type: 'tuple',
+        components: [
+          { name: 'tokenIn', type: 'address' },
+          { name: 'tokenOut', type: 'address' },
+          { name: 'amount', type: 'uint256' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'sqrtPriceLimitX96', type: 'uint160' },
+        ],
+      },
+    ],
+    name: 'quoteExactOutputSingle',
+    outputs: [
+      { name: 'amountIn', type: 'uint256' },
+      { name: 'sqrtPriceX96After', type: 'uint160' },
+      { name: 'initializedTicksCrossed', type: 'uint32' },
+      { name: 'gasEstimate', type: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
 ] as const
@@ -0,0 +1,45 @@
+/**
+ * Creator encryption key
+ *
+ * Jose's order-decryption keypair is derived from a wallet signature, so it
+ * never has to be stored anywhere. The public half is published through the
+ * API worker so customers can encrypt orders to it.
+ */
+
+import type { WalletClient } from 'viem'
+import { CREATOR_KEY_MESSAGE, deriveCreatorKeyPair, type KeyPair } from '@birthday-songs/encryption'
+import { api } from './api-dev'
+import { getSessionToken } from './siwe'
+
+// Kept in memory only - signing again after a reload is cheap
+let cachedKeyPair: { address: string; keyPair: KeyPair } | null = null
+
+/**
+ * Derive the creator keypair by having the wallet sign CREATOR_KEY_MESSAGE.
+ * Publishes the public key on first use; refuses to continue if this wallet's
+ * key doesn't match the one customers are already encrypting to.
+ */
+export async function getCreatorKeyPair(walletClient: WalletClient): Promise<KeyPair> {
+  const address = walletClient.account?.address
+  if (!address) {
+    throw new Error('Wallet has no account')
+  }
+
+  if (cachedKeyPair?.address === address) {
+    return cachedKeyPair.keyPair
+  }
+
+  const signature = await walletClient.signMessage({ account: address, message: CREATOR_KEY_MESSAGE })
+  const keyPair = deriveCreatorKeyPair(signature)
+
+  const publishedKey = await api.getCreatorPublicKey()
+  if (!publishedKey) {
+    api.setSessionToken(await getSessionToken(walletClient))
+    await api.publishCreatorPublicKey(keyPair.publicKey)
+  } else if (publishedKey.toLowerCase() !== keyPair.publicKey.toLowerCase()) {
+    throw new Error('This wallet does not match the published creator key')
+  }
+
+  cachedKeyPair = { address, keyPair }
+  return keyPair
+}
@@ -0,0 +1,39 @@
+/**
+ * Holder listening key
+ *
+ * Song keys are wrapped for the wallet holding the NFT. The holder's keypair
+ * is derived from a wallet signature, like the creator's, and the public half
+ * is registered with the API worker so it can rewrap keys when NFTs move.
+ */
+
+import type { WalletClient } from 'viem'
+import { HOLDER_KEY_MESSAGE, deriveHolderKeyPair, type KeyPair } from '@birthday-songs/encryption'
+import { api } from './api-dev'
+import { getSessionToken } from './siwe'
+
+// Kept in memory only - signing again after a reload is cheap
+let cachedKeyPair: { address: string; keyPair: KeyPair } | null = null
+
+/**
+ * Derive the holder keypair by having the wallet sign HOLDER_KEY_MESSAGE and
+ * register its public key for the signed-in address
+ */
+export async function getHolderKeyPair(walletClient: WalletClient): Promise<KeyPair> {
+  const address = walletClient.account?.address
+  if (!address) {
+    throw new Error('Wallet has no account')
+  }
+
+  if (cachedKeyPair?.address === address) {
+    return cachedKeyPair.keyPair
+  }
+
+  const signature = await walletClient.signMessage({ account: address, message: HOLDER_KEY_MESSAGE })
+  const keyPair = deriveHolderKeyPair(signature)
+
+  api.setSessionToken(await getSessionToken(walletClient))
+  await api.registerHolderPublicKey(keyPair.publicKey)
+
+  cachedKeyPair = { address, keyPair }
+  return keyPair
+}
@@ -0,0 +1,115 @@
+/**
+ * Order message threads
+ *
+ * The creator, buyer and holder of a song can message each other about the
+ * order. Each message is encrypted here with a fresh key that is wrapped for
+ * every participant who has registered a public key, so the worker only ever
+ * stores ciphertext. The creator reads with the creator key, everyone else
+ * with their holder key.
+ */
+
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decryptSong,
+  encryptSong,
+  generateSongKey,
+  unwrapSongKey,
+  wrapSongKey
+} from '@birthday-songs/encryption'
+
+// Longest message the composer accepts
+export const MAX_MESSAGE_LENGTH = 2000
+
+// Wrapped-key label for the creator; other participants use their address
+export const CREATOR_RECIPIENT = 'creator'
+
+export type ThreadRole = 'creator' | 'buyer' | 'holder'
+
+// A revision asks for changes to a delivered song
+export type MessageKind = 'message' | 'revision'
+
+export interface ThreadParticipant {
+  role: ThreadRole
+  recipient: string
+  // null until they've registered a key; they can't read messages sent before
+  publicKey: string | null
+}
+
+export interface ThreadMessage {
+  id: string
+  sender: string
+  senderRole: ThreadRole
+  kind: MessageKind
+  ciphertext: string
+  wrappedKeys: Record<string, string>
+  createdAt: string
+}
+
+export interface Thread {
+  role: ThreadRole
+  participants: ThreadParticipant[]
+  messages: ThreadMessage[]
+}
+
+export interface EncryptedMessage {
+  kind: MessageKind
+  ciphertext: string
+  wrappedKeys: Record<string, string>
+}
+
+export interface DecryptedMessage {
+  id: string
+  sender: string
+  senderRole: ThreadRole
+  kind: MessageKind
+  createdAt: string
+  // null if the message wasn't encrypted to us (sent before we registered a key)
+  text: string | null
+}
+
+/**
+ * Encrypt a message to every participant with a public key
+ */
+export async function encryptMessage(
+  text: string,
+  kind: MessageKind,
+  participants: ThreadParticipant[]
+): Promise<EncryptedMessage> {
+  const messageKey = generateSongKey()
+  const ciphertext = bytesToBase64(await encryptSong(new TextEncoder().encode(text), messageKey))
+
+  const wrappedKeys: Record<string, string> = {}
+  for (const { recipient, publicKey } of participants) {
+    if (publicKey) {
+      wrappedKeys[recipient] = await wrapSongKey(messageKey, publicKey)
+    }
+  }
+
+  return { kind, ciphertext, wrappedKeys }
+}
+
+/**
+ * Decrypt the messages wrapped for recipient ('creator' or our address)
+ */
+export async function decryptMessages(
+  messages: ThreadMessage[],
+  recipient: string,
+  privateKey: string
+): Promise<DecryptedMessage[]> {
+  return Promise.all(messages.map(async ({ ciphertext, wrappedKeys, ...message }) => {
+    // Addresses are stored checksummed; ours may not be
+    const wrappedKey = Object.entries(wrappedKeys)
+      .find(([label]) => label.toLowerCase() === recipient.toLowerCase())?.[1]
+    if (!wrappedKey) return { ...message, text: null }
+
+    try {
+      const messageKey = await unwrapSongKey(wrappedKey, privateKey)
+      const text = new TextDecoder().decode(await decryptSong(base64ToBytes(ciphertext), messageKey))
+      return { ...message, text }
+    } catch (err) {
+      console.error('Message decrypt error:', err)
+      return { ...message, text: null }
+    }
+  }))
+}
@@ -0,0 +1,103 @@
+/**
+ * Sign-In-With-Ethereum helpers
+ *
+ * Builds an EIP-4361 message around a nonce issued by the API worker and has
+ * the connected wallet sign it
+ */
+
+import { createSiweMessage } from 'viem/siwe'
+import type { WalletClient } from 'viem'
+import { CHAIN_ID } from './contract'
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'https://birthday-songs-api-prod.dylan-259.workers.dev'
+
+export interface SiweProof {
+  message: string
+  signature: `0x${string}`
+}
+
+/**
+ * Fetch a nonce from the worker and sign a SIWE message with it
+ */
+export async function signSiweMessage(
+  walletClient: WalletClient,
+  address: `0x${string}`,
+  statement: string
+): Promise<SiweProof> {
+  const response = await fetch(`${API_BASE_URL}/api/auth/nonce`)
+  if (!response.ok) {
+    throw new Error(`Failed to get nonce: ${response.statusText}`)
+  }
+  const { nonce } = await response.json()
+
+  const message = createSiweMessage({
+    domain: window.location.host,
+    uri: window.location.origin,
+    address,
+    statement,
+    nonce,
+    chainId: CHAIN_ID,
+    version: '1',
+    issuedAt: new Date(),
+    expirationTime: new Date(Date.now() + 5 * 60 * 1000),
+  })
+
+  const signature = await walletClient.signMessage({ account: address, message })
+
+  return { message, signature }
+}
+
+interface StoredSession {
+  token: string
+  address: string
+  expiresAt: string
+}
+
+const SESSION_STORAGE_KEY = 'birthday-songs-session'
+
+/**
+ * Get a worker session token for the wallet, signing in with SIWE if there is
+ * no unexpired session for this address in sessionStorage
+ */
+export async function getSessionToken(walletClient: WalletClient): Promise<string> {
+  const address = walletClient.account?.address
+  if (!address) {
+    throw new Error('Wallet has no account')
+  }
+
+  const cached = sessionStorage.getItem(SESSION_STORAGE_KEY)
+  if (cached) {
+    const stored: StoredSession = JSON.parse(cached)
+    // Leave a minute of slack so the token doesn't expire mid-request
+    if (
+      stored.address.toLowerCase() === address.toLowerCase() &&
+      new Date(stored.expiresAt).getTime() - 60_000 > Date.now()
+    ) {
+      return stored.token
+    }
+  }
+
+  const proof = await signSiweMessage(walletClient, address, "Sign in to Jose's Birthday Songs")
+
+  const response = await fetch(`${API_BASE_URL}/api/auth/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(proof),
+  })
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Unknown error' }))
+    throw new Error(error.error || `Sign in failed: ${response.status}`)
+  }
+
+  const { token, expiresAt } = await response.json()
+  sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ token, address, expiresAt }))
+
+  return token
+}
+
+/**
+ * Forget the stored session (e.g. after the worker rejects it)
+ */
+export function clearSessionToken(): void {
+  sessionStorage.removeItem(SESSION_STORAGE_KEY)
+}
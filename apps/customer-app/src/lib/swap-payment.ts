@@ -0,0 +1,120 @@
+/**
+ * Paying for a song in ETH or another token
+ *
+ * SongCheckout swaps the payment to the exact USDC price at mint time. The form
+ * quotes that swap live through Uniswap's quoter and authorizes a little more
+ * for slippage; the checkout returns whatever the swap doesn't spend.
+ */
+
+import { formatUnits, zeroAddress, type Address } from 'viem'
+import { useBalance, useReadContract, useReadContracts } from 'wagmi'
+import {
+  CHECKOUT_CONFIG,
+  ERC20_ABI,
+  PAYMENT_ASSETS,
+  SONG_CHECKOUT_ABI,
+  SWAP_QUOTER_ABI,
+  SWAP_QUOTER_ADDRESS,
+  USDC_CONFIG,
+  WETH_ADDRESS,
+  type PaymentAsset,
+} from './contract'
+
+// How far over the quote the buyer lets the swap go (1%)
+const SLIPPAGE_BPS = BigInt(100)
+
+const QUOTE_REFRESH_MS = 15_000
+
+export interface AcceptedAsset {
+  asset: PaymentAsset
+  // Fee tier of the asset's USDC pool
+  poolFee: number
+}
+
+/**
+ * The token a payment is swapped from; ETH goes through WETH
+ */
+export function swapTokenOf(asset: PaymentAsset): Address {
+  return asset.address ?? WETH_ADDRESS
+}
+
+/**
+ * Short display amount, e.g. "0.00812 ETH"
+ */
+export function formatAssetAmount(amount: bigint, asset: PaymentAsset): string {
+  return `${Number(Number(formatUnits(amount, asset.decimals)).toPrecision(4))} ${asset.symbol}`
+}
+
+/**
+ * Payment assets SongCheckout currently accepts
+ */
+export function useAcceptedPaymentAssets(): AcceptedAsset[] {
+  const checkoutDeployed = CHECKOUT_CONFIG.address !== zeroAddress
+
+  const { data } = useReadContracts({
+    contracts: PAYMENT_ASSETS.map((asset) => ({
+      address: CHECKOUT_CONFIG.address,
+      abi: SONG_CHECKOUT_ABI,
+      functionName: 'swapPoolFee',
+      args: [swapTokenOf(asset)],
+    })),
+    query: { enabled: checkoutDeployed },
+  })
+
+  return PAYMENT_ASSETS.flatMap((asset, i) => {
+    const poolFee = Number(data?.[i]?.result ?? 0)
+    return poolFee > 0 ? [{ asset, poolFee }] : []
+  })
+}
+
+/**
+ * Live quote for paying amountOut USDC with the chosen asset, plus the buyer's
+ * balance and (for tokens) their allowance to the checkout
+ */
+export function useSwapPayment(payment: AcceptedAsset | null, amountOut: bigint, owner: Address | undefined) {
+  const asset = payment?.asset
+  const isToken = !!asset?.address
+
+  const { data: quote, isLoading: isQuoting } = useReadContract({
+    address: SWAP_QUOTER_ADDRESS,
+    abi: SWAP_QUOTER_ABI,
+    functionName: 'quoteExactOutputSingle',
+    args: asset && [{
+      tokenIn: swapTokenOf(asset),
+      tokenOut: USDC_CONFIG.address,
+      amount: amountOut,
+      fee: payment.poolFee,
+      sqrtPriceLimitX96: BigInt(0),
+    }],
+    query: { enabled: !!asset, refetchInterval: QUOTE_REFRESH_MS },
+  })
+
+  const { data: ethBalance, refetch: refetchEth } = useBalance({
+    address: owner,
+    query: { enabled: !!asset && !isToken && !!owner },
+  })
+
+  const { data: tokenData, refetch: refetchToken } = useReadContracts({
+    contracts: asset?.address && owner ? [
+      { address: asset.address, abi: ERC20_ABI, functionName: 'balanceOf', args: [owner] },
+      { address: asset.address, abi: ERC20_ABI, functionName: 'allowance', args: [owner, CHECKOUT_CONFIG.address] },
+    ] : [],
+    query: { enabled: isToken && !!owner },
+  })
+
+  const amountIn = (quote as readonly [bigint, bigint, number, bigint] | undefined)?.[0]
+  const amountInMax = amountIn !== undefined ? amountIn * (BigInt(10_000) + SLIPPAGE_BPS) / BigInt(10_000) : undefined
+  const balance = isToken ? tokenData?.[0]?.result as bigint | undefined : ethBalance?.value
+  const allowance = isToken ? tokenData?.[1]?.result as bigint | undefined : undefined
+
+  return {
+    amountIn,
+    amountInMax,
+    isQuoting,
+    balance,
+    hasEnoughBalance: balance !== undefined && amountInMax !== undefined && balance >= amountInMax,
+    // ETH needs no approval
+    needsApproval: isToken && amountInMax !== undefined && (allowance ?? BigInt(0)) < amountInMax,
+    refetch: () => (isToken ? refetchToken() : refetchEth()),
+  }
+}
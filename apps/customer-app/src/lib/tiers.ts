@@ -0,0 +1,89 @@
+/**
+ * Song tiers
+ *
+ * What can be ordered lives on-chain as owner-managed tiers: each has a name,
+ * USDC price, supply cap and an active flag, plus the style its NFT artwork is
+ * drawn with. Tiers flagged birthChart ask the buyer for birth time and place.
+ * The forms and dashboards render whatever getTiers returns, so adding or
+ * repricing a tier needs no frontend release.
+ */
+
+import { useReadContract } from 'wagmi'
+import { BIRTHDAY_SONGS_ABI, CONTRACT_CONFIG } from './contract'
+
+export interface SongTierStyle {
+  emoji: string
+  colorFrom: string
+  colorTo: string
+  description: string
+}
+
+export interface SongTier {
+  id: number
+  name: string
+  // USDC, 6 decimals
+  price: bigint
+  supplyLimit: number
+  minted: number
+  active: boolean
+  birthChart: boolean
+  style: SongTierStyle
+}
+
+interface ChainTier {
+  name: string
+  price: bigint
+  supplyLimit: bigint
+  minted: bigint
+  active: boolean
+  birthChart: boolean
+  style: SongTierStyle
+}
+
+// Shown for orders whose tier hasn't loaded yet
+export const FALLBACK_TIER_STYLE: SongTierStyle = {
+  emoji: '🎵',
+  colorFrom: '#60a5fa',
+  colorTo: '#3b82f6',
+  description: '',
+}
+
+/**
+ * Every tier, including inactive ones, indexed by tier id
+ */
+export function useTiers() {
+  const { data, isLoading, refetch } = useReadContract({
+    address: CONTRACT_CONFIG.address,
+    abi: BIRTHDAY_SONGS_ABI,
+    functionName: 'getTiers',
+  })
+
+  const tiers: SongTier[] = ((data as ChainTier[] | undefined) ?? []).map((tier, id) => ({
+    id,
+    name: tier.name,
+    price: tier.price,
+    supplyLimit: Number(tier.supplyLimit),
+    minted: Number(tier.minted),
+    active: tier.active,
+    birthChart: tier.birthChart,
+    style: tier.style,
+  }))
+
+  return { tiers, isLoading, refetch }
+}
+
+export function tierRemaining(tier: SongTier): number {
+  return Math.max(tier.supplyLimit - tier.minted, 0)
+}
+
+export function isTierSoldOut(tier: SongTier): boolean {
+  return tier.minted >= tier.supplyLimit
+}
+
+/**
+ * USDC amount (6 decimals) as dollars, e.g. "$25" or "$12.50"
+ */
+export function formatUsdc(amount: bigint): string {
+  const dollars = Number(amount) / 1e6
+  return `$${Number.isInteger(dollars) ? dollars : dollars.toFixed(2)}`
+}
@@ -0,0 +1,196 @@
+/**
+ * Metadata for delivered songs
+ *
+ * Until an order is fulfilled its token shows the contract's on-chain
+ * placeholder. At delivery the dashboard draws artwork from the song's
+ * waveform and a small player page, uploads both with the metadata JSON to
+ * Arweave, and fulfills the order with the JSON's URI. The recipient's first
+ * name only appears when the buyer allowed publication.
+ *
+ * A song held for its birthday is fulfilled before the reveal, and its
+ * metadata can't change on the day. So held songs never name the recipient
+ * on chain and show as a surprise with the reveal date, not as Ready.
+ */
+
+import { formatUsdc, type SongTier } from './tiers'
+
+// Bars in the waveform artwork
+const WAVEFORM_BARS = 48
+
+// Longest public preview clip
+export const PREVIEW_MAX_SECONDS = 30
+
+export interface SongMetadataInput {
+  tokenId: number
+  tier: SongTier
+  pricePaid: bigint
+  // Unix seconds
+  orderedAt: number
+  deliveredAt: number
+  // Only set when the buyer allowed publication
+  recipientFirstName?: string
+  // Public preview route for the player page, if the buyer allowed one
+  previewUrl?: string
+  // Reveal date (YYYY-MM-DD) of a song held until the birthday
+  revealAt?: string
+}
+
+export interface SongMetadataFiles {
+  image: string
+  animation: string
+  // Everything except image and animation_url, which point at the uploads
+  metadata: Record<string, unknown>
+  // For the public gallery; only set when the buyer allowed publication
+  recipientFirstName?: string
+}
+
+/**
+ * Peak level (0-1) of each slice of the song, for the artwork
+ */
+export async function extractWaveform(song: Blob, bars: number = WAVEFORM_BARS): Promise<number[]> {
+  const context = new AudioContext()
+  try {
+    const buffer = await context.decodeAudioData(await song.arrayBuffer())
+    const samples = buffer.getChannelData(0)
+    const sliceLength = Math.max(1, Math.floor(samples.length / bars))
+
+    const peaks = Array.from({ length: bars }, (_, i) => {
+      let peak = 0
+      for (let j = i * sliceLength; j < Math.min((i + 1) * sliceLength, samples.length); j++) {
+        peak = Math.max(peak, Math.abs(samples[j]))
+      }
+      return peak
+    })
+
+    const loudest = Math.max(...peaks, 0.01)
+    return peaks.map((peak) => peak / loudest)
+  } finally {
+    context.close()
+  }
+}
+
+/**
+ * Length of an audio file in seconds
+ */
+export async function audioDuration(audio: Blob): Promise<number> {
+  const context = new AudioContext()
+  try {
+    const buffer = await context.decodeAudioData(await audio.arrayBuffer())
+    return buffer.duration
+  } finally {
+    context.close()
+  }
+}
+
+/**
+ * First word of the recipient's name, if the buyer allowed publication
+ */
+export function publishableFirstName(recipientName: string | undefined, allowPublication: boolean): string | undefined {
+  if (!allowPublication || !recipientName) return undefined
+  return recipientName.trim().split(/\s+/)[0] || undefined
+}
+
+/**
+ * Artwork, player page and metadata JSON for a delivered song
+ */
+export function buildSongMetadata(input: SongMetadataInput, peaks: number[]): SongMetadataFiles {
+  const { tokenId, tier, pricePaid, orderedAt, deliveredAt, revealAt } = input
+  // The gallery still gets the name; the worker only lists held songs once revealed
+  const recipientFirstName = revealAt ? undefined : input.recipientFirstName
+  const title = recipientFirstName ? `${tier.name} for ${recipientFirstName}` : tier.name
+  const image = renderArtwork({ ...input, recipientFirstName }, peaks)
+
+  const attributes: Record<string, unknown>[] = [
+    { trait_type: 'Tier', value: tier.name },
+    { trait_type: 'Price', value: formatUsdc(pricePaid) },
+    { display_type: 'date', trait_type: 'Ordered', value: orderedAt },
+  ]
+  if (revealAt) {
+    attributes.push(
+      { trait_type: 'Status', value: 'Birthday surprise' },
+      { display_type: 'date', trait_type: 'Reveal', value: Math.floor(Date.parse(`${revealAt}T00:00:00Z`) / 1000) },
+    )
+  } else {
+    attributes.push(
+      { trait_type: 'Status', value: 'Ready' },
+      { display_type: 'date', trait_type: 'Delivered', value: deliveredAt },
+      { trait_type: 'Song', value: 'Encrypted on Arweave' },
+    )
+  }
+  if (recipientFirstName) {
+    attributes.push({ trait_type: 'Recipient', value: recipientFirstName })
+  }
+
+  const description = revealAt
+    ? `${tier.style.description} Unwraps for the NFT holder on ${revealAt}.`
+    : `${tier.style.description} Download available for NFT holder.`
+
+  return {
+    image,
+    animation: renderPlayerPage(`${title} #${tokenId}`, image, input.previewUrl),
+    metadata: {
+      name: `${title} #${tokenId}`,
+      description,
+      attributes,
+    },
+    recipientFirstName: input.recipientFirstName,
+  }
+}
+
+function renderArtwork({ tokenId, tier, pricePaid, recipientFirstName }: SongMetadataInput, peaks: number[]): string {
+  const barWidth = 280 / peaks.length
+  const bars = peaks.map((peak, i) => {
+    const height = Math.max(4, Math.round(peak * 140))
+    const x = (60 + i * barWidth).toFixed(1)
+    return `<rect x="${x}" y="${200 - height / 2}" width="${(barWidth * 0.6).toFixed(1)}" height="${height}" rx="2" fill="white" opacity="0.85"/>`
+  }).join('')
+
+  return [
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 400">',
+    '<defs><linearGradient id="bg" x1="0%" y1="0%" x2="100%" y2="100%">',
+    `<stop offset="0%" style="stop-color:${escapeXml(tier.style.colorFrom)}"/>`,
+    `<stop offset="100%" style="stop-color:${escapeXml(tier.style.colorTo)}"/>`,
+    '</linearGradient></defs>',
+    '<rect width="400" height="400" fill="url(#bg)"/>',
+    `<text x="200" y="50" font-family="Arial" font-size="20" font-weight="bold" fill="white" text-anchor="middle">${escapeXml(tier.name)}</text>`,
+    `<text x="200" y="80" font-family="Arial" font-size="14" fill="white" opacity="0.8" text-anchor="middle">#${tokenId} • ${formatUsdc(pricePaid)}</text>`,
+    bars,
+    recipientFirstName
+      ? `<text x="200" y="340" font-family="Arial" font-size="22" font-weight="bold" fill="white" text-anchor="middle">for ${escapeXml(recipientFirstName)}</text>`
+      : `<text x="200" y="350" font-size="40" text-anchor="middle">${escapeXml(tier.style.emoji)}</text>`,
+    '</svg>',
+  ].join('')
+}
+
+function renderPlayerPage(title: string, artwork: string, previewUrl?: string): string {
+  const player = previewUrl
+    ? `<audio controls src="${escapeXml(previewUrl)}"></audio>`
+    : '<p>The full song plays for its holder in the Birthday Songs app.</p>'
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<style>
+body { margin: 0; min-height: 100vh; display: flex; flex-direction: column; align-items: center; justify-content: center; gap: 16px; background: #111; color: #eee; font-family: Arial, sans-serif; text-align: center; }
+svg { width: min(90vw, 400px); height: auto; border-radius: 16px; }
+audio { width: min(90vw, 400px); }
+</style>
+</head>
+<body>
+${artwork}
+${player}
+</body>
+</html>
+`
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -1,5 +1,6 @@
 import { http, createConfig } from 'wagmi'
 import { base } from 'wagmi/chains'
+import { coinbaseWallet } from 'wagmi/connectors'
 import { farcasterMiniApp } from '@farcaster/miniapp-wagmi-connector'
 
 // Optimized for Farcaster miniapp - use latest miniapp connector
@@ -10,6 +11,8 @@ export const config = createConfig({
   },
   connectors: [
     farcasterMiniApp(), // Latest Farcaster miniapp connector
+    // Passkey smart wallet, so gift recipients without a wallet can create one to claim
+    coinbaseWallet({ appName: "Jose's Birthday Songs", preference: 'smartWalletOnly' }),
   ],
 })
 
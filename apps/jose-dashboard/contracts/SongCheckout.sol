@@ -0,0 +1,139 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./BirthdaySongs.sol";
+
+/**
+ * @dev The subset of Uniswap V3's SwapRouter02 used to pay in other assets
+ */
+interface ISwapRouter {
+    struct ExactOutputSingleParams {
+        address tokenIn;
+        address tokenOut;
+        uint24 fee;
+        address recipient;
+        uint256 amountOut;
+        uint256 amountInMaximum;
+        uint160 sqrtPriceLimitX96;
+    }
+    
+    function exactOutputSingle(ExactOutputSingleParams calldata params) external payable returns (uint256 amountIn);
+    function refundETH() external payable;
+}
+
+/**
+ * @title SongCheckout
+ * @dev Lets buyers pay for a BirthdaySongs order in ETH or an accepted ERC-20.
+ * The payment is swapped to the exact USDC price through the router and the
+ * song is minted with the buyer as orderedBy, so refunds still go to them.
+ * Must be approved on BirthdaySongs with setCheckout.
+ */
+contract SongCheckout is Ownable {
+    using SafeERC20 for IERC20;
+    
+    BirthdaySongs public immutable songs;
+    IERC20 public immutable USDC;
+    
+    ISwapRouter public swapRouter;
+    
+    // Accepted tokens, mapped to the fee tier of their USDC pool (0 = not accepted)
+    mapping(address => uint24) public swapPoolFee;
+    
+    // ETH payments swap from WETH (OP Stack predeploy on Base)
+    address public constant WETH = 0x4200000000000000000000000000000000000006;
+    
+    event PaidWithSwap(uint256 indexed tokenId, address indexed tokenIn, uint256 amountIn);
+    event SwapRouterUpdated(address indexed router);
+    event SwapPoolFeeUpdated(address indexed token, uint24 fee);
+    
+    constructor(address _songs, address _swapRouter) Ownable(msg.sender) {
+        songs = BirthdaySongs(_songs);
+        USDC = songs.USDC();
+        swapRouter = ISwapRouter(_swapRouter);
+    }
+    
+    /**
+     * @dev Order paying in ETH (tokenIn = address(0)) or an accepted ERC-20,
+     * swapped to the exact USDC price. amountInMax caps what the swap may spend
+     * (slippage protection); whatever it doesn't spend is returned to the buyer.
+     * The recipient is the buyer for their own song, or the wallet a gift goes to.
+     */
+    function mintWithSwap(
+        uint256 tierId,
+        address recipient,
+        string calldata orderDataUri,
+        address tokenIn,
+        uint256 amountInMax
+    ) external payable returns (uint256 tokenId) {
+        bool payingEth = tokenIn == address(0);
+        address swapToken = payingEth ? WETH : tokenIn;
+        require(swapPoolFee[swapToken] != 0, "Token not accepted");
+        
+        uint256 price = songs.priceOf(tierId);
+        ISwapRouter.ExactOutputSingleParams memory params = ISwapRouter.ExactOutputSingleParams({
+            tokenIn: swapToken,
+            tokenOut: address(USDC),
+            fee: swapPoolFee[swapToken],
+            recipient: address(this),
+            amountOut: price,
+            amountInMaximum: amountInMax,
+            sqrtPriceLimitX96: 0
+        });
+        
+        uint256 amountIn;
+        if (payingEth) {
+            require(msg.value == amountInMax, "Send amountInMax in ETH");
+            amountIn = swapRouter.exactOutputSingle{value: amountInMax}(params);
+            swapRouter.refundETH();
+        } else {
+            require(msg.value == 0, "ETH sent with token payment");
+            IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountInMax);
+            IERC20(tokenIn).forceApprove(address(swapRouter), amountInMax);
+            amountIn = swapRouter.exactOutputSingle(params);
+            IERC20(tokenIn).forceApprove(address(swapRouter), 0);
+        }
+        
+        USDC.forceApprove(address(songs), price);
+        tokenId = songs.mintFromCheckout(msg.sender, tierId, recipient, orderDataUri);
+        emit PaidWithSwap(tokenId, tokenIn, amountIn);
+        
+        // Return what the swap didn't need
+        uint256 unspent = amountInMax - amountIn;
+        if (unspent > 0) {
+            if (payingEth) {
+                (bool sent, ) = msg.sender.call{value: unspent}("");
+                require(sent, "ETH refund failed");
+            } else {
+                IERC20(tokenIn).safeTransfer(msg.sender, unspent);
+            }
+        }
+    }
+    
+    /**
+     * @dev Accepts the router's refund of unspent ETH during mintWithSwap
+     */
+    receive() external payable {
+        require(msg.sender == address(swapRouter), "Unexpected ETH");
+    }
+    
+    /**
+     * @dev Point at a different swap router
+     */
+    function setSwapRouter(address router) external onlyOwner {
+        require(router != address(0), "Invalid router");
+        swapRouter = ISwapRouter(router);
+        emit SwapRouterUpdated(router);
+    }
+    
+    /**
+     * @dev Accept a token (WETH for ETH) through its USDC pool's fee tier, or 0 to stop
+     */
+    function setSwapPoolFee(address token, uint24 fee) external onlyOwner {
+        require(token != address(USDC), "USDC needs no swap");
+        swapPoolFee[token] = fee;
+        emit SwapPoolFeeUpdated(token, fee);
+    }
+}
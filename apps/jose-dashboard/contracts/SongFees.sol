@@ -0,0 +1,133 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./BirthdaySongs.sol";
+
+/**
+ * @title SongFees
+ * @dev Payments, escrow and the revenue split for BirthdaySongs, as a linked
+ * library. Payments are escrowed at mint, split between creator and platform
+ * when their order is fulfilled, and paid out when each side pulls its share.
+ */
+library SongFees {
+    using SafeERC20 for IERC20;
+    
+    struct Ledger {
+        // Payments locked until their order is fulfilled (or refunded)
+        uint256 escrowed;
+        // Released revenue not yet paid out
+        uint256 creatorAccrued;
+        uint256 platformAccrued;
+        // Released revenue all time
+        uint256 creatorTotal;
+        uint256 platformTotal;
+        // Platform share of each order's payment, fixed at mint
+        mapping(uint256 => uint256) platformShare;
+    }
+    
+    /**
+     * @dev Apply a buyer's USDC permit. If someone already submitted it from
+     * the mempool the allowance is in place anyway; if not, the transfer reverts.
+     */
+    function permit(
+        IERC20 usdc,
+        address buyer,
+        uint256 amount,
+        BirthdaySongs.PermitSignature calldata signature
+    ) external {
+        try IERC20Permit(address(usdc)).permit(
+            buyer, address(this), amount, signature.deadline, signature.v, signature.r, signature.s
+        ) {} catch {}
+    }
+    
+    /**
+     * @dev Collect an order's payment into escrow and fix the platform's share
+     * of it at the current rate
+     */
+    function escrow(
+        Ledger storage ledger,
+        IERC20 usdc,
+        address from,
+        uint256 tokenId,
+        uint256 amount,
+        uint256 platformFeeBps
+    ) external {
+        usdc.safeTransferFrom(from, address(this), amount);
+        ledger.escrowed += amount;
+        ledger.platformShare[tokenId] = amount * platformFeeBps / 10_000;
+    }
+    
+    /**
+     * @dev Return an unfulfilled order's payment from escrow
+     */
+    function refund(Ledger storage ledger, IERC20 usdc, address to, uint256 amount) external {
+        ledger.escrowed -= amount;
+        usdc.safeTransfer(to, amount);
+    }
+    
+    /**
+     * @dev Move a fulfilled order's payment out of escrow, split by the
+     * platform share fixed at mint. Also sends the optional ETH fee on fulfill
+     * to the platform and returns anything paid above it.
+     */
+    function release(
+        Ledger storage ledger,
+        uint256 tokenId,
+        uint256 pricePaid,
+        address platformWallet,
+        uint256 platformFee,
+        uint256 paid
+    ) external {
+        require(paid >= platformFee, "Insufficient platform fee");
+        
+        uint256 platformAmount = ledger.platformShare[tokenId];
+        uint256 creatorAmount = pricePaid - platformAmount;
+        
+        ledger.escrowed -= pricePaid;
+        ledger.creatorAccrued += creatorAmount;
+        ledger.platformAccrued += platformAmount;
+        ledger.creatorTotal += creatorAmount;
+        ledger.platformTotal += platformAmount;
+        
+        emit BirthdaySongs.RevenueReleased(tokenId, creatorAmount, platformAmount);
+        
+        if (platformFee > 0) {
+            (bool sent, ) = platformWallet.call{value: platformFee}("");
+            require(sent, "Platform fee transfer failed");
+        }
+        
+        if (paid > platformFee) {
+            (bool returned, ) = msg.sender.call{value: paid - platformFee}("");
+            require(returned, "Overpayment refund failed");
+        }
+    }
+    
+    /**
+     * @dev Pay out the creator's released share
+     */
+    function withdrawCreator(Ledger storage ledger, IERC20 usdc, address to) external {
+        uint256 amount = ledger.creatorAccrued;
+        require(amount > 0, "No funds to withdraw");
+        
+        ledger.creatorAccrued = 0;
+        usdc.safeTransfer(to, amount);
+        
+        emit BirthdaySongs.Withdrawal(to, amount);
+    }
+    
+    /**
+     * @dev Pay out the platform's released share
+     */
+    function claimPlatform(Ledger storage ledger, IERC20 usdc, address to) external {
+        uint256 amount = ledger.platformAccrued;
+        require(amount > 0, "No fees to claim");
+        
+        ledger.platformAccrued = 0;
+        usdc.safeTransfer(to, amount);
+        
+        emit BirthdaySongs.PlatformFeesClaimed(to, amount);
+    }
+}
@@ -0,0 +1,135 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/utils/Strings.sol";
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "./BirthdaySongs.sol";
+
+/**
+ * @title SongMetadata
+ * @dev On-chain token metadata for BirthdaySongs. Deployed as a linked library
+ * so the artwork and JSON don't count against BirthdaySongs' code size limit.
+ */
+library SongMetadata {
+    using Strings for uint256;
+    
+    /**
+     * @dev A fulfilled token's off-chain metadata URI if it has one, otherwise
+     * the on-chain placeholder
+     */
+    function tokenURI(
+        uint256 tokenId,
+        BirthdaySongs.Order storage orderRef,
+        BirthdaySongs.Tier storage tierRef,
+        string storage metadataUri
+    ) public view returns (string memory) {
+        if (orderRef.fulfilled && bytes(metadataUri).length > 0) {
+            return metadataUri;
+        }
+        
+        BirthdaySongs.Order memory order = orderRef;
+        BirthdaySongs.Tier memory tier = tierRef;
+        
+        // Built in pieces so no single expression runs out of stack slots
+        string memory json = string(abi.encodePacked(
+            '{"name":"', tier.name, ' #', tokenId.toString(), '",',
+            '"description":"', tier.style.description, ' ', statusDescription(order), '",',
+            '"image":"data:image/svg+xml;base64,', Base64.encode(bytes(artwork(tokenId, order, tier))), '",'
+        ));
+        json = string(abi.encodePacked(json, '"attributes":[', attributes(order, tier), ']}'));
+        
+        return string(abi.encodePacked(
+            'data:application/json;base64,',
+            Base64.encode(bytes(json))
+        ));
+    }
+    
+    /**
+     * @dev SVG card in the tier's gradient with the order's status badge
+     */
+    function artwork(
+        uint256 tokenId,
+        BirthdaySongs.Order memory order,
+        BirthdaySongs.Tier memory tier
+    ) internal pure returns (string memory) {
+        string memory header = string(abi.encodePacked(
+            '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 400">',
+            '<defs><linearGradient id="bg" x1="0%" y1="0%" x2="100%" y2="100%">',
+            '<stop offset="0%" style="stop-color:', tier.style.colorFrom, '"/>',
+            '<stop offset="100%" style="stop-color:', tier.style.colorTo, '"/>',
+            '</linearGradient></defs>',
+            '<rect width="400" height="400" fill="url(#bg)"/>'
+        ));
+        
+        string memory title = string(abi.encodePacked(
+            '<text x="200" y="50" font-family="Arial" font-size="20" font-weight="bold" fill="white" text-anchor="middle">', tier.name, '</text>',
+            '<text x="200" y="80" font-family="Arial" font-size="14" fill="white" opacity="0.8" text-anchor="middle">#', tokenId.toString(), ' ', unicode"•", ' ', formatUsd(order.pricePaid), '</text>'
+        ));
+        
+        return string(abi.encodePacked(
+            header,
+            title,
+            '<circle cx="200" cy="200" r="70" fill="white" opacity="0.15"/>',
+            '<text x="200" y="220" font-size="80" text-anchor="middle">', tier.style.emoji, '</text>',
+            '<rect x="100" y="320" width="200" height="40" rx="20" fill="', statusColor(order), '"/>',
+            '<text x="200" y="347" font-family="Arial" font-size="16" font-weight="bold" fill="white" text-anchor="middle">', status(order), '</text>',
+            '</svg>'
+        ));
+    }
+    
+    /**
+     * @dev Comma-separated attribute objects; dates only once they've happened
+     */
+    function attributes(
+        BirthdaySongs.Order memory order,
+        BirthdaySongs.Tier memory tier
+    ) internal pure returns (string memory) {
+        string memory attrs = string(abi.encodePacked(
+            '{"trait_type":"Tier","value":"', tier.name, '"},',
+            '{"trait_type":"Price","value":"', formatUsd(order.pricePaid), '"},',
+            '{"trait_type":"Status","value":"', status(order), '"},',
+            '{"display_type":"date","trait_type":"Ordered","value":', order.orderedAt.toString(), '}'
+        ));
+        
+        if (order.fulfilledAt > 0) {
+            attrs = string(abi.encodePacked(
+                attrs,
+                ',{"display_type":"date","trait_type":"Delivered","value":', order.fulfilledAt.toString(), '}'
+            ));
+        }
+        
+        if (order.fulfilled && bytes(order.songUri).length > 0) {
+            attrs = string(abi.encodePacked(
+                attrs,
+                ',{"trait_type":"Song","value":"Encrypted on Arweave"}'
+            ));
+        }
+        
+        return attrs;
+    }
+    
+    function status(BirthdaySongs.Order memory order) internal pure returns (string memory) {
+        return order.refunded ? "Refunded" : order.fulfilled ? "Ready" : "Creating";
+    }
+    
+    function statusColor(BirthdaySongs.Order memory order) internal pure returns (string memory) {
+        return order.refunded ? "#9ca3af" : order.fulfilled ? "#22c55e" : "#f59e0b";
+    }
+    
+    function statusDescription(BirthdaySongs.Order memory order) internal pure returns (string memory) {
+        return order.refunded ? "This order was refunded." : order.fulfilled ? "Download available for NFT holder." : "Currently being created.";
+    }
+    
+    /**
+     * @dev USDC amount (6 decimals) as dollars, e.g. "$25" or "$12.50"
+     */
+    function formatUsd(uint256 amount) internal pure returns (string memory) {
+        uint256 cents = (amount % 1e6) / 1e4;
+        if (cents == 0) {
+            return string(abi.encodePacked("$", (amount / 1e6).toString()));
+        }
+        return string(abi.encodePacked(
+            "$", (amount / 1e6).toString(), ".", cents < 10 ? "0" : "", cents.toString()
+        ));
+    }
+}
@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./BirthdaySongs.sol";
+
+/**
+ * @title SongTiers
+ * @dev Tier management for BirthdaySongs: launching, updating and counting
+ * supply. Deployed as a linked library to keep BirthdaySongs under the code
+ * size limit; it works on BirthdaySongs' own tier storage.
+ */
+library SongTiers {
+    function add(
+        BirthdaySongs.Tier[] storage tiers,
+        string memory name,
+        uint256 price,
+        uint256 supplyLimit,
+        bool birthChart,
+        BirthdaySongs.TierStyle memory style
+    ) public returns (uint256 tierId) {
+        require(bytes(name).length > 0, "Tier name required");
+        tierId = tiers.length;
+        tiers.push(BirthdaySongs.Tier({
+            name: name,
+            price: price,
+            supplyLimit: supplyLimit,
+            minted: 0,
+            active: true,
+            birthChart: birthChart,
+            style: style
+        }));
+        emit BirthdaySongs.TierAdded(tierId, name, price, supplyLimit);
+    }
+    
+    /**
+     * @dev The supply cap can't go below what's already minted
+     */
+    function update(
+        BirthdaySongs.Tier[] storage tiers,
+        uint256 tierId,
+        string calldata name,
+        uint256 price,
+        uint256 supplyLimit,
+        bool active,
+        bool birthChart,
+        BirthdaySongs.TierStyle calldata style
+    ) external {
+        require(tierId < tiers.length, "Unknown tier");
+        BirthdaySongs.Tier storage tier = tiers[tierId];
+        require(bytes(name).length > 0, "Tier name required");
+        require(supplyLimit >= tier.minted, "Limit below minted supply");
+        
+        tier.name = name;
+        tier.price = price;
+        tier.supplyLimit = supplyLimit;
+        tier.active = active;
+        tier.birthChart = birthChart;
+        tier.style = style;
+        
+        emit BirthdaySongs.TierUpdated(tierId, name, price, supplyLimit, active);
+    }
+}
@@ -9,7 +9,7 @@ contract DeployMainnet is Script {
         // Base mainnet USDC address
         address USDC_ADDRESS = 0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913;
         
-        // Platform wallet (dev/you) - receives $0.50 USDC per order
+        // Platform wallet (dev/you) - claims 2% of each sale in USDC
         address PLATFORM_ADDRESS = 0x9db1afA33E74111F80fc2A7cc458006F55AC76f4;
         
         // Creator wallet (Jose) - would normally receive sales minus fees
@@ -34,8 +34,10 @@ contract DeployMainnet is Script {
             PLATFORM_ADDRESS
         );
         
-        // Set prices (owner can call this)
-        birthdaySongs.setPrices(BIRTHDAY_PRICE, NATAL_PRICE);
+        // Price and cap the launch tiers (0 = Birthday, 1 = Natal Chart);
+        // the owner can adjust them and add tiers later
+        _setTier(birthdaySongs, 0, BIRTHDAY_PRICE, BIRTHDAY_SUPPLY);
+        _setTier(birthdaySongs, 1, NATAL_PRICE, NATAL_SUPPLY);
         
         // Set platform fee (only platform wallet can call this)
         // Since deployer IS the platform wallet, we can set it now
@@ -66,4 +68,12 @@ contract DeployMainnet is Script {
         console.log("- Natal Chart Song: $250");
         console.log("====================================");
     }
-}
\ No newline at end of file
+    
+    /**
+     * @dev Reprice and resize one of the launch tiers, keeping its name and style
+     */
+    function _setTier(BirthdaySongs songs, uint256 tierId, uint256 price, uint256 supplyLimit) internal {
+        BirthdaySongs.Tier memory tier = songs.getTier(tierId);
+        songs.updateTier(tierId, tier.name, price, supplyLimit, tier.active, tier.birthChart, tier.style);
+    }
+}
@@ -3,22 +3,27 @@ pragma solidity ^0.8.19;
 
 import "forge-std/Script.sol";
 import "../contracts/BirthdaySongs.sol";
+import "../contracts/SongCheckout.sol";
 
 contract DeployMainnetProduction is Script {
     function run() external {
         // Base mainnet USDC address
         address USDC_ADDRESS = 0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913;
         
-        // Platform wallet (dev/you) - receives $0.50 USDC per order
+        // Platform wallet (dev/you) - claims 2% of each sale in USDC
         address PLATFORM_ADDRESS = 0x9db1afA33E74111F80fc2A7cc458006F55AC76f4;
         
+        // Uniswap V3 SwapRouter02 on Base, for paying in ETH and other tokens
+        address SWAP_ROUTER = 0x2626664c2603336E57B271c5C0b26F421741e481;
+        uint24 WETH_USDC_POOL_FEE = 500;     // 0.05% pool
+        
         // Jose's wallet - will be the owner after transfer
         address JOSE_ADDRESS = 0xD31C0C3BdDAcc482Aa5fE64d27cDDBaB72864733;
         
         // PRODUCTION SETTINGS
         uint256 BIRTHDAY_PRICE = 25 * 1e6;   // $25 in USDC (6 decimals)
         uint256 NATAL_PRICE = 250 * 1e6;     // $250 in USDC (6 decimals)
-        uint256 PLATFORM_FEE = 0.5 * 1e6;    // $0.50 USDC platform fee
+        uint256 PLATFORM_FEE_BPS = 200;      // 2% of each sale ($0.50 of a birthday song)
         
         // Supply limits
         uint256 BIRTHDAY_SUPPLY = 25;
@@ -33,14 +38,22 @@ contract DeployMainnetProduction is Script {
             PLATFORM_ADDRESS
         );
         
-        // Set prices (owner can call this)
-        birthdaySongs.setPrices(BIRTHDAY_PRICE, NATAL_PRICE);
+        // Price and cap the launch tiers (0 = Birthday, 1 = Natal Chart);
+        // the owner can adjust them and add tiers later
+        _setTier(birthdaySongs, 0, BIRTHDAY_PRICE, BIRTHDAY_SUPPLY);
+        _setTier(birthdaySongs, 1, NATAL_PRICE, NATAL_SUPPLY);
+        
+        // Set platform revenue share (platform wallet can call this)
+        birthdaySongs.setPlatformFeeBps(PLATFORM_FEE_BPS);
         
-        // Set platform fee (platform wallet can call this)
-        birthdaySongs.setPlatformFee(PLATFORM_FEE);
+        // Checkout for paying in ETH, swapped to USDC at mint time
+        SongCheckout checkout = new SongCheckout(address(birthdaySongs), SWAP_ROUTER);
+        checkout.setSwapPoolFee(checkout.WETH(), WETH_USDC_POOL_FEE);
+        birthdaySongs.setCheckout(address(checkout), true);
         
         // Transfer ownership to Jose so he controls withdrawals
         birthdaySongs.transferOwnership(JOSE_ADDRESS);
+        checkout.transferOwnership(JOSE_ADDRESS);
         
         vm.stopBroadcast();
         
@@ -48,9 +61,10 @@ contract DeployMainnetProduction is Script {
         console.log("BirthdaySongs PRODUCTION deployed to Base mainnet!");
         console.log("====================================");
         console.log("Contract address:", address(birthdaySongs));
+        console.log("Checkout address:", address(checkout));
         console.log("USDC address:", USDC_ADDRESS);
         console.log("Platform address:", PLATFORM_ADDRESS);
-        console.log("Creator address:", CREATOR_ADDRESS);
+        console.log("Creator address:", JOSE_ADDRESS);
         console.log("");
         console.log("PRODUCTION PRICES:");
         console.log("Birthday Song: $25");
@@ -61,4 +75,12 @@ contract DeployMainnetProduction is Script {
         console.log("Natal Chart Songs: 25");
         console.log("====================================");
     }
-}
\ No newline at end of file
+    
+    /**
+     * @dev Reprice and resize one of the launch tiers, keeping its name and style
+     */
+    function _setTier(BirthdaySongs songs, uint256 tierId, uint256 price, uint256 supplyLimit) internal {
+        BirthdaySongs.Tier memory tier = songs.getTier(tierId);
+        songs.updateTier(tierId, tier.name, price, supplyLimit, tier.active, tier.birthChart, tier.style);
+    }
+}
@@ -24,8 +24,9 @@ contract DeployOneContract is Script {
             PLATFORM_WALLET
         );
         
-        // Set initial test prices
-        birthdaySongs.setPrices(TEST_BIRTHDAY_PRICE, TEST_NATAL_PRICE);
+        // Set initial test prices on the launch tiers, keeping their supply
+        _setTier(birthdaySongs, 0, TEST_BIRTHDAY_PRICE, 25);
+        _setTier(birthdaySongs, 1, TEST_NATAL_PRICE, 25);
         
         vm.stopBroadcast();
         
@@ -40,17 +41,24 @@ contract DeployOneContract is Script {
         console.log("Current prices (TEST MODE):");
         console.log("- Birthday Song: $0.01");
         console.log("- Natal Chart Song: $0.01");
-        console.log("- Platform fee: $0.50 per order");
+        console.log("- Platform share: 2% of each sale");
         console.log("");
         console.log("TEST MODE - Low prices for testing");
         console.log("====================================");
         console.log("");
         console.log("Next steps:");
         console.log("1. Test with a few orders at $0.01");
-        console.log("2. Update prices to production ($25/$250):");
-        console.log("   cast send <CONTRACT> \"setPrices(uint256,uint256)\" 25000000 250000000");
+        console.log("2. Update tier prices to production ($25/$250) in the dashboard's Song Tiers panel");
         console.log("3. Transfer ownership to Jose:");
         console.log("   cast send <CONTRACT> \"transferOwnership(address)\" 0xD31C0C3BdDAcc482Aa5fE64d27cDDBaB72864733");
         console.log("====================================");
     }
-}
\ No newline at end of file
+    
+    /**
+     * @dev Reprice and resize one of the launch tiers, keeping its name and style
+     */
+    function _setTier(BirthdaySongs songs, uint256 tierId, uint256 price, uint256 supplyLimit) internal {
+        BirthdaySongs.Tier memory tier = songs.getTier(tierId);
+        songs.updateTier(tierId, tier.name, price, supplyLimit, tier.active, tier.birthChart, tier.style);
+    }
+}
@@ -22,10 +22,10 @@ export default function Home() {
   const isCreator = true
 
   // Verify contract connection
-  const { data: birthdayPrice, isError: priceError } = useReadContract({
+  const { isError: contractError } = useReadContract({
     address: CONTRACT_CONFIG.address,
     abi: BIRTHDAY_SONGS_ABI,
-    functionName: 'birthdayPrice',
+    functionName: 'getTiers',
   })
 
   // Initialize Farcaster SDK (temporarily disabled)
@@ -122,7 +122,7 @@ export default function Home() {
       </header>
 
       {/* Contract status */}
-      {priceError && (
+      {contractError && (
         <div className="mx-4 mb-2 px-3 py-2 bg-red-500/20 rounded-xl">
           <p className="text-white text-xs text-center">⚠️ Contract not deployed yet</p>
         </div>
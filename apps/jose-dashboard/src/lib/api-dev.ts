@@ -4,34 +4,63 @@
  * Simplified version for local testing without package dependencies
  */
 
-// Local types
-interface OrderData {
-  type: 'birthday' | 'natal'
-  recipientName: string
-  birthDate?: string
-  birthTime?: string
-  birthLocation?: string
-  relationship?: string
-  interests?: string
-  sunSign?: string
-  risingSign?: string
-  moonSign?: string
-  musicalStyle?: string
-  message?: string
-  orderedBy: string
-  orderedAt: string
-  allowPublication: boolean
-  tokenId?: number
-}
+import {
+  base64ToBytes,
+  createDecryptStream,
+  createEncryptStream,
+  decryptOrderData,
+  encryptOrderData,
+  encryptedSongLength,
+  generateSongKey,
+  unwrapSongKey,
+  wrapSongKey
+} from '@birthday-songs/encryption'
+import type { OrderData, OrderIndexMetadata } from '@birthday-songs/shared'
+import type { EncryptedMessage, Thread, ThreadMessage } from './messages'
+import type { SongMetadataFiles } from './token-metadata'
 
 interface UploadResponse {
   success: boolean
   arweaveId: string
   uri?: string
-  songKey?: string
   cost?: string
 }
 
+// Farcaster user a gift can be sent to
+interface FarcasterUser {
+  fid: number
+  username: string
+  displayName: string | null
+  pfpUrl: string | null
+  address: `0x${string}`
+}
+
+// Promo voucher the creator signed, as the contract's mintWithVoucher takes it
+interface Voucher {
+  code: string
+  discountBps: number
+  // Unix seconds
+  expiresAt: number
+  // 0 = unlimited
+  maxUses: number
+  // 0 = any tier, otherwise tier id + 1
+  tier: number
+  signature: `0x${string}`
+  createdAt: string
+  redemptions: number
+}
+
+interface ConfirmMintResponse {
+  success: boolean
+  orders: { tokenId: number; arweaveId: string }[]
+}
+
+// Song key wrapped for the creator and for the API's key escrow
+interface WrappedSongKeys {
+  creator: string
+  escrow: string
+}
+
 interface BalanceResponse {
   credits: number
   creditsFormatted: string
@@ -39,6 +68,8 @@ interface BalanceResponse {
 }
 
 interface SupplyInfo {
+  tierId: number
+  name: string
   minted: number
   remaining: number
   limit: number
@@ -48,8 +79,7 @@ interface SupplyInfo {
 interface SupplyResponse {
   success: boolean
   supply: {
-    birthday: SupplyInfo
-    natal: SupplyInfo
+    tiers: SupplyInfo[]
     total: {
       minted: number
       remaining: number
@@ -63,36 +93,33 @@ async function mockEncrypt(data: any): Promise<string> {
   return btoa(JSON.stringify(data))
 }
 
-// Production decryption function
-async function decrypt(encryptedData: string): Promise<any> {
-  console.log('🔓 Decrypting data type:', typeof encryptedData)
-  console.log('🔓 Encrypted data preview:', encryptedData.substring(0, 100) + '...')
-  
-  // The Railway service should return properly decrypted data
-  // If it's already a JSON string, parse it directly
-  if (typeof encryptedData === 'string' && encryptedData.startsWith('{')) {
-    try {
-      const parsed = JSON.parse(encryptedData)
-      console.log('✅ Successfully parsed JSON data:', parsed)
-      return parsed
-    } catch (error) {
-      console.error('❌ Failed to parse JSON:', error)
-    }
-  }
-  
-  // If it's base64 encoded, decode it first
-  try {
-    const decoded = atob(encryptedData)
-    console.log('🔓 Base64 decoded:', decoded.substring(0, 100) + '...')
-    const parsed = JSON.parse(decoded)
-    console.log('✅ Successfully decoded and parsed:', parsed)
-    return parsed
-  } catch (error) {
-    console.error('❌ Failed to decode/parse base64:', error)
-    throw new Error('Failed to decrypt order data')
+/**
+ * A delivered song the buyer asked to hold until its delivery date
+ */
+export class SongScheduledError extends Error {
+  constructor(readonly revealAt: string) {
+    super(`This song unlocks on ${revealAt}`)
+    this.name = 'SongScheduledError'
   }
 }
 
+/**
+ * Whether fetch can send a ReadableStream body. Firefox and Safari can't and
+ * would send the string "[object ReadableStream]" instead.
+ */
+function supportsRequestStreams(): boolean {
+  let duplexAccessed = false
+  const hasContentType = new Request('data:,', {
+    method: 'POST',
+    body: new ReadableStream(),
+    get duplex() {
+      duplexAccessed = true
+      return 'half'
+    },
+  } as RequestInit).headers.has('Content-Type')
+  return duplexAccessed && !hasContentType
+}
+
 // API base URL
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'https://birthday-songs-api-prod.dylan-259.workers.dev'
 
@@ -101,21 +128,34 @@ const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'https://birthday-songs-
  */
 class DevBirthdaySongsAPI {
   private baseUrl: string
+  private sessionToken: string | null = null
 
   constructor(baseUrl: string = API_BASE_URL) {
     this.baseUrl = baseUrl
   }
 
+  /**
+   * Session token from SIWE sign-in, sent on every request
+   */
+  setSessionToken(token: string | null): void {
+    this.sessionToken = token
+  }
+
+  private authHeaders(): Record<string, string> {
+    return this.sessionToken ? { Authorization: `Bearer ${this.sessionToken}` } : {}
+  }
+
   private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`
     console.log('🌐 API Request:', options.method || 'GET', url)
     
     const response = await fetch(url, {
+      ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...this.authHeaders(),
         ...options.headers,
       },
-      ...options,
     })
 
     console.log('📡 API Response:', response.status, response.statusText)
@@ -156,55 +196,214 @@ class DevBirthdaySongsAPI {
   }
 
   /**
-   * Upload order
+   * Get the creator's published encryption public key (null if not yet published)
+   */
+  async getCreatorPublicKey(): Promise<string | null> {
+    const response = await fetch(`${this.baseUrl}/api/settings/creator-key`)
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw new Error(`Failed to get creator key: ${response.statusText}`)
+    }
+    const { publicKey } = await response.json()
+    return publicKey
+  }
+
+  /**
+   * Publish the creator's encryption public key (creator session required)
+   */
+  async publishCreatorPublicKey(publicKey: string): Promise<void> {
+    await this.request('/api/settings/creator-key', {
+      method: 'PUT',
+      body: JSON.stringify({ publicKey }),
+    })
+  }
+
+  /**
+   * Upload order, encrypted here to the creator's key before it leaves the browser
    */
   async uploadOrder(orderData: OrderData): Promise<UploadResponse> {
+    const creatorPublicKey = await this.getCreatorPublicKey()
+    if (!creatorPublicKey) {
+      throw new Error('Creator encryption key not published yet')
+    }
+
+    const encryptedData = await encryptOrderData(orderData, creatorPublicKey)
+    const metadata: OrderIndexMetadata = {
+      tierId: orderData.tierId,
+      orderedBy: orderData.orderedBy,
+      orderedAt: orderData.orderedAt,
+      allowPublication: orderData.allowPublication,
+      deliverBy: orderData.deliveryDate,
+      revealOnDelivery: orderData.revealOnDelivery,
+    }
+
     return this.request<UploadResponse>('/api/orders/upload', {
       method: 'POST',
-      body: JSON.stringify({
-        orderData: orderData,
-        metadata: {
-          tokenId: orderData.tokenId,
-          type: orderData.type,
+      body: JSON.stringify({ encryptedData, metadata }),
+    })
+  }
+
+  /**
+   * Get the API's key escrow public key (song keys are wrapped for it so they
+   * can be rewrapped when the NFT changes hands)
+   */
+  async getEscrowPublicKey(): Promise<string> {
+    const { publicKey } = await this.request<{ publicKey: string }>('/api/settings/escrow-key')
+    return publicKey
+  }
+
+  /**
+   * Register the signed-in holder's public key for receiving song keys
+   */
+  async registerHolderPublicKey(publicKey: string): Promise<void> {
+    await this.request('/api/keys/holder', {
+      method: 'PUT',
+      body: JSON.stringify({ publicKey }),
+    })
+  }
+
+  /**
+   * Upload song, encrypted here chunk by chunk with a fresh per-token key.
+   * Only wrapped copies of the key leave the browser.
+   */
+  async uploadSong(tokenId: number, song: Blob): Promise<UploadResponse> {
+    const creatorPublicKey = await this.getCreatorPublicKey()
+    if (!creatorPublicKey) {
+      throw new Error('Creator encryption key not published yet')
+    }
+
+    const songKey = generateSongKey()
+    const wrappedKeys: WrappedSongKeys = {
+      creator: await wrapSongKey(songKey, creatorPublicKey),
+      escrow: await wrapSongKey(songKey, await this.getEscrowPublicKey()),
+    }
+
+    const upload = (body: BodyInit, init: RequestInit = {}) =>
+      this.request<UploadResponse>(`/api/songs/upload?tokenId=${tokenId}`, {
+        ...init,
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'X-Song-Key-Creator': wrappedKeys.creator,
+          'X-Song-Key-Escrow': wrappedKeys.escrow,
+          // A streamed body has no Content-Length, and the worker needs the size up front
+          'X-Song-Length': String(encryptedSongLength(song.size)),
         },
-      }),
+        body,
+      })
+
+    // Encrypted as it is sent, so the song is never held in memory twice
+    if (supportsRequestStreams()) {
+      try {
+        const encryptedSong = song.stream().pipeThrough(createEncryptStream(songKey))
+        return await upload(encryptedSong, { duplex: 'half' } as RequestInit)
+      } catch (error) {
+        // Streaming needs HTTP/2; fetch rejects before sending over HTTP/1.1 (e.g. the dev server)
+        if (!(error instanceof TypeError)) throw error
+      }
+    }
+
+    // Buffered into a Blob (not a string) so fetch can send it with a Content-Length
+    return upload(await new Response(song.stream().pipeThrough(createEncryptStream(songKey))).blob())
+  }
+
+  /**
+   * Upload an unencrypted preview clip (creator session required). The worker
+   * refuses it unless the buyer allowed publication; uri is its public route.
+   */
+  async uploadPreview(tokenId: number, clip: Blob): Promise<UploadResponse> {
+    return this.request<UploadResponse>(`/api/songs/${tokenId}/preview`, {
+      method: 'POST',
+      headers: { 'Content-Type': clip.type || 'audio/mpeg' },
+      body: clip,
     })
   }
 
   /**
-   * Upload song
+   * Upload a delivered song's artwork, player page and metadata JSON to
+   * Arweave (creator session required); returns the metadata URI
    */
-  async uploadSong(tokenId: number, songBase64: string): Promise<UploadResponse> {
-    return this.request<UploadResponse>('/api/songs/upload', {
+  async uploadSongMetadata(tokenId: number, files: SongMetadataFiles): Promise<UploadResponse> {
+    return this.request<UploadResponse>(`/api/songs/${tokenId}/metadata`, {
       method: 'POST',
-      body: JSON.stringify({
-        songData: songBase64,
-        tokenId: tokenId,
-      }),
+      body: JSON.stringify(files),
     })
   }
 
   /**
-   * Fetch order
+   * A token's message thread (creator, buyer or holder session required).
+   * Messages are still encrypted; see decryptMessages.
+   */
+  async getThread(tokenId: number): Promise<Thread> {
+    const { role, participants, messages } = await this.request<Thread>(`/api/threads/${tokenId}`)
+    return { role, participants, messages }
+  }
+
+  /**
+   * Post a message encrypted with encryptMessage to a token's thread
    */
-  async fetchOrder(arweaveId: string): Promise<OrderData> {
+  async postMessage(tokenId: number, message: EncryptedMessage): Promise<ThreadMessage> {
+    const response = await this.request<{ message: ThreadMessage }>(`/api/threads/${tokenId}`, {
+      method: 'POST',
+      body: JSON.stringify(message),
+    })
+    return response.message
+  }
+
+  /**
+   * Fetch order and decrypt it with the creator's private key
+   */
+  async fetchOrder(arweaveId: string, creatorPrivateKey: string): Promise<OrderData> {
     console.log('🔍 API: Fetching order from:', `${this.baseUrl}/api/orders/${arweaveId}`)
     
     const response = await this.request<{ encryptedData: string }>(`/api/orders/${arweaveId}`)
-    console.log('📦 API: Received response:', response)
     
-    const decrypted = await decrypt(response.encryptedData)
-    console.log('🔓 API: Decrypted data:', decrypted)
-    
-    return decrypted
+    return decryptOrderData(response.encryptedData, creatorPrivateKey)
   }
 
   /**
-   * Fetch song
+   * Stream a song from Arweave, decrypting it chunk by chunk with an unwrapped song key
    */
-  async fetchSong(arweaveId: string, songKey: string): Promise<string> {
-    const response = await this.request<{ encryptedData: string }>(`/api/songs/${arweaveId}`)
-    return decrypt(response.encryptedData)
+  async fetchSong(arweaveId: string, songKey: string): Promise<ReadableStream<Uint8Array>> {
+    return this.streamSong(`https://arweave.net/${arweaveId}`, songKey)
+  }
+
+  /**
+   * Stream a song the signed-in wallet holds, unwrapping its song key with
+   * the holder's private key
+   */
+  async fetchOwnedSong(
+    tokenId: number,
+    holderAddress: string,
+    holderPrivateKey: string
+  ): Promise<ReadableStream<Uint8Array>> {
+    const { status, revealAt, wrappedKey, songUrl, songData } = await this.request<{
+      status?: 'scheduled'
+      revealAt?: string
+      wrappedKey: string | null
+      songUrl?: string
+      songData?: string
+    }>(`/api/songs/${tokenId}/${holderAddress}`)
+
+    if (status === 'scheduled') {
+      throw new SongScheduledError(revealAt ?? '')
+    }
+
+    // Songs delivered before per-token keys were stored unencrypted
+    if (!wrappedKey || !songUrl) {
+      return base64ToBlob(songData || '').stream()
+    }
+
+    const songKey = await unwrapSongKey(wrappedKey, holderPrivateKey)
+    return this.streamSong(songUrl, songKey)
+  }
+
+  private async streamSong(songUrl: string, songKey: string): Promise<ReadableStream<Uint8Array>> {
+    const response = await fetch(songUrl)
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to fetch song: ${response.statusText}`)
+    }
+    return response.body.pipeThrough(createDecryptStream(songKey))
   }
 
   /**
@@ -214,6 +413,68 @@ class DevBirthdaySongsAPI {
     const response = await this.request<{ orders: any[] }>('/api/orders')
     return response.orders || []
   }
+
+  /**
+   * Bind the order uploaded for a mint to its token id once the mint is confirmed
+   */
+  async confirmMint(txHash: string): Promise<ConfirmMintResponse> {
+    return this.request<ConfirmMintResponse>('/api/orders/confirm', {
+      method: 'POST',
+      body: JSON.stringify({ txHash }),
+    })
+  }
+
+  /**
+   * Look up a gift recipient's wallet by Farcaster username or FID
+   */
+  async resolveFarcasterUser(query: string): Promise<FarcasterUser> {
+    const response = await this.request<{ user: FarcasterUser }>(`/api/farcaster/user?q=${encodeURIComponent(query)}`)
+    return response.user
+  }
+
+  /**
+   * Look up a promo code; throws if it's unknown, expired or used up
+   */
+  async getVoucher(code: string): Promise<Voucher> {
+    const response = await this.request<{ voucher: Voucher }>(`/api/vouchers/${encodeURIComponent(code.trim())}`)
+    return response.voucher
+  }
+
+  /**
+   * All published vouchers with their redemptions (creator session required)
+   */
+  async listVouchers(): Promise<Voucher[]> {
+    const response = await this.request<{ vouchers: Voucher[] }>('/api/vouchers')
+    return response.vouchers || []
+  }
+
+  /**
+   * Publish a voucher the creator has signed (creator session required)
+   */
+  async publishVoucher(voucher: Omit<Voucher, 'createdAt' | 'redemptions'>): Promise<Voucher> {
+    const response = await this.request<{ voucher: Voucher }>('/api/vouchers', {
+      method: 'PUT',
+      body: JSON.stringify(voucher),
+    })
+    return response.voucher
+  }
+
+  /**
+   * Uploads whose mint never happened
+   */
+  async listOrphanedUploads(): Promise<any[]> {
+    const response = await this.request<{ orders: any[] }>('/api/orders?status=orphaned')
+    return response.orders || []
+  }
+
+  /**
+   * Remove an orphaned upload (or all of them) from the order index
+   */
+  async deleteOrphanedUploads(id?: string): Promise<number> {
+    const endpoint = id ? `/api/orders/orphans/${encodeURIComponent(id)}` : '/api/orders/orphans'
+    const response = await this.request<{ deleted: number }>(endpoint, { method: 'DELETE' })
+    return response.deleted
+  }
 }
 
 // Export singleton instance
@@ -239,8 +500,6 @@ export async function fundWithETH(ethAmount: number): Promise<void> {
 }
 
 export async function uploadOrderToPrivateDrive(
-  driveId: string,
-  drivePassword: string,
   orderData: OrderData
 ): Promise<string> {
   const result = await api.uploadOrder(orderData)
@@ -248,29 +507,24 @@ export async function uploadOrderToPrivateDrive(
 }
 
 export async function uploadSongToPrivateDrive(
-  driveId: string,
-  drivePassword: string,
   tokenId: number,
-  songBase64: string
-): Promise<{ fileId: string; songKey: string }> {
-  const result = await api.uploadSong(tokenId, songBase64)
-  return {
-    fileId: result.arweaveId,
-    songKey: result.songKey || `song-${tokenId}`
-  }
+  song: Blob
+): Promise<string> {
+  const result = await api.uploadSong(tokenId, song)
+  return result.arweaveId
 }
 
 export async function fetchOrderFromPrivateDrive(
   fileId: string,
-  drivePassword: string
+  creatorPrivateKey: string
 ): Promise<OrderData> {
-  return api.fetchOrder(fileId)
+  return api.fetchOrder(fileId, creatorPrivateKey)
 }
 
 export async function fetchSongFromPrivateDrive(
   fileId: string,
   songKey: string
-): Promise<string> {
+): Promise<ReadableStream<Uint8Array>> {
   return api.fetchSong(fileId, songKey)
 }
 
@@ -289,17 +543,10 @@ export function fileToBase64(file: File): Promise<string> {
 }
 
 export function base64ToBlob(base64: string, mimeType: string = 'audio/mpeg'): Blob {
-  const byteCharacters = atob(base64)
-  const byteNumbers = new Array(byteCharacters.length)
-  for (let i = 0; i < byteCharacters.length; i++) {
-    byteNumbers[i] = byteCharacters.charCodeAt(i)
-  }
-  const byteArray = new Uint8Array(byteNumbers)
-  return new Blob([byteArray], { type: mimeType })
+  return new Blob([base64ToBytes(base64)], { type: mimeType })
 }
 
-export function downloadSong(base64: string, filename: string = 'birthday-song.mp3'): void {
-  const blob = base64ToBlob(base64)
+export function downloadSong(blob: Blob, filename: string = 'birthday-song.mp3'): void {
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
   a.href = url
@@ -310,21 +557,8 @@ export function downloadSong(base64: string, filename: string = 'birthday-song.m
   URL.revokeObjectURL(url)
 }
 
-export function generateSongAccessKey(tokenId: number, songKey: string): string {
-  return btoa(JSON.stringify({ tokenId, songKey }))
-}
-
-export function parseSongAccessKey(accessKey: string): { tokenId: number; songKey: string } {
-  try {
-    const decoded = atob(accessKey)
-    return JSON.parse(decoded)
-  } catch {
-    throw new Error('Invalid access key format')
-  }
-}
-
 export async function getSupply(): Promise<SupplyResponse> {
   return api.getSupply()
 }
 
-export type { OrderData, UploadResponse, BalanceResponse, SupplyResponse, SupplyInfo }
\ No newline at end of file
+export type { OrderData, OrderIndexMetadata, FarcasterUser, Voucher, UploadResponse, WrappedSongKeys, BalanceResponse, SupplyResponse, SupplyInfo }
\ No newline at end of file
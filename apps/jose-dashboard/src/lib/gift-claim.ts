@@ -0,0 +1,70 @@
+/**
+ * Claim links for gifted songs
+ *
+ * A claimable gift is minted into the contract's claim escrow under a one-time
+ * claim key. The buyer shares a link carrying the key's secret in the URL
+ * fragment, which browsers never send to a server. The recipient claims by
+ * signing their own address with it, so nobody who sees the claim transaction
+ * can redirect the NFT to another wallet.
+ */
+
+import { encodeAbiParameters, isHex, keccak256, type Address, type Hex } from 'viem'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+
+export interface ClaimKey {
+  // Goes in the link only
+  secret: Hex
+  // Stored in the contract as the gift's commitment
+  address: Address
+}
+
+export interface ClaimLink {
+  tokenId: number
+  secret: Hex
+}
+
+/**
+ * Generate a fresh one-time claim key for a gift
+ */
+export function createClaimKey(): ClaimKey {
+  const secret = generatePrivateKey()
+  return { secret, address: privateKeyToAccount(secret).address }
+}
+
+/**
+ * Link the recipient opens to claim their gift
+ */
+export function buildClaimLink(tokenId: number, secret: Hex, origin: string = window.location.origin): string {
+  return `${origin}/claim/?token=${tokenId}#${secret}`
+}
+
+/**
+ * Read the token id and claim secret back out of a claim link
+ */
+export function parseClaimLink(url: string): ClaimLink | null {
+  const { searchParams, hash } = new URL(url)
+  const token = searchParams.get('token')
+  const secret = hash.replace(/^#/, '')
+
+  if (!token || !/^\d+$/.test(token) || !isHex(secret) || secret.length !== 66) {
+    return null
+  }
+  return { tokenId: Number(token), secret }
+}
+
+/**
+ * Sign a claim of tokenId for claimant, as BirthdaySongs.claimGift checks it
+ */
+export async function signGiftClaim(
+  secret: Hex,
+  tokenId: number,
+  claimant: Address,
+  chainId: number,
+  contract: Address
+): Promise<Hex> {
+  const digest = keccak256(encodeAbiParameters(
+    [{ type: 'uint256' }, { type: 'address' }, { type: 'uint256' }, { type: 'address' }],
+    [BigInt(chainId), contract, BigInt(tokenId), claimant]
+  ))
+  return privateKeyToAccount(secret).signMessage({ message: { raw: digest } })
+}
@@ -0,0 +1,147 @@
+/**
+ * Streaming song playback
+ *
+ * Feeds a decrypted song stream into an <audio> element through MediaSource,
+ * so playback starts on the first chunk and the whole file is never held in
+ * memory. Formats MediaSource can't play (e.g. WAV) fall back to a Blob URL.
+ */
+
+// Formats we append to a SourceBuffer directly; everything else uses the Blob fallback
+const MEDIA_SOURCE_TYPES = ['audio/mpeg']
+
+// Seconds of already-played audio kept when the SourceBuffer runs out of room
+const BACK_BUFFER_SECONDS = 10
+
+/**
+ * Play a decrypted song stream. Returns a function that stops loading and
+ * releases the object URL.
+ */
+export async function playSongStream(
+  audio: HTMLAudioElement,
+  stream: ReadableStream<Uint8Array>
+): Promise<() => void> {
+  const reader = stream.getReader()
+  const first = await reader.read()
+  const head = first.value ?? new Uint8Array(0)
+  const mimeType = sniffAudioType(head)
+
+  let url: string
+  let cancelled = false
+
+  if (
+    typeof MediaSource !== 'undefined' &&
+    MEDIA_SOURCE_TYPES.includes(mimeType) &&
+    MediaSource.isTypeSupported(mimeType)
+  ) {
+    const mediaSource = new MediaSource()
+    url = URL.createObjectURL(mediaSource)
+    audio.src = url
+
+    await new Promise((resolve) => mediaSource.addEventListener('sourceopen', resolve, { once: true }))
+    const sourceBuffer = mediaSource.addSourceBuffer(mimeType)
+    // MP3 has no container timestamps; play chunks back to back
+    sourceBuffer.mode = 'sequence'
+
+    audio.play().catch(() => {})
+
+    const pump = async () => {
+      if (!first.done) await appendChunk(audio, sourceBuffer, head)
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done || cancelled) break
+        await appendChunk(audio, sourceBuffer, value)
+      }
+      if (!cancelled && mediaSource.readyState === 'open') {
+        mediaSource.endOfStream()
+      }
+    }
+
+    pump().catch((error) => {
+      console.error('Song stream failed:', error)
+      if (mediaSource.readyState === 'open') mediaSource.endOfStream('decode')
+    })
+  } else {
+    const rest = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (!first.done) controller.enqueue(head)
+      },
+      async pull(controller) {
+        const { done, value } = await reader.read()
+        if (done) controller.close()
+        else controller.enqueue(value)
+      },
+    })
+    // Blob parts stay out of the JS heap, unlike one big ArrayBuffer
+    const blob = new Blob([await new Response(rest).blob()], { type: mimeType })
+    url = URL.createObjectURL(blob)
+    audio.src = url
+    audio.play().catch(() => {})
+  }
+
+  return () => {
+    cancelled = true
+    reader.cancel().catch(() => {})
+    audio.pause()
+    audio.removeAttribute('src')
+    URL.revokeObjectURL(url)
+  }
+}
+
+/**
+ * Guess an audio MIME type from a file's first bytes
+ */
+export function sniffAudioType(bytes: Uint8Array): string {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end))
+
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return 'audio/wav'
+  if (ascii(0, 4) === 'fLaC') return 'audio/flac'
+  if (ascii(0, 4) === 'OggS') return 'audio/ogg'
+  if (ascii(4, 8) === 'ftyp') return 'audio/mp4'
+  if (ascii(0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return 'audio/mpeg'
+  return 'application/octet-stream'
+}
+
+/**
+ * File extension for a sniffed audio MIME type
+ */
+export function audioExtension(mimeType: string): string {
+  const extensions: Record<string, string> = {
+    'audio/wav': 'wav',
+    'audio/flac': 'flac',
+    'audio/ogg': 'ogg',
+    'audio/mp4': 'm4a',
+    'audio/mpeg': 'mp3',
+  }
+  return extensions[mimeType] ?? 'bin'
+}
+
+/**
+ * Append to a SourceBuffer, evicting already-played audio if it is full
+ */
+async function appendChunk(audio: HTMLAudioElement, sourceBuffer: SourceBuffer, chunk: Uint8Array): Promise<void> {
+  for (;;) {
+    try {
+      sourceBuffer.appendBuffer(chunk)
+      await updateEnd(sourceBuffer)
+      return
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'QuotaExceededError')) throw error
+
+      const evictUntil = audio.currentTime - BACK_BUFFER_SECONDS
+      if (evictUntil > 0 && sourceBuffer.buffered.length && sourceBuffer.buffered.start(0) < evictUntil) {
+        sourceBuffer.remove(0, evictUntil)
+        await updateEnd(sourceBuffer)
+      } else {
+        // Nothing played yet to evict; wait for playback to make room
+        await new Promise((resolve) => audio.addEventListener('timeupdate', resolve, { once: true }))
+      }
+    }
+  }
+}
+
+function updateEnd(sourceBuffer: SourceBuffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    sourceBuffer.addEventListener('updateend', () => resolve(), { once: true })
+    sourceBuffer.addEventListener('error', () => reject(new Error('SourceBuffer append failed')), { once: true })
+  })
+}
@@ -0,0 +1,74 @@
+/**
+ * USDC permits for one-transaction checkout
+ *
+ * Instead of an approve transaction, the buyer signs an EIP-2612 permit for the
+ * order price and the contract's *WithPermit mint functions redeem it while
+ * taking payment.
+ */
+
+import { BaseError, UserRejectedRequestError, parseSignature, type Address, type Hex } from 'viem'
+import { CONTRACT_CONFIG, USDC_CONFIG } from './contract'
+
+// How long a signed permit stays usable
+const PERMIT_TTL_SECONDS = 30 * 60
+
+export interface PermitSignature {
+  deadline: bigint
+  v: number
+  r: Hex
+  s: Hex
+}
+
+/**
+ * The token's EIP-712 domain, as read from its name() and version()
+ */
+export interface PermitDomain {
+  name: string
+  version: string
+}
+
+/**
+ * Typed data for a permit letting the BirthdaySongs contract take value from owner
+ */
+export function buildUsdcPermit(owner: Address, value: bigint, nonce: bigint, domain: PermitDomain) {
+  return {
+    domain: {
+      name: domain.name,
+      version: domain.version,
+      chainId: USDC_CONFIG.chainId,
+      verifyingContract: USDC_CONFIG.address,
+    },
+    types: {
+      Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+      ],
+    },
+    primaryType: 'Permit',
+    message: {
+      owner,
+      spender: CONTRACT_CONFIG.address,
+      value,
+      nonce,
+      deadline: BigInt(Math.floor(Date.now() / 1000) + PERMIT_TTL_SECONDS),
+    },
+  } as const
+}
+
+/**
+ * Split a signature into the (v, r, s) the contract takes
+ */
+export function toPermitSignature(signature: Hex, deadline: bigint): PermitSignature {
+  const { r, s, v, yParity } = parseSignature(signature)
+  return { deadline, v: Number(v ?? BigInt(yParity + 27)), r, s }
+}
+
+/**
+ * Whether the user declined in their wallet, as opposed to the wallet failing
+ */
+export function isUserRejection(err: unknown): boolean {
+  return err instanceof BaseError && !!err.walk((e) => e instanceof UserRejectedRequestError)
+}
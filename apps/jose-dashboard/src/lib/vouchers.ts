@@ -0,0 +1,95 @@
+/**
+ * Promo vouchers
+ *
+ * The creator signs a voucher as EIP-712 typed data in the dashboard and
+ * publishes it to the API under its code. Buyers enter the code on the order
+ * form and mint through mintWithVoucher, which checks the signature, expiry,
+ * tier and max uses and counts the redemption.
+ */
+
+import { type Hex } from 'viem'
+import { CONTRACT_CONFIG } from './contract'
+import type { SongTier } from './tiers'
+
+export interface VoucherTerms {
+  code: string
+  discountBps: number
+  // Unix seconds
+  expiresAt: number
+  // 0 = unlimited
+  maxUses: number
+  // 0 = any tier, otherwise tier id + 1
+  tier: number
+}
+
+/**
+ * What a voucher's tier field covers, e.g. "Any song" or "Natal Chart Songs"
+ */
+export function voucherTierLabel(tier: number, tiers: SongTier[]): string {
+  if (tier === 0) return 'Any song'
+  const name = tiers[tier - 1]?.name ?? `Tier ${tier - 1}`
+  return name.endsWith('s') ? name : `${name}s`
+}
+
+/**
+ * Upper-cased code, as vouchers are signed and stored
+ */
+export function normalizeVoucherCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+/**
+ * Typed data the creator signs; must match BirthdaySongs.VOUCHER_TYPEHASH
+ */
+export function buildVoucherTypedData(terms: VoucherTerms) {
+  return {
+    domain: {
+      name: 'BirthdaySongs',
+      version: '1',
+      chainId: CONTRACT_CONFIG.chainId,
+      verifyingContract: CONTRACT_CONFIG.address,
+    },
+    types: {
+      Voucher: [
+        { name: 'code', type: 'string' },
+        { name: 'discountBps', type: 'uint16' },
+        { name: 'expiresAt', type: 'uint64' },
+        { name: 'maxUses', type: 'uint32' },
+        { name: 'tier', type: 'uint8' },
+      ],
+    },
+    primaryType: 'Voucher',
+    message: {
+      code: terms.code,
+      discountBps: terms.discountBps,
+      expiresAt: BigInt(terms.expiresAt),
+      maxUses: terms.maxUses,
+      tier: terms.tier,
+    },
+  } as const
+}
+
+/**
+ * The voucher as mintWithVoucher takes it
+ */
+export function toVoucherArgs(terms: VoucherTerms, signature: Hex) {
+  return [buildVoucherTypedData(terms).message, signature] as const
+}
+
+export function voucherAppliesTo(terms: VoucherTerms, tierId: number): boolean {
+  return terms.tier === 0 || terms.tier === tierId + 1
+}
+
+/**
+ * Price after the voucher's discount, rounded the way the contract does
+ */
+export function discountedPrice(price: bigint, terms: VoucherTerms): bigint {
+  return price - price * BigInt(terms.discountBps) / BigInt(10_000)
+}
+
+/**
+ * e.g. "20% off"
+ */
+export function formatDiscount(discountBps: number): string {
+  return `${discountBps / 100}% off`
+}
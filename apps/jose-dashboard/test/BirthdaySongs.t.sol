@@ -0,0 +1,1119 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "forge-std/Test.sol";
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import "@openzeppelin/contracts/interfaces/draft-IERC6093.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "../contracts/BirthdaySongs.sol";
+import "../contracts/SongCheckout.sol";
+
+/**
+ * @dev Freely mintable stand-in for USDC (6 decimals, EIP-2612 permits)
+ */
+contract MockUSDC is ERC20, ERC20Permit {
+    constructor() ERC20("USD Coin", "USDC") ERC20Permit("USD Coin") {}
+
+    function decimals() public pure override returns (uint8) {
+        return 6;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
+
+/**
+ * @dev BirthdaySongs deployed by this test contract (the owner), with a buyer
+ * holding USDC approved for it
+ */
+abstract contract BirthdaySongsTestBase is Test {
+    BirthdaySongs songs;
+    MockUSDC usdc;
+
+    address platform = makeAddr("platform");
+    address buyer = makeAddr("buyer");
+
+    uint256 constant BIRTHDAY_PRICE = 25 * 1e6;
+
+    function setUp() public virtual {
+        usdc = new MockUSDC();
+        songs = new BirthdaySongs(address(usdc), platform);
+
+        usdc.mint(buyer, 100_000 * 1e6);
+        vm.prank(buyer);
+        usdc.approve(address(songs), type(uint256).max);
+    }
+
+    function _mint(uint256 tierId) internal returns (uint256) {
+        vm.prank(buyer);
+        return songs.mint(tierId, buyer, "ar://order");
+    }
+
+    function _fulfill(uint256 tokenId) internal {
+        songs.fulfillOrder(tokenId, "ar://song", "");
+    }
+}
+
+/**
+ * @dev Tier supply caps: sold-out tiers, and the owner resizing them
+ */
+contract BirthdaySongsSupplyTest is BirthdaySongsTestBase {
+
+    function test_LaunchTiersCapAt25() public {
+        assertEq(songs.getTier(0).supplyLimit, 25);
+        assertEq(songs.getTier(1).supplyLimit, 25);
+
+        for (uint256 i = 0; i < 25; i++) {
+            _mint(0);
+        }
+        assertEq(songs.getTier(0).minted, 25);
+
+        vm.expectRevert("Tier sold out");
+        _mint(0);
+
+        // The other tier has its own cap
+        _mint(1);
+    }
+
+    function test_RevertWhen_TierSoldOut() public {
+        _setSupplyLimit(0, 2);
+        _mint(0);
+        _mint(0);
+
+        vm.expectRevert("Tier sold out");
+        _mint(0);
+        assertEq(usdc.balanceOf(address(songs)), 2 * 25 * 1e6);
+    }
+
+    function test_OwnerRaisesSoldOutCap() public {
+        _setSupplyLimit(0, 1);
+        _mint(0);
+        vm.expectRevert("Tier sold out");
+        _mint(0);
+
+        _setSupplyLimit(0, 2);
+        _mint(0);
+        assertEq(songs.getTier(0).minted, 2);
+    }
+
+    function test_OwnerLowersCapToMinted() public {
+        _mint(0);
+        _mint(0);
+
+        BirthdaySongs.Tier memory tier = songs.getTier(0);
+        vm.expectRevert("Limit below minted supply");
+        songs.updateTier(0, tier.name, tier.price, 1, tier.active, tier.birthChart, tier.style);
+
+        _setSupplyLimit(0, 2);
+        vm.expectRevert("Tier sold out");
+        _mint(0);
+    }
+
+    function test_RevertWhen_NonOwnerChangesCap() public {
+        BirthdaySongs.Tier memory tier = songs.getTier(0);
+
+        vm.prank(buyer);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, buyer));
+        songs.updateTier(0, tier.name, tier.price, 100, tier.active, tier.birthChart, tier.style);
+    }
+
+    function test_AddedTierHasItsOwnCap() public {
+        uint256 tierId = songs.addTier("Lullaby", 10 * 1e6, 1, false, BirthdaySongs.TierStyle({
+            emoji: unicode"🌙",
+            colorFrom: "#1e3a8a",
+            colorTo: "#312e81",
+            description: "A custom lullaby."
+        }));
+
+        _mint(tierId);
+        vm.expectRevert("Tier sold out");
+        _mint(tierId);
+    }
+
+    function test_RefundFreesSupplySlot() public {
+        _setSupplyLimit(0, 1);
+        uint256 tokenId = _mint(0);
+
+        songs.refundOrder(tokenId);
+        assertEq(songs.getTier(0).minted, 0);
+
+        _mint(0);
+    }
+
+    function test_RevertWhen_TierInactive() public {
+        BirthdaySongs.Tier memory tier = songs.getTier(0);
+        songs.updateTier(0, tier.name, tier.price, tier.supplyLimit, false, tier.birthChart, tier.style);
+
+        vm.expectRevert("Tier not available");
+        _mint(0);
+    }
+
+    /**
+     * @dev Resize a tier as its owner, keeping everything else
+     */
+    function _setSupplyLimit(uint256 tierId, uint256 supplyLimit) internal {
+        BirthdaySongs.Tier memory tier = songs.getTier(tierId);
+        songs.updateTier(tierId, tier.name, tier.price, supplyLimit, tier.active, tier.birthChart, tier.style);
+    }
+}
+
+/**
+ * @dev Refunds: the owner any time, the buyer once the order's own deadline
+ * has passed
+ */
+contract BirthdaySongsRefundTest is BirthdaySongsTestBase {
+    address stranger = makeAddr("stranger");
+    address friend = makeAddr("friend");
+
+    function test_OwnerRefundsBeforeDeadline() public {
+        uint256 tokenId = _mint(0);
+        uint256 balanceBefore = usdc.balanceOf(buyer);
+
+        vm.expectEmit(address(songs));
+        emit BirthdaySongs.OrderRefunded(tokenId, buyer, BIRTHDAY_PRICE);
+        songs.refundOrder(tokenId);
+
+        assertTrue(songs.getOrder(tokenId).refunded);
+        assertEq(usdc.balanceOf(buyer), balanceBefore + BIRTHDAY_PRICE);
+        (, uint256 escrowed) = songs.getBalance();
+        assertEq(escrowed, 0);
+        // The NFT stays as a receipt
+        assertEq(songs.ownerOf(tokenId), buyer);
+    }
+
+    function test_BuyerRefundsOnceDeadlinePasses() public {
+        uint256 tokenId = _mint(0);
+        uint256 refundableAt = songs.refundableAt(tokenId);
+        assertEq(refundableAt, block.timestamp + 30 days);
+
+        vm.prank(buyer);
+        vm.expectRevert("Fulfillment deadline not reached");
+        songs.refundOrder(tokenId);
+
+        vm.warp(refundableAt - 1);
+        vm.prank(buyer);
+        vm.expectRevert("Fulfillment deadline not reached");
+        songs.refundOrder(tokenId);
+
+        vm.warp(refundableAt);
+        vm.prank(buyer);
+        songs.refundOrder(tokenId);
+        assertTrue(songs.getOrder(tokenId).refunded);
+    }
+
+    function test_DeadlineIsFixedAtMint() public {
+        uint256 tokenId = _mint(0);
+        uint256 refundableAt = songs.refundableAt(tokenId);
+
+        // Raising the deadline, even to overflow, doesn't touch existing orders
+        songs.setFulfillmentDeadline(type(uint256).max);
+        assertEq(songs.refundableAt(tokenId), refundableAt);
+
+        vm.warp(refundableAt);
+        vm.prank(buyer);
+        songs.refundOrder(tokenId);
+        assertTrue(songs.getOrder(tokenId).refunded);
+    }
+
+    function test_NewOrdersGetTheNewDeadline() public {
+        songs.setFulfillmentDeadline(7 days);
+        uint256 tokenId = _mint(0);
+        assertEq(songs.getOrder(tokenId).refundableAt, block.timestamp + 7 days);
+    }
+
+    function test_GiftRefundGoesToBuyer() public {
+        vm.prank(buyer);
+        uint256 tokenId = songs.mint(0, friend, "ar://order");
+        vm.warp(songs.refundableAt(tokenId));
+
+        vm.prank(friend);
+        vm.expectRevert("Only the buyer or owner can refund");
+        songs.refundOrder(tokenId);
+
+        uint256 balanceBefore = usdc.balanceOf(buyer);
+        vm.prank(buyer);
+        songs.refundOrder(tokenId);
+        assertEq(usdc.balanceOf(buyer), balanceBefore + BIRTHDAY_PRICE);
+    }
+
+    function test_RevertWhen_StrangerRefunds() public {
+        uint256 tokenId = _mint(0);
+        vm.warp(songs.refundableAt(tokenId));
+
+        vm.prank(stranger);
+        vm.expectRevert("Only the buyer or owner can refund");
+        songs.refundOrder(tokenId);
+    }
+
+    function test_RevertWhen_RefundingFulfilledOrder() public {
+        uint256 tokenId = _mint(0);
+        _fulfill(tokenId);
+
+        vm.expectRevert("Already fulfilled");
+        songs.refundOrder(tokenId);
+    }
+
+    function test_RevertWhen_RefundingTwice() public {
+        uint256 tokenId = _mint(0);
+        songs.refundOrder(tokenId);
+
+        vm.expectRevert("Already refunded");
+        songs.refundOrder(tokenId);
+    }
+
+    function test_RevertWhen_FulfillingRefundedOrder() public {
+        uint256 tokenId = _mint(0);
+        songs.refundOrder(tokenId);
+
+        vm.expectRevert("Order refunded");
+        _fulfill(tokenId);
+    }
+}
+
+/**
+ * @dev Escrow: payments stay locked until their order is fulfilled, and the
+ * owner can only withdraw released revenue
+ */
+contract BirthdaySongsEscrowTest is BirthdaySongsTestBase {
+    // 2% platform share of a $25 song
+    uint256 constant PLATFORM_SHARE = 500_000;
+
+    function test_MintEscrowsPayment() public {
+        _mint(0);
+        _mint(1);
+
+        (uint256 withdrawable, uint256 escrowed) = songs.getBalance();
+        assertEq(withdrawable, 0);
+        assertEq(escrowed, BIRTHDAY_PRICE + 250 * 1e6);
+        assertEq(usdc.balanceOf(address(songs)), escrowed);
+    }
+
+    function test_RevertWhen_WithdrawingEscrow() public {
+        _mint(0);
+
+        vm.expectRevert("No funds to withdraw");
+        songs.withdraw();
+        assertEq(usdc.balanceOf(address(songs)), BIRTHDAY_PRICE);
+    }
+
+    function test_FulfillReleasesOnlyThatOrder() public {
+        uint256 tokenId = _mint(0);
+        _mint(0);
+
+        vm.expectEmit(address(songs));
+        emit BirthdaySongs.RevenueReleased(tokenId, BIRTHDAY_PRICE - PLATFORM_SHARE, PLATFORM_SHARE);
+        _fulfill(tokenId);
+
+        (uint256 withdrawable, uint256 escrowed) = songs.getBalance();
+        assertEq(withdrawable, BIRTHDAY_PRICE - PLATFORM_SHARE);
+        assertEq(escrowed, BIRTHDAY_PRICE);
+    }
+
+    function test_WithdrawPaysReleasedRevenue() public {
+        _fulfill(_mint(0));
+        _mint(0);
+
+        songs.withdraw();
+        assertEq(usdc.balanceOf(address(this)), BIRTHDAY_PRICE - PLATFORM_SHARE);
+
+        // The pending order's payment and the platform's share stay behind
+        assertEq(usdc.balanceOf(address(songs)), BIRTHDAY_PRICE + PLATFORM_SHARE);
+        vm.expectRevert("No funds to withdraw");
+        songs.withdraw();
+    }
+
+    function test_RefundLeavesReleasedRevenue() public {
+        _fulfill(_mint(0));
+        songs.refundOrder(_mint(0));
+
+        (uint256 withdrawable, uint256 escrowed) = songs.getBalance();
+        assertEq(withdrawable, BIRTHDAY_PRICE - PLATFORM_SHARE);
+        assertEq(escrowed, 0);
+    }
+
+    function test_RevertWhen_FulfillingTwice() public {
+        uint256 tokenId = _mint(0);
+        _fulfill(tokenId);
+
+        vm.expectRevert("Already fulfilled");
+        _fulfill(tokenId);
+    }
+
+    function test_RevertWhen_NonOwnerFulfillsOrWithdraws() public {
+        uint256 tokenId = _mint(0);
+
+        vm.startPrank(buyer);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, buyer));
+        songs.fulfillOrder(tokenId, "ar://song", "");
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, buyer));
+        songs.withdraw();
+        vm.stopPrank();
+    }
+}
+
+/**
+ * @dev Platform revenue: a basis-point share of each sale fixed at mint,
+ * claimed by the platform wallet, and the optional ETH fee on fulfill
+ */
+contract BirthdaySongsPlatformFeeTest is BirthdaySongsTestBase {
+    // Overpaid ETH fees come back to the owner (this contract)
+    receive() external payable {}
+
+    function test_ShareIsFixedAtMint() public {
+        uint256 atTwoPercent = _mint(0);
+
+        vm.prank(platform);
+        songs.setPlatformFeeBps(1_000);
+        uint256 atTenPercent = _mint(0);
+
+        _fulfill(atTwoPercent);
+        _fulfill(atTenPercent);
+
+        (uint256 creatorAccrued, uint256 platformAccrued, uint256 creatorTotal, uint256 platformTotal) = songs.getRevenue();
+        assertEq(platformAccrued, 500_000 + 2_500_000);
+        assertEq(creatorAccrued, 2 * BIRTHDAY_PRICE - platformAccrued);
+        assertEq(creatorTotal, creatorAccrued);
+        assertEq(platformTotal, platformAccrued);
+    }
+
+    function test_PlatformClaimsItsShare() public {
+        _fulfill(_mint(0));
+        _mint(0);
+
+        vm.expectEmit(address(songs));
+        emit BirthdaySongs.PlatformFeesClaimed(platform, 500_000);
+        vm.prank(platform);
+        songs.claimPlatformFees();
+        assertEq(usdc.balanceOf(platform), 500_000);
+
+        // Totals keep counting after the payout
+        (, uint256 platformAccrued, , uint256 platformTotal) = songs.getRevenue();
+        assertEq(platformAccrued, 0);
+        assertEq(platformTotal, 500_000);
+
+        vm.prank(platform);
+        vm.expectRevert("No fees to claim");
+        songs.claimPlatformFees();
+    }
+
+    function test_RevertWhen_ClaimingEscrowedShare() public {
+        _mint(0);
+
+        vm.prank(platform);
+        vm.expectRevert("No fees to claim");
+        songs.claimPlatformFees();
+    }
+
+    function test_RevertWhen_NotPlatformWallet() public {
+        _fulfill(_mint(0));
+
+        vm.expectRevert("Only platform wallet");
+        songs.claimPlatformFees();
+
+        vm.expectRevert("Only platform wallet");
+        songs.setPlatformFeeBps(0);
+
+        vm.expectRevert("Only platform wallet");
+        songs.setPlatformWallet(address(this));
+    }
+
+    function test_RevertWhen_ShareAboveMaximum() public {
+        vm.prank(platform);
+        vm.expectRevert("Fee above maximum");
+        songs.setPlatformFeeBps(1_001);
+    }
+
+    function test_NewPlatformWalletClaimsAccruedFees() public {
+        address newPlatform = makeAddr("new platform");
+        _fulfill(_mint(0));
+
+        vm.prank(platform);
+        songs.setPlatformWallet(newPlatform);
+
+        vm.prank(newPlatform);
+        songs.claimPlatformFees();
+        assertEq(usdc.balanceOf(newPlatform), 500_000);
+    }
+
+    function test_EthFeeOnFulfillReturnsOverpayment() public {
+        vm.prank(platform);
+        songs.setPlatformFee(0.001 ether);
+        uint256 tokenId = _mint(0);
+        uint256 balanceBefore = address(this).balance;
+
+        songs.fulfillOrder{value: 0.003 ether}(tokenId, "ar://song", "");
+
+        assertEq(platform.balance, 0.001 ether);
+        assertEq(address(this).balance, balanceBefore - 0.001 ether);
+    }
+
+    function test_RevertWhen_EthFeeUnpaid() public {
+        vm.prank(platform);
+        songs.setPlatformFee(0.001 ether);
+        uint256 tokenId = _mint(0);
+
+        vm.expectRevert("Insufficient platform fee");
+        songs.fulfillOrder{value: 0.0005 ether}(tokenId, "ar://song", "");
+    }
+}
+
+/**
+ * @dev Gifts minted straight to the recipient's wallet: the recipient holds
+ * the NFT, the buyer stays on the order
+ */
+contract BirthdaySongsGiftTest is BirthdaySongsTestBase {
+    address friend = makeAddr("friend");
+
+    function test_MintToRecipient() public {
+        vm.expectEmit(address(songs));
+        emit BirthdaySongs.OrderGifted(0, buyer, friend);
+        vm.prank(buyer);
+        uint256 tokenId = songs.mint(0, friend, "ar://order");
+
+        assertEq(songs.ownerOf(tokenId), friend);
+        assertEq(songs.getOrder(tokenId).orderedBy, buyer);
+        assertEq(usdc.balanceOf(friend), 0);
+    }
+
+    function test_RevertWhen_RecipientInvalid() public {
+        vm.startPrank(buyer);
+        vm.expectRevert("Invalid recipient");
+        songs.mint(0, address(0), "ar://order");
+
+        // Only claimable gifts are held by the contract
+        vm.expectRevert("Invalid recipient");
+        songs.mint(0, address(songs), "ar://order");
+        vm.stopPrank();
+    }
+
+    function test_RevertWhen_OrderDataMissing() public {
+        vm.prank(buyer);
+        vm.expectRevert("Order data URI required");
+        songs.mint(0, friend, "");
+    }
+}
+
+/**
+ * @dev Claim-link gifts: held by the contract until a wallet proves it has
+ * the claim key, or returned to the buyer once the claim period is over
+ */
+contract BirthdaySongsClaimTest is BirthdaySongsTestBase {
+    address friend = makeAddr("friend");
+    address stranger = makeAddr("stranger");
+    address claimKey;
+    uint256 claimSecret;
+
+    function setUp() public override {
+        super.setUp();
+        (claimKey, claimSecret) = makeAddrAndKey("claim key");
+    }
+
+    function test_ClaimWithKeySignature() public {
+        uint256 tokenId = _mintClaimable();
+        assertEq(songs.ownerOf(tokenId), address(songs));
+
+        vm.expectEmit(address(songs));
+        emit BirthdaySongs.GiftClaimed(tokenId, friend);
+        vm.prank(friend);
+        songs.claimGift(tokenId, _claimSignature(claimSecret, tokenId, friend));
+
+        assertEq(songs.ownerOf(tokenId), friend);
+        (address key, ) = songs.giftClaims(tokenId);
+        assertEq(key, address(0));
+    }
+
+    function test_RevertWhen_ClaimSignatureWrong() public {
+        uint256 tokenId = _mintClaimable();
+        (, uint256 otherSecret) = makeAddrAndKey("other key");
+
+        vm.prank(friend);
+        vm.expectRevert("Invalid claim signature");
+        songs.claimGift(tokenId, _claimSignature(otherSecret, tokenId, friend));
+
+        // A claim seen in the mempool is bound to its wallet
+        bytes memory friendsClaim = _claimSignature(claimSecret, tokenId, friend);
+        vm.prank(stranger);
+        vm.expectRevert("Invalid claim signature");
+        songs.claimGift(tokenId, friendsClaim);
+    }
+
+    function test_RevertWhen_ClaimingTwice() public {
+        uint256 tokenId = _mintClaimable();
+        bytes memory signature = _claimSignature(claimSecret, tokenId, friend);
+
+        vm.startPrank(friend);
+        songs.claimGift(tokenId, signature);
+        vm.expectRevert("No gift to claim");
+        songs.claimGift(tokenId, signature);
+        vm.stopPrank();
+    }
+
+    function test_RevertWhen_ClaimExpired() public {
+        uint256 tokenId = _mintClaimable();
+        (, uint64 expiresAt) = songs.giftClaims(tokenId);
+        assertEq(expiresAt, block.timestamp + 90 days);
+
+        vm.warp(expiresAt);
+        vm.prank(friend);
+        vm.expectRevert("Gift claim expired");
+        songs.claimGift(tokenId, _claimSignature(claimSecret, tokenId, friend));
+    }
+
+    function test_RevertWhen_ClaimingRefundedGift() public {
+        uint256 tokenId = _mintClaimable();
+        songs.refundOrder(tokenId);
+
+        vm.prank(friend);
+        vm.expectRevert("Order refunded");
+        songs.claimGift(tokenId, _claimSignature(claimSecret, tokenId, friend));
+
+        // The receipt still goes back to the buyer when the claim period ends
+        (, uint64 expiresAt) = songs.giftClaims(tokenId);
+        vm.warp(expiresAt);
+        songs.returnUnclaimedGift(tokenId);
+        assertEq(songs.ownerOf(tokenId), buyer);
+    }
+
+    function test_ReturnUnclaimedGift() public {
+        uint256 tokenId = _mintClaimable();
+
+        vm.expectRevert("Gift can still be claimed");
+        songs.returnUnclaimedGift(tokenId);
+
+        (, uint64 expiresAt) = songs.giftClaims(tokenId);
+        vm.warp(expiresAt);
+        vm.expectEmit(address(songs));
+        emit BirthdaySongs.GiftReturned(tokenId, buyer);
+        vm.prank(stranger);
+        songs.returnUnclaimedGift(tokenId);
+
+        assertEq(songs.ownerOf(tokenId), buyer);
+        vm.expectRevert("No gift to return");
+        songs.returnUnclaimedGift(tokenId);
+    }
+
+    function test_RevertWhen_ClaimKeyMissing() public {
+        vm.prank(buyer);
+        vm.expectRevert("Invalid claim key");
+        songs.mintClaimable(0, address(0), "ar://order");
+    }
+
+    function _mintClaimable() internal returns (uint256) {
+        vm.prank(buyer);
+        return songs.mintClaimable(0, claimKey, "ar://order");
+    }
+
+    /**
+     * @dev The claim key's EIP-191 signature over (chain id, contract, token id, claimer)
+     */
+    function _claimSignature(uint256 secret, uint256 tokenId, address claimer) internal view returns (bytes memory) {
+        bytes32 digest = keccak256(abi.encode(block.chainid, address(songs), tokenId, claimer));
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(secret, MessageHashUtils.toEthSignedMessageHash(digest));
+        return abi.encodePacked(r, s, v);
+    }
+}
+
+/**
+ * @dev One-transaction checkout with a USDC permit, falling back to a prior
+ * approve when the permit can't be used
+ */
+contract BirthdaySongsPermitTest is BirthdaySongsTestBase {
+    bytes32 constant PERMIT_TYPEHASH =
+        keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+
+    address payer;
+    uint256 payerKey;
+
+    function setUp() public override {
+        super.setUp();
+        (payer, payerKey) = makeAddrAndKey("payer");
+        usdc.mint(payer, 1_000 * 1e6);
+    }
+
+    function test_MintWithPermit() public {
+        BirthdaySongs.PermitSignature memory permit = _permit(payerKey, BIRTHDAY_PRICE, block.timestamp + 1 hours);
+
+        vm.prank(payer);
+        uint256 tokenId = songs.mintWithPermit(0, payer, "ar://order", permit);
+
+        assertEq(songs.ownerOf(tokenId), payer);
+        assertEq(usdc.balanceOf(address(songs)), BIRTHDAY_PRICE);
+        assertEq(usdc.allowance(payer, address(songs)), 0);
+    }
+
+    function test_MintClaimableWithPermit() public {
+        BirthdaySongs.PermitSignature memory permit = _permit(payerKey, BIRTHDAY_PRICE, block.timestamp + 1 hours);
+
+        vm.prank(payer);
+        uint256 tokenId = songs.mintClaimableWithPermit(0, makeAddr("claim key"), "ar://order", permit);
+
+        assertEq(songs.ownerOf(tokenId), address(songs));
+        assertEq(songs.getOrder(tokenId).orderedBy, payer);
+    }
+
+    function test_PermitAlreadySubmitted() public {
+        BirthdaySongs.PermitSignature memory permit = _permit(payerKey, BIRTHDAY_PRICE, block.timestamp + 1 hours);
+
+        // Someone copies the permit from the mempool and submits it first
+        usdc.permit(payer, address(songs), BIRTHDAY_PRICE, permit.deadline, permit.v, permit.r, permit.s);
+
+        vm.prank(payer);
+        songs.mintWithPermit(0, payer, "ar://order", permit);
+        assertEq(usdc.balanceOf(address(songs)), BIRTHDAY_PRICE);
+    }
+
+    function test_ApproveFallback() public {
+        vm.startPrank(payer);
+        usdc.approve(address(songs), BIRTHDAY_PRICE * 2);
+
+        // Wallets that can't sign typed data approve, then mint
+        songs.mint(0, payer, "ar://order");
+
+        // An unusable permit falls back to the approval too
+        BirthdaySongs.PermitSignature memory noPermit;
+        songs.mintWithPermit(0, payer, "ar://order", noPermit);
+        vm.stopPrank();
+
+        assertEq(usdc.balanceOf(address(songs)), BIRTHDAY_PRICE * 2);
+    }
+
+    function test_RevertWhen_PermitExpired() public {
+        BirthdaySongs.PermitSignature memory permit = _permit(payerKey, BIRTHDAY_PRICE, block.timestamp - 1);
+
+        vm.prank(payer);
+        vm.expectRevert(abi.encodeWithSelector(
+            IERC20Errors.ERC20InsufficientAllowance.selector, address(songs), 0, BIRTHDAY_PRICE
+        ));
+        songs.mintWithPermit(0, payer, "ar://order", permit);
+    }
+
+    function test_RevertWhen_PermitSignedByAnotherWallet() public {
+        (, uint256 otherKey) = makeAddrAndKey("other");
+        BirthdaySongs.PermitSignature memory permit = _permit(otherKey, BIRTHDAY_PRICE, block.timestamp + 1 hours);
+
+        vm.prank(payer);
+        vm.expectRevert(abi.encodeWithSelector(
+            IERC20Errors.ERC20InsufficientAllowance.selector, address(songs), 0, BIRTHDAY_PRICE
+        ));
+        songs.mintWithPermit(0, payer, "ar://order", permit);
+    }
+
+    function test_RevertWhen_PermitBelowPrice() public {
+        // Signed for the $25 tier, used for the $250 one
+        BirthdaySongs.PermitSignature memory permit = _permit(payerKey, BIRTHDAY_PRICE, block.timestamp + 1 hours);
+
+        vm.prank(payer);
+        vm.expectRevert(abi.encodeWithSelector(
+            IERC20Errors.ERC20InsufficientAllowance.selector, address(songs), 0, 250 * 1e6
+        ));
+        songs.mintWithPermit(1, payer, "ar://order", permit);
+    }
+
+    /**
+     * @dev EIP-2612 permit from the key's wallet to the songs contract
+     */
+    function _permit(uint256 key, uint256 value, uint256 deadline) internal view returns (BirthdaySongs.PermitSignature memory) {
+        address owner = vm.addr(key);
+        bytes32 structHash = keccak256(abi.encode(
+            PERMIT_TYPEHASH, owner, address(songs), value, usdc.nonces(owner), deadline
+        ));
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(key, MessageHashUtils.toTypedDataHash(usdc.DOMAIN_SEPARATOR(), structHash));
+        return BirthdaySongs.PermitSignature({ deadline: deadline, v: v, r: r, s: s });
+    }
+}
+
+/**
+ * @dev Plain 18-decimal ERC-20 a buyer might pay with
+ */
+contract MockToken is ERC20 {
+    constructor() ERC20("Dai Stablecoin", "DAI") {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
+
+/**
+ * @dev Swap router stand-in: exact-output swaps at a fixed price per USDC
+ * unit, paid out by minting MockUSDC. Unspent ETH waits for refundETH, like
+ * SwapRouter02.
+ */
+contract MockSwapRouter is ISwapRouter {
+    MockUSDC immutable usdc;
+    // Input token units per USDC unit
+    mapping(address => uint256) public priceOf;
+    uint256 unspentEth;
+
+    constructor(MockUSDC _usdc) {
+        usdc = _usdc;
+    }
+
+    function setPrice(address token, uint256 price) external {
+        priceOf[token] = price;
+    }
+
+    function exactOutputSingle(ExactOutputSingleParams calldata params) external payable returns (uint256 amountIn) {
+        require(params.tokenOut == address(usdc), "Unsupported pool");
+        amountIn = params.amountOut * priceOf[params.tokenIn];
+        require(amountIn <= params.amountInMaximum, "Too much requested");
+
+        if (msg.value > 0) {
+            unspentEth += msg.value - amountIn;
+        } else {
+            IERC20(params.tokenIn).transferFrom(msg.sender, address(this), amountIn);
+        }
+        usdc.mint(params.recipient, params.amountOut);
+    }
+
+    function refundETH() external payable {
+        uint256 amount = unspentEth;
+        unspentEth = 0;
+        (bool sent, ) = msg.sender.call{value: amount}("");
+        require(sent, "Refund failed");
+    }
+}
+
+/**
+ * @dev Paying in ETH or another token through SongCheckout: swapped to the
+ * exact USDC price, with whatever the swap didn't spend returned to the buyer
+ */
+contract SongCheckoutTest is BirthdaySongsTestBase {
+    SongCheckout checkout;
+    MockSwapRouter router;
+    MockToken dai;
+
+    address friend = makeAddr("friend");
+
+    // ETH at $2,500 and DAI at $1, per USDC unit
+    uint256 constant WEI_PER_USDC_UNIT = 4e8;
+    uint256 constant DAI_PER_USDC_UNIT = 1e12;
+
+    function setUp() public override {
+        super.setUp();
+        router = new MockSwapRouter(usdc);
+        checkout = new SongCheckout(address(songs), address(router));
+        dai = new MockToken();
+        address weth = checkout.WETH();
+
+        songs.setCheckout(address(checkout), true);
+        checkout.setSwapPoolFee(weth, 500);
+        checkout.setSwapPoolFee(address(dai), 100);
+        router.setPrice(weth, WEI_PER_USDC_UNIT);
+        router.setPrice(address(dai), DAI_PER_USDC_UNIT);
+
+        vm.deal(buyer, 1 ether);
+        dai.mint(buyer, 100 ether);
+        vm.prank(buyer);
+        dai.approve(address(checkout), type(uint256).max);
+    }
+
+    function test_PayWithEthReturnsUnspent() public {
+        uint256 cost = BIRTHDAY_PRICE * WEI_PER_USDC_UNIT;
+
+        vm.expectEmit(address(checkout));
+        emit SongCheckout.PaidWithSwap(0, address(0), cost);
+        vm.prank(buyer);
+        uint256 tokenId = checkout.mintWithSwap{value: 0.012 ether}(0, friend, "ar://order", address(0), 0.012 ether);
+
+        assertEq(cost, 0.01 ether);
+        assertEq(buyer.balance, 1 ether - cost);
+        assertEq(songs.ownerOf(tokenId), friend);
+        assertEq(songs.getOrder(tokenId).orderedBy, buyer);
+
+        (, uint256 escrowed) = songs.getBalance();
+        assertEq(escrowed, BIRTHDAY_PRICE);
+        assertEq(address(checkout).balance, 0);
+        assertEq(usdc.balanceOf(address(checkout)), 0);
+    }
+
+    function test_PayWithTokenReturnsUnspent() public {
+        vm.prank(buyer);
+        uint256 tokenId = checkout.mintWithSwap(0, buyer, "ar://order", address(dai), 30 ether);
+
+        assertEq(songs.ownerOf(tokenId), buyer);
+        assertEq(dai.balanceOf(buyer), 75 ether);
+        assertEq(dai.balanceOf(address(checkout)), 0);
+        assertEq(dai.allowance(address(checkout), address(router)), 0);
+    }
+
+    function test_RefundGoesToBuyer() public {
+        vm.prank(buyer);
+        uint256 tokenId = checkout.mintWithSwap(0, friend, "ar://order", address(dai), 25 ether);
+        uint256 balanceBefore = usdc.balanceOf(buyer);
+
+        songs.refundOrder(tokenId);
+        assertEq(usdc.balanceOf(buyer), balanceBefore + BIRTHDAY_PRICE);
+    }
+
+    function test_RevertWhen_SlippageExceeded() public {
+        vm.prank(buyer);
+        vm.expectRevert("Too much requested");
+        checkout.mintWithSwap{value: 0.009 ether}(0, buyer, "ar://order", address(0), 0.009 ether);
+    }
+
+    function test_RevertWhen_TokenNotAccepted() public {
+        checkout.setSwapPoolFee(address(dai), 0);
+
+        vm.prank(buyer);
+        vm.expectRevert("Token not accepted");
+        checkout.mintWithSwap(0, buyer, "ar://order", address(dai), 30 ether);
+    }
+
+    function test_RevertWhen_PaymentMismatched() public {
+        vm.startPrank(buyer);
+        vm.expectRevert("Send amountInMax in ETH");
+        checkout.mintWithSwap{value: 0.01 ether}(0, buyer, "ar://order", address(0), 0.012 ether);
+
+        vm.expectRevert("ETH sent with token payment");
+        checkout.mintWithSwap{value: 0.01 ether}(0, buyer, "ar://order", address(dai), 30 ether);
+        vm.stopPrank();
+    }
+
+    function test_RevertWhen_CheckoutNotApproved() public {
+        songs.setCheckout(address(checkout), false);
+
+        vm.prank(buyer);
+        vm.expectRevert("Not an approved checkout");
+        checkout.mintWithSwap(0, buyer, "ar://order", address(dai), 30 ether);
+    }
+
+    function test_RevertWhen_EthSentDirectly() public {
+        vm.prank(buyer);
+        (bool sent, ) = address(checkout).call{value: 1}("");
+        assertFalse(sent);
+    }
+}
+
+/**
+ * @dev Ownership moved to a wallet with a known key, so tests can sign
+ * vouchers as the creator
+ */
+abstract contract BirthdaySongsVoucherBase is BirthdaySongsTestBase {
+    bytes32 constant VOUCHER_TYPEHASH =
+        keccak256("Voucher(string code,uint16 discountBps,uint64 expiresAt,uint32 maxUses,uint8 tier)");
+
+    address creator;
+    uint256 creatorKey;
+
+    function setUp() public virtual override {
+        super.setUp();
+        (creator, creatorKey) = makeAddrAndKey("creator");
+        songs.transferOwnership(creator);
+    }
+
+    function _voucher(string memory code, uint16 discountBps, uint32 maxUses, uint8 tier)
+        internal
+        view
+        returns (BirthdaySongs.Voucher memory)
+    {
+        return BirthdaySongs.Voucher({
+            code: code,
+            discountBps: discountBps,
+            expiresAt: uint64(block.timestamp + 7 days),
+            maxUses: maxUses,
+            tier: tier
+        });
+    }
+
+    /**
+     * @dev EIP-712 signature under the ("BirthdaySongs", "1") domain of the songs contract
+     */
+    function _sign(uint256 key, BirthdaySongs.Voucher memory voucher) internal view returns (bytes memory) {
+        bytes32 domainSeparator = keccak256(abi.encode(
+            keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+            keccak256("BirthdaySongs"),
+            keccak256("1"),
+            block.chainid,
+            address(songs)
+        ));
+        bytes32 structHash = keccak256(abi.encode(
+            VOUCHER_TYPEHASH,
+            keccak256(bytes(voucher.code)),
+            voucher.discountBps,
+            voucher.expiresAt,
+            voucher.maxUses,
+            voucher.tier
+        ));
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(key, MessageHashUtils.toTypedDataHash(domainSeparator, structHash));
+        return abi.encodePacked(r, s, v);
+    }
+
+    function _redeem(uint256 tierId, BirthdaySongs.Voucher memory voucher, bytes memory signature)
+        internal
+        returns (uint256)
+    {
+        BirthdaySongs.PermitSignature memory noPermit;
+        vm.prank(buyer);
+        return songs.mintWithVoucher(tierId, buyer, "ar://order", voucher, signature, noPermit);
+    }
+}
+
+/**
+ * @dev Creator-signed promo vouchers: discount, expiry and redemption limits
+ */
+contract BirthdaySongsVoucherTest is BirthdaySongsVoucherBase {
+    function test_MintWithVoucher() public {
+        BirthdaySongs.Voucher memory voucher = _voucher("FRIENDS20", 2_000, 0, 0);
+        uint256 balanceBefore = usdc.balanceOf(buyer);
+
+        vm.expectEmit(address(songs));
+        emit BirthdaySongs.VoucherRedeemed(0, keccak256("FRIENDS20"), "FRIENDS20", 5 * 1e6);
+        uint256 tokenId = _redeem(0, voucher, _sign(creatorKey, voucher));
+
+        assertEq(songs.getOrder(tokenId).pricePaid, 20 * 1e6);
+        assertEq(usdc.balanceOf(buyer), balanceBefore - 20 * 1e6);
+        assertEq(songs.voucherRedemptions(keccak256("FRIENDS20")), 1);
+    }
+
+    function test_FreeVoucher() public {
+        BirthdaySongs.Voucher memory voucher = _voucher("ONTHEHOUSE", 10_000, 1, 0);
+
+        uint256 tokenId = _redeem(0, voucher, _sign(creatorKey, voucher));
+        assertEq(songs.getOrder(tokenId).pricePaid, 0);
+        assertEq(usdc.balanceOf(address(songs)), 0);
+    }
+
+    function test_RevertWhen_VoucherReused() public {
+        BirthdaySongs.Voucher memory voucher = _voucher("ONCE", 1_000, 1, 0);
+        bytes memory signature = _sign(creatorKey, voucher);
+        _redeem(0, voucher, signature);
+
+        vm.expectRevert("Voucher fully redeemed");
+        _redeem(0, voucher, signature);
+        assertEq(songs.voucherRedemptions(keccak256("ONCE")), 1);
+    }
+
+    function test_UnlimitedVoucher() public {
+        BirthdaySongs.Voucher memory voucher = _voucher("FARCASTER", 1_000, 0, 0);
+        bytes memory signature = _sign(creatorKey, voucher);
+
+        for (uint256 i = 0; i < 3; i++) {
+            _redeem(0, voucher, signature);
+        }
+        assertEq(songs.voucherRedemptions(keccak256("FARCASTER")), 3);
+    }
+
+    function test_RevertWhen_VoucherExpired() public {
+        BirthdaySongs.Voucher memory voucher = _voucher("LATE", 1_000, 0, 0);
+        bytes memory signature = _sign(creatorKey, voucher);
+
+        vm.warp(voucher.expiresAt);
+        vm.expectRevert("Voucher expired");
+        _redeem(0, voucher, signature);
+    }
+
+    function test_RevertWhen_VoucherNotSignedByCreator() public {
+        BirthdaySongs.Voucher memory voucher = _voucher("FORGED", 5_000, 0, 0);
+        (, uint256 otherKey) = makeAddrAndKey("other");
+
+        vm.expectRevert("Invalid voucher signature");
+        _redeem(0, voucher, _sign(otherKey, voucher));
+    }
+
+    function test_RevertWhen_VoucherTampered() public {
+        BirthdaySongs.Voucher memory voucher = _voucher("FRIENDS20", 2_000, 1, 0);
+        bytes memory signature = _sign(creatorKey, voucher);
+
+        voucher.discountBps = 10_000;
+        vm.expectRevert("Invalid voucher signature");
+        _redeem(0, voucher, signature);
+
+        // Raising the use limit doesn't make a spent voucher reusable either
+        voucher.discountBps = 2_000;
+        _redeem(0, voucher, signature);
+        voucher.maxUses = 2;
+        vm.expectRevert("Invalid voucher signature");
+        _redeem(0, voucher, signature);
+    }
+
+    function test_RevertWhen_DiscountAboveFullPrice() public {
+        BirthdaySongs.Voucher memory voucher = _voucher("TOOGOOD", 10_001, 0, 0);
+
+        vm.expectRevert("Invalid discount");
+        _redeem(0, voucher, _sign(creatorKey, voucher));
+    }
+}
+
+/**
+ * @dev Owner-managed tiers: prices and launches take effect for new orders,
+ * and vouchers can be limited to one tier
+ */
+contract BirthdaySongsTierTest is BirthdaySongsVoucherBase {
+    function test_LaunchTiers() public view {
+        BirthdaySongs.Tier[] memory tiers = songs.getTiers();
+        assertEq(tiers.length, 2);
+        assertEq(tiers[0].name, "Birthday Song");
+        assertEq(tiers[0].price, BIRTHDAY_PRICE);
+        assertFalse(tiers[0].birthChart);
+        assertEq(tiers[1].name, "Natal Chart Song");
+        assertEq(tiers[1].price, 250 * 1e6);
+        assertTrue(tiers[1].birthChart);
+    }
+
+    function test_AddedTierIsOrderable() public {
+        BirthdaySongs.TierStyle memory style = songs.getTier(0).style;
+        vm.prank(creator);
+        uint256 tierId = songs.addTier("Anniversary Song", 40 * 1e6, 10, false, style);
+        assertEq(tierId, 2);
+
+        uint256 tokenId = _mint(tierId);
+        assertEq(songs.getOrder(tokenId).tierId, tierId);
+        assertEq(songs.getOrder(tokenId).pricePaid, 40 * 1e6);
+    }
+
+    function test_PriceChangeAppliesToNewOrders() public {
+        uint256 before = _mint(0);
+
+        BirthdaySongs.Tier memory tier = songs.getTier(0);
+        vm.prank(creator);
+        songs.updateTier(0, tier.name, 30 * 1e6, tier.supplyLimit, tier.active, tier.birthChart, tier.style);
+
+        assertEq(songs.getOrder(before).pricePaid, BIRTHDAY_PRICE);
+        assertEq(songs.getOrder(_mint(0)).pricePaid, 30 * 1e6);
+    }
+
+    function test_RevertWhen_TierUnknown() public {
+        vm.expectRevert("Unknown tier");
+        songs.priceOf(2);
+
+        vm.prank(buyer);
+        vm.expectRevert("Unknown tier");
+        songs.mint(2, buyer, "ar://order");
+    }
+
+    function test_RevertWhen_TierNameMissing() public {
+        BirthdaySongs.TierStyle memory style = songs.getTier(0).style;
+
+        vm.startPrank(creator);
+        vm.expectRevert("Tier name required");
+        songs.addTier("", 10 * 1e6, 10, false, style);
+        vm.stopPrank();
+    }
+
+    function test_VoucherForOneTier() public {
+        // tier is the tier id + 1; 0 means any tier
+        BirthdaySongs.Voucher memory voucher = _voucher("NATAL50", 5_000, 0, 2);
+        bytes memory signature = _sign(creatorKey, voucher);
+
+        vm.expectRevert("Voucher not valid for this song");
+        _redeem(0, voucher, signature);
+
+        uint256 tokenId = _redeem(1, voucher, signature);
+        assertEq(songs.getOrder(tokenId).pricePaid, 125 * 1e6);
+    }
+
+    function test_VoucherDiscountsCurrentPrice() public {
+        BirthdaySongs.Voucher memory voucher = _voucher("HALF", 5_000, 0, 1);
+        bytes memory signature = _sign(creatorKey, voucher);
+
+        BirthdaySongs.Tier memory tier = songs.getTier(0);
+        vm.prank(creator);
+        songs.updateTier(0, tier.name, 40 * 1e6, tier.supplyLimit, tier.active, tier.birthChart, tier.style);
+
+        uint256 tokenId = _redeem(0, voucher, signature);
+        assertEq(songs.getOrder(tokenId).pricePaid, 20 * 1e6);
+    }
+}
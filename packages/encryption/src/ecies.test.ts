@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { base64ToBytes, bytesToBase64, deriveKeyPair, eciesDecrypt, eciesEncrypt } from './ecies'
+import { AuthenticationFailedError, MalformedCiphertextError } from './errors'
+
+const creator = deriveKeyPair(new TextEncoder().encode('creator seed'))
+const stranger = deriveKeyPair(new TextEncoder().encode('stranger seed'))
+const plaintext = new TextEncoder().encode('{"recipientName":"Ana"}')
+
+// [version: 1][ephemeral public key: 33][iv: 12][ciphertext + tag]
+const CIPHERTEXT_OFFSET = 46
+
+describe('ECIES', () => {
+  it('decrypts with the recipient key', async () => {
+    const ciphertext = await eciesEncrypt(plaintext, creator.publicKey)
+
+    await expect(eciesDecrypt(ciphertext, creator.privateKey)).resolves.toEqual(plaintext)
+  })
+
+  it('derives the same keypair from the same seed', () => {
+    expect(deriveKeyPair(new TextEncoder().encode('creator seed'))).toEqual(creator)
+  })
+
+  it('fails with the wrong private key', async () => {
+    const ciphertext = await eciesEncrypt(plaintext, creator.publicKey)
+
+    await expect(eciesDecrypt(ciphertext, stranger.privateKey)).rejects.toBeInstanceOf(AuthenticationFailedError)
+  })
+
+  it('rejects a flipped ciphertext byte', async () => {
+    const bytes = base64ToBytes(await eciesEncrypt(plaintext, creator.publicKey))
+    bytes[CIPHERTEXT_OFFSET] ^= 0x01
+
+    await expect(eciesDecrypt(bytesToBase64(bytes), creator.privateKey)).rejects.toBeInstanceOf(AuthenticationFailedError)
+  })
+
+  it('rejects an unknown version byte', async () => {
+    const bytes = base64ToBytes(await eciesEncrypt(plaintext, creator.publicKey))
+    bytes[0] = 2
+
+    await expect(eciesDecrypt(bytesToBase64(bytes), creator.privateKey)).rejects.toBeInstanceOf(MalformedCiphertextError)
+  })
+})
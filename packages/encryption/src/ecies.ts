@@ -0,0 +1,139 @@
+/**
+ * Public-key encryption (ECIES) for Birthday Songs
+ *
+ * secp256k1 ECDH with an ephemeral key, HKDF-SHA256 key derivation and
+ * AES-256-GCM. Anyone can encrypt to the creator's published public key;
+ * only the creator's private key can decrypt.
+ *
+ * Ciphertext layout (base64):
+ *   [version: 1][ephemeral public key: 33][iv: 12][AES-GCM ciphertext + tag]
+ */
+
+import { secp256k1 } from '@noble/curves/secp256k1'
+import { mapHashToField } from '@noble/curves/abstract/modular'
+import { sha512 } from '@noble/hashes/sha512'
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils'
+import { MalformedCiphertextError, authenticatedDecrypt, getRandomBytes, getSubtleCrypto } from './errors'
+
+const ECIES_VERSION = 1
+const EPHEMERAL_KEY_LENGTH = 33
+const IV_LENGTH = 12
+const GCM_TAG_LENGTH = 16
+const HKDF_INFO = new TextEncoder().encode('birthday-songs/ecies/v1')
+
+/**
+ * Message the creator signs with their wallet to derive their encryption key.
+ * Changing it changes the key, so old orders would no longer decrypt.
+ */
+export const CREATOR_KEY_MESSAGE =
+  'Birthday Songs creator encryption key\n\n' +
+  'Signing this message unlocks order details on this device. ' +
+  'Only sign it on the Birthday Songs dashboard.'
+
+export interface KeyPair {
+  privateKey: string  // hex, no 0x prefix
+  publicKey: string   // compressed secp256k1 point, hex, no 0x prefix
+}
+
+/**
+ * Derive a keypair deterministically from seed material (e.g. a wallet signature)
+ */
+export function deriveKeyPair(seed: Uint8Array): KeyPair {
+  const privateKey = mapHashToField(sha512(seed), secp256k1.CURVE.n)
+  return {
+    privateKey: bytesToHex(privateKey),
+    publicKey: bytesToHex(secp256k1.getPublicKey(privateKey, true)),
+  }
+}
+
+/**
+ * Derive the creator keypair from their signature over CREATOR_KEY_MESSAGE.
+ * Requires a wallet with deterministic (RFC 6979) signatures, i.e. an EOA.
+ */
+export function deriveCreatorKeyPair(signature: string): KeyPair {
+  return deriveKeyPair(hexToBytes(signature.replace(/^0x/, '')))
+}
+
+/**
+ * Encrypt bytes to a secp256k1 public key
+ */
+export async function eciesEncrypt(plaintext: Uint8Array, recipientPublicKey: string): Promise<string> {
+  const subtle = getSubtleCrypto()
+  const ephemeralPrivateKey = secp256k1.utils.randomPrivateKey()
+  const ephemeralPublicKey = secp256k1.getPublicKey(ephemeralPrivateKey, true)
+  const sharedSecret = secp256k1.getSharedSecret(ephemeralPrivateKey, recipientPublicKey.replace(/^0x/, ''), true)
+
+  const key = await deriveAesKey(sharedSecret.slice(1), ephemeralPublicKey)
+  const iv = getRandomBytes(IV_LENGTH)
+  const encrypted = new Uint8Array(await subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext))
+
+  const combined = new Uint8Array(1 + EPHEMERAL_KEY_LENGTH + IV_LENGTH + encrypted.length)
+  combined[0] = ECIES_VERSION
+  combined.set(ephemeralPublicKey, 1)
+  combined.set(iv, 1 + EPHEMERAL_KEY_LENGTH)
+  combined.set(encrypted, 1 + EPHEMERAL_KEY_LENGTH + IV_LENGTH)
+
+  return bytesToBase64(combined)
+}
+
+/**
+ * Decrypt bytes encrypted with eciesEncrypt
+ */
+export async function eciesDecrypt(ciphertext: string, privateKey: string): Promise<Uint8Array> {
+  const combined = base64ToBytes(ciphertext)
+
+  if (combined.length < 1 + EPHEMERAL_KEY_LENGTH + IV_LENGTH + GCM_TAG_LENGTH) {
+    throw new MalformedCiphertextError('ECIES ciphertext is too short')
+  }
+  if (combined[0] !== ECIES_VERSION) {
+    throw new MalformedCiphertextError(`Unsupported ECIES version: ${combined[0]}`)
+  }
+
+  const ephemeralPublicKey = combined.slice(1, 1 + EPHEMERAL_KEY_LENGTH)
+  const iv = combined.slice(1 + EPHEMERAL_KEY_LENGTH, 1 + EPHEMERAL_KEY_LENGTH + IV_LENGTH)
+  const data = combined.slice(1 + EPHEMERAL_KEY_LENGTH + IV_LENGTH)
+
+  let sharedSecret: Uint8Array
+  try {
+    sharedSecret = secp256k1.getSharedSecret(privateKey.replace(/^0x/, ''), ephemeralPublicKey, true)
+  } catch {
+    throw new MalformedCiphertextError('ECIES ephemeral key is not a valid curve point')
+  }
+  const key = await deriveAesKey(sharedSecret.slice(1), ephemeralPublicKey)
+
+  return authenticatedDecrypt(key, iv, data)
+}
+
+async function deriveAesKey(sharedSecret: Uint8Array, salt: Uint8Array): Promise<CryptoKey> {
+  const subtle = getSubtleCrypto()
+  const keyMaterial = await subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey'])
+  return subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: HKDF_INFO },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  let binary: string
+  try {
+    binary = atob(base64)
+  } catch {
+    throw new MalformedCiphertextError('Ciphertext is not valid base64')
+  }
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
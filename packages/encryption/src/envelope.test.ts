@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { base64ToBytes, bytesToBase64 } from './ecies'
+import { ENVELOPE_VERSION, PBKDF2_ITERATIONS, decodeEnvelope } from './envelope'
+import { AuthenticationFailedError, MalformedCiphertextError } from './errors'
+import { decrypt, encrypt } from './index'
+
+const PASSWORD = 'correct horse battery staple'
+const MESSAGE = 'Happy birthday, Ana!'
+
+// [magic: 4][version][algorithm][kdf][iterations: 4][salt length][salt: 16][iv length][iv: 12]
+const VERSION_OFFSET = 4
+const ITERATIONS_OFFSET = 7
+const SALT_OFFSET = 12
+const CIPHERTEXT_OFFSET = 41
+
+function flipByte(base64: string, index: number): string {
+  const bytes = base64ToBytes(base64)
+  bytes[index] ^= 0x01
+  return bytesToBase64(bytes)
+}
+
+/**
+ * A blob in the pre-envelope format: [salt: 16][iv: 12][ciphertext], PBKDF2 at 100,000 iterations
+ */
+async function encryptLegacy(data: string, password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const keyMaterial = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey'])
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: 100000, hash: 'SHA-256' },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt']
+  )
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(data)))
+
+  const blob = new Uint8Array(salt.length + iv.length + ciphertext.length)
+  blob.set(salt, 0)
+  blob.set(iv, salt.length)
+  blob.set(ciphertext, salt.length + iv.length)
+  return bytesToBase64(blob)
+}
+
+describe('password envelope', () => {
+  it('round-trips through a v1 envelope', async () => {
+    const encrypted = await encrypt(MESSAGE, PASSWORD)
+
+    const { header } = decodeEnvelope(base64ToBytes(encrypted))
+    expect(header.version).toBe(ENVELOPE_VERSION)
+    expect(header.algorithm).toBe('AES-256-GCM')
+    expect(header.kdf).toBe('PBKDF2-SHA256')
+    expect(header.iterations).toBe(100000)
+
+    await expect(decrypt(encrypted, PASSWORD)).resolves.toBe(MESSAGE)
+  })
+
+  it('still decrypts legacy blobs without an envelope', async () => {
+    const legacy = await encryptLegacy(MESSAGE, PASSWORD)
+
+    expect(decodeEnvelope(base64ToBytes(legacy)).header.version).toBe(0)
+    await expect(decrypt(legacy, PASSWORD)).resolves.toBe(MESSAGE)
+  })
+
+  it('rejects a wrong password', async () => {
+    const encrypted = await encrypt(MESSAGE, PASSWORD)
+
+    await expect(decrypt(encrypted, 'wrong password')).rejects.toBeInstanceOf(AuthenticationFailedError)
+  })
+
+  it('rejects a flipped ciphertext byte', async () => {
+    const encrypted = await encrypt(MESSAGE, PASSWORD)
+
+    await expect(decrypt(flipByte(encrypted, CIPHERTEXT_OFFSET), PASSWORD)).rejects.toBeInstanceOf(AuthenticationFailedError)
+  })
+
+  it('rejects a flipped header byte', async () => {
+    const encrypted = await encrypt(MESSAGE, PASSWORD)
+
+    await expect(decrypt(flipByte(encrypted, VERSION_OFFSET), PASSWORD)).rejects.toBeInstanceOf(MalformedCiphertextError)
+    await expect(decrypt(flipByte(encrypted, SALT_OFFSET), PASSWORD)).rejects.toBeInstanceOf(AuthenticationFailedError)
+  })
+
+  it('rejects a truncated envelope', async () => {
+    const bytes = base64ToBytes(await encrypt(MESSAGE, PASSWORD))
+
+    await expect(decrypt(bytesToBase64(bytes.slice(0, 30)), PASSWORD)).rejects.toBeInstanceOf(MalformedCiphertextError)
+  })
+
+  it('rejects a header asking for more than ten times the default iterations', async () => {
+    const bytes = base64ToBytes(await encrypt(MESSAGE, PASSWORD))
+    const iterations = new DataView(bytes.buffer, bytes.byteOffset + ITERATIONS_OFFSET, 4)
+
+    iterations.setUint32(0, PBKDF2_ITERATIONS * 10)
+    expect(decodeEnvelope(bytes).header.iterations).toBe(PBKDF2_ITERATIONS * 10)
+
+    iterations.setUint32(0, PBKDF2_ITERATIONS * 10 + 1)
+    expect(() => decodeEnvelope(bytes)).toThrow(MalformedCiphertextError)
+    await expect(decrypt(bytesToBase64(bytes), PASSWORD)).rejects.toBeInstanceOf(MalformedCiphertextError)
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * Versioned envelope for password-encrypted data
+ *
+ * The header records everything needed to decrypt, so parameters can change
+ * (more iterations, another cipher) without breaking blobs already stored.
+ *
+ * Layout:
+ *   [magic "BSEN": 4][version: 1][algorithm: 1][kdf: 1][iterations: uint32 BE]
+ *   [salt length: 1][salt][iv length: 1][iv][ciphertext + tag]
+ *
+ * Blobs written before the envelope existed are bare [salt: 16][iv: 12][ciphertext]
+ * with PBKDF2-SHA256 at 100,000 iterations; decodeEnvelope still reads them.
+ */
+
+import { MalformedCiphertextError } from './errors'
+
+export const ENVELOPE_VERSION = 1
+
+// PBKDF2 cost for new envelopes. decodeEnvelope refuses headers asking for
+// more than ten times this, so a forged blob can't stall the browser.
+export const PBKDF2_ITERATIONS = 100000
+const MAX_ITERATIONS = PBKDF2_ITERATIONS * 10
+
+export type EnvelopeAlgorithm = 'AES-256-GCM'
+export type EnvelopeKdf = 'PBKDF2-SHA256'
+
+export interface EnvelopeHeader {
+  version: number
+  algorithm: EnvelopeAlgorithm
+  kdf: EnvelopeKdf
+  iterations: number
+  salt: Uint8Array
+  iv: Uint8Array
+}
+
+const MAGIC = new Uint8Array([0x42, 0x53, 0x45, 0x4e]) // "BSEN"
+
+// Wire ids; never reuse a retired number
+const ALGORITHM_IDS: Record<EnvelopeAlgorithm, number> = { 'AES-256-GCM': 1 }
+const KDF_IDS: Record<EnvelopeKdf, number> = { 'PBKDF2-SHA256': 1 }
+
+const LEGACY_SALT_LENGTH = 16
+const LEGACY_IV_LENGTH = 12
+const LEGACY_ITERATIONS = 100000
+const GCM_TAG_LENGTH = 16
+
+/**
+ * Serialize a header and ciphertext into an envelope
+ */
+export function encodeEnvelope(header: EnvelopeHeader, ciphertext: Uint8Array): Uint8Array {
+  const length = MAGIC.length + 7 + 1 + header.salt.length + 1 + header.iv.length + ciphertext.length
+  const bytes = new Uint8Array(length)
+  const view = new DataView(bytes.buffer)
+
+  let offset = 0
+  bytes.set(MAGIC, offset)
+  offset += MAGIC.length
+  bytes[offset++] = header.version
+  bytes[offset++] = ALGORITHM_IDS[header.algorithm]
+  bytes[offset++] = KDF_IDS[header.kdf]
+  view.setUint32(offset, header.iterations)
+  offset += 4
+  bytes[offset++] = header.salt.length
+  bytes.set(header.salt, offset)
+  offset += header.salt.length
+  bytes[offset++] = header.iv.length
+  bytes.set(header.iv, offset)
+  offset += header.iv.length
+  bytes.set(ciphertext, offset)
+
+  return bytes
+}
+
+/**
+ * Parse an envelope (or a pre-envelope legacy blob) into header and ciphertext
+ */
+export function decodeEnvelope(bytes: Uint8Array): { header: EnvelopeHeader; ciphertext: Uint8Array } {
+  if (!hasMagic(bytes)) {
+    return decodeLegacy(bytes)
+  }
+
+  let offset = MAGIC.length
+
+  const read = (length: number): Uint8Array => {
+    if (offset + length > bytes.length) {
+      throw new MalformedCiphertextError('Envelope is truncated')
+    }
+    const slice = bytes.slice(offset, offset + length)
+    offset += length
+    return slice
+  }
+
+  const [version, algorithmId, kdfId] = read(3)
+  if (version !== ENVELOPE_VERSION) {
+    throw new MalformedCiphertextError(`Unsupported envelope version: ${version}`)
+  }
+
+  const algorithm = lookup(ALGORITHM_IDS, algorithmId)
+  if (!algorithm) {
+    throw new MalformedCiphertextError(`Unsupported algorithm id: ${algorithmId}`)
+  }
+
+  const kdf = lookup(KDF_IDS, kdfId)
+  if (!kdf) {
+    throw new MalformedCiphertextError(`Unsupported KDF id: ${kdfId}`)
+  }
+
+  const iterations = new DataView(read(4).buffer).getUint32(0)
+  if (iterations === 0) {
+    throw new MalformedCiphertextError('Envelope has zero KDF iterations')
+  }
+  if (iterations > MAX_ITERATIONS) {
+    throw new MalformedCiphertextError(`Envelope asks for too many KDF iterations: ${iterations}`)
+  }
+
+  const salt = read(read(1)[0])
+  const iv = read(read(1)[0])
+  const ciphertext = bytes.slice(offset)
+  if (ciphertext.length < GCM_TAG_LENGTH) {
+    throw new MalformedCiphertextError('Envelope is truncated')
+  }
+
+  return { header: { version, algorithm, kdf, iterations, salt, iv }, ciphertext }
+}
+
+function decodeLegacy(bytes: Uint8Array): { header: EnvelopeHeader; ciphertext: Uint8Array } {
+  if (bytes.length < LEGACY_SALT_LENGTH + LEGACY_IV_LENGTH + GCM_TAG_LENGTH) {
+    throw new MalformedCiphertextError('Ciphertext is too short')
+  }
+
+  return {
+    header: {
+      version: 0,
+      algorithm: 'AES-256-GCM',
+      kdf: 'PBKDF2-SHA256',
+      iterations: LEGACY_ITERATIONS,
+      salt: bytes.slice(0, LEGACY_SALT_LENGTH),
+      iv: bytes.slice(LEGACY_SALT_LENGTH, LEGACY_SALT_LENGTH + LEGACY_IV_LENGTH),
+    },
+    ciphertext: bytes.slice(LEGACY_SALT_LENGTH + LEGACY_IV_LENGTH),
+  }
+}
+
+function hasMagic(bytes: Uint8Array): boolean {
+  return bytes.length >= MAGIC.length && MAGIC.every((byte, i) => bytes[i] === byte)
+}
+
+function lookup<T extends string>(ids: Record<T, number>, id: number): T | undefined {
+  return (Object.keys(ids) as T[]).find((name) => ids[name] === id)
+}
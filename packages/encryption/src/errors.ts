@@ -0,0 +1,82 @@
+/**
+ * Typed encryption errors
+ *
+ * Encryption never degrades to encoding: when something is wrong one of these
+ * is thrown instead of returning data that only looks encrypted.
+ */
+
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EncryptionError'
+  }
+}
+
+/**
+ * Web Crypto is missing from this runtime (e.g. an insecure browser context)
+ */
+export class EncryptionUnavailableError extends EncryptionError {
+  constructor(message: string = 'Web Crypto API is not available in this environment') {
+    super(message)
+    this.name = 'EncryptionUnavailableError'
+  }
+}
+
+/**
+ * AES-GCM tag check failed: wrong key/password or the ciphertext was tampered with
+ */
+export class AuthenticationFailedError extends EncryptionError {
+  constructor(message: string = 'Decryption failed: wrong key or tampered ciphertext') {
+    super(message)
+    this.name = 'AuthenticationFailedError'
+  }
+}
+
+/**
+ * Ciphertext can't be parsed (bad base64, truncated, unknown version or algorithm)
+ */
+export class MalformedCiphertextError extends EncryptionError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MalformedCiphertextError'
+  }
+}
+
+/**
+ * Web Crypto's SubtleCrypto, or EncryptionUnavailableError if there is none
+ */
+export function getSubtleCrypto(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle
+  if (!subtle) {
+    throw new EncryptionUnavailableError()
+  }
+  return subtle
+}
+
+/**
+ * Cryptographically secure random bytes, or EncryptionUnavailableError
+ */
+export function getRandomBytes(length: number): Uint8Array {
+  if (!globalThis.crypto?.getRandomValues) {
+    throw new EncryptionUnavailableError()
+  }
+  return globalThis.crypto.getRandomValues(new Uint8Array(length))
+}
+
+/**
+ * Run an AES-GCM decrypt, reporting tag failures as AuthenticationFailedError
+ */
+export async function authenticatedDecrypt(
+  key: CryptoKey,
+  iv: Uint8Array,
+  data: Uint8Array,
+  additionalData?: Uint8Array
+): Promise<Uint8Array> {
+  const params: AesGcmParams = additionalData ? { name: 'AES-GCM', iv, additionalData } : { name: 'AES-GCM', iv }
+  try {
+    return new Uint8Array(await getSubtleCrypto().decrypt(params, key, data))
+  } catch (error) {
+    if (error instanceof EncryptionError) throw error
+    throw new AuthenticationFailedError()
+  }
+}
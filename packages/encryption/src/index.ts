@@ -5,195 +5,161 @@
  * Compatible with ArDrive's encryption standards
  */
 
-// Order data type
-interface OrderData {
-  type: 'birthday' | 'natal'
-  recipientName: string
-  birthDate?: string
-  birthTime?: string
-  birthLocation?: string
-  relationship?: string
-  interests?: string
-  sunSign?: string
-  risingSign?: string
-  moonSign?: string
-  musicalStyle?: string
-  message?: string
-  orderedBy: string
-  orderedAt: string
-  tokenId?: number
-}
+import type { OrderData } from '@birthday-songs/shared'
+import { base64ToBytes, bytesToBase64, eciesDecrypt, eciesEncrypt } from './ecies'
+import { ENVELOPE_VERSION, PBKDF2_ITERATIONS, decodeEnvelope, encodeEnvelope } from './envelope'
+import { authenticatedDecrypt, getRandomBytes, getSubtleCrypto } from './errors'
+import { decryptSong, encryptSong } from './stream'
+
+export {
+  CREATOR_KEY_MESSAGE,
+  base64ToBytes,
+  bytesToBase64,
+  deriveCreatorKeyPair,
+  deriveKeyPair,
+  eciesDecrypt,
+  eciesEncrypt,
+  type KeyPair
+} from './ecies'
+
+export {
+  AuthenticationFailedError,
+  EncryptionError,
+  EncryptionUnavailableError,
+  MalformedCiphertextError
+} from './errors'
+
+export {
+  ENVELOPE_VERSION,
+  decodeEnvelope,
+  encodeEnvelope,
+  type EnvelopeAlgorithm,
+  type EnvelopeHeader,
+  type EnvelopeKdf
+} from './envelope'
+
+export {
+  HOLDER_KEY_MESSAGE,
+  deriveHolderKeyPair,
+  generateSongKey,
+  unwrapSongKey,
+  wrapSongKey
+} from './song-keys'
+
+export {
+  DEFAULT_CHUNK_SIZE,
+  STREAM_VERSION,
+  createDecryptStream,
+  createEncryptStream,
+  decryptSong,
+  encryptSong,
+  encryptedSongLength
+} from './stream'
+
+// Parameters for new password envelopes; old blobs carry their own in the header
+const SALT_LENGTH = 16
+const IV_LENGTH = 12
 
 /**
- * Encrypt data using AES-256-GCM with PBKDF2 key derivation
+ * Encrypt data using AES-256-GCM with PBKDF2 key derivation.
+ * Throws EncryptionUnavailableError rather than ever returning plaintext.
  */
 export async function encrypt(data: string, password: string): Promise<string> {
-  if (typeof window === 'undefined' && typeof crypto === 'undefined') {
-    // Fallback for testing environments
-    return btoa(data)
-  }
+  const subtle = getSubtleCrypto()
   
-  try {
-    const encoder = new TextEncoder()
-    const dataBuffer = encoder.encode(data)
-    
-    // Derive key from password using PBKDF2
-    const keyMaterial = await crypto.subtle.importKey(
-      'raw',
-      encoder.encode(password),
-      { name: 'PBKDF2' },
-      false,
-      ['deriveBits', 'deriveKey']
-    )
-    
-    const salt = crypto.getRandomValues(new Uint8Array(16))
-    const key = await crypto.subtle.deriveKey(
-      {
-        name: 'PBKDF2',
-        salt,
-        iterations: 100000,
-        hash: 'SHA-256'
-      },
-      keyMaterial,
-      { name: 'AES-GCM', length: 256 },
-      true,
-      ['encrypt', 'decrypt']
-    )
-    
-    // Encrypt data
-    const iv = crypto.getRandomValues(new Uint8Array(12))
-    const encrypted = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
-      key,
-      dataBuffer
-    )
-    
-    // Combine salt, iv, and encrypted data
-    const combined = new Uint8Array(salt.length + iv.length + encrypted.byteLength)
-    combined.set(salt, 0)
-    combined.set(iv, salt.length)
-    combined.set(new Uint8Array(encrypted), salt.length + iv.length)
-    
-    return btoa(String.fromCharCode(...combined))
-  } catch (error) {
-    console.error('Encryption failed:', error)
-    // Fallback for testing
-    return btoa(data)
-  }
+  const salt = getRandomBytes(SALT_LENGTH)
+  const iv = getRandomBytes(IV_LENGTH)
+  const key = await derivePasswordKey(password, salt, PBKDF2_ITERATIONS)
+  
+  const encrypted = await subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(data)
+  )
+  
+  const envelope = encodeEnvelope(
+    {
+      version: ENVELOPE_VERSION,
+      algorithm: 'AES-256-GCM',
+      kdf: 'PBKDF2-SHA256',
+      iterations: PBKDF2_ITERATIONS,
+      salt,
+      iv
+    },
+    new Uint8Array(encrypted)
+  )
+  
+  return bytesToBase64(envelope)
 }
 
 /**
- * Decrypt data using AES-256-GCM with PBKDF2 key derivation
+ * Decrypt data encrypted with encrypt() (any envelope version, or legacy blobs).
+ * Throws MalformedCiphertextError or AuthenticationFailedError on bad input.
  */
 export async function decrypt(encryptedData: string, password: string): Promise<string> {
-  if (typeof window === 'undefined' && typeof crypto === 'undefined') {
-    // Fallback for testing environments
-    try {
-      return atob(encryptedData)
-    } catch {
-      return encryptedData
-    }
-  }
+  const { header, ciphertext } = decodeEnvelope(base64ToBytes(encryptedData))
   
-  try {
-    const combined = new Uint8Array(
-      atob(encryptedData).split('').map(c => c.charCodeAt(0))
-    )
-    
-    const salt = combined.slice(0, 16)
-    const iv = combined.slice(16, 28)
-    const data = combined.slice(28)
-    
-    // Derive key from password
-    const encoder = new TextEncoder()
-    const keyMaterial = await crypto.subtle.importKey(
-      'raw',
-      encoder.encode(password),
-      { name: 'PBKDF2' },
-      false,
-      ['deriveBits', 'deriveKey']
-    )
-    
-    const key = await crypto.subtle.deriveKey(
-      {
-        name: 'PBKDF2',
-        salt,
-        iterations: 100000,
-        hash: 'SHA-256'
-      },
-      keyMaterial,
-      { name: 'AES-GCM', length: 256 },
-      true,
-      ['encrypt', 'decrypt']
-    )
-    
-    // Decrypt data
-    const decrypted = await crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv },
-      key,
-      data
-    )
-    
-    return new TextDecoder().decode(decrypted)
-  } catch (error) {
-    console.error('Decryption failed:', error)
-    // Fallback for testing
-    try {
-      return atob(encryptedData)
-    } catch {
-      return encryptedData
-    }
-  }
+  const key = await derivePasswordKey(password, header.salt, header.iterations)
+  const decrypted = await authenticatedDecrypt(key, header.iv, ciphertext)
+  
+  return new TextDecoder().decode(decrypted)
+}
+
+async function derivePasswordKey(password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const subtle = getSubtleCrypto()
+  
+  const keyMaterial = await subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    { name: 'PBKDF2' },
+    false,
+    ['deriveKey']
+  )
+  
+  return subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      salt,
+      iterations,
+      hash: 'SHA-256'
+    },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
 }
 
 /**
- * Encrypt order data for creator access only
+ * Encrypt order data to the creator's published public key
  */
-export async function encryptOrderData(orderData: OrderData, creatorPassword: string): Promise<string> {
-  const orderJson = JSON.stringify(orderData)
-  return encrypt(orderJson, creatorPassword)
+export async function encryptOrderData(orderData: OrderData, creatorPublicKey: string): Promise<string> {
+  const orderJson = new TextEncoder().encode(JSON.stringify(orderData))
+  return eciesEncrypt(orderJson, creatorPublicKey)
 }
 
 /**
  * Decrypt order data (creator only)
  */
-export async function decryptOrderData(encryptedData: string, creatorPassword: string): Promise<OrderData> {
-  const decryptedJson = await decrypt(encryptedData, creatorPassword)
-  return JSON.parse(decryptedJson)
+export async function decryptOrderData(encryptedData: string, creatorPrivateKey: string): Promise<OrderData> {
+  const orderJson = await eciesDecrypt(encryptedData, creatorPrivateKey)
+  return JSON.parse(new TextDecoder().decode(orderJson))
 }
 
 /**
- * Encrypt song data with NFT-specific key
+ * Encrypt base64 song data with its per-token song key.
+ * Only for small payloads - real songs go through createEncryptStream.
  */
 export async function encryptSongData(songBase64: string, songKey: string): Promise<string> {
-  return encrypt(songBase64, songKey)
+  return bytesToBase64(await encryptSong(base64ToBytes(songBase64), songKey))
 }
 
 /**
- * Decrypt song data (creator or NFT holder)
+ * Decrypt base64 song data (creator or NFT holder, after unwrapping the song key).
+ * Only for small payloads - real songs go through createDecryptStream.
  */
 export async function decryptSongData(encryptedData: string, songKey: string): Promise<string> {
-  return decrypt(encryptedData, songKey)
-}
-
-/**
- * Generate song access key for NFT holder
- */
-export function generateSongAccessKey(tokenId: number, songKey: string): string {
-  const accessData = JSON.stringify({ tokenId, songKey })
-  return btoa(accessData)
-}
-
-/**
- * Parse song access key from NFT metadata
- */
-export function parseSongAccessKey(accessKey: string): { tokenId: number; songKey: string } {
-  try {
-    const decoded = atob(accessKey)
-    return JSON.parse(decoded)
-  } catch {
-    throw new Error('Invalid access key format')
-  }
+  return bytesToBase64(await decryptSong(base64ToBytes(encryptedData), songKey))
 }
 
 /**
@@ -216,20 +182,13 @@ export function fileToBase64(file: File): Promise<string> {
  * Convert base64 to blob for download
  */
 export function base64ToBlob(base64: string, mimeType: string = 'audio/mpeg'): Blob {
-  const byteCharacters = atob(base64)
-  const byteNumbers = new Array(byteCharacters.length)
-  for (let i = 0; i < byteCharacters.length; i++) {
-    byteNumbers[i] = byteCharacters.charCodeAt(i)
-  }
-  const byteArray = new Uint8Array(byteNumbers)
-  return new Blob([byteArray], { type: mimeType })
+  return new Blob([base64ToBytes(base64)], { type: mimeType })
 }
 
 /**
  * Trigger download of decrypted song
  */
-export function downloadSong(base64: string, filename: string = 'birthday-song.mp3'): void {
-  const blob = base64ToBlob(base64)
+export function downloadSong(blob: Blob, filename: string = 'birthday-song.mp3'): void {
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
   a.href = url
@@ -0,0 +1,52 @@
+/**
+ * Per-token song keys for Birthday Songs
+ *
+ * Every song is encrypted (see stream.ts) with its own random AES-256-GCM
+ * content key. The content key is never stored in the clear: it is wrapped
+ * (ECIES) for the creator, for the API's key escrow and for whoever currently
+ * holds the NFT. The escrow copy is what lets the API rewrap the key when the
+ * NFT moves.
+ */
+
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils'
+import { deriveKeyPair, eciesDecrypt, eciesEncrypt, type KeyPair } from './ecies'
+import { getRandomBytes } from './errors'
+
+const SONG_KEY_LENGTH = 32
+
+/**
+ * Message an NFT holder signs to derive the key their songs are wrapped for.
+ * Changing it changes every holder's key, so existing wraps would be lost.
+ */
+export const HOLDER_KEY_MESSAGE =
+  'Birthday Songs listening key\n\n' +
+  'Signing this message lets this device unlock the songs you own. ' +
+  'Only sign it on the Birthday Songs site.'
+
+/**
+ * Derive a holder keypair from their signature over HOLDER_KEY_MESSAGE
+ */
+export function deriveHolderKeyPair(signature: string): KeyPair {
+  return deriveKeyPair(hexToBytes(signature.replace(/^0x/, '')))
+}
+
+/**
+ * Generate a random content key for one token's song (hex, no 0x prefix)
+ */
+export function generateSongKey(): string {
+  return bytesToHex(getRandomBytes(SONG_KEY_LENGTH))
+}
+
+/**
+ * Wrap a song key for a recipient's public key
+ */
+export async function wrapSongKey(songKey: string, recipientPublicKey: string): Promise<string> {
+  return eciesEncrypt(hexToBytes(songKey), recipientPublicKey)
+}
+
+/**
+ * Unwrap a song key with the recipient's private key
+ */
+export async function unwrapSongKey(wrappedKey: string, privateKey: string): Promise<string> {
+  return bytesToHex(await eciesDecrypt(wrappedKey, privateKey))
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { AuthenticationFailedError, MalformedCiphertextError } from './errors'
+import { generateSongKey } from './song-keys'
+import { createEncryptStream, decryptSong, encryptSong, encryptedSongLength } from './stream'
+
+const CHUNK_SIZE = 16
+const HEADER_LENGTH = 16
+const SEALED_CHUNK_SIZE = CHUNK_SIZE + 16
+
+const songKey = generateSongKey()
+// Two full chunks and a partial final one
+const song = Uint8Array.from({ length: 40 }, (_, i) => i)
+
+async function encryptChunked(bytes: Uint8Array, pieces: number[] = [bytes.length]): Promise<Uint8Array> {
+  let offset = 0
+  const input = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const size of pieces) {
+        controller.enqueue(bytes.slice(offset, offset + size))
+        offset += size
+      }
+      controller.close()
+    },
+  })
+  const output = input.pipeThrough(createEncryptStream(songKey, CHUNK_SIZE))
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+function chunk(ciphertext: Uint8Array, index: number): Uint8Array {
+  const start = HEADER_LENGTH + index * SEALED_CHUNK_SIZE
+  return ciphertext.slice(start, start + SEALED_CHUNK_SIZE)
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+describe('song stream', () => {
+  it('round-trips in memory', async () => {
+    const ciphertext = await encryptSong(song, songKey)
+
+    await expect(decryptSong(ciphertext, songKey)).resolves.toEqual(song)
+  })
+
+  it('round-trips across chunks whatever the input pieces', async () => {
+    const ciphertext = await encryptChunked(song, [5, 20, 1, 14])
+
+    expect(ciphertext.length).toBe(HEADER_LENGTH + 2 * SEALED_CHUNK_SIZE + 8 + 16)
+    await expect(decryptSong(ciphertext, songKey)).resolves.toEqual(song)
+  })
+
+  it('predicts the encrypted length', async () => {
+    for (const length of [0, 1, CHUNK_SIZE, CHUNK_SIZE + 1, 2 * CHUNK_SIZE, 40]) {
+      const ciphertext = await encryptChunked(song.slice(0, length))
+      expect(encryptedSongLength(length, CHUNK_SIZE)).toBe(ciphertext.length)
+    }
+  })
+
+  it('fails with the wrong song key', async () => {
+    const ciphertext = await encryptChunked(song)
+
+    await expect(decryptSong(ciphertext, generateSongKey())).rejects.toBeInstanceOf(AuthenticationFailedError)
+  })
+
+  it('rejects reordered chunks', async () => {
+    const ciphertext = await encryptChunked(song)
+    const header = ciphertext.slice(0, HEADER_LENGTH)
+    const final = ciphertext.slice(HEADER_LENGTH + 2 * SEALED_CHUNK_SIZE)
+
+    const reordered = concat(header, chunk(ciphertext, 1), chunk(ciphertext, 0), final)
+    await expect(decryptSong(reordered, songKey)).rejects.toBeInstanceOf(AuthenticationFailedError)
+  })
+
+  it('rejects a stream missing its final chunk', async () => {
+    const ciphertext = await encryptChunked(song)
+
+    const withoutFinal = ciphertext.slice(0, HEADER_LENGTH + 2 * SEALED_CHUNK_SIZE)
+    await expect(decryptSong(withoutFinal, songKey)).rejects.toBeInstanceOf(AuthenticationFailedError)
+  })
+
+  it('rejects a truncated final chunk', async () => {
+    const ciphertext = await encryptChunked(song)
+
+    await expect(decryptSong(ciphertext.slice(0, -1), songKey)).rejects.toBeInstanceOf(AuthenticationFailedError)
+    await expect(decryptSong(ciphertext.slice(0, -20), songKey)).rejects.toBeInstanceOf(MalformedCiphertextError)
+  })
+
+  it('rejects a flipped ciphertext byte', async () => {
+    const ciphertext = await encryptChunked(song)
+    ciphertext[HEADER_LENGTH + SEALED_CHUNK_SIZE + 3] ^= 0x01
+
+    await expect(decryptSong(ciphertext, songKey)).rejects.toBeInstanceOf(AuthenticationFailedError)
+  })
+
+  it('rejects a flipped header byte', async () => {
+    const ciphertext = await encryptChunked(song)
+
+    // Nonce prefix: authenticated with every chunk
+    const nonce = ciphertext.slice()
+    nonce[HEADER_LENGTH - 1] ^= 0x01
+    await expect(decryptSong(nonce, songKey)).rejects.toBeInstanceOf(AuthenticationFailedError)
+
+    // Magic: not a song stream at all
+    const magic = ciphertext.slice()
+    magic[0] ^= 0x01
+    await expect(decryptSong(magic, songKey)).rejects.toBeInstanceOf(MalformedCiphertextError)
+  })
+})
@@ -0,0 +1,238 @@
+/**
+ * Streaming song encryption for Birthday Songs
+ *
+ * Songs are encrypted in fixed-size chunks so neither the browser nor the
+ * worker ever has to hold a whole (possibly studio-quality WAV) file in memory.
+ * Each chunk is sealed with AES-256-GCM under the per-token song key.
+ *
+ * Stream layout:
+ *   header: [magic "BSST": 4][version: 1][chunk size: uint32 BE][nonce prefix: 7]
+ *   chunks: [AES-GCM ciphertext + tag] x N, each chunkSize + 16 bytes except the last
+ *
+ * Chunk nonces are [nonce prefix: 7][chunk index: uint32 BE][final flag: 1] and
+ * the header is authenticated with every chunk, so chunks can't be reordered,
+ * dropped or swapped between songs, and a truncated stream fails to decrypt.
+ */
+
+import { hexToBytes } from '@noble/hashes/utils'
+import { MalformedCiphertextError, authenticatedDecrypt, getRandomBytes, getSubtleCrypto } from './errors'
+
+export const STREAM_VERSION = 1
+export const DEFAULT_CHUNK_SIZE = 64 * 1024
+
+const MAGIC = new Uint8Array([0x42, 0x53, 0x53, 0x54]) // "BSST"
+const NONCE_PREFIX_LENGTH = 7
+const HEADER_LENGTH = MAGIC.length + 1 + 4 + NONCE_PREFIX_LENGTH
+const GCM_TAG_LENGTH = 16
+// Refuse headers that would make us buffer absurd chunks
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024
+// Chunk index is a uint32 in the nonce
+const MAX_CHUNKS = 0xffffffff
+
+/**
+ * TransformStream that encrypts plaintext bytes into the chunked stream format
+ */
+export function createEncryptStream(
+  songKey: string,
+  chunkSize: number = DEFAULT_CHUNK_SIZE
+): TransformStream<Uint8Array, Uint8Array> {
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new RangeError(`Chunk size must be between 1 and ${MAX_CHUNK_SIZE} bytes`)
+  }
+
+  const header = new Uint8Array(HEADER_LENGTH)
+  header.set(MAGIC, 0)
+  header[MAGIC.length] = STREAM_VERSION
+  new DataView(header.buffer).setUint32(MAGIC.length + 1, chunkSize)
+  header.set(getRandomBytes(NONCE_PREFIX_LENGTH), MAGIC.length + 5)
+
+  const keyPromise = importSongKey(songKey)
+  const pending = new ByteQueue()
+  let index = 0
+
+  const seal = async (plaintext: Uint8Array, final: boolean): Promise<Uint8Array> => {
+    if (index >= MAX_CHUNKS) {
+      throw new RangeError('Song is too large for this chunk size')
+    }
+    const iv = chunkNonce(header, index++, final)
+    const sealed = await getSubtleCrypto().encrypt(
+      { name: 'AES-GCM', iv, additionalData: header },
+      await keyPromise,
+      plaintext
+    )
+    return new Uint8Array(sealed)
+  }
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async start(controller) {
+      await keyPromise
+      controller.enqueue(header)
+    },
+    async transform(bytes, controller) {
+      pending.push(bytes)
+      // Hold back the last full chunk: only flush() knows which one is final
+      while (pending.length > chunkSize) {
+        controller.enqueue(await seal(pending.take(chunkSize), false))
+      }
+    },
+    async flush(controller) {
+      controller.enqueue(await seal(pending.take(pending.length), true))
+    },
+  })
+}
+
+/**
+ * TransformStream that decrypts the chunked stream format back to plaintext.
+ * Errors with AuthenticationFailedError on a wrong key, tampering or truncation.
+ */
+export function createDecryptStream(songKey: string): TransformStream<Uint8Array, Uint8Array> {
+  const keyPromise = importSongKey(songKey)
+  const pending = new ByteQueue()
+  let header: Uint8Array | null = null
+  let sealedChunkSize = 0
+  let index = 0
+
+  const open = async (sealed: Uint8Array, final: boolean): Promise<Uint8Array> => {
+    const iv = chunkNonce(header!, index++, final)
+    return authenticatedDecrypt(await keyPromise, iv, sealed, header!)
+  }
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async start() {
+      await keyPromise
+    },
+    async transform(bytes, controller) {
+      pending.push(bytes)
+
+      if (!header) {
+        if (pending.length < HEADER_LENGTH) return
+        header = pending.take(HEADER_LENGTH)
+        sealedChunkSize = parseHeader(header) + GCM_TAG_LENGTH
+      }
+
+      while (pending.length > sealedChunkSize) {
+        controller.enqueue(await open(pending.take(sealedChunkSize), false))
+      }
+    },
+    async flush(controller) {
+      if (!header) {
+        throw new MalformedCiphertextError('Song stream is missing its header')
+      }
+      if (pending.length < GCM_TAG_LENGTH) {
+        throw new MalformedCiphertextError('Song stream is truncated')
+      }
+      controller.enqueue(await open(pending.take(pending.length), true))
+    },
+  })
+}
+
+/**
+ * Byte length of a song once encrypted, known before encrypting it, so a
+ * streamed upload can still declare its size
+ */
+export function encryptedSongLength(songLength: number, chunkSize: number = DEFAULT_CHUNK_SIZE): number {
+  const chunks = Math.max(1, Math.ceil(songLength / chunkSize))
+  return HEADER_LENGTH + songLength + chunks * GCM_TAG_LENGTH
+}
+
+/**
+ * Encrypt song bytes held in memory (small files; prefer createEncryptStream)
+ */
+export async function encryptSong(song: Uint8Array, songKey: string): Promise<Uint8Array> {
+  return readAll(streamOf(song).pipeThrough(createEncryptStream(songKey)))
+}
+
+/**
+ * Decrypt song bytes held in memory (small files; prefer createDecryptStream)
+ */
+export async function decryptSong(ciphertext: Uint8Array, songKey: string): Promise<Uint8Array> {
+  return readAll(streamOf(ciphertext).pipeThrough(createDecryptStream(songKey)))
+}
+
+async function importSongKey(songKey: string): Promise<CryptoKey> {
+  if (!/^[0-9a-f]{64}$/i.test(songKey)) {
+    throw new MalformedCiphertextError('Song key must be 32 bytes of hex')
+  }
+  return getSubtleCrypto().importKey('raw', hexToBytes(songKey), 'AES-GCM', false, ['encrypt', 'decrypt'])
+}
+
+function parseHeader(header: Uint8Array): number {
+  if (!MAGIC.every((byte, i) => header[i] === byte)) {
+    throw new MalformedCiphertextError('Not a Birthday Songs song stream')
+  }
+  const version = header[MAGIC.length]
+  if (version !== STREAM_VERSION) {
+    throw new MalformedCiphertextError(`Unsupported song stream version: ${version}`)
+  }
+  const chunkSize = new DataView(header.buffer, header.byteOffset).getUint32(MAGIC.length + 1)
+  if (chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new MalformedCiphertextError(`Invalid song stream chunk size: ${chunkSize}`)
+  }
+  return chunkSize
+}
+
+function chunkNonce(header: Uint8Array, index: number, final: boolean): Uint8Array {
+  const nonce = new Uint8Array(NONCE_PREFIX_LENGTH + 5)
+  nonce.set(header.subarray(MAGIC.length + 5, HEADER_LENGTH), 0)
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, index)
+  nonce[NONCE_PREFIX_LENGTH + 4] = final ? 1 : 0
+  return nonce
+}
+
+function streamOf(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(bytes)
+      controller.close()
+    },
+  })
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const queue = new ByteQueue()
+  const reader = stream.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    queue.push(value)
+  }
+  return queue.take(queue.length)
+}
+
+/**
+ * FIFO of incoming byte chunks, read back out in sizes of our choosing
+ */
+class ByteQueue {
+  private chunks: Uint8Array[] = []
+  private offset = 0
+  length = 0
+
+  push(bytes: Uint8Array): void {
+    if (bytes.length === 0) return
+    this.chunks.push(bytes)
+    this.length += bytes.length
+  }
+
+  take(count: number): Uint8Array {
+    const out = new Uint8Array(count)
+    let written = 0
+
+    while (written < count) {
+      const head = this.chunks[0]
+      const available = head.length - this.offset
+      const n = Math.min(available, count - written)
+      out.set(head.subarray(this.offset, this.offset + n), written)
+      written += n
+
+      if (n === available) {
+        this.chunks.shift()
+        this.offset = 0
+      } else {
+        this.offset += n
+      }
+    }
+
+    this.length -= count
+    return out
+  }
+}
@@ -4,7 +4,9 @@
 
 // Order data structure
 export interface OrderData {
-  type: 'birthday' | 'natal'
+  // On-chain tier id, and its name when the order was placed
+  tierId: number
+  tierName: string
   recipientName: string
   birthDate?: string
   birthTime?: string
@@ -16,11 +18,30 @@ export interface OrderData {
   moonSign?: string
   musicalStyle?: string
   message?: string
+  // Set for gifts: the wallet the NFT is minted to, and how it was found
+  recipientAddress?: string
+  recipientFarcaster?: string
+  // Day the song should arrive (YYYY-MM-DD), and whether to hold it until then
+  deliveryDate?: string
+  revealOnDelivery?: boolean
   orderedBy: string
   orderedAt: string
+  allowPublication: boolean
   tokenId?: number
 }
 
+// Non-sensitive order fields the API stores in plaintext for indexing.
+// Everything else stays inside the creator-encrypted blob.
+export interface OrderIndexMetadata {
+  tierId: OrderData['tierId']
+  orderedBy: string
+  orderedAt: string
+  allowPublication: boolean
+  // OrderData's deliveryDate, for urgency and held reveals
+  deliverBy?: OrderData['deliveryDate']
+  revealOnDelivery?: OrderData['revealOnDelivery']
+}
+
 // Order status in database
 export interface Order {
   id: string
@@ -56,24 +77,27 @@ export interface BalanceResponse {
   status: string
 }
 
-// Song tiers
-export enum SongType {
-  BIRTHDAY = 0,
-  NATAL = 1
+// Song tiers are owner-managed records in the contract (getTiers); a tier's id
+// is its index. The launch tiers are 0 (Birthday Song) and 1 (Natal Chart Song).
+export interface SongTierStyle {
+  emoji: string
+  colorFrom: string
+  colorTo: string
+  description: string
 }
 
-export const PRICES = {
-  [SongType.BIRTHDAY]: 25,   // $25 USDC
-  [SongType.NATAL]: 250      // $250 USDC
-} as const
-
-// Limited Edition Supply Caps
-export const SUPPLY_LIMITS = {
-  [SongType.BIRTHDAY]: 25,  // Birthday Song - Venezuelan or English
-  [SongType.NATAL]: 25,     // Natal Chart Song
-} as const
-
-export const TOTAL_SUPPLY = SUPPLY_LIMITS[SongType.BIRTHDAY] + SUPPLY_LIMITS[SongType.NATAL] // 50 total
+export interface SongTier {
+  id: number
+  name: string
+  // USDC (6 decimals)
+  price: bigint
+  supplyLimit: number
+  minted: number
+  active: boolean
+  // The order form asks for birth time and place
+  birthChart: boolean
+  style: SongTierStyle
+}
 
 // Contract addresses (Base mainnet)
 export const CONTRACT_ADDRESSES = {
@@ -85,7 +109,6 @@ export const CONTRACT_ADDRESSES = {
 // Configuration
 export const CONFIG = {
   DRIVE_ID: 'birthday-songs-drive',
-  DRIVE_PASSWORD: 'jose-birthday-songs-2025',
   PLATFORM_FEE: '0.0001', // ETH
   CHAIN_ID: 8453, // Base mainnet
 } as const
@@ -106,10 +129,6 @@ export function generateOrderId(tokenId: number): string {
   return `order-${tokenId}-${Date.now()}`
 }
 
-export function generateSongKey(tokenId: number): string {
-  return `song-${tokenId}-${Date.now()}`
-}
-
 // API endpoints
 export const API_ENDPOINTS = {
   BALANCE: '/api/balance',
@@ -118,7 +137,10 @@ export const API_ENDPOINTS = {
   UPLOAD_SONG: '/api/songs/upload',
   GET_ORDER: '/api/orders',
   GET_SONG: '/api/songs',
-  LIST_ORDERS: '/api/orders'
+  LIST_ORDERS: '/api/orders',
+  CREATOR_KEY: '/api/settings/creator-key',
+  ESCROW_KEY: '/api/settings/escrow-key',
+  HOLDER_KEY: '/api/keys/holder'
 } as const
 
 // Error messages